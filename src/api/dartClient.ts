@@ -297,6 +297,8 @@ export class DartClient {
     if (input.duplicate_ids !== undefined) apiInput.duplicateIds = input.duplicate_ids;
     if (input.related_ids !== undefined) apiInput.relatedIds = input.related_ids;
 
+    if (input.custom_properties !== undefined) apiInput.customProperties = input.custom_properties;
+
     // Wrap in item object as required by API
     const response = await this.request<{ item: any }>('POST', '/tasks', { item: apiInput });
     return this.mapTaskResponse(response.item);
@@ -364,6 +366,7 @@ export class DartClient {
       blocking_ids: relationships.blockingIds ?? task.blockingIds ?? task.blocking_ids ?? [],
       duplicate_ids: relationships.duplicateIds ?? task.duplicateIds ?? task.duplicate_ids ?? [],
       related_ids: relationships.relatedIds ?? task.relatedIds ?? task.related_ids ?? [],
+      custom_properties: task.customProperties ?? task.custom_properties,
     };
   }
 
@@ -414,6 +417,8 @@ export class DartClient {
     if (updates.duplicate_ids !== undefined) apiUpdates.duplicateIds = updates.duplicate_ids;
     if (updates.related_ids !== undefined) apiUpdates.relatedIds = updates.related_ids;
 
+    if (updates.custom_properties !== undefined) apiUpdates.customProperties = updates.custom_properties;
+
     // Wrap updates in item object as required by API
     const response = await this.request<{ item: any }>('PUT', `/tasks/${encodeURIComponent(dart_id.trim())}`, { item: apiUpdates });
     return this.mapTaskResponse(response.item);
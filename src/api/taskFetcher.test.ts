@@ -0,0 +1,189 @@
+/**
+ * Task Fetcher Tests
+ *
+ * Tests for paging, OR/IN fan-out merging, set operations, the scan safety
+ * limit and related-task fetching for relationship predicates
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { fetchMatchingTasks, createTaskBatchFetcher } from './taskFetcher.js';
+import { convertToFilters, parseDartQLToAST } from '../parsers/dartql.js';
+import { DartAPIError } from '../types/index.js';
+import type { DartTask, ListTasksInput } from '../types/index.js';
+
+function task(id: string, fields: Partial<DartTask> = {}): DartTask {
+  return { dart_id: id, title: id, ...fields } as DartTask;
+}
+
+describe('fetchMatchingTasks', () => {
+  it('should page through a single API query', async () => {
+    const all = Array.from({ length: 600 }, (_, i) => task(`t${i}`));
+    const listTasks = vi.fn(async (input?: ListTasksInput) => ({
+      tasks: all.slice(input!.offset!, input!.offset! + input!.limit!),
+      total: all.length,
+    }));
+
+    const result = await fetchMatchingTasks({ listTasks }, { apiFilters: { status: 'Todo' } });
+
+    expect(listTasks).toHaveBeenCalledTimes(2);
+    expect(listTasks).toHaveBeenNthCalledWith(2, { status: 'Todo', limit: 500, offset: 500 });
+    expect(result).toHaveLength(600);
+  });
+
+  it('should merge fanned-out queries by dart_id in query order', async () => {
+    const byStatus: Record<string, DartTask[]> = {
+      Todo: [task('a'), task('shared')],
+      Doing: [task('shared'), task('b')],
+    };
+    const listTasks = vi.fn(async (input?: ListTasksInput) => ({
+      tasks: byStatus[input!.status!],
+      total: byStatus[input!.status!].length,
+    }));
+
+    const result = await fetchMatchingTasks(
+      { listTasks },
+      { apiFilters: {}, apiFilterSets: [{ status: 'Todo' }, { status: 'Doing' }] }
+    );
+
+    expect(result.map(t => t.dart_id)).toEqual(['a', 'shared', 'b']);
+  });
+
+  it('should apply extra filters and the client-side residual', async () => {
+    const listTasks = vi.fn().mockResolvedValue({
+      tasks: [task('a', { priority: 'high' }), task('b', { priority: 'low' })],
+      total: 2,
+    });
+
+    const result = await fetchMatchingTasks(
+      { listTasks },
+      { apiFilters: { dartboard: 'Eng' }, clientFilter: t => t.priority === 'high' },
+      { extraFilters: { detail_level: 'full' } }
+    );
+
+    expect(listTasks).toHaveBeenCalledWith({ dartboard: 'Eng', detail_level: 'full', limit: 500, offset: 0 });
+    expect(result.map(t => t.dart_id)).toEqual(['a']);
+  });
+
+  it('should reject extra filters that contradict the query filters', async () => {
+    const listTasks = vi.fn().mockResolvedValue({ tasks: [], total: 0 });
+
+    await expect(fetchMatchingTasks(
+      { listTasks },
+      { apiFilters: {}, apiFilterSets: [{ dartboard: 'A' }, { dartboard: 'B' }] },
+      { extraFilters: { dartboard: 'A' } }
+    )).rejects.toThrow("dartboard 'A' conflicts with the query's dartboard 'B'");
+  });
+
+  it('should limit parallel queries to the given concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+    const listTasks = vi.fn(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return { tasks: [], total: 0 };
+    });
+
+    const apiFilterSets = ['A', 'B', 'C', 'D'].map(status => ({ status }));
+    await fetchMatchingTasks({ listTasks }, { apiFilters: {}, apiFilterSets }, { concurrency: 2 });
+
+    expect(listTasks).toHaveBeenCalledTimes(4);
+    expect(peak).toBe(2);
+  });
+
+  it('should throw or truncate at the scan safety limit', async () => {
+    const listTasks = vi.fn(async (input?: ListTasksInput) => ({
+      tasks: Array.from({ length: 500 }, (_, i) => task(`t${input!.offset! + i}`)),
+      total: 5000,
+    }));
+
+    await expect(
+      fetchMatchingTasks({ listTasks }, { apiFilters: {} }, {
+        maxTasks: 1000,
+        onLimitExceeded: () => new Error('too many'),
+      })
+    ).rejects.toThrow('too many');
+
+    const truncated = await fetchMatchingTasks({ listTasks }, { apiFilters: {} }, { maxTasks: 1000 });
+    expect(truncated).toHaveLength(1000);
+  });
+
+  it('should resolve relationship predicates through client.getTask', async () => {
+    const full: Record<string, DartTask> = {
+      a: task('a', { blocker_ids: ['b'] }),
+      c: task('c', { blocker_ids: ['d'] }),
+      b: task('b', { status: 'Done' }),
+      d: task('d', { status: 'Todo' }),
+    };
+    const listTasks = vi.fn(async () => ({ tasks: [task('a'), task('c')], total: 2 }));
+    const getTask = vi.fn(async (id: string) => full[id]);
+    const filterResult = convertToFilters(parseDartQLToAST("ALL blockers (status = 'Done')").ast);
+
+    const result = await fetchMatchingTasks({ listTasks, getTask }, filterResult);
+
+    expect(result.map(t => t.dart_id)).toEqual(['a']);
+    expect(result[0].blocker_ids).toEqual(['b']);
+    expect(getTask).toHaveBeenCalledTimes(4);
+    await expect(fetchMatchingTasks({ listTasks }, filterResult)).rejects.toThrow('need a task fetcher');
+  });
+
+  it('should combine the sides of set operations by dart_id', async () => {
+    const byStatus: Record<string, DartTask[]> = {
+      Todo: [task('a'), task('b'), task('c')],
+      Doing: [task('d'), task('b')],
+    };
+    const listTasks = vi.fn(async (input?: ListTasksInput) => ({
+      tasks: input!.status ? byStatus[input!.status] : [task('b', { priority: 'high' }), task('d', { priority: 'low' })],
+      total: 3,
+    }));
+    const fetch = (query: string) => fetchMatchingTasks({ listTasks }, convertToFilters(parseDartQLToAST(query).ast));
+
+    expect((await fetch("status = 'Todo' UNION status = 'Doing'")).map(t => t.dart_id)).toEqual(['a', 'b', 'c', 'd']);
+    expect((await fetch("status = 'Todo' INTERSECT priority = 'high'")).map(t => t.dart_id)).toEqual(['b']);
+    expect((await fetch("status = 'Todo' EXCEPT status = 'Doing'")).map(t => t.dart_id)).toEqual(['a', 'c']);
+    expect(listTasks).toHaveBeenCalledWith({ status: 'Doing', limit: 500, offset: 0 });
+  });
+});
+
+describe('createTaskBatchFetcher', () => {
+  it('should omit tasks that no longer exist and rethrow other errors', async () => {
+    const getTask = vi.fn(async (id: string) => {
+      if (id === 'gone') throw new DartAPIError('Not found', 404);
+      if (id === 'limited') throw new DartAPIError('Rate limited', 429);
+      return task(id);
+    });
+    const fetchTasks = createTaskBatchFetcher({ getTask });
+
+    expect([...(await fetchTasks(['a', 'gone'])).keys()]).toEqual(['a']);
+    await expect(fetchTasks(['limited'])).rejects.toThrow('Rate limited');
+  });
+
+  it('should stop before exceeding the lookup limit', async () => {
+    const getTask = vi.fn(async (id: string) => task(id));
+    const fetchTasks = createTaskBatchFetcher({ getTask }, 5, 3);
+
+    await fetchTasks(['a', 'b']);
+    await expect(fetchTasks(['c', 'd'])).rejects.toThrow('Query needs more than 3 task lookups');
+    expect(getTask).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one lookup limit across a query', async () => {
+    const listTasks = vi.fn().mockResolvedValue({ tasks: [task('a'), task('b')], total: 2 });
+    const getTask = vi.fn(async (id: string) => task(id));
+    const side = { apiFilters: {}, requiresClientSide: false, warnings: [], errors: [] };
+
+    await expect(fetchMatchingTasks(
+      { listTasks, getTask },
+      {
+        apiFilters: {},
+        setOperation: {
+          operator: 'UNION',
+          left: { ...side, resolveRelated: async (tasks, fetch) => { await fetch(['x', 'y']); return tasks; } },
+          right: { ...side, resolveRelated: async (tasks, fetch) => { await fetch(['z']); return tasks; } },
+        },
+      },
+      { maxTaskLookups: 2 }
+    )).rejects.toThrow('Query needs more than 2 task lookups');
+  });
+});
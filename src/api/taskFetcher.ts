@@ -0,0 +1,212 @@
+/**
+ * Task Fetcher
+ *
+ * Resolves a converted DartQL filter (convertToFilters result) to tasks:
+ * - Pages through DartClient.listTasks() for each API filter set
+ * - Runs fanned-out OR/IN queries in parallel under p-limit
+ * - Merges results by dart_id (first occurrence wins, query order preserved)
+ * - Combines UNION / INTERSECT / EXCEPT sides by dart_id
+ * - Fetches related tasks for relationship predicates (ANY blockers (...)),
+ *   up to MAX_TASK_LOOKUPS getTask() requests per query
+ * - Applies the client-side residual filter
+ */
+
+import pLimit from 'p-limit';
+import type { DartClient } from './dartClient.js';
+import type { ConvertToFiltersResult } from '../parsers/dartql.js';
+import type { TaskBatchFetcher } from '../formatters/relationshipExpander.js';
+import { DartAPIError, ValidationError } from '../types/index.js';
+import type { DartQLSetOperator, DartTask, ListTasksInput } from '../types/index.js';
+
+/** Page size for listTasks (API maximum) */
+const PAGE_SIZE = 500;
+
+/** Default cap on getTask() lookups for one query (one request each) */
+export const MAX_TASK_LOOKUPS = 1000;
+
+/** The parts of a convertToFilters() result that decide which tasks match */
+type MatchingTasksFilter = Pick<
+  ConvertToFiltersResult,
+  'apiFilters' | 'apiFilterSets' | 'clientFilter' | 'resolveRelated' | 'setOperation'
+>;
+
+export interface FetchMatchingTasksOptions {
+  /** Max parallel listTasks queries (default: 5) */
+  concurrency?: number;
+  /** Safety limit on tasks scanned across all queries (default: 10,000) */
+  maxTasks?: number;
+  /**
+   * Extra listTasks parameters applied to every query (e.g., detail_level).
+   * A parameter the filter already sets to a different value is rejected
+   * with a ValidationError rather than overridden.
+   */
+  extraFilters?: Partial<ListTasksInput>;
+  /**
+   * Error to throw when maxTasks is reached. When omitted, scanning stops
+   * and the tasks fetched so far are returned.
+   */
+  onLimitExceeded?: () => Error;
+  /**
+   * Batch fetcher for relationship predicates (default: client.getTask per
+   * ID via createTaskBatchFetcher)
+   */
+  fetchTasks?: TaskBatchFetcher;
+  /** Safety limit on the default fetcher's getTask() lookups (default: 1,000) */
+  maxTaskLookups?: number;
+}
+
+/**
+ * Batch fetcher backed by DartClient.getTask(), one request per ID under
+ * p-limit. Tasks that no longer exist (404) are left out of the result.
+ * Requesting more than maxLookups IDs over the fetcher's lifetime throws a
+ * ValidationError before any of the batch is fetched.
+ */
+export function createTaskBatchFetcher(
+  client: Pick<DartClient, 'getTask'>,
+  concurrency: number = 5,
+  maxLookups: number = MAX_TASK_LOOKUPS
+): TaskBatchFetcher {
+  const limit = pLimit(concurrency);
+  let lookups = 0;
+
+  return async (dartIds: string[]): Promise<Map<string, DartTask>> => {
+    if (lookups + dartIds.length > maxLookups) {
+      throw new ValidationError(
+        `Query needs more than ${maxLookups} task lookups (one getTask request each) for relationship ` +
+        'predicates, depth or relationship counts. Narrow the WHERE clause; explain_query lists the lookups.',
+        'query'
+      );
+    }
+    lookups += dartIds.length;
+
+    const tasks = new Map<string, DartTask>();
+
+    await Promise.all(dartIds.map(dartId => limit(async () => {
+      try {
+        tasks.set(dartId, await client.getTask(dartId));
+      } catch (error) {
+        if (!(error instanceof DartAPIError && error.statusCode === 404)) throw error;
+      }
+    })));
+
+    return tasks;
+  };
+}
+
+/**
+ * Combine the tasks of two selectors by dart_id, keeping the left side's order
+ * (UNION appends right-only tasks)
+ */
+function combineTaskSets(operator: DartQLSetOperator, left: DartTask[], right: DartTask[]): DartTask[] {
+  const rightIds = new Set(right.map(task => task.dart_id));
+
+  switch (operator) {
+    case 'UNION': {
+      const leftIds = new Set(left.map(task => task.dart_id));
+      return [...left, ...right.filter(task => !leftIds.has(task.dart_id))];
+    }
+    case 'INTERSECT':
+      return left.filter(task => rightIds.has(task.dart_id));
+    case 'EXCEPT':
+      return left.filter(task => !rightIds.has(task.dart_id));
+  }
+}
+
+/**
+ * Fetch all tasks matching a converted DartQL filter
+ *
+ * Both sides of a set operation are fetched in parallel and count toward the
+ * same maxTasks limit.
+ *
+ * @param client - DartClient (listTasks, plus getTask for relationship predicates)
+ * @param filterResult - Output of convertToFilters()
+ * @param options - Concurrency, safety limit and extra list parameters
+ * @returns Matching tasks, deduplicated by dart_id and client-side filtered
+ */
+export async function fetchMatchingTasks(
+  client: Pick<DartClient, 'listTasks'> & Partial<Pick<DartClient, 'getTask'>>,
+  filterResult: MatchingTasksFilter,
+  options: FetchMatchingTasksOptions = {}
+): Promise<DartTask[]> {
+  const maxTasks = options.maxTasks ?? 10000;
+  const limit = pLimit(options.concurrency ?? 5);
+  let scanned = 0;
+
+  // One fetcher per query, so every relationship lookup counts toward maxTaskLookups
+  const fetchTasks = options.fetchTasks ?? (client.getTask && createTaskBatchFetcher(
+    client as Pick<DartClient, 'getTask'>,
+    options.concurrency,
+    options.maxTaskLookups
+  ));
+
+  const fetchAll = async (filters: Partial<ListTasksInput>): Promise<DartTask[]> => {
+    for (const [key, value] of Object.entries(options.extraFilters ?? {})) {
+      const filterValue = filters[key as keyof ListTasksInput];
+      if (value !== undefined && filterValue !== undefined && filterValue !== value) {
+        throw new ValidationError(
+          `${key} '${String(value)}' conflicts with the query's ${key} '${String(filterValue)}'`,
+          key
+        );
+      }
+    }
+
+    const tasks: DartTask[] = [];
+    let offset = 0;
+    let hasMore = true;
+
+    while (hasMore && scanned < maxTasks) {
+      const response = await client.listTasks({
+        ...filters,
+        ...options.extraFilters,
+        limit: PAGE_SIZE,
+        offset,
+      });
+
+      const page = response.tasks || [];
+      tasks.push(...page);
+      scanned += page.length;
+
+      hasMore = offset + PAGE_SIZE < (response.total || 0);
+      offset += PAGE_SIZE;
+
+      if (scanned >= maxTasks && options.onLimitExceeded) {
+        throw options.onLimitExceeded();
+      }
+    }
+
+    return tasks;
+  };
+
+  const fetchMatching = async (filter: MatchingTasksFilter): Promise<DartTask[]> => {
+    let merged: DartTask[] = [];
+
+    if (filter.setOperation) {
+      const { operator, left, right } = filter.setOperation;
+      const [leftTasks, rightTasks] = await Promise.all([fetchMatching(left), fetchMatching(right)]);
+      merged = combineTaskSets(operator, leftTasks, rightTasks);
+    } else {
+      const filterSets = filter.apiFilterSets ?? [filter.apiFilters];
+      const results = await Promise.all(filterSets.map(filters => limit(() => fetchAll(filters))));
+
+      // Merge by dart_id - OR branches may overlap
+      const seen = new Set<string>();
+      for (const task of results.flat()) {
+        if (!seen.has(task.dart_id)) {
+          seen.add(task.dart_id);
+          merged.push(task);
+        }
+      }
+    }
+
+    if (filter.resolveRelated) {
+      if (!fetchTasks) {
+        throw new Error('Relationship predicates need a task fetcher (client.getTask or options.fetchTasks)');
+      }
+      merged = await filter.resolveRelated(merged, fetchTasks);
+    }
+
+    return filter.clientFilter ? merged.filter(filter.clientFilter) : merged;
+  };
+
+  return fetchMatching(filterResult);
+}
@@ -36,17 +36,20 @@ export function generateBatchOperationId(
  *
  * @param operationType - Type of batch operation
  * @param totalItems - Total number of items to process
+ * @param selector - Resolved DartQL selector (batch updates and deletes)
  * @returns BatchOperation with initial state
  */
 export function createBatchOperation(
   operationType: 'update' | 'delete' | 'import',
-  totalItems: number
+  totalItems: number,
+  selector?: string
 ): BatchOperation {
   const batchOperationId = generateBatchOperationId(operationType);
 
   const operation: BatchOperation = {
     batch_operation_id: batchOperationId,
     operation_type: operationType,
+    ...(selector !== undefined && { selector }),
     status: 'running',
     progress: {
       completed: 0,
@@ -48,6 +48,11 @@ describe('parseFieldList', () => {
     expect(result.expand).toContain('subtasks');
   });
 
+  it('should keep the case of custom property fields', () => {
+    const result = parseFieldList('ID,prop.Team,prop."Story Points"');
+    expect(result.fields).toEqual(['id', 'prop.Team', 'prop.Story Points']);
+  });
+
   it('should handle wildcard *', () => {
     const result = parseFieldList('*');
     expect(result.fields.length).toBeGreaterThan(10);
@@ -85,6 +90,11 @@ describe('parseFormat', () => {
     expect(parseFormat('csv')).toBe('csv');
     expect(parseFormat('json')).toBe('json');
     expect(parseFormat('ids')).toBe('ids');
+    expect(parseFormat('markdown')).toBe('markdown');
+    expect(parseFormat('checklist')).toBe('checklist');
+    expect(parseFormat('tree')).toBe('tree');
+    expect(parseFormat('board')).toBe('board');
+    expect(parseFormat('timeline')).toBe('timeline');
   });
 
   it('should be case-insensitive', () => {
@@ -137,6 +147,16 @@ describe('parseQuery', () => {
     expect(result.whereClause).toBe("status = 'Todo'");
   });
 
+  it('should parse trailing ORDER BY / LIMIT when SELECT has no WHERE', () => {
+    const result = parseQuery('SELECT id,title ORDER BY due_at DESC LIMIT 5 format=compact');
+    expect(result.selection.fields).toEqual(['id', 'title']);
+    expect(result.selection.format).toBe('compact');
+    expect(result.whereClause).toBe('');
+    expect(result.statement.where).toBeUndefined();
+    expect(result.statement.orderBy).toEqual([{ field: 'due_at', direction: 'DESC' }]);
+    expect(result.statement.limit).toBe(5);
+  });
+
   it('should handle empty query', () => {
     const result = parseQuery('');
     expect(result.selection.fields).toEqual(ESSENTIAL_FIELDS);
@@ -150,7 +170,7 @@ describe('parseQuery', () => {
   });
 
   it('should parse expansion in SELECT', () => {
-    const result = parseQuery('SELECT id,title,+blockers WHERE has_parent = true');
+    const result = parseQuery('SELECT id,title,+blockers WHERE parent_task IS NOT NULL');
     expect(result.selection.fields).toContain('id');
     expect(result.selection.fields).toContain('title');
     expect(result.selection.fields).toContain('#blockers');
@@ -158,6 +178,82 @@ describe('parseQuery', () => {
   });
 });
 
+describe('parseQuery statements', () => {
+  it('should point aggregate queries to aggregate_tasks', () => {
+    const result = parseQuery('SELECT status, COUNT(*) GROUP BY status');
+    expect(result.errors).toEqual([
+      'GROUP BY and aggregates (COUNT, SUM, AVG, MIN, MAX) need aggregate_tasks at position 15',
+    ]);
+  });
+
+  it('should not split on keywords inside string literals', () => {
+    const result = parseQuery("SELECT id,title WHERE title = 'Decide where to go format=csv' format=ids");
+    expect(result.errors).toEqual([]);
+    expect(result.whereClause).toBe("title = 'Decide where to go format=csv'");
+    expect(result.statement.where).toMatchObject({ field: 'title', value: 'Decide where to go format=csv' });
+    expect(result.selection.format).toBe('ids');
+  });
+
+  it('should parse FORMAT and EXPAND clauses and the remaining column forms', () => {
+    const result = parseQuery(
+      'select *, desc, #dups, prop."Story Points" where status = \'Todo\' order by due_at limit 3 FORMAT csv EXPAND Blockers, subtasks'
+    );
+    expect(result.errors).toEqual([]);
+    expect(result.statement.select!.map(item => item.name)).toEqual(['*', 'desc', '#dups', 'prop.Story Points']);
+    expect(result.selection.fields).toContain('desc');
+    expect(result.selection.fields).toContain('prop.Story Points');
+    expect(result.selection.expand).toEqual(['blockers', 'subtasks']);
+    expect(result.selection.fields).toContain('#blockers');
+    expect(result.selection.format).toBe('csv');
+    expect(result.statement.limit).toBe(3);
+  });
+
+  it('should expand default columns and accept a leading WHERE without SELECT', () => {
+    const result = parseQuery("WHERE status = 'Todo' EXPAND blockers");
+    expect(result.errors).toEqual([]);
+    expect(result.selection.explicit).toBe(false);
+    expect(result.selection.fields).toEqual([...ESSENTIAL_FIELDS, '#blockers']);
+    expect(result.whereClause).toBe("status = 'Todo'");
+  });
+
+  it('should report unknown columns, expansions and formats at their position', () => {
+    const query = "SELECT id, tite, +id WHERE status = 'Todo' FORMAT tabel EXPAND blokers";
+    const result = parseQuery(query);
+
+    expect(result.diagnostics.map(d => [d.message, query.slice(d.start, d.end), d.suggestions])).toEqual([
+      ["Unknown field 'tite' in SELECT", 'tite', ['title', 'size']],
+      ["Unknown field '+id' in SELECT", '+id', ['id']],
+      ["Unknown relationship 'blokers' in EXPAND", 'blokers', ['blockers']],
+      ["Unknown format 'tabel'", 'tabel', ['table']],
+    ]);
+    expect(result.errors[0]).toBe("Unknown field 'tite' in SELECT at position 11");
+  });
+
+  it('should report WHERE errors at their position in the full query', () => {
+    const result = parseQuery("  SELECT id WHERE stauts = 'Todo'");
+    expect(result.diagnostics).toEqual([{
+      message: "Unknown field: 'stauts'",
+      start: 18,
+      end: 24,
+      severity: 'error',
+      suggestions: ['status'],
+    }]);
+  });
+
+  it('should reject missing clause arguments and stray tokens', () => {
+    expect(parseQuery('SELECT WHERE status = \'Todo\'').errors[0]).toContain("Expected field name after SELECT, got 'WHERE'");
+    expect(parseQuery('SELECT id status = \'Todo\'').errors[0]).toContain("Unexpected token: 'status'");
+    expect(parseQuery('SELECT id FORMAT').errors[0]).toContain('Expected output format after FORMAT');
+    expect(parseQuery('SELECT id FORMAT csv FORMAT ids').errors[0]).toContain('Duplicate FORMAT clause');
+  });
+
+  it('should bind parameters in the WHERE clause', () => {
+    const result = parseQuery('SELECT id WHERE status = :status', { params: { status: 'Done' } });
+    expect(result.statement.where).toMatchObject({ field: 'status', value: 'Done' });
+    expect(result.whereClause).toBe('status = :status');
+  });
+});
+
 // ============================================================================
 // validateFields Tests
 // ============================================================================
@@ -186,6 +282,12 @@ describe('validateFields', () => {
     expect(result.valid).toContain('+subtasks');
   });
 
+  it('should reject expansion of non-relationship fields', () => {
+    const result = validateFields(['+id', '+blockers']);
+    expect(result.valid).toEqual(['+blockers']);
+    expect(result.unknown).toEqual(['+id']);
+  });
+
   it('should validate wildcard', () => {
     const result = validateFields(['*']);
     expect(result.valid).toContain('*');
@@ -5,7 +5,9 @@
  * - Simple: "id,title,status,due"
  * - With expansion: "+blockers,+subtasks" (fetch related task titles)
  * - With counts: "#blockers,#subtasks" (just counts)
- * - SELECT prefix: "SELECT id,title,due WHERE status = 'Todo'"
+ * - Custom properties: 'prop.Team,prop."Story Points"'
+ * - SELECT statements: "SELECT id,title,due WHERE status = 'Todo' FORMAT compact EXPAND blockers"
+ *   (parsed by the DartQL parser; unknown columns are positioned errors)
  *
  * Field Modifiers:
  * - + prefix: Expand (fetch related data)
@@ -14,6 +16,10 @@
  */
 
 import { ESSENTIAL_FIELDS, FIELD_DEFINITIONS, OutputFormat } from './tableFormatter.js';
+import { isCustomPropertyField, customPropertyName, customPropertyField } from '../parsers/customProperties.js';
+import { parseDartQLStatement } from '../parsers/dartql.js';
+import { findClosestMatches } from '../parsers/csv.js';
+import type { DartQLBindings, DartQLDiagnostic, DartQLSelectItem, DartQLStatement } from '../types/index.js';
 
 // ============================================================================
 // Types
@@ -35,8 +41,14 @@ export interface FieldSelection {
 export interface ParsedQuery {
   /** Field selection */
   selection: FieldSelection;
-  /** WHERE clause (if SELECT used) */
+  /** Source text of the filter expression ('' when the query has none) */
   whereClause: string;
+  /** Parsed statement: WHERE expression and ORDER BY / LIMIT / OFFSET */
+  statement: DartQLStatement;
+  /** Parse errors and unknown columns, formats or expansions */
+  errors: string[];
+  /** The errors above with positions and suggestions */
+  diagnostics: DartQLDiagnostic[];
 }
 
 // ============================================================================
@@ -46,14 +58,20 @@ export interface ParsedQuery {
 /** Relationship fields that can be expanded */
 const EXPANDABLE_FIELDS = ['subtasks', 'blockers', 'blocking', 'duplicates', 'related'];
 
+/** Output formats accepted by FORMAT / format= */
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'compact', 'csv', 'json', 'ids', 'markdown', 'checklist', 'tree', 'board', 'timeline'];
+
 /** All available field names */
 export const AVAILABLE_FIELDS = [
   // Core fields
   'id', 'title', 'desc', 'status', 'pri', 'size',
   'assignee', 'board', 'tags', 'due', 'start', 'done',
-  'created', 'updated', 'parent',
+  'created', 'updated', 'parent', 'depth',
   // Relationship counts
   '#subtasks', '#blockers', '#blocking', '#dups', '#related',
+  // Virtual fields
+  'age_days', 'days_since_update', 'days_until_due', 'is_overdue', 'is_completed',
+  'subtask_count', 'blocker_count', 'has_open_blockers', 'assignee_count', 'tag_count',
 ];
 
 // ============================================================================
@@ -70,6 +88,17 @@ export const AVAILABLE_FIELDS = [
  * - "*" -> all fields
  */
 export function parseFieldList(fieldStr: string): FieldSelection {
+  if (!fieldStr || fieldStr.trim() === '') {
+    return selectFields([]);
+  }
+
+  return selectFields(fieldStr.split(',').map(s => s.trim()));
+}
+
+/**
+ * Build a FieldSelection from column names (unknown names are skipped)
+ */
+function selectFields(parts: string[]): FieldSelection {
   const selection: FieldSelection = {
     fields: [],
     expand: [],
@@ -78,16 +107,16 @@ export function parseFieldList(fieldStr: string): FieldSelection {
     explicit: true,
   };
 
-  if (!fieldStr || fieldStr.trim() === '') {
-    selection.fields = [...ESSENTIAL_FIELDS];
-    selection.explicit = false;
-    return selection;
-  }
+  for (const rawPart of parts) {
+    if (!rawPart) continue;
 
-  const parts = fieldStr.split(',').map(s => s.trim().toLowerCase());
+    // Custom properties keep the case of their name
+    if (isCustomPropertyField(rawPart)) {
+      selection.fields.push(customPropertyField(customPropertyName(rawPart)));
+      continue;
+    }
 
-  for (const part of parts) {
-    if (!part) continue;
+    const part = rawPart.toLowerCase();
 
     // Handle wildcard
     if (part === '*') {
@@ -137,9 +166,8 @@ export function parseFormat(formatStr: string | undefined): OutputFormat {
   if (!formatStr) return 'table';
 
   const normalized = formatStr.toLowerCase().trim();
-  const validFormats: OutputFormat[] = ['table', 'compact', 'csv', 'json', 'ids'];
 
-  if (validFormats.includes(normalized as OutputFormat)) {
+  if (OUTPUT_FORMATS.includes(normalized as OutputFormat)) {
     return normalized as OutputFormat;
   }
 
@@ -152,63 +180,93 @@ export function parseFormat(formatStr: string | undefined): OutputFormat {
  * Examples:
  * - "status = 'Todo'" -> simple WHERE clause
  * - "SELECT id,title WHERE status = 'Todo'" -> field selection + WHERE
- * - "SELECT id,title WHERE has_parent = true format=compact"
+ * - "SELECT id,title WHERE parent_task IS NOT NULL format=compact"
+ * - "SELECT id,title ORDER BY due_at LIMIT 5 FORMAT csv EXPAND blockers"
+ *
+ * @param query - DartQL statement as written by the user
+ * @param bindings - Values for :name parameters and `me` in the WHERE clause
+ * @returns Selection and statement, with errors for parse failures and for
+ *   columns, formats or expansions that do not exist
  */
-export function parseQuery(query: string): ParsedQuery {
+export function parseQuery(query: string, bindings: DartQLBindings = {}): ParsedQuery {
   const result: ParsedQuery = {
-    selection: {
-      fields: [...ESSENTIAL_FIELDS],
-      expand: [],
-      format: 'table',
-      truncate_title: 25,
-      explicit: false,
-    },
-    whereClause: query.trim(),
+    selection: selectFields([]),
+    whereClause: '',
+    statement: {},
+    errors: [],
+    diagnostics: [],
   };
 
   if (!query || query.trim() === '') {
     return result;
   }
 
-  let workingQuery = query.trim();
+  const parsed = parseDartQLStatement(query, bindings);
+  const { statement } = parsed;
+  result.statement = statement;
+  result.whereClause = statement.whereClause ?? '';
+  result.errors = parsed.errors;
+  result.diagnostics = parsed.diagnostics;
 
-  // Extract format option (at end of query)
-  const formatMatch = workingQuery.match(/\s+format\s*=\s*(\w+)\s*$/i);
-  if (formatMatch) {
-    result.selection.format = parseFormat(formatMatch[1]);
-    workingQuery = workingQuery.slice(0, formatMatch.index).trim();
+  if (parsed.errors.length > 0) {
+    return result;
   }
 
-  // Check for SELECT prefix
-  const selectMatch = workingQuery.match(/^SELECT\s+(.+?)\s+WHERE\s+(.+)$/i);
-  if (selectMatch) {
-    const fieldsPart = selectMatch[1].trim();
-    const wherePart = selectMatch[2].trim();
-
-    result.selection = {
-      ...parseFieldList(fieldsPart),
-      format: result.selection.format,
-    };
-    result.whereClause = wherePart;
+  // Aggregates return groups, not tasks
+  const aggregate = statement.select?.find(item => item.aggregate);
+  if (aggregate || statement.groupBy) {
+    const item = aggregate ?? { name: 'GROUP BY', start: 0, end: query.length };
+    addProblem(result, 'GROUP BY and aggregates (COUNT, SUM, AVG, MIN, MAX) need aggregate_tasks', item, []);
     return result;
   }
 
-  // Check for SELECT without WHERE (select all)
-  const selectOnlyMatch = workingQuery.match(/^SELECT\s+(.+)$/i);
-  if (selectOnlyMatch && !selectOnlyMatch[1].toLowerCase().includes(' where ')) {
-    result.selection = {
-      ...parseFieldList(selectOnlyMatch[1].trim()),
-      format: result.selection.format,
-    };
-    result.whereClause = '';
-    return result;
+  const columns = statement.select ?? [];
+  const expand = statement.expand ?? [];
+  const { unknown } = validateFields([...columns.map(item => item.name), ...expand.map(item => `+${item.name}`)]);
+
+  for (const item of columns) {
+    if (unknown.includes(item.name)) {
+      addProblem(result, `Unknown field '${item.name}' in SELECT`, item, [...AVAILABLE_FIELDS, ...EXPANDABLE_FIELDS.map(f => `+${f}`)]);
+    }
+  }
+  for (const item of expand) {
+    if (unknown.includes(`+${item.name}`)) {
+      addProblem(result, `Unknown relationship '${item.name}' in EXPAND`, item, EXPANDABLE_FIELDS);
+    }
+  }
+  if (statement.format && !OUTPUT_FORMATS.includes(statement.format.name.toLowerCase() as OutputFormat)) {
+    addProblem(result, `Unknown format '${statement.format.name}'`, statement.format, OUTPUT_FORMATS);
+  }
+
+  if (statement.select) {
+    result.selection = selectFields(columns.map(item => item.name));
+  }
+  for (const { name } of expand) {
+    const relationship = name.toLowerCase();
+    if (!result.selection.expand.includes(relationship)) {
+      result.selection.expand.push(relationship);
+      result.selection.fields.push(`#${relationship}`);
+    }
   }
+  result.selection.format = parseFormat(statement.format?.name);
 
-  // No SELECT prefix, treat entire query as WHERE clause
-  result.whereClause = workingQuery;
   return result;
 }
 
+/**
+ * Record an error for a column, format or expansion name
+ */
+function addProblem(result: ParsedQuery, message: string, item: DartQLSelectItem, candidates: string[]): void {
+  result.errors.push(`${message} at position ${item.start}`);
+  result.diagnostics.push({
+    message,
+    start: item.start,
+    end: item.end,
+    severity: 'error',
+    suggestions: findClosestMatches(item.name, candidates),
+  });
+}
+
 /**
  * Validate field names and return unknown fields
  */
@@ -222,7 +280,12 @@ export function validateFields(fields: string[]): { valid: string[]; unknown: st
     // Handle modifiers
     const cleanField = normalized.replace(/^[+#]/, '');
 
-    if (FIELD_DEFINITIONS[normalized] ||
+    if (isCustomPropertyField(field.trim())) {
+      valid.push(customPropertyField(customPropertyName(field.trim())));
+    } else if (normalized.startsWith('+') && !EXPANDABLE_FIELDS.includes(cleanField)) {
+      // Only relationships expand (+id is not a column)
+      unknown.push(field);
+    } else if (FIELD_DEFINITIONS[normalized] ||
         FIELD_DEFINITIONS['#' + cleanField] ||
         EXPANDABLE_FIELDS.includes(cleanField) ||
         normalized === '*') {
@@ -258,6 +321,7 @@ export function getFieldsHelp(): string {
     '  created  - Created date',
     '  updated  - Updated date',
     '  parent   - Parent task ID',
+    '  depth    - Levels below the top of the subtask tree',
     '',
     'Relationship counts (prefix with #):',
     '  #subtasks - Number of subtasks',
@@ -266,6 +330,22 @@ export function getFieldsHelp(): string {
     '  #dups     - Number of duplicates',
     '  #related  - Number of related tasks',
     '',
+    'Virtual fields (computed):',
+    '  age_days          - Days since created',
+    '  days_since_update - Days since last update',
+    '  days_until_due    - Days until due (negative when overdue)',
+    '  is_overdue        - Past due and not completed (Y/N)',
+    '  is_completed      - Has a completion date (Y/N)',
+    '  subtask_count     - Number of subtasks',
+    '  blocker_count     - Number of blockers',
+    '  has_open_blockers - Has a blocker that is not completed (Y/N)',
+    '  assignee_count    - Number of assignees',
+    '  tag_count         - Number of tags',
+    '',
+    'Custom properties (workspace-defined):',
+    '  prop.Team            - Custom property "Team"',
+    '  prop."Story Points"  - Quote names with spaces',
+    '',
     'Expansion (prefix with +):',
     '  +subtasks - Expand subtask titles',
     '  +blockers - Expand blocker titles',
@@ -274,7 +354,7 @@ export function getFieldsHelp(): string {
     'Special:',
     '  *         - All fields',
     '',
-    'Output formats (append format=X):',
+    'Output formats (append FORMAT x or format=x):',
     '  table   - Aligned text table (default)',
     '  compact - Tab-separated, no borders',
     '  csv     - CSV format',
@@ -284,7 +364,8 @@ export function getFieldsHelp(): string {
     'Examples:',
     '  status = \'Todo\'',
     '  SELECT id,title,due WHERE status = \'Todo\'',
-    '  SELECT id,title WHERE has_parent = true format=compact',
+    '  SELECT id,title WHERE parent_task IS NOT NULL format=compact',
+    '  SELECT id,title ORDER BY due_at LIMIT 5 FORMAT csv EXPAND blockers',
   ];
 
   return lines.join('\n');
@@ -7,10 +7,20 @@
 export {
   // Table Formatter
   formatTasks,
+  formatTasksWithinBudget,
+  resolveCharBudget,
+  estimateTokens,
   formatAsTable,
   formatAsCompact,
   formatAsCSV,
   formatAsIds,
+  formatAsMarkdown,
+  formatAsChecklist,
+  formatAsTree,
+  formatAsBoard,
+  formatAsTimeline,
+  formatAggregateRows,
+  formatTaskChanges,
   abbreviateId,
   truncate,
   formatPriority,
@@ -19,13 +29,20 @@ export {
   formatTags,
   formatSize,
   formatCount,
+  formatVirtual,
+  formatCustomProperty,
   getRelationshipCounts,
   parseFieldList,
   ESSENTIAL_FIELDS,
   FIELD_DEFINITIONS,
+  CHARS_PER_TOKEN,
   type OutputFormat,
+  type BoardGroupBy,
   type FieldConfig,
   type FormatOptions,
+  type BudgetedOutput,
+  type AggregateFormatOptions,
+  type ChangeFormatOptions,
   type RelationshipCounts,
 } from './tableFormatter.js';
 
@@ -53,4 +70,5 @@ export {
   type ExpandedTask,
   type RelationshipType,
   type ExpandOptions,
+  type TaskBatchFetcher,
 } from './relationshipExpander.js';
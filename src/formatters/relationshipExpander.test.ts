@@ -172,6 +172,21 @@ describe('expandRelationships', () => {
     expect(mockFetchTask).toHaveBeenCalledTimes(2);
     expect(result[0]._subtasks).toHaveLength(2);
   });
+
+  it('should expand the single parent_task', async () => {
+    const child: DartTask = { ...taskNoRelationships, parent_task: 'duid_sub1' };
+    const mockFetchTasks = vi.fn().mockResolvedValue(relatedTaskMap);
+
+    const result = await expandRelationships([child, taskNoRelationships], {
+      expand: ['parent'],
+      fetchTask: vi.fn(),
+      fetchTasks: mockFetchTasks,
+    });
+
+    expect(mockFetchTasks).toHaveBeenCalledWith(['duid_sub1']);
+    expect(result[0]._parent).toEqual([{ dart_id: 'duid_sub1', title: 'Subtask 1' }]);
+    expect(result[1]._parent).toBeUndefined();
+  });
 });
 
 // ============================================================================
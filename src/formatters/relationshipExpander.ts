@@ -29,9 +29,17 @@ export interface ExpandedTask extends DartTask {
   _duplicates?: RelatedTaskSummary[];
   /** Expanded related summaries */
   _related?: RelatedTaskSummary[];
+  /** Expanded parent summary (at most one) */
+  _parent?: RelatedTaskSummary[];
 }
 
-export type RelationshipType = 'subtasks' | 'blockers' | 'blocking' | 'duplicates' | 'related';
+export type RelationshipType = 'subtasks' | 'blockers' | 'blocking' | 'duplicates' | 'related' | 'parent';
+
+/**
+ * Batch task fetcher: resolves dart_ids to tasks, omitting IDs that no longer
+ * exist (shared with DartQL relationship predicates)
+ */
+export type TaskBatchFetcher = (dartIds: string[]) => Promise<Map<string, DartTask>>;
 
 export interface ExpandOptions {
   /** Which relationships to expand */
@@ -41,7 +49,7 @@ export interface ExpandOptions {
   /** Task fetcher function */
   fetchTask: (dartId: string) => Promise<DartTask | null>;
   /** Batch task fetcher function (more efficient) */
-  fetchTasks?: (dartIds: string[]) => Promise<Map<string, DartTask>>;
+  fetchTasks?: TaskBatchFetcher;
 }
 
 // ============================================================================
@@ -54,8 +62,16 @@ const RELATIONSHIP_FIELD_MAP: Record<RelationshipType, keyof DartTask> = {
   blocking: 'blocking_ids',
   duplicates: 'duplicate_ids',
   related: 'related_ids',
+  parent: 'parent_task',
 };
 
+/** Related dart_ids of a task; parent_task holds a single ID */
+function relatedIdsOf(task: DartTask, rel: RelationshipType): string[] | undefined {
+  const value = task[RELATIONSHIP_FIELD_MAP[rel]];
+  if (typeof value === 'string') return value ? [value] : undefined;
+  return Array.isArray(value) ? (value as string[]) : undefined;
+}
+
 // ============================================================================
 // Expansion Functions
 // ============================================================================
@@ -71,9 +87,8 @@ export function collectIdsToExpand(
 
   for (const task of tasks) {
     for (const rel of expand) {
-      const fieldKey = RELATIONSHIP_FIELD_MAP[rel];
-      const relatedIds = task[fieldKey] as string[] | undefined;
-      if (relatedIds && Array.isArray(relatedIds)) {
+      const relatedIds = relatedIdsOf(task, rel);
+      if (relatedIds) {
         for (const id of relatedIds) {
           ids.add(id);
         }
@@ -127,10 +142,9 @@ export async function expandRelationships(
     const expanded: ExpandedTask = { ...task };
 
     for (const rel of options.expand) {
-      const fieldKey = RELATIONSHIP_FIELD_MAP[rel];
-      const relatedIds = task[fieldKey] as string[] | undefined;
+      const relatedIds = relatedIdsOf(task, rel);
 
-      if (relatedIds && Array.isArray(relatedIds)) {
+      if (relatedIds) {
         const summaries: RelatedTaskSummary[] = relatedIds
           .map(id => {
             const relatedTask = relatedTaskMap.get(id);
@@ -156,6 +170,9 @@ export async function expandRelationships(
           case 'related':
             expanded._related = summaries;
             break;
+          case 'parent':
+            expanded._parent = summaries;
+            break;
         }
       }
     }
@@ -12,16 +12,27 @@ import {
   formatTags,
   formatSize,
   formatCount,
+  formatVirtual,
+  formatCustomProperty,
   formatTasks,
   formatAsTable,
   formatAsCompact,
   formatAsCSV,
   formatAsIds,
+  formatAsMarkdown,
+  formatAsChecklist,
+  formatAsTree,
+  formatAsBoard,
+  formatAsTimeline,
+  formatAggregateRows,
+  formatTaskChanges,
+  formatTasksWithinBudget,
+  resolveCharBudget,
   parseFieldList,
   ESSENTIAL_FIELDS,
   getRelationshipCounts,
 } from './tableFormatter.js';
-import { DartTask } from '../types/index.js';
+import { DartTask, TaskChangePreview, ValidationError } from '../types/index.js';
 
 // ============================================================================
 // Test Data
@@ -227,6 +238,30 @@ describe('formatCount', () => {
   });
 });
 
+describe('formatCustomProperty', () => {
+  it('should format lists, flags, dates and missing values', () => {
+    expect(formatCustomProperty(['iOS', 'Web'])).toBe('iOS,Web');
+    expect(formatCustomProperty(true)).toBe('Y');
+    expect(formatCustomProperty('2026-03-01T00:00:00Z')).toBe('2026-03-01');
+    expect(formatCustomProperty(3)).toBe('3');
+    expect(formatCustomProperty(undefined)).toBe('-');
+  });
+});
+
+describe('formatVirtual', () => {
+  it('should format computed counts', () => {
+    expect(formatVirtual(sampleTask, 'subtask_count')).toBe('3');
+    expect(formatVirtual(sampleTask, 'tag_count')).toBe('4');
+  });
+
+  it('should format flags as Y/N and missing dates as dash', () => {
+    expect(formatVirtual(sampleTask, 'is_completed')).toBe('N');
+    expect(formatVirtual({ ...sampleTask, open_blocker_count: 1 }, 'has_open_blockers')).toBe('Y');
+    expect(formatVirtual(sampleTask, 'has_open_blockers')).toBe('-');
+    expect(formatVirtual(sampleTasks[2], 'days_until_due')).toBe('-');
+  });
+});
+
 // ============================================================================
 // Field Parsing Tests
 // ============================================================================
@@ -247,6 +282,19 @@ describe('parseFieldList', () => {
     expect(configs[1].header).toBe('#blk');
   });
 
+  it('should parse virtual field columns', () => {
+    const configs = parseFieldList(['id', 'blocker_count', 'is_overdue']);
+    expect(configs.map(c => c.header)).toEqual(['id', 'nBlk', 'late']);
+  });
+
+  it('should parse custom property columns headed by the property name', () => {
+    const configs = parseFieldList(['id', 'prop.Story Points']);
+    const task = { ...sampleTask, custom_properties: { 'story points': 5 } };
+
+    expect(configs.map(c => c.header)).toEqual(['id', 'Story Points']);
+    expect(configs[1].format!(undefined, task)).toBe('5');
+  });
+
   it('should ignore unknown fields', () => {
     const configs = parseFieldList(['id', 'unknownfield', 'title']);
     expect(configs).toHaveLength(2);
@@ -364,6 +412,298 @@ describe('formatAsCSV', () => {
   });
 });
 
+describe('formatAsMarkdown', () => {
+  it('should render a GFM pipe table with linked titles and a footer', () => {
+    const tasks: DartTask[] = [
+      { ...sampleTask, title: 'Fix a|b [login]', url: 'https://app.dartai.com/t/abc123' },
+      sampleTasks[2],
+    ];
+
+    expect(formatAsMarkdown(tasks, { fields: ['id', 'title', 'pri'], total_count: 10 })).toBe([
+      '| id | title | pri |',
+      '| --- | --- | --: |',
+      '| ..def456 | [Fix a\\|b \\[login\\]](https://app.dartai.com/t/abc123) | H |',
+      '| .._short | Quick fix | L |',
+      '',
+      '2 tasks of 10',
+    ].join('\n'));
+  });
+
+  it('should link the id without a title column and honor title truncation', () => {
+    const task: DartTask = { ...sampleTask, url: 'https://app.dartai.com/t/abc123' };
+
+    expect(formatAsMarkdown([task], { fields: ['id'], show_footer: false })).toBe(
+      '| id |\n| --- |\n| [..def456](https://app.dartai.com/t/abc123) |'
+    );
+    expect(formatAsMarkdown([task], { fields: ['title'], truncate_title: 10 })).toContain('[Fix aut...]');
+    expect(formatAsMarkdown([])).toBe('No results');
+  });
+});
+
+describe('formatAsChecklist', () => {
+  it('should check completed tasks and list selected fields after the title', () => {
+    const tasks: DartTask[] = [
+      { ...sampleTask, url: 'https://app.dartai.com/t/abc123' },
+      { ...sampleTasks[2], completed_at: '2026-01-06T00:00:00Z' },
+    ];
+
+    expect(formatAsChecklist(tasks, { fields: ['title', 'assignee', 'due'], truncate_title: 40 })).toBe([
+      '- [ ] [Fix authentication bug in login flow](https://app.dartai.com/t/abc123) (@john.doe, due 2026-02-01)',
+      '- [x] Quick fix',
+      '',
+      '2 tasks',
+    ].join('\n'));
+  });
+
+  it('should honor field selection and the pagination footer', () => {
+    const result = formatAsChecklist(sampleTasks.slice(0, 1), {
+      fields: ['status', 'pri'],
+      has_more: true,
+      offset: 0,
+      total_count: 5,
+    });
+
+    expect(result).toBe('- [ ] Fix authentication bug... (status Todo, pri H)\n\n1 tasks of 5 | more: +1');
+    expect(formatAsChecklist([])).toBe('No results');
+  });
+});
+
+describe('formatAsTree', () => {
+  const node = (dart_id: string, title: string, extra: Partial<DartTask> = {}): DartTask => ({
+    dart_id,
+    title,
+    status: 'Todo',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...extra,
+  });
+
+  it('should nest subtasks under parents and roll up completion', () => {
+    const tasks = [
+      node('duid_epic01', 'Auth epic', { status: 'Doing', priority: 'high', assignees: ['alice@example.com'] }),
+      node('duid_story1', 'Login form', { parent_task: 'duid_epic01', status: 'Done', completed_at: '2026-01-02T00:00:00Z' }),
+      node('duid_story2', 'Sessions', { parent_task: 'duid_epic01' }),
+      node('duid_subt01', 'Token refresh', { parent_task: 'duid_story2' }),
+    ];
+
+    expect(formatAsTree(tasks, { fields: ['id', 'title', 'status', 'pri', 'assignee'] })).toBe([
+      '..epic01 Auth epic [Doing · H · @alice] 1/3 done',
+      '├─ ..story1 Login form [Done]',
+      '└─ ..story2 Sessions [Todo] 0/1 done',
+      '   └─ ..subt01 Token refresh [Todo]',
+      '4 tasks',
+    ].join('\n'));
+  });
+
+  it('should nest by subtask_ids and group tasks whose parent is not in the results', () => {
+    const tasks = [
+      node('duid_root01', 'Root', { subtask_ids: ['duid_child1'] }),
+      node('duid_child1', 'Child'),
+      node('duid_orph01', 'Invoice export', {
+        parent_task: 'duid_gone01',
+        _parent: [{ dart_id: 'duid_gone01', title: 'Billing epic' }],
+      } as Partial<DartTask>),
+    ];
+
+    expect(formatAsTree(tasks, { fields: ['title'] })).toBe([
+      'Root 0/1 done',
+      '└─ Child',
+      '◇ ..gone01 Billing epic (not in results) 0/1 done',
+      '└─ Invoice export',
+      '3 tasks',
+    ].join('\n'));
+  });
+
+  it('should show tasks on a parent cycle at the top level', () => {
+    const tasks = [
+      node('duid_loopa1', 'A', { parent_task: 'duid_loopb1' }),
+      node('duid_loopb1', 'B', { parent_task: 'duid_loopa1' }),
+    ];
+
+    expect(formatAsTree(tasks, { fields: ['title'], show_footer: false })).toBe('A\nB');
+    expect(formatAsTree([])).toBe('No results');
+  });
+});
+
+describe('formatAsBoard', () => {
+  const card = (dart_id: string, title: string, status: string, extra: Partial<DartTask> = {}): DartTask => ({
+    dart_id,
+    title,
+    status,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...extra,
+  });
+  const board = [
+    card('duid_a1', 'Fix login bug', 'Doing', { priority: 'high', assignees: ['alice@example.com'] }),
+    card('duid_b2', 'Release notes', 'to do', { priority: 'low', assignees: ['bob@example.com'] }),
+    card('duid_c3', 'Logout bug', 'To Do', { priority: 'high' }),
+  ];
+  const statuses = ['To Do', 'Doing', 'Done'];
+
+  it('should lay out status columns in workspace order with WIP counts', () => {
+    expect(formatAsBoard(board, { statuses, fields: ['title', 'pri'], width: 50 })).toBe([
+      '┌───────────────────────┬───────────────────────┐',
+      '│ To Do (2)             │ Doing (1)             │',
+      '├───────────────────────┼───────────────────────┤',
+      '│ Release notes L       │ Fix login bug H       │',
+      '│ Logout bug H          │                       │',
+      '└───────────────────────┴───────────────────────┘',
+      '3 tasks',
+    ].join('\n'));
+  });
+
+  it('should split the board into swimlanes', () => {
+    const result = formatAsBoard(board, { statuses, fields: ['title', 'assignee'], group_by: 'assignee', width: 50 });
+
+    expect(result.split('\n').slice(3, 10)).toEqual([
+      '│ @alice (1)                                    │',
+      '├───────────────────────┬───────────────────────┤',
+      '│                       │ Fix login bug         │',
+      '├───────────────────────┴───────────────────────┤',
+      '│ @bob (1)                                      │',
+      '├───────────────────────┬───────────────────────┤',
+      '│ Release notes         │                       │',
+    ]);
+    expect(result).toContain('│ unassigned (1) ');
+  });
+
+  it('should stack columns as sections when they do not fit the width', () => {
+    expect(formatAsBoard(board, { statuses, fields: ['title'], group_by: 'priority', width: 30, show_footer: false })).toBe([
+      'To Do (2)',
+      '  pri H (1)',
+      '    Logout bug',
+      '  pri L (1)',
+      '    Release notes',
+      'Doing (1)',
+      '  pri H (1)',
+      '    Fix login bug',
+    ].join('\n'));
+    expect(formatAsBoard([])).toBe('No results');
+  });
+});
+
+describe('formatAsTimeline', () => {
+  const dated = (dart_id: string, title: string, extra: Partial<DartTask> = {}): DartTask => ({
+    dart_id,
+    title,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...extra,
+  });
+
+  it('should draw bars on a day axis with today, overdue and blocker markers', () => {
+    const tasks = [
+      dated('duid_a1', 'Fix login', { start_at: '2026-01-05T00:00:00Z', due_at: '2026-01-12T00:00:00Z' }),
+      dated('duid_b2', 'Ship release', { start_at: '2026-01-10', due_at: '2026-01-16', blocker_ids: ['duid_a1', 'duid_zz'] }),
+      dated('duid_c3', 'Write docs', { due_at: '2026-01-08', completed_at: '2026-01-08T00:00:00Z' }),
+      dated('duid_d4', 'Someday'),
+    ];
+
+    expect(formatAsTimeline(tasks, { fields: ['title'], truncate_title: 12, today: '2026-01-14' })).toBe([
+      '              01-05  01-12',
+      '              ┬──────┬─▼──',
+      'Fix login     ████████ │   overdue',
+      'Ship release       ███████ ◀ duid_a1!',
+      'Write docs       ◆     │',
+      '',
+      'Someday       (no dates)',
+      '4 tasks',
+    ].join('\n'));
+  });
+
+  it('should switch to a week axis starting on a Monday when the days do not fit', () => {
+    const tasks = [dated('duid_x1', 'Long project', { start_at: '2026-01-01', due_at: '2026-12-01' })];
+    const lines = formatAsTimeline(tasks, { fields: ['title'], truncate_title: 12, today: '2026-03-02', width: 100 }).split('\n');
+
+    // 2026-01-01 is a Thursday; the axis starts on Monday 2025-12-29
+    expect(lines[0]).toMatch(/^ {14}12-29 /);
+    expect(lines[1].length).toBeLessThanOrEqual(100);
+    expect(lines[2]).toMatch(/^Long project {2}█+$/);
+    expect(formatAsTimeline([])).toBe('No results');
+  });
+});
+
+describe('formatAggregateRows', () => {
+  const rows = [
+    { status: 'To Do', 'COUNT(*)': 12, 'AVG(age_days)': 4.3333 },
+    { status: null, 'COUNT(*)': 3, 'AVG(age_days)': null },
+  ];
+  const columns = ['status', 'COUNT(*)', 'AVG(age_days)'];
+
+  it('should render groups as a table with right-aligned numbers and a footer', () => {
+    expect(formatAggregateRows(rows, columns, { task_count: 15 })).toBe([
+      '┌────────┬──────────┬───────────────┐',
+      '│ status │ COUNT(*) │ AVG(age_days) │',
+      '├────────┼──────────┼───────────────┤',
+      '│ To Do  │       12 │          4.33 │',
+      '│ -      │        3 │             - │',
+      '└────────┴──────────┴───────────────┘',
+      '2 groups from 15 tasks',
+    ].join('\n'));
+  });
+
+  it('should render compact, CSV and JSON', () => {
+    expect(formatAggregateRows(rows, columns, { format: 'compact' })).toBe('To Do\t12\t4.33\n-\t3\t-\n2 groups');
+    expect(formatAggregateRows(rows, columns, { format: 'csv' })).toBe(
+      'status,COUNT(*),AVG(age_days)\nTo Do,12,4.33\n-,3,-'
+    );
+    expect(JSON.parse(formatAggregateRows(rows, columns, { format: 'json' }))).toEqual([
+      { status: 'To Do', 'COUNT(*)': 12, 'AVG(age_days)': 4.33 },
+      { status: null, 'COUNT(*)': 3, 'AVG(age_days)': null },
+    ]);
+  });
+});
+
+describe('formatTaskChanges', () => {
+  const previews: TaskChangePreview[] = [
+    {
+      dart_id: 'duid_abc123def456',
+      title: 'Fix login bug',
+      changes: [
+        { field: 'status', from: 'To Do', to: 'Done' },
+        { field: 'priority', from: 'low', to: 'High' },
+      ],
+      no_op: false,
+    },
+    { dart_id: 'duid_xyz789', title: 'Write | docs', changes: [], no_op: true },
+  ];
+  const summary = '2 tasks: status changes 1, 1 already Done; priority changes 1, 1 already High; 1 skipped (no change)';
+
+  it('should render only the changing fields, flagging no-op tasks', () => {
+    expect(formatTaskChanges(previews, { summary })).toBe([
+      '┌──────────┬───────────────┬────────────────────────────────────────────┐',
+      '│ id       │ title         │ changes                                    │',
+      '├──────────┼───────────────┼────────────────────────────────────────────┤',
+      '│ ..def456 │ Fix login bug │ status: To Do → Done, priority: low → High │',
+      '│ ..xyz789 │ Write | docs  │ (no change, skipped)                       │',
+      '└──────────┴───────────────┴────────────────────────────────────────────┘',
+      summary,
+    ].join('\n'));
+  });
+
+  it('should render compact and markdown', () => {
+    expect(formatTaskChanges(previews, { format: 'compact' })).toBe(
+      '..def456\tFix login bug\tstatus: To Do → Done, priority: low → High\n' +
+        '..xyz789\tWrite | docs\t(no change, skipped)'
+    );
+    expect(formatTaskChanges(previews, { format: 'markdown', summary })).toBe([
+      '| id | title | changes |',
+      '| --- | --- | --- |',
+      '| ..def456 | Fix login bug | status: To Do → Done, priority: low → High |',
+      '| ..xyz789 | Write \\| docs | (no change, skipped) |',
+      '',
+      summary,
+    ].join('\n'));
+  });
+
+  it('should truncate long values and report no results', () => {
+    const long = { dart_id: 'duid_a1', title: 'Rewrite', changes: [{ field: 'description', from: '-', to: 'x'.repeat(40) }], no_op: false };
+    expect(formatTaskChanges([long], { format: 'compact' })).toBe(`duid_a1\tRewrite\tdescription: - → ${'x'.repeat(17)}...`);
+    expect(formatTaskChanges([], { summary: '0 tasks: status changes 0' })).toBe('No results\n0 tasks: status changes 0');
+  });
+});
+
 describe('formatAsIds', () => {
   it('should format as newline-separated IDs', () => {
     const result = formatAsIds(sampleTasks);
@@ -396,6 +736,9 @@ describe('formatTasks', () => {
     expect(formatTasks(sampleTasks, { format: 'csv' })).toContain(',');
     expect(formatTasks(sampleTasks, { format: 'ids' })).not.toContain('\t');
     expect(formatTasks(sampleTasks, { format: 'json' })).toContain('"dart_id"');
+    expect(formatTasks(sampleTasks, { format: 'markdown' })).toContain('| --- |');
+    expect(formatTasks(sampleTasks, { format: 'checklist' })).toContain('- [ ] ');
+    expect(formatTasks(sampleTasks, { format: 'tree' })).toContain('[Todo · H · @john.doe');
   });
 
   it('should include pagination info when provided', () => {
@@ -409,6 +752,79 @@ describe('formatTasks', () => {
   });
 });
 
+// ============================================================================
+// Budgeted Formatting Tests
+// ============================================================================
+
+describe('formatTasksWithinBudget', () => {
+  const fields = ['id', 'title', 'status', 'tags', 'board'];
+  const manyTasks: DartTask[] = Array.from({ length: 20 }, (_, i) => ({
+    ...sampleTask,
+    dart_id: `duid_task${i}`,
+  }));
+
+  it('should leave output that fits untouched', () => {
+    const result = formatTasksWithinBudget(sampleTasks, 10000, { fields });
+
+    expect(result.output).toBe(formatTasks(sampleTasks, { fields }));
+    expect(result.returned_count).toBe(sampleTasks.length);
+    expect(result.trimmed).toEqual([]);
+  });
+
+  it('should drop low-priority columns, last selected first, before anything else', () => {
+    const full = formatTasks(sampleTasks, { fields });
+    const result = formatTasksWithinBudget(sampleTasks, full.length - 1, { fields });
+
+    expect(result.fields).toEqual(['id', 'title', 'status', 'tags']);
+    expect(result.trimmed).toEqual(['dropped board']);
+    expect(result.output).toContain('| trimmed: dropped board');
+    expect(result.output.length).toBeLessThanOrEqual(full.length - 1);
+    expect(result.returned_count).toBe(sampleTasks.length);
+  });
+
+  it('should shorten titles and switch to compact before returning fewer tasks', () => {
+    const essential = formatTasks(manyTasks, { fields: ['id', 'title', 'status'] });
+    const result = formatTasksWithinBudget(manyTasks, essential.length - 200, { fields });
+
+    expect(result.fields).toEqual(['id', 'title', 'status']);
+    expect(result.trimmed[0]).toBe('dropped tags,board');
+    expect(result.trimmed[1]).toMatch(/^title (20|15|10)$/);
+    expect(result.returned_count).toBe(20);
+  });
+
+  it('should paginate as a last resort and continue after the last task shown', () => {
+    const result = formatTasksWithinBudget(manyTasks, 300, { fields, total_count: 40, offset: 10 });
+
+    expect(result.format).toBe('compact');
+    expect(result.trimmed).toEqual(['dropped tags,board', 'title 10', 'compact']);
+    expect(result.returned_count).toBeGreaterThan(0);
+    expect(result.returned_count).toBeLessThan(20);
+    expect(result.has_more).toBe(true);
+    expect(result.output.length).toBeLessThanOrEqual(300);
+    expect(result.output).toContain(`| more: +${10 + result.returned_count}`);
+  });
+
+  it('should always return at least one task, and only paginate json', () => {
+    expect(formatTasksWithinBudget(manyTasks, 10, { fields }).returned_count).toBe(1);
+
+    const json = formatTasksWithinBudget(manyTasks, 2000, { format: 'json' });
+    expect(json.format).toBe('json');
+    expect(json.trimmed).toEqual([]);
+    expect(JSON.parse(json.output)).toHaveLength(json.returned_count);
+    expect(json.returned_count).toBeLessThan(20);
+  });
+});
+
+describe('resolveCharBudget', () => {
+  it('should convert tokens to characters and validate the budget', () => {
+    expect(resolveCharBudget({})).toBeUndefined();
+    expect(resolveCharBudget({ max_tokens: 100 })).toBe(400);
+    expect(resolveCharBudget({ max_chars: 250 })).toBe(250);
+    expect(() => resolveCharBudget({ max_tokens: 100, max_chars: 400 })).toThrow(ValidationError);
+    expect(() => resolveCharBudget({ max_tokens: 0 })).toThrow('max_tokens must be a positive integer');
+  });
+});
+
 // ============================================================================
 // Essential Fields Tests
 // ============================================================================
@@ -7,15 +7,29 @@
  * - csv: CSV for piping/export
  * - json: Full JSON (current behavior)
  * - ids: Just dart_ids, newline-separated
+ * - markdown: GFM pipe table, titles linked to the task
+ * - checklist: Markdown task list, checked when completed
+ * - tree: Parent/subtask hierarchy with box-drawing indentation
+ * - board: Kanban columns per status, optionally in swimlanes
+ * - timeline: One bar per task from start_at to due_at on a day/week axis
+ *
+ * Aggregate groups and batch update previews (per-task field changes) render
+ * in the same table style.
  */
 
-import { DartTask } from '../types/index.js';
+import { DartTask, OutputBudgetInput, TaskChangePreview, ValidationError } from '../types/index.js';
+import { computeVirtualField, VirtualField } from '../parsers/virtualFields.js';
+import type { ExpandedTask } from './relationshipExpander.js';
+import { isCustomPropertyField, customPropertyName, readCustomProperty } from '../parsers/customProperties.js';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type OutputFormat = 'table' | 'compact' | 'csv' | 'json' | 'ids';
+export type OutputFormat = 'table' | 'compact' | 'csv' | 'json' | 'ids' | 'markdown' | 'checklist' | 'tree' | 'board' | 'timeline';
+
+/** Board swimlanes */
+export type BoardGroupBy = 'assignee' | 'priority';
 
 /** Internal type with metadata for formatting */
 interface TaskWithMeta extends DartTask {
@@ -38,6 +52,11 @@ export interface FormatOptions {
   total_count?: number;           // Total count for footer
   has_more?: boolean;             // Has more results
   offset?: number;                // Current offset
+  trimmed?: string[];             // Budget trims, reported in the footer
+  statuses?: string[];            // Board column order (workspace statuses)
+  group_by?: BoardGroupBy;        // Board swimlanes
+  width?: number;                 // Board/timeline width in characters (default: 120)
+  today?: string;                 // Timeline today marker, YYYY-MM-DD (default: UTC date)
 }
 
 export interface RelationshipCounts {
@@ -66,6 +85,17 @@ const PRIORITY_MAP: Record<string, string> = {
   '0': '-',
 };
 
+/** Board and timeline width when none is given */
+const OUTPUT_WIDTH = 120;
+
+/** Narrowest board column; narrower boards stack their columns as sections */
+const MIN_BOARD_COLUMN_WIDTH = 16;
+
+/** Timeline columns kept for the notes after each bar */
+const TIMELINE_NOTES_WIDTH = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /** Essential fields shown by default */
 export const ESSENTIAL_FIELDS = ['id', 'title', 'status', 'pri', 'assignee', 'due'];
 
@@ -162,6 +192,13 @@ export const FIELD_DEFINITIONS: Record<string, FieldConfig> = {
     width: 8,
     format: (v) => v ? abbreviateId(String(v)) : '-',
   },
+  depth: {
+    key: 'depth',
+    header: 'dep',
+    width: 3,
+    align: 'right',
+    format: (v) => v == null ? '-' : String(v),
+  },
   '#subtasks': {
     key: 'subtask_ids',
     header: '#sub',
@@ -197,6 +234,74 @@ export const FIELD_DEFINITIONS: Record<string, FieldConfig> = {
     align: 'right',
     format: (v) => formatCount(v),
   },
+  // Virtual fields (computed from the task, same names as in DartQL)
+  age_days: {
+    key: 'age_days',
+    header: 'age',
+    width: 4,
+    align: 'right',
+    format: (_v, task) => formatVirtual(task, 'age_days'),
+  },
+  days_since_update: {
+    key: 'days_since_update',
+    header: 'idle',
+    width: 4,
+    align: 'right',
+    format: (_v, task) => formatVirtual(task, 'days_since_update'),
+  },
+  days_until_due: {
+    key: 'days_until_due',
+    header: 'dueIn',
+    width: 5,
+    align: 'right',
+    format: (_v, task) => formatVirtual(task, 'days_until_due'),
+  },
+  is_overdue: {
+    key: 'is_overdue',
+    header: 'late',
+    width: 4,
+    format: (_v, task) => formatVirtual(task, 'is_overdue'),
+  },
+  is_completed: {
+    key: 'is_completed',
+    header: 'fin',
+    width: 3,
+    format: (_v, task) => formatVirtual(task, 'is_completed'),
+  },
+  subtask_count: {
+    key: 'subtask_count',
+    header: 'nSub',
+    width: 4,
+    align: 'right',
+    format: (_v, task) => formatVirtual(task, 'subtask_count'),
+  },
+  blocker_count: {
+    key: 'blocker_count',
+    header: 'nBlk',
+    width: 4,
+    align: 'right',
+    format: (_v, task) => formatVirtual(task, 'blocker_count'),
+  },
+  has_open_blockers: {
+    key: 'has_open_blockers',
+    header: 'blkd',
+    width: 4,
+    format: (_v, task) => formatVirtual(task, 'has_open_blockers'),
+  },
+  assignee_count: {
+    key: 'assignee_count',
+    header: 'n@',
+    width: 3,
+    align: 'right',
+    format: (_v, task) => formatVirtual(task, 'assignee_count'),
+  },
+  tag_count: {
+    key: 'tag_count',
+    header: 'nTag',
+    width: 4,
+    align: 'right',
+    format: (_v, task) => formatVirtual(task, 'tag_count'),
+  },
 };
 
 // ============================================================================
@@ -279,6 +384,23 @@ export function formatCount(value: unknown): string {
   return '0';
 }
 
+/** Format a custom property value: lists comma-separated, flags as Y/N, dates as YYYY-MM-DD */
+export function formatCustomProperty(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Y' : 'N';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(String).join(',') : '-';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return formatDate(value);
+  return String(value);
+}
+
+/** Format a computed virtual field: numbers as-is, flags as Y/N */
+export function formatVirtual(task: DartTask, field: VirtualField): string {
+  const value = computeVirtualField(task as unknown as Record<string, unknown>, field);
+  if (value === null) return '-';
+  if (typeof value === 'boolean') return value ? 'Y' : 'N';
+  return String(value);
+}
+
 // ============================================================================
 // Table Formatting
 // ============================================================================
@@ -302,6 +424,16 @@ function getFieldValue(task: DartTask, fieldConfig: FieldConfig): string {
   return value !== null && value !== undefined ? String(value) : '-';
 }
 
+/** Column for a custom property */
+function customPropertyColumn(name: string): FieldConfig {
+  return {
+    key: `prop.${name}`,
+    header: truncate(name, 12),
+    width: 12,
+    format: (_v, task) => truncate(formatCustomProperty(readCustomProperty(task as unknown as Record<string, unknown>, name)), 12),
+  };
+}
+
 /** Parse field list, handling modifiers like # for counts */
 export function parseFieldList(fields: string[]): FieldConfig[] {
   const configs: FieldConfig[] = [];
@@ -317,6 +449,12 @@ export function parseFieldList(fields: string[]): FieldConfig[] {
     // Handle regular fields
     if (FIELD_DEFINITIONS[field]) {
       configs.push(FIELD_DEFINITIONS[field]);
+      continue;
+    }
+
+    // Handle custom properties (prop.Name), headed by the property name
+    if (isCustomPropertyField(field)) {
+      configs.push(customPropertyColumn(customPropertyName(field)));
     }
   }
 
@@ -446,6 +584,491 @@ export function formatAsCSV(
   return [header, ...rows].join('\n');
 }
 
+/** Escape Markdown in a table cell or link text; line breaks become spaces */
+function escapeMarkdown(value: string): string {
+  return value.replace(/[\\|[\]*`]/g, '\\$&').replace(/\s*\n\s*/g, ' ');
+}
+
+/** Markdown link to the task, or the text alone when the task has no URL */
+function markdownLink(text: string, task: DartTask): string {
+  return task.url ? `[${text}](${task.url.replace(/\)/g, '%29')})` : text;
+}
+
+/**
+ * Format tasks as a GitHub-flavored Markdown pipe table; the title (or the
+ * id without a title column) links to the task
+ */
+export function formatAsMarkdown(
+  tasks: DartTask[],
+  options: FormatOptions = {}
+): string {
+  const fields = options.fields || ESSENTIAL_FIELDS;
+  const fieldConfigs = parseFieldList(fields);
+
+  if (fieldConfigs.length === 0 || tasks.length === 0) {
+    return 'No results';
+  }
+
+  const titleWidth = options.truncate_title || 25;
+  const tasksWithMeta = tasks.map(t => ({ ...t, _titleWidth: titleWidth }));
+  const linked = fieldConfigs.find(f => f.key === 'title') ?? fieldConfigs.find(f => f.key === 'dart_id');
+
+  const headerRow = '| ' + fieldConfigs.map(f => escapeMarkdown(f.header)).join(' | ') + ' |';
+  const separator = '| ' + fieldConfigs.map(f => (f.align === 'right' ? '--:' : '---')).join(' | ') + ' |';
+
+  const dataRows = tasksWithMeta.map(task => {
+    const cells = fieldConfigs.map(f => {
+      const value = escapeMarkdown(getFieldValue(task as DartTask, f));
+      return f === linked ? markdownLink(value, task) : value;
+    });
+    return '| ' + cells.join(' | ') + ' |';
+  });
+
+  const lines = [headerRow, separator, ...dataRows];
+
+  // Add footer (a blank line ends the table)
+  if (options.show_footer !== false) {
+    const footer = buildFooter(tasks.length, options);
+    if (footer) {
+      lines.push('', footer);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format tasks as a Markdown checklist, checked when completed_at is set:
+ *
+ *   - [x] Fix login (@john, due 2026-02-01)
+ *
+ * The selected fields other than title follow in parentheses, assignees as
+ * @name and the rest labeled by their header; empty values are left out.
+ */
+export function formatAsChecklist(
+  tasks: DartTask[],
+  options: FormatOptions = {}
+): string {
+  const fields = options.fields || ESSENTIAL_FIELDS;
+  const fieldConfigs = parseFieldList(fields);
+
+  if (fieldConfigs.length === 0 || tasks.length === 0) {
+    return 'No results';
+  }
+
+  const titleWidth = options.truncate_title || 25;
+  const tasksWithMeta = tasks.map(t => ({ ...t, _titleWidth: titleWidth }));
+  const titleConfig = FIELD_DEFINITIONS.title;
+  const detailConfigs = fieldConfigs.filter(f => f.key !== 'title');
+
+  const items = tasksWithMeta.map(task => {
+    const checkbox = task.completed_at ? '[x]' : '[ ]';
+    const title = markdownLink(escapeMarkdown(getFieldValue(task as DartTask, titleConfig)), task);
+    const details = detailConfigs
+      .map(f => {
+        const value = getFieldValue(task as DartTask, f);
+        if (value === '-') return null;
+        return f.key === 'assignees' ? `@${value}` : `${f.header} ${value}`;
+      })
+      .filter((detail): detail is string => detail !== null)
+      .map(escapeMarkdown);
+
+    return `- ${checkbox} ${title}` + (details.length > 0 ? ` (${details.join(', ')})` : '');
+  });
+
+  // Add footer (a blank line ends the list)
+  if (options.show_footer !== false) {
+    const footer = buildFooter(tasks.length, options);
+    if (footer) {
+      items.push('', footer);
+    }
+  }
+
+  return items.join('\n');
+}
+
+/**
+ * Format tasks as a parent/subtask tree, nested by parent_task (or a parent's
+ * subtask_ids):
+ *
+ *   ..c123 Auth epic [Doing · H · @alice] 2/3 done
+ *   ├─ ..d456 Login form [Done · M]
+ *   └─ ..e789 Sessions [Todo] 0/1 done
+ *      └─ ..f012 Token refresh [Todo · @bob]
+ *   ◇ ..a111 Billing epic (not in results) 0/1 done
+ *   └─ ..b222 Invoice export [Todo]
+ *
+ * Badges are the selected fields other than id and title; a parent counts the
+ * tasks below it that are done. Tasks whose parent is not in the results are
+ * grouped under the parent's title from the expanded _parent summary
+ * (expandRelationships with 'parent'), or its id alone.
+ */
+export function formatAsTree(
+  tasks: ExpandedTask[],
+  options: FormatOptions = {}
+): string {
+  if (tasks.length === 0) {
+    return 'No results';
+  }
+
+  const fieldConfigs = parseFieldList(options.fields || ESSENTIAL_FIELDS);
+  const showId = fieldConfigs.some(f => f.key === 'dart_id');
+  const badgeConfigs = fieldConfigs.filter(f => f.key !== 'dart_id' && f.key !== 'title');
+  const titleWidth = options.truncate_title || 25;
+
+  const byId = new Map(tasks.map(task => [task.dart_id, task]));
+  const parentIds = new Map<string, string>();
+  for (const task of tasks) {
+    if (task.parent_task) parentIds.set(task.dart_id, task.parent_task);
+  }
+  for (const task of tasks) {
+    for (const id of task.subtask_ids || []) {
+      if (byId.has(id) && !parentIds.has(id)) parentIds.set(id, task.dart_id);
+    }
+  }
+
+  // A task on a parent cycle within the results is shown at the top level
+  const onCycle = (dartId: string): boolean => {
+    const seen = new Set<string>();
+    for (let id = parentIds.get(dartId); id && byId.has(id) && !seen.has(id); id = parentIds.get(id)) {
+      if (id === dartId) return true;
+      seen.add(id);
+    }
+    return false;
+  };
+
+  // Top level in result order: root tasks and groups of tasks with a missing parent
+  const children = new Map<string, ExpandedTask[]>();
+  const top: Array<ExpandedTask | string> = [];
+  for (const task of tasks) {
+    const parentId = parentIds.get(task.dart_id);
+    if (!parentId || (byId.has(parentId) && onCycle(task.dart_id))) {
+      top.push(task);
+      continue;
+    }
+    if (!byId.has(parentId) && !children.has(parentId)) top.push(parentId);
+    children.set(parentId, [...(children.get(parentId) || []), task]);
+  }
+
+  const countBelow = (dartId: string): { done: number; total: number } => {
+    let done = 0;
+    let total = 0;
+    for (const child of children.get(dartId) || []) {
+      const below = countBelow(child.dart_id);
+      done += below.done + (child.completed_at ? 1 : 0);
+      total += below.total + 1;
+    }
+    return { done, total };
+  };
+  const rollup = (dartId: string): string => {
+    const { done, total } = countBelow(dartId);
+    return total > 0 ? ` ${done}/${total} done` : '';
+  };
+
+  const node = (task: ExpandedTask): string => {
+    const withWidth: TaskWithMeta = { ...task, _titleWidth: titleWidth };
+    const title = getFieldValue(withWidth, FIELD_DEFINITIONS.title);
+    const badges = badgeConfigs
+      .map(f => {
+        const value = getFieldValue(withWidth, f);
+        if (value === '-') return null;
+        if (f.key === 'assignees') return `@${value}`;
+        return f.key === 'status' || f.key === 'priority' ? value : `${f.header} ${value}`;
+      })
+      .filter((badge): badge is string => badge !== null);
+
+    return (showId ? `${abbreviateId(task.dart_id)} ` : '') + title +
+      (badges.length > 0 ? ` [${badges.join(' · ')}]` : '') + rollup(task.dart_id);
+  };
+
+  const lines: string[] = [];
+  const branch = (parentId: string, prefix: string) => {
+    const kids = children.get(parentId) || [];
+    kids.forEach((child, i) => {
+      const last = i === kids.length - 1;
+      lines.push(prefix + (last ? '└─ ' : '├─ ') + node(child));
+      branch(child.dart_id, prefix + (last ? '   ' : '│  '));
+    });
+  };
+
+  for (const entry of top) {
+    if (typeof entry === 'string') {
+      const parentTitle = children.get(entry)?.[0]._parent?.[0]?.title;
+      const label = [abbreviateId(entry), parentTitle && truncate(parentTitle, titleWidth)].filter(Boolean).join(' ');
+      lines.push(`◇ ${label} (not in results)${rollup(entry)}`);
+      branch(entry, '');
+    } else {
+      lines.push(node(entry));
+      branch(entry.dart_id, '');
+    }
+  }
+
+  // Add footer
+  if (options.show_footer !== false) {
+    const footer = buildFooter(tasks.length, options);
+    if (footer) {
+      lines.push(footer);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format tasks as a Kanban board with one column per status, in the order of
+ * options.statuses (the workspace's status list), and a WIP count per column:
+ *
+ *   ┌──────────────────────┬──────────────────────┐
+ *   │ To Do (2)            │ Doing (1)            │
+ *   ├──────────────────────┼──────────────────────┤
+ *   │ ..c123 Fix login H   │ ..d456 Dark mode M   │
+ *   │ ..e789 Logout bug L  │                      │
+ *   └──────────────────────┴──────────────────────┘
+ *
+ * Cards are the selected fields other than status, cut to the column width.
+ * group_by splits the board into assignee or priority swimlanes. When the
+ * columns would be narrower than 16 characters, statuses are stacked as
+ * sections instead.
+ */
+export function formatAsBoard(
+  tasks: DartTask[],
+  options: FormatOptions = {}
+): string {
+  const fieldConfigs = parseFieldList(options.fields || ESSENTIAL_FIELDS);
+
+  if (fieldConfigs.length === 0 || tasks.length === 0) {
+    return 'No results';
+  }
+
+  const width = options.width || OUTPUT_WIDTH;
+  const titleWidth = options.truncate_title || 25;
+  const laneField = options.group_by === 'assignee' ? 'assignees' : options.group_by === 'priority' ? 'priority' : undefined;
+  const cardConfigs = fieldConfigs.filter(f => f.key !== 'status' && f.key !== laneField);
+
+  // Columns: workspace statuses in order, then statuses it does not list
+  const columnOf = (task: DartTask): string => {
+    const status = task.status || 'No status';
+    return options.statuses?.find(name => name.toLowerCase() === status.toLowerCase()) ?? status;
+  };
+  const present = new Set(tasks.map(columnOf));
+  const columns = [
+    ...(options.statuses || []).filter(name => present.has(name)),
+    ...Array.from(present).filter(name => !options.statuses?.includes(name)),
+  ];
+
+  const lanes = laneField ? boardLanes(tasks, options.group_by as BoardGroupBy) : [{ label: '', tasks }];
+  const card = (task: DartTask, cardWidth: number): string => {
+    const withWidth: TaskWithMeta = { ...task, _titleWidth: titleWidth };
+    const parts = cardConfigs
+      .map(f => {
+        const value = getFieldValue(withWidth, f);
+        if (value === '-' && f.key !== 'title') return null;
+        return f.key === 'assignees' ? `@${value}` : value;
+      })
+      .filter((part): part is string => part !== null);
+    return truncate(parts.join(' '), cardWidth);
+  };
+  const heading = (column: string, count: number) => `${column} (${count})`;
+  const countIn = (column: string, laneTasks: DartTask[]) => laneTasks.filter(t => columnOf(t) === column).length;
+
+  const lines: string[] = [];
+  const columnWidth = Math.floor((width - 4 - 3 * (columns.length - 1)) / columns.length);
+
+  if (columnWidth < MIN_BOARD_COLUMN_WIDTH) {
+    // Stacked sections, one per status
+    for (const column of columns) {
+      lines.push(heading(column, countIn(column, tasks)));
+      for (const lane of lanes) {
+        const laneTasks = lane.tasks.filter(t => columnOf(t) === column);
+        if (laneTasks.length === 0) continue;
+        const indent = lane.label ? '    ' : '  ';
+        if (lane.label) lines.push(`  ${lane.label} (${laneTasks.length})`);
+        lines.push(...laneTasks.map(task => indent + card(task, width - indent.length)));
+      }
+    }
+  } else {
+    const rule = (left: string, junction: string, right: string) =>
+      left + columns.map(() => '─'.repeat(columnWidth + 2)).join(junction) + right;
+    const row = (cells: string[]) => '│ ' + cells.map(cell => pad(cell, columnWidth)).join(' │ ') + ' │';
+    const innerWidth = columnWidth * columns.length + 3 * (columns.length - 1);
+
+    lines.push(rule('┌', '┬', '┐'));
+    lines.push(row(columns.map(column => truncate(heading(column, countIn(column, tasks)), columnWidth))));
+
+    for (const lane of lanes) {
+      if (lane.label) {
+        lines.push(rule('├', '┴', '┤'));
+        lines.push('│ ' + pad(truncate(`${lane.label} (${lane.tasks.length})`, innerWidth), innerWidth) + ' │');
+      }
+      lines.push(rule('├', lane.label ? '┬' : '┼', '┤'));
+
+      const cells = columns.map(column => lane.tasks.filter(t => columnOf(t) === column).map(t => card(t, columnWidth)));
+      const height = Math.max(...cells.map(cards => cards.length));
+      for (let i = 0; i < height; i++) {
+        lines.push(row(cells.map(cards => cards[i] ?? '')));
+      }
+    }
+
+    lines.push(rule('└', '┴', '┘'));
+  }
+
+  // Add footer
+  if (options.show_footer !== false) {
+    const footer = buildFooter(tasks.length, options);
+    if (footer) {
+      lines.push(footer);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/** Board swimlanes: assignees alphabetically, priorities by rank, unset last */
+function boardLanes(tasks: DartTask[], groupBy: BoardGroupBy): Array<{ label: string; tasks: DartTask[] }> {
+  const keyOf = (task: DartTask) =>
+    groupBy === 'assignee' ? formatAssignee(task.assignees) : formatPriority(task.priority);
+  const rank = ['C', 'H', 'M', 'L'];
+
+  const keys = Array.from(new Set(tasks.map(keyOf))).sort((a, b) => {
+    if (a === '-' || b === '-') return a === '-' ? (b === '-' ? 0 : 1) : -1;
+    return groupBy === 'priority' ? rank.indexOf(a) - rank.indexOf(b) : a.localeCompare(b);
+  });
+
+  return keys.map(key => ({
+    label: key === '-'
+      ? (groupBy === 'assignee' ? 'unassigned' : 'no priority')
+      : (groupBy === 'assignee' ? `@${key}` : `pri ${key}`),
+    tasks: tasks.filter(task => keyOf(task) === key),
+  }));
+}
+
+/**
+ * Format tasks as a timeline with one bar per task from start_at to due_at
+ * (a ◆ when only one is set), on a day axis or, when the dates span more
+ * days than fit, a week axis:
+ *
+ *                            01-05  01-12  01-19
+ *                            ┬──────┬──────┬──▼────
+ *   ..c123 Fix login         ████████      │
+ *   ..d456 Ship release             ██████ │ ◀ ..c123
+ *   ..e789 Write docs          ◆           │ overdue
+ *
+ * ▼ and │ mark today. Notes after the bar flag open tasks due before today
+ * and list blockers (blocker_ids) in the results as ◀ id, with ! when the
+ * blocker is due after this task starts. Tasks without dates close the list.
+ */
+export function formatAsTimeline(
+  tasks: DartTask[],
+  options: FormatOptions = {}
+): string {
+  if (tasks.length === 0) {
+    return 'No results';
+  }
+
+  const fields = options.fields || ESSENTIAL_FIELDS;
+  const showId = fields.includes('id');
+  const titleWidth = options.truncate_title || 25;
+  const labelWidth = (showId ? FIELD_DEFINITIONS.id.width + 1 : 0) + titleWidth + 2;
+  const today = dayNumber(options.today ?? new Date().toISOString()) as number;
+
+  const spans = new Map<string, { start: number; end: number }>();
+  for (const task of tasks) {
+    const start = dayNumber(task.start_at);
+    const end = dayNumber(task.due_at);
+    if (start === undefined && end === undefined) continue;
+    const first = start ?? (end as number);
+    const last = end ?? first;
+    spans.set(task.dart_id, { start: Math.min(first, last), end: Math.max(first, last) });
+  }
+
+  // Axis: days, or whole weeks from a Monday per column when the days do not fit
+  const days = Array.from(spans.values()).flatMap(span => [span.start, span.end]);
+  const axisEnd = Math.max(today, ...days);
+  const axisWidth = Math.max(10, (options.width || OUTPUT_WIDTH) - labelWidth - TIMELINE_NOTES_WIDTH);
+  let axisStart = Math.min(today, ...days);
+  let daysPerColumn = 1;
+  if (axisEnd - axisStart + 1 > axisWidth) {
+    axisStart -= (new Date(axisStart * DAY_MS).getUTCDay() + 6) % 7;
+    daysPerColumn = 7 * Math.ceil((axisEnd - axisStart + 1) / (7 * axisWidth));
+  }
+  const columns = Math.ceil((axisEnd - axisStart + 1) / daysPerColumn);
+  const columnOf = (day: number) => Math.floor((day - axisStart) / daysPerColumn);
+  const todayColumn = columnOf(today);
+
+  // Date ticks: Mondays on a day axis, every column on a week axis, spaced to fit
+  const labels = Array<string>(columns).fill(' ');
+  const ruler = Array<string>(columns).fill('─');
+  for (let column = 0, free = 0; column < columns; column++) {
+    const date = new Date((axisStart + column * daysPerColumn) * DAY_MS);
+    if (column < free || (daysPerColumn === 1 && date.getUTCDay() !== 1)) continue;
+    const label = date.toISOString().slice(5, 10);
+    if (column + label.length > columns) break;
+    labels.splice(column, label.length, ...label);
+    ruler[column] = '┬';
+    free = column + label.length + 1;
+  }
+  ruler[todayColumn] = '▼';
+
+  const byId = new Map(tasks.map(task => [task.dart_id, task]));
+  const label = (task: DartTask) => pad(
+    (showId ? pad(abbreviateId(task.dart_id), FIELD_DEFINITIONS.id.width) + ' ' : '') +
+      truncate(task.title || '-', titleWidth),
+    labelWidth
+  );
+
+  const lines = [' '.repeat(labelWidth) + labels.join('').trimEnd(), ' '.repeat(labelWidth) + ruler.join('')];
+  const unscheduled: DartTask[] = [];
+
+  for (const task of tasks) {
+    const span = spans.get(task.dart_id);
+    if (!span) {
+      unscheduled.push(task);
+      continue;
+    }
+
+    const bar = Array<string>(columns).fill(' ');
+    bar[todayColumn] = '│';
+    const first = columnOf(span.start);
+    const last = columnOf(span.end);
+    const oneDate = !task.start_at || !task.due_at || span.start === span.end;
+    for (let column = first; column <= last; column++) {
+      bar[column] = oneDate ? '◆' : '█';
+    }
+
+    const notes: string[] = [];
+    if (!task.completed_at && task.due_at && span.end < today) {
+      notes.push('overdue');
+    }
+    for (const blockerId of task.blocker_ids || []) {
+      const blocker = spans.get(blockerId);
+      if (!byId.has(blockerId)) continue;
+      notes.push(`◀ ${abbreviateId(blockerId)}${blocker && blocker.end > span.start ? '!' : ''}`);
+    }
+
+    lines.push((label(task) + bar.join('') + (notes.length > 0 ? ' ' + notes.join(' ') : '')).trimEnd());
+  }
+
+  if (unscheduled.length > 0) {
+    lines.push('', ...unscheduled.map(task => label(task) + '(no dates)'));
+  }
+
+  // Add footer
+  if (options.show_footer !== false) {
+    const footer = buildFooter(tasks.length, options);
+    if (footer) {
+      lines.push(footer);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/** Days since the epoch of an ISO date's calendar day */
+function dayNumber(value: unknown): number | undefined {
+  const date = formatDate(value);
+  return date === '-' ? undefined : Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+}
+
 /**
  * Format tasks as newline-separated IDs only
  */
@@ -469,9 +1092,160 @@ function buildFooter(returnedCount: number, options: FormatOptions): string {
     parts.push(`| more: +${(options.offset || 0) + returnedCount}`);
   }
 
+  if (options.trimmed && options.trimmed.length > 0) {
+    parts.push(`| trimmed: ${options.trimmed.join('; ')}`);
+  }
+
   return parts.join(' ');
 }
 
+// ============================================================================
+// Aggregate Formatting
+// ============================================================================
+
+/** Widest aggregate column in table format */
+const MAX_AGGREGATE_WIDTH = 20;
+
+export interface AggregateFormatOptions {
+  format?: OutputFormat;           // table, compact, csv or json (default: table)
+  task_count?: number;             // Tasks grouped, for the footer
+}
+
+/** Format a group key or aggregate: numbers to 2 decimals, flags as Y/N */
+function formatAggregateValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Y' : 'N';
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  return String(value);
+}
+
+/**
+ * Format aggregate_tasks groups; columns are GROUP BY fields and aggregate
+ * labels (COUNT(*)), numbers right-aligned
+ */
+export function formatAggregateRows(
+  rows: Array<Record<string, unknown>>,
+  columns: string[],
+  options: AggregateFormatOptions = {}
+): string {
+  const format = options.format || 'table';
+  const footer = `${rows.length} groups` + (options.task_count !== undefined ? ` from ${options.task_count} tasks` : '');
+
+  if (format === 'json') {
+    const projected = rows.map(row => Object.fromEntries(columns.map(column => {
+      const value = row[column] ?? null;
+      return [column, typeof value === 'number' ? Math.round(value * 100) / 100 : value];
+    })));
+    return JSON.stringify(projected, null, 2);
+  }
+
+  const cells = rows.map(row => columns.map(column => formatAggregateValue(row[column])));
+
+  if (format === 'csv') {
+    const escape = (value: string) =>
+      value.includes(',') || value.includes('"') || value.includes('\n') ? '"' + value.replace(/"/g, '""') + '"' : value;
+    return [columns, ...cells].map(line => line.map(escape).join(',')).join('\n');
+  }
+
+  if (format === 'compact') {
+    return [...cells.map(line => line.join('\t')), footer].join('\n');
+  }
+
+  if (rows.length === 0) {
+    return 'No results';
+  }
+
+  const widths = columns.map((column, i) =>
+    Math.min(MAX_AGGREGATE_WIDTH, Math.max(column.length, ...cells.map(line => line[i].length)))
+  );
+  const aligns = columns.map(column =>
+    rows.some(row => typeof row[column] === 'number') ? 'right' as const : 'left' as const
+  );
+  const fit = (value: string, i: number) => pad(truncate(value, widths[i]), widths[i], aligns[i]);
+
+  const separatorCells = widths.map(width => '─'.repeat(width));
+  return [
+    '┌─' + separatorCells.join('─┬─') + '─┐',
+    '│ ' + columns.map(fit).join(' │ ') + ' │',
+    '├─' + separatorCells.join('─┼─') + '─┤',
+    ...cells.map(line => '│ ' + line.map(fit).join(' │ ') + ' │'),
+    '└─' + separatorCells.join('─┴─') + '─┘',
+    footer,
+  ].join('\n');
+}
+
+// ============================================================================
+// Change Preview Formatting
+// ============================================================================
+
+/** Widest before/after value in a change preview */
+const MAX_CHANGE_VALUE_WIDTH = 20;
+
+export interface ChangeFormatOptions {
+  format?: 'table' | 'compact' | 'markdown';  // Default: table
+  summary?: string;                            // Footer line, e.g. change counts
+}
+
+/** Changes as "status: Todo → Done, priority: Low → High" */
+function formatChangeList(preview: TaskChangePreview): string {
+  if (preview.no_op) return '(no change, skipped)';
+  return preview.changes
+    .map(change =>
+      `${change.field}: ${truncate(change.from, MAX_CHANGE_VALUE_WIDTH)} → ${truncate(change.to, MAX_CHANGE_VALUE_WIDTH)}`
+    )
+    .join(', ');
+}
+
+/**
+ * Format batch update previews, one row per task with only the fields that
+ * change; tasks the update leaves as they are read "(no change, skipped)"
+ */
+export function formatTaskChanges(
+  previews: TaskChangePreview[],
+  options: ChangeFormatOptions = {}
+): string {
+  const format = options.format || 'table';
+  const footer = options.summary ? [options.summary] : [];
+
+  if (previews.length === 0) {
+    return ['No results', ...footer].join('\n');
+  }
+
+  const rows = previews.map(preview => [
+    abbreviateId(preview.dart_id),
+    truncate(preview.title, 25),
+    formatChangeList(preview),
+  ]);
+
+  if (format === 'compact') {
+    return [...rows.map(row => row.join('\t')), ...footer].join('\n');
+  }
+
+  const columns = ['id', 'title', 'changes'];
+
+  if (format === 'markdown') {
+    return [
+      '| ' + columns.join(' | ') + ' |',
+      '| --- | --- | --- |',
+      ...rows.map(row => '| ' + row.map(escapeMarkdown).join(' | ') + ' |'),
+      ...(footer.length > 0 ? ['', ...footer] : []),
+    ].join('\n');
+  }
+
+  const widths = columns.map((column, i) => Math.max(column.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => '│ ' + cells.map((cell, i) => pad(cell, widths[i])).join(' │ ') + ' │';
+  const separatorCells = widths.map(width => '─'.repeat(width));
+
+  return [
+    '┌─' + separatorCells.join('─┬─') + '─┐',
+    line(columns),
+    '├─' + separatorCells.join('─┼─') + '─┤',
+    ...rows.map(line),
+    '└─' + separatorCells.join('─┴─') + '─┘',
+    ...footer,
+  ].join('\n');
+}
+
 // ============================================================================
 // Main Formatter Function
 // ============================================================================
@@ -496,11 +1270,154 @@ export function formatTasks(
       return formatAsIds(tasks);
     case 'json':
       return JSON.stringify(tasks, null, 2);
+    case 'markdown':
+      return formatAsMarkdown(tasks, options);
+    case 'checklist':
+      return formatAsChecklist(tasks, options);
+    case 'tree':
+      return formatAsTree(tasks, options);
+    case 'board':
+      return formatAsBoard(tasks, options);
+    case 'timeline':
+      return formatAsTimeline(tasks, options);
     default:
       return formatAsTable(tasks, options);
   }
 }
 
+// ============================================================================
+// Budgeted Formatting
+// ============================================================================
+
+/** Rough characters per token for English text and table borders */
+export const CHARS_PER_TOKEN = 4;
+
+/** Title widths tried, widest first, before switching formats */
+const TITLE_WIDTH_STEPS = [20, 15, 10];
+
+export interface BudgetedOutput {
+  output: string;
+  returned_count: number;         // Tasks kept; the rest start at offset + returned_count
+  has_more: boolean;
+  format: OutputFormat;           // Format used (table may become compact)
+  fields: string[];               // Columns kept
+  trimmed: string[];              // What was given up, e.g. ['dropped tags,board', 'title 15']
+}
+
+/**
+ * Read max_tokens or max_chars as a character budget
+ *
+ * @returns Characters allowed, or undefined when neither is given
+ * @throws ValidationError if both are given or either is not a positive integer
+ */
+export function resolveCharBudget(input: OutputBudgetInput): number | undefined {
+  const { max_tokens: maxTokens, max_chars: maxChars } = input;
+
+  if (maxTokens !== undefined && maxChars !== undefined) {
+    throw new ValidationError('Give max_tokens or max_chars, not both', 'max_tokens');
+  }
+  for (const [name, value] of [['max_tokens', maxTokens], ['max_chars', maxChars]] as const) {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+      throw new ValidationError(`${name} must be a positive integer`, name);
+    }
+  }
+
+  return maxTokens !== undefined ? maxTokens * CHARS_PER_TOKEN : maxChars;
+}
+
+/** Estimate the tokens in a piece of output */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Format tasks within a character budget
+ *
+ * Steps stop as soon as the output fits:
+ * 1. Drop columns outside ESSENTIAL_FIELDS, last selected first
+ * 2. Shrink truncate_title to 20, 15, then 10
+ * 3. Switch table to compact
+ * 4. Keep only as many tasks as fit (at least one), so the caller can
+ *    continue at offset + returned_count
+ *
+ * id and title are never dropped; json and ids only paginate. Each step is
+ * listed in the footer and in `trimmed`.
+ */
+export function formatTasksWithinBudget(
+  tasks: DartTask[],
+  maxChars: number,
+  options: FormatOptions = {}
+): BudgetedOutput {
+  let format: OutputFormat = options.format || 'table';
+  let fields = [...(options.fields || ESSENTIAL_FIELDS)];
+  let truncateTitle = options.truncate_title || (format === 'csv' ? 100 : 25);
+  let titleTrim: string | undefined;
+  let count = tasks.length;
+  const dropped: string[] = [];
+
+  const trims = (): string[] => [
+    ...(dropped.length > 0 ? [`dropped ${dropped.join(',')}`] : []),
+    ...(titleTrim ? [titleTrim] : []),
+    ...(format !== (options.format || 'table') ? [format] : []),
+  ];
+  const render = (): string => formatTasks(tasks.slice(0, count), {
+    ...options,
+    format,
+    fields,
+    truncate_title: truncateTitle,
+    has_more: options.has_more || count < tasks.length,
+    trimmed: trims(),
+  });
+  const fits = () => render().length <= maxChars;
+  const result = (): BudgetedOutput => ({
+    output: render(),
+    returned_count: count,
+    has_more: !!options.has_more || count < tasks.length,
+    format,
+    fields,
+    trimmed: trims(),
+  });
+
+  if (fits()) return result();
+
+  if (format !== 'json' && format !== 'ids') {
+    // 1. Low-priority columns, last selected first
+    for (let i = fields.length - 1; i >= 0; i--) {
+      if (ESSENTIAL_FIELDS.includes(fields[i])) continue;
+      dropped.unshift(fields[i]);
+      fields = fields.filter((_field, index) => index !== i);
+      if (fits()) return result();
+    }
+
+    // 2. Narrower titles
+    if (fields.includes('title')) {
+      for (const width of TITLE_WIDTH_STEPS.filter(step => step < truncateTitle)) {
+        truncateTitle = width;
+        titleTrim = `title ${width}`;
+        if (fits()) return result();
+      }
+    }
+
+    // 3. Borderless rows
+    if (format === 'table') {
+      format = 'compact';
+      if (fits()) return result();
+    }
+  }
+
+  // 4. Fewer tasks: the largest count that fits, found by bisection
+  let low = Math.min(1, tasks.length);
+  let high = tasks.length;
+  while (low < high) {
+    count = Math.ceil((low + high) / 2);
+    if (fits()) low = count;
+    else high = count - 1;
+  }
+  count = low;
+
+  return result();
+}
+
 /**
  * Get relationship counts from a task
  */
@@ -0,0 +1,108 @@
+/**
+ * MCP Server Tests
+ *
+ * Tests for the tool responses built by the CallTool handler
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { DartClient } from './api/dartClient.js';
+import { configCache } from './cache/configCache.js';
+
+type RequestHandler = (request: unknown) => Promise<{ content: { text: string }[]; isError?: boolean }>;
+
+// Capture the request handlers instead of serving over stdio
+const handlers = vi.hoisted(() => new Map<unknown, RequestHandler>());
+
+vi.mock('@modelcontextprotocol/sdk/server/index.js', () => ({
+  Server: vi.fn().mockImplementation(() => ({
+    setRequestHandler: (schema: unknown, handler: RequestHandler) => handlers.set(schema, handler),
+    connect: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+  })),
+}));
+vi.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({ StdioServerTransport: vi.fn() }));
+
+// Mock DartClient
+vi.mock('./api/dartClient.js');
+
+const tasks = [
+  { dart_id: 'duid_task000001', title: 'Fix login bug', status: 'Todo', tags: ['bug', 'auth'] },
+  { dart_id: 'duid_task000002', title: 'Fix logout bug', status: 'Todo', tags: ['bug'] },
+  { dart_id: 'duid_task000003', title: 'Write release notes', status: 'Todo', tags: ['docs'] },
+];
+
+const emptyConfig = {
+  assignees: [],
+  dartboards: [],
+  statuses: [],
+  tags: [],
+  priorities: [],
+  sizes: [],
+  folders: [],
+};
+
+function callTool(name: string, args: Record<string, unknown>) {
+  return handlers.get(CallToolRequestSchema)!({ params: { name, arguments: args } });
+}
+
+describe('CallTool handler', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await import('./index.js');
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    configCache.invalidate();
+    process.env.DART_TOKEN = 'dsa_test_token';
+    vi.mocked(DartClient).mockImplementation(() => ({
+      listTasks: vi.fn().mockResolvedValue({ tasks, total: tasks.length }),
+      getConfig: vi.fn().mockResolvedValue(emptyConfig),
+    } as any));
+  });
+
+  it('should return query_tasks pagination and trims next to csv output', async () => {
+    const response = await callTool('query_tasks', {
+      query: "SELECT id,title,tags WHERE status = 'Todo' FORMAT csv",
+      max_chars: 60,
+    });
+
+    expect(response.isError).toBeUndefined();
+    expect(response.content).toHaveLength(2);
+    expect(response.content[0].text).not.toContain('more:');
+
+    const metadata = JSON.parse(response.content[1].text);
+    expect(metadata.output).toBeUndefined();
+    expect(metadata.total_count).toBe(3);
+    expect(metadata.has_more).toBe(true);
+    expect(metadata.next_offset).toBe(metadata.returned_count);
+    expect(metadata.trimmed).toContain('dropped tags');
+  });
+
+  it('should return query_tasks continuation for trimmed json output', async () => {
+    const response = await callTool('query_tasks', {
+      query: "status = 'Todo' FORMAT json",
+      max_chars: 200,
+    });
+
+    const metadata = JSON.parse(response.content[1].text);
+    expect(JSON.parse(response.content[0].text)).toHaveLength(metadata.returned_count);
+    expect(metadata.returned_count).toBeLessThan(3);
+    expect(metadata.next_offset).toBe(metadata.returned_count);
+  });
+
+  it('should return aggregate_tasks counts and warnings next to the output', async () => {
+    const response = await callTool('aggregate_tasks', {
+      query: 'SELECT status, COUNT(*) GROUP BY status FORMAT json',
+    });
+
+    expect(JSON.parse(response.content[0].text)).toEqual([{ status: 'Todo', 'COUNT(*)': 3 }]);
+    expect(JSON.parse(response.content[1].text)).toEqual({
+      format: 'json',
+      group_count: 1,
+      task_count: 3,
+      warnings: [],
+    });
+  });
+});
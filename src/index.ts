@@ -44,6 +44,7 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
@@ -52,6 +53,10 @@ import { handleInfo } from './tools/info.js';
 import { handleGetConfig } from './tools/get_config.js';
 import { handleCreateTask } from './tools/create_task.js';
 import { handleListTasks } from './tools/list_tasks.js';
+import { handleQueryTasks } from './tools/query_tasks.js';
+import { handleExplainQuery } from './tools/explain_query.js';
+import { handleCompleteQuery, completeDartQLArgument } from './tools/complete_query.js';
+import { handleAggregateTasks } from './tools/aggregate_tasks.js';
 import { handleGetTask } from './tools/get_task.js';
 import { handleUpdateTask } from './tools/update_task.js';
 import { handleDeleteTask } from './tools/delete_task.js';
@@ -99,11 +104,13 @@ class DartQueryServer {
       {
         capabilities: {
           tools: {},
+          completions: {},
         },
       }
     );
 
     this.setupHandlers();
+    this.setupCompletions();
     this.setupErrorHandling();
   }
 
@@ -244,7 +251,7 @@ class DartQueryServer {
             properties: {
               assignee: {
                 type: 'string',
-                description: 'Filter by assignee (dart_id, name, or email)',
+                description: 'Filter by assignee (dart_id, name, email, or "me")',
               },
               status: {
                 type: 'string',
@@ -285,12 +292,132 @@ class DartQueryServer {
                 type: 'integer',
                 description: 'Pagination offset (default: 0)',
               },
+              order_by: {
+                type: 'string',
+                description: 'Sort across all matching tasks, DartQL ORDER BY syntax, e.g. "priority DESC, created_at". Fetches every match (up to 10,000) before paging.',
+              },
+              params: {
+                type: 'object',
+                description: 'Values for :name placeholders in filters, e.g. {"owner": "o\'brien@example.com", "labels": ["bug", "ui"]} for assignee=":owner", tags=[":labels"]. Bound values are used as given. assignee "me" is the configured user.',
+              },
               detail_level: {
                 type: 'string',
                 enum: ['minimal', 'standard', 'full'],
                 description: 'minimal=id+title, standard=+status+assignee+priority, full=all fields including relationships',
               },
+              max_tokens: {
+                type: 'integer',
+                description: 'Output budget in tokens (~4 chars each). Over budget, detail_level is lowered and then fewer tasks are returned; continue at next_offset. See `trimmed`.',
+              },
+              max_chars: {
+                type: 'integer',
+                description: 'Output budget in characters (instead of max_tokens)',
+              },
+            },
+          },
+        },
+        {
+          name: 'query_tasks',
+          description: 'Query tasks with a single DartQL string and get token-efficient formatted output (table, compact, csv, json, ids, markdown, checklist, tree, board, timeline). Supports SELECT field lists, ORDER BY/LIMIT/OFFSET, +relationship expansion, and format=X.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'DartQL query, e.g. "SELECT id,title,due WHERE status = \'Todo\' format=compact" or just a WHERE clause',
+              },
+              params: {
+                type: 'object',
+                description: 'Values for :name placeholders, e.g. {"owner": "o\'brien@example.com", "ids": ["duid_a", "duid_b"]} for "assignee = :owner AND dart_id IN :ids". Strings, numbers, booleans or arrays (for IN); bound as literals, never re-parsed. `me` is the configured user.',
+              },
+              limit: {
+                type: 'integer',
+                description: 'Max tasks to return (default: 50, max: 500)',
+              },
+              offset: {
+                type: 'integer',
+                description: 'Pagination offset (default: 0)',
+              },
+              group_by: {
+                type: 'string',
+                enum: ['assignee', 'priority'],
+                description: 'Swimlanes for FORMAT board (columns are statuses in workspace order)',
+              },
+              max_tokens: {
+                type: 'integer',
+                description: 'Output budget in tokens (~4 chars each). Over budget, low-priority columns are dropped, titles shortened, table becomes compact, then fewer tasks are returned; the footer lists what was trimmed. Continue at next_offset.',
+              },
+              max_chars: {
+                type: 'integer',
+                description: 'Output budget in characters (instead of max_tokens)',
+              },
+            },
+            required: ['query'],
+          },
+        },
+        {
+          name: 'aggregate_tasks',
+          description: 'Group tasks matching a DartQL WHERE clause and count or summarize them: SELECT status, assignee, COUNT(*), AVG(age_days) WHERE ... GROUP BY status, assignee HAVING COUNT(*) > 5. Supports COUNT/SUM/AVG/MIN/MAX, HAVING, ORDER BY/LIMIT on groups, and format=table|compact|csv|json. Array fields (tags, assignee) count each value.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'DartQL aggregate query, e.g. "SELECT priority, COUNT(*) WHERE status != \'Done\' GROUP BY priority ORDER BY COUNT(*) DESC"',
+              },
+              params: {
+                type: 'object',
+                description: 'Values for :name placeholders, e.g. {"board": "Engineering"} for "dartboard = :board". Strings, numbers, booleans or arrays (for IN); bound as literals, never re-parsed. `me` is the configured user.',
+              },
+            },
+            required: ['query'],
+          },
+        },
+        {
+          name: 'explain_query',
+          description: 'Explain how a DartQL query executes without fetching results: parsed AST, fields, which predicates push down as API filters (or fan out into parallel queries) vs. run client-side and why, the task lookups relationship predicates need, plus a count probe estimating listTasks pages and lookups. Use when a selector is slow or matches nothing.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'DartQL query in any form query_tasks accepts, e.g. "status = \'Todo\' AND title LIKE \'%auth%\'"',
+              },
+              params: {
+                type: 'object',
+                description: 'Values for :name placeholders, e.g. {"owner": "o\'brien@example.com", "ids": ["duid_a", "duid_b"]} for "assignee = :owner AND dart_id IN :ids". Strings, numbers, booleans or arrays (for IN); bound as literals, never re-parsed. `me` is the configured user.',
+              },
+              probe: {
+                type: 'boolean',
+                description: 'Run a limit=1 count probe per API query to estimate candidates and pages (default: true)',
+              },
             },
+            required: ['query'],
+          },
+        },
+        {
+          name: 'complete_query',
+          description: 'Suggest completions for a partial DartQL query at a cursor: field names at the start of a condition, the operators a field takes, workspace statuses/dartboards/tags/assignees inside a string literal, and keywords (AND, ORDER BY, ...) after a value. Each suggestion replaces query[start, end).',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Partial DartQL query, e.g. "status = \'In"',
+              },
+              cursor: {
+                type: 'integer',
+                description: 'Cursor offset in the query (default: end of the query)',
+                minimum: 0,
+              },
+              limit: {
+                type: 'integer',
+                description: 'Maximum suggestions to return (default: 20, max: 100)',
+                minimum: 1,
+                maximum: 100,
+              },
+            },
+            required: ['query'],
           },
         },
         {
@@ -404,6 +531,10 @@ class DartQueryServer {
                     items: { type: 'string' },
                     description: 'IDs of related tasks (loosely connected). Full replacement: set to [] to clear.',
                   },
+                  custom_properties: {
+                    type: 'object',
+                    description: 'Custom property values keyed by property name from get_config (e.g., {"Team": "Web", "Story Points": 3}). Validated by property type and options; null clears a property.',
+                  },
                 },
               },
             },
@@ -434,7 +565,11 @@ class DartQueryServer {
             properties: {
               selector: {
                 type: 'string',
-                description: 'DartQL WHERE clause to select tasks (e.g., "status = \'Todo\' AND priority >= 3")',
+                description: 'DartQL WHERE clause to select tasks, optionally with ORDER BY/LIMIT (e.g., "status = \'Todo\' AND priority >= 3 ORDER BY created_at LIMIT 10")',
+              },
+              params: {
+                type: 'object',
+                description: 'Values for :name placeholders, e.g. {"owner": "o\'brien@example.com", "ids": ["duid_a", "duid_b"]} for "assignee = :owner AND dart_id IN :ids". Strings, numbers, booleans or arrays (for IN); bound as literals, never re-parsed. `me` is the configured user.',
               },
               updates: {
                 type: 'object',
@@ -476,6 +611,10 @@ class DartQueryServer {
                     items: { type: 'string' },
                     description: 'IDs of related tasks (loosely connected). Full replacement: set to [] to clear.',
                   },
+                  custom_properties: {
+                    type: 'object',
+                    description: 'Custom property values keyed by property name from get_config (e.g., {"Team": "Web", "Story Points": 3}). Validated by property type and options; null clears a property.',
+                  },
                 },
               },
               dry_run: {
@@ -486,6 +625,11 @@ class DartQueryServer {
                 type: 'integer',
                 description: 'Parallel updates (default: 5, range: 1-20)',
               },
+              preview_format: {
+                type: 'string',
+                enum: ['table', 'compact', 'markdown'],
+                description: 'Dry-run diff rendering: one row per task with only the fields that change (default: table)',
+              },
             },
             required: ['selector', 'updates'],
           },
@@ -500,6 +644,10 @@ class DartQueryServer {
                 type: 'string',
                 description: 'DartQL WHERE clause to select tasks (e.g., "status = \'Archived\' AND completed_at < \'2025-01-01\'")',
               },
+              params: {
+                type: 'object',
+                description: 'Values for :name placeholders, e.g. {"owner": "o\'brien@example.com", "ids": ["duid_a", "duid_b"]} for "assignee = :owner AND dart_id IN :ids". Strings, numbers, booleans or arrays (for IN); bound as literals, never re-parsed. `me` is the configured user.',
+              },
               dry_run: {
                 type: 'boolean',
                 description: 'Preview mode (default: true). Set to false to execute deletions.',
@@ -699,6 +847,10 @@ class DartQueryServer {
                 type: 'string',
                 description: 'Optional dartboard filter (dart_id or name)',
               },
+              where: {
+                type: 'string',
+                description: 'Optional DartQL filter applied before ranking (e.g., "status = \'Todo\' AND tags CONTAINS \'bug\'"). API-supported conditions are pushed down to narrow the fetch.',
+              },
               include_completed: {
                 type: 'boolean',
                 description: 'Include completed tasks in results (default: false)',
@@ -707,6 +859,18 @@ class DartQueryServer {
                 type: 'integer',
                 description: 'Max results to return (default: 50, max: 500)',
               },
+              offset: {
+                type: 'integer',
+                description: 'Skip this many ranked results (default: 0)',
+              },
+              max_tokens: {
+                type: 'integer',
+                description: 'Output budget in tokens (~4 chars each). Over budget, descriptions are dropped and then fewer results are returned; continue at next_offset. See `trimmed`.',
+              },
+              max_chars: {
+                type: 'integer',
+                description: 'Output budget in characters (instead of max_tokens)',
+              },
             },
             required: ['query'],
           },
@@ -924,6 +1088,63 @@ class DartQueryServer {
             };
           }
 
+          case 'query_tasks': {
+            const { output, ...metadata } = await handleQueryTasks((args || {}) as any);
+            // csv, json and ids have no footer: pagination, trims and warnings follow the output
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: output,
+                },
+                {
+                  type: 'text',
+                  text: JSON.stringify(metadata, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'aggregate_tasks': {
+            const { output, ...metadata } = await handleAggregateTasks((args || {}) as any);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: output,
+                },
+                {
+                  type: 'text',
+                  text: JSON.stringify(metadata, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'explain_query': {
+            const result = await handleExplainQuery((args || {}) as any);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'complete_query': {
+            const result = await handleCompleteQuery((args || {}) as any);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
           case 'get_task': {
             const result = await handleGetTask((args || {}) as any);
             return {
@@ -1182,6 +1403,13 @@ class DartQueryServer {
     });
   }
 
+  private setupCompletions(): void {
+    // Complete DartQL arguments (query, selector, where) as they are typed
+    this.server.setRequestHandler(CompleteRequestSchema, async (request) => ({
+      completion: await completeDartQLArgument(request.params.argument.name, request.params.argument.value),
+    }));
+  }
+
   private setupErrorHandling(): void {
     this.server.onerror = (error) => {
       console.error('[MCP Error]', error);
@@ -0,0 +1,119 @@
+/**
+ * DartQL Aggregation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateTasks, aggregationFields, planAggregation } from './aggregation.js';
+import { parseDartQLStatement } from './dartql.js';
+import type { DartTask } from '../types/index.js';
+
+const NOW = Date.parse('2026-02-01T00:00:00Z');
+
+const tasks = [
+  {
+    dart_id: 't1', title: 'Login bug', status: 'To Do', priority: 'high', size: 'small',
+    assignees: ['alice', 'bob'], tags: ['bug', 'ui'], created_at: '2026-01-01T10:00:00Z',
+  },
+  {
+    dart_id: 't2', title: 'Docs', status: 'Done', priority: 'low',
+    assignees: ['alice'], tags: ['docs'], created_at: '2026-01-21T09:00:00Z',
+  },
+  {
+    dart_id: 't3', title: 'Crash', status: 'To Do', priority: 'critical', size: 'large',
+    assignees: [], tags: ['bug'], created_at: '2026-01-21T18:00:00Z',
+  },
+] as unknown as DartTask[];
+
+function plan(query: string) {
+  const parsed = parseDartQLStatement(query);
+  expect(parsed.errors).toEqual([]);
+  return planAggregation(parsed.statement);
+}
+
+function run(query: string) {
+  const { plan: aggregation, errors } = plan(query);
+  expect(errors).toEqual([]);
+  return aggregateTasks(tasks, aggregation, {}, NOW);
+}
+
+describe('planAggregation', () => {
+  it('should group by the plain columns when GROUP BY is omitted', () => {
+    const { plan: aggregation } = plan('SELECT Status, COUNT(*)');
+
+    expect(aggregation.columns).toEqual(['status', 'COUNT(*)']);
+    expect(aggregation.groupBy).toEqual(['status']);
+    expect(aggregation.orderBy).toEqual([{ field: 'status', direction: 'ASC' }]);
+  });
+
+  it('should collect aggregates used only by HAVING and ORDER BY', () => {
+    const { plan: aggregation } = plan(
+      'SELECT status GROUP BY status HAVING AVG(age_days) > 3 ORDER BY MAX(priority) DESC'
+    );
+
+    expect(aggregation.aggregates).toEqual([
+      { function: 'AVG', field: 'age_days' },
+      { function: 'MAX', field: 'priority' },
+    ]);
+    expect(aggregationFields(aggregation)).toEqual(['status', 'age_days', 'priority']);
+  });
+
+  it('should reject columns missing from GROUP BY, unknown fields and other HAVING fields', () => {
+    expect(plan('SELECT status, title, COUNT(*) GROUP BY status').errors).toEqual([
+      "Column 'title' must appear in GROUP BY or inside an aggregate at position 15",
+    ]);
+    expect(plan('SELECT stauts, COUNT(*)').errors).toEqual([
+      "Unknown field 'stauts' in SELECT. Did you mean 'status'? at position 7",
+    ]);
+    expect(plan('SELECT status, COUNT(*) GROUP BY status HAVING priority = 1').errors).toEqual([
+      "HAVING can only use GROUP BY fields and aggregates, got 'priority'",
+    ]);
+    expect(plan('SELECT *, COUNT(*)').errors[0]).toContain("'*' is not allowed in an aggregate SELECT");
+  });
+});
+
+describe('aggregateTasks', () => {
+  it('should count tasks per group, unnesting array fields', () => {
+    expect(run('SELECT assignee, COUNT(*) GROUP BY assignee')).toEqual([
+      { assignee: 'alice', 'COUNT(*)': 2 },
+      { assignee: 'bob', 'COUNT(*)': 1 },
+      { assignee: null, 'COUNT(*)': 1 },
+    ]);
+  });
+
+  it('should group by several fields and timestamps by day', () => {
+    expect(run('SELECT created_at, tags, COUNT(*) GROUP BY created_at, tags')).toEqual([
+      { created_at: '2026-01-01', tags: 'bug', 'COUNT(*)': 1 },
+      { created_at: '2026-01-01', tags: 'ui', 'COUNT(*)': 1 },
+      { created_at: '2026-01-21', tags: 'bug', 'COUNT(*)': 1 },
+      { created_at: '2026-01-21', tags: 'docs', 'COUNT(*)': 1 },
+    ]);
+  });
+
+  it('should compute COUNT(field), SUM and AVG with ranks, and MIN and MAX values', () => {
+    expect(run(
+      'SELECT COUNT(size), SUM(size), AVG(age_days), MIN(priority), MAX(created_at)'
+    )).toEqual([{
+      'COUNT(size)': 2,
+      'SUM(size)': 6,
+      'AVG(age_days)': (30 + 10 + 10) / 3,
+      'MIN(priority)': 'low',
+      'MAX(created_at)': '2026-01-21',
+    }]);
+  });
+
+  it('should return one row of empty aggregates without matching tasks', () => {
+    const { plan: aggregation } = plan('SELECT COUNT(*), SUM(age_days)');
+    expect(aggregateTasks([], aggregation, {}, NOW)).toEqual([{ 'COUNT(*)': 0, 'SUM(age_days)': null }]);
+  });
+
+  it('should filter groups with HAVING, then sort and limit them', () => {
+    expect(run(
+      "SELECT status, COUNT(*) GROUP BY status HAVING COUNT(*) >= 1 AND status != 'Done' ORDER BY COUNT(*) DESC"
+    )).toEqual([{ status: 'To Do', 'COUNT(*)': 2 }]);
+
+    expect(run('SELECT priority, COUNT(*) GROUP BY priority ORDER BY priority DESC LIMIT 2')).toEqual([
+      { priority: 'critical', 'COUNT(*)': 1 },
+      { priority: 'high', 'COUNT(*)': 1 },
+    ]);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * DartQL Aggregation
+ *
+ * Groups tasks and computes aggregates for aggregate_tasks:
+ *
+ *   SELECT status, assignee, COUNT(*), AVG(age_days)
+ *   WHERE dartboard = 'Engineering'
+ *   GROUP BY status, assignee
+ *   HAVING COUNT(*) > 5
+ *
+ * Array fields unnest: a task tagged bug and ui counts in both the bug and
+ * the ui group, and a task with two assignees in both of their groups. Empty
+ * values form their own group (null). Timestamps group by day.
+ *
+ * Without GROUP BY, the plain SELECT columns are the grouping, and a SELECT
+ * of aggregates only returns one row for all matching tasks.
+ */
+
+import type {
+  DartQLAggregateCall,
+  DartQLAggregateFunction,
+  DartQLExpression,
+  DartQLOrderBy,
+  DartQLStatement,
+  DartTask,
+} from '../types/index.js';
+import {
+  AGGREGATE_FUNCTIONS,
+  VALID_FIELDS,
+  aggregateLabel,
+  applyResultClauses,
+  buildRowFilter,
+  normalizeFieldName,
+  rankOf,
+  readTaskField,
+  type DartQLSemantics,
+  type ValidField,
+} from './dartql.js';
+import { isCustomPropertyField } from './customProperties.js';
+import { findClosestMatches } from './csv.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A group key or aggregate value */
+export type AggregateValue = string | number | boolean | null;
+
+/** One group: GROUP BY fields by name, aggregates by label (COUNT(*)) */
+export type AggregateRow = Record<string, AggregateValue>;
+
+/** A validated aggregate query */
+export interface AggregationPlan {
+  /** Output columns in SELECT order: field names and aggregate labels */
+  columns: string[];
+  /** Fields defining the groups */
+  groupBy: string[];
+  /** Aggregates to compute, including those only HAVING or ORDER BY use */
+  aggregates: DartQLAggregateCall[];
+  having?: DartQLExpression;
+  orderBy: DartQLOrderBy[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface PlanAggregationResult {
+  plan: AggregationPlan;
+  errors: string[];
+}
+
+const LABEL_PATTERN = new RegExp(`^(${AGGREGATE_FUNCTIONS.join('|')})\\((.+)\\)$`);
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T/;
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Check an aggregate statement and collect what aggregateTasks computes
+ *
+ * Plain SELECT columns must be task fields listed in GROUP BY (or, without
+ * GROUP BY, become the grouping); HAVING and ORDER BY may use group fields
+ * and any aggregate.
+ */
+export function planAggregation(statement: DartQLStatement): PlanAggregationResult {
+  const errors: string[] = [];
+  const select = statement.select ?? [];
+  const plain: string[] = [];
+  const aggregates = new Map<string, DartQLAggregateCall>();
+
+  if (select.length === 0) {
+    errors.push('aggregate_tasks needs a SELECT list (e.g., SELECT status, COUNT(*) GROUP BY status)');
+  }
+
+  for (const item of select) {
+    if (item.aggregate) {
+      aggregates.set(item.name, item.aggregate);
+      continue;
+    }
+
+    const field = normalizeFieldName(item.name);
+    if (!/^[a-z_]/i.test(item.name)) {
+      errors.push(`'${item.name}' is not allowed in an aggregate SELECT; list fields and aggregates at position ${item.start}`);
+    } else if (!VALID_FIELDS.includes(field as ValidField) && !isCustomPropertyField(field)) {
+      const suggestions = findClosestMatches(field, [...VALID_FIELDS]);
+      const hint = suggestions.length > 0 ? `. Did you mean '${suggestions[0]}'?` : '';
+      errors.push(`Unknown field '${item.name}' in SELECT${hint} at position ${item.start}`);
+    } else if (statement.groupBy && !statement.groupBy.includes(field)) {
+      errors.push(`Column '${item.name}' must appear in GROUP BY or inside an aggregate at position ${item.start}`);
+    } else {
+      plain.push(field);
+    }
+  }
+
+  const groupBy = statement.groupBy ?? plain;
+
+  // Group fields and aggregate labels are the only names HAVING and ORDER BY see
+  const resolve = (field: string, clause: string): void => {
+    const call = parseAggregateLabel(field);
+    if (call) {
+      aggregates.set(field, call);
+    } else if (!groupBy.includes(field)) {
+      errors.push(`${clause} can only use GROUP BY fields and aggregates, got '${field}'`);
+    }
+  };
+
+  if (statement.having) {
+    for (const comparison of collectComparisons(statement.having, errors)) {
+      resolve(comparison.field ?? '', 'HAVING');
+    }
+  }
+  for (const { field } of statement.orderBy ?? []) {
+    resolve(field, 'ORDER BY');
+  }
+
+  return {
+    plan: {
+      columns: select.map(item => item.aggregate ? item.name : normalizeFieldName(item.name)),
+      groupBy,
+      aggregates: [...aggregates.values()],
+      having: statement.having,
+      // Groups come out in GROUP BY order unless ORDER BY says otherwise
+      orderBy: statement.orderBy ?? groupBy.map(field => ({ field, direction: 'ASC' as const })),
+      limit: statement.limit,
+      offset: statement.offset,
+    },
+    errors,
+  };
+}
+
+/**
+ * Fields an aggregation reads from tasks (GROUP BY and aggregate arguments)
+ */
+export function aggregationFields(plan: AggregationPlan): string[] {
+  const fields = plan.aggregates.map(call => call.field).filter((field): field is string => field !== null);
+  return [...new Set([...plan.groupBy, ...fields])];
+}
+
+/**
+ * Parse an aggregate label back into its call (COUNT(*) → COUNT of all tasks)
+ */
+function parseAggregateLabel(label: string): DartQLAggregateCall | null {
+  const match = label.match(LABEL_PATTERN);
+  if (!match) return null;
+  return { function: match[1] as DartQLAggregateFunction, field: match[2] === '*' ? null : match[2] };
+}
+
+/**
+ * Comparisons of a HAVING expression (other predicates are errors)
+ */
+function collectComparisons(expr: DartQLExpression, errors: string[]): DartQLExpression[] {
+  switch (expr.type) {
+    case 'comparison':
+      return [expr];
+    case 'logical':
+      return [expr.left, expr.right].flatMap(side => side ? collectComparisons(side, errors) : []);
+    case 'group':
+      return (expr.expressions ?? []).flatMap(inner => collectComparisons(inner, errors));
+    default:
+      errors.push('HAVING supports comparisons on GROUP BY fields and aggregates only');
+      return [];
+  }
+}
+
+// ============================================================================
+// Grouping and Aggregates
+// ============================================================================
+
+/**
+ * Group tasks and compute aggregates, then apply HAVING, ORDER BY, OFFSET
+ * and LIMIT
+ *
+ * @param tasks - Tasks matching the WHERE clause
+ * @param plan - Plan from planAggregation
+ * @param semantics - Workspace vocabulary for HAVING values and priority/size ranks
+ * @param now - Reference instant for virtual fields (age_days)
+ * @returns One row per group
+ */
+export function aggregateTasks(
+  tasks: DartTask[],
+  plan: AggregationPlan,
+  semantics: DartQLSemantics = {},
+  now: number = Date.now()
+): AggregateRow[] {
+  const groups = new Map<string, { key: AggregateValue[]; tasks: Array<Record<string, unknown>> }>();
+
+  for (const task of tasks) {
+    const taskObj = task as unknown as Record<string, unknown>;
+    const keyValues = plan.groupBy.map(field => groupValues(readTaskField(taskObj, field, now)));
+
+    for (const key of cartesian(keyValues)) {
+      const id = JSON.stringify(key);
+      let group = groups.get(id);
+      if (!group) {
+        group = { key, tasks: [] };
+        groups.set(id, group);
+      }
+      // A task repeating a value in an array field counts once per group
+      if (group.tasks[group.tasks.length - 1] !== taskObj) {
+        group.tasks.push(taskObj);
+      }
+    }
+  }
+
+  // Aggregates over no groups still describe the (empty) result, like SQL
+  if (plan.groupBy.length === 0 && groups.size === 0) {
+    groups.set('[]', { key: [], tasks: [] });
+  }
+
+  let rows = [...groups.values()].map(group => {
+    const row: AggregateRow = {};
+    plan.groupBy.forEach((field, i) => {
+      row[field] = group.key[i];
+    });
+    for (const call of plan.aggregates) {
+      row[aggregateLabel(call)] = computeAggregate(call, group.tasks, semantics, now);
+    }
+    return row;
+  });
+
+  if (plan.having) {
+    const having = buildRowFilter(plan.having, semantics);
+    rows = rows.filter(row => having(row));
+  }
+
+  return applyResultClauses(sortRows(rows, plan.orderBy, semantics), { limit: plan.limit, offset: plan.offset });
+}
+
+/**
+ * Values a task contributes to one GROUP BY field: array elements (or null
+ * when empty), timestamps as days
+ */
+function groupValues(value: unknown): AggregateValue[] {
+  const values = Array.isArray(value) ? value : [value];
+  const scalars = values.map(scalarValue).filter((scalar, i, all) => all.indexOf(scalar) === i);
+  return scalars.length > 0 ? scalars : [null];
+}
+
+function scalarValue(value: unknown): AggregateValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'string' && ISO_TIMESTAMP.test(value)) return value.slice(0, 10);
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+/**
+ * Every combination of one value per field
+ */
+function cartesian(lists: AggregateValue[][]): AggregateValue[][] {
+  return lists.reduce<AggregateValue[][]>(
+    (combinations, values) => combinations.flatMap(prefix => values.map(value => [...prefix, value])),
+    [[]]
+  );
+}
+
+/**
+ * Compute one aggregate over a group's tasks
+ *
+ * COUNT(*) counts tasks and COUNT(field) tasks with a value. SUM and AVG
+ * read numbers, booleans as 0/1 and priority/size as their rank; MIN and
+ * MAX return the smallest and largest value itself. Tasks without a usable
+ * value are skipped; null when none has one.
+ */
+function computeAggregate(
+  call: DartQLAggregateCall,
+  tasks: Array<Record<string, unknown>>,
+  semantics: DartQLSemantics,
+  now: number
+): AggregateValue {
+  const { field } = call;
+  if (field === null) return tasks.length;
+
+  const values = tasks
+    .map(task => readTaskField(task, field, now))
+    .filter(value => !(value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)));
+
+  switch (call.function) {
+    case 'COUNT':
+      return values.length;
+
+    case 'SUM':
+    case 'AVG': {
+      const numbers = values
+        .map(value => numericValue(field, value, semantics))
+        .filter((n): n is number => n !== null);
+      if (numbers.length === 0) return null;
+      const sum = numbers.reduce((total, n) => total + n, 0);
+      return call.function === 'SUM' ? sum : sum / numbers.length;
+    }
+
+    case 'MIN':
+    case 'MAX': {
+      const scalars = values.flatMap(value => Array.isArray(value) ? value : [value]).map(scalarValue);
+      let best: AggregateValue = null;
+      for (const value of scalars) {
+        if (value === null) continue;
+        if (best === null) {
+          best = value;
+          continue;
+        }
+        const cmp = compareValues(field, value, best, semantics);
+        if (call.function === 'MIN' ? cmp < 0 : cmp > 0) best = value;
+      }
+      return best;
+    }
+  }
+}
+
+function numericValue(field: string, value: unknown, semantics: DartQLSemantics): number | null {
+  if (field === 'priority' || field === 'size') return rankOf(field, value, semantics);
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return Number(value);
+  if (typeof value === 'string' && value.trim() !== '') {
+    const numeric = Number(value);
+    return isNaN(numeric) ? null : numeric;
+  }
+  return null;
+}
+
+// ============================================================================
+// Ordering
+// ============================================================================
+
+/**
+ * Order two non-null values of a column: priority/size by rank, numbers and
+ * flags numerically, text case-insensitively (days sort as text)
+ */
+function compareValues(field: string, a: AggregateValue, b: AggregateValue, semantics: DartQLSemantics): number {
+  if (field === 'priority' || field === 'size') {
+    const rankA = rankOf(field, a, semantics);
+    const rankB = rankOf(field, b, semantics);
+    if (rankA !== null && rankB !== null) return rankA - rankB;
+  }
+  if (typeof a !== 'string' && typeof b !== 'string') return Number(a) - Number(b);
+  return String(a).toLowerCase().localeCompare(String(b).toLowerCase());
+}
+
+/**
+ * Sort rows by ORDER BY keys (columns are GROUP BY fields or aggregate
+ * labels); null sorts last in both directions, and the sort is stable
+ */
+function sortRows(rows: AggregateRow[], orderBy: DartQLOrderBy[], semantics: DartQLSemantics): AggregateRow[] {
+  return [...rows].sort((a, b) => {
+    for (const { field, direction } of orderBy) {
+      const valueA = a[field] ?? null;
+      const valueB = b[field] ?? null;
+
+      if (valueA === null && valueB === null) continue;
+      if (valueA === null) return 1;
+      if (valueB === null) return -1;
+
+      const cmp = compareValues(field, valueA, valueB, semantics);
+      if (cmp !== 0) return direction === 'DESC' ? -cmp : cmp;
+    }
+    return 0;
+  });
+}
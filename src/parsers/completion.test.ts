@@ -0,0 +1,98 @@
+/**
+ * DartQL Completion Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { completeDartQL } from './completion.js';
+import type { DartQLSemantics } from './dartql.js';
+
+const semantics: DartQLSemantics = {
+  statuses: ['To Do', 'In Progress', 'In Review', 'Done'],
+  tags: [{ dart_id: 'tg1', name: 'bug' }, { dart_id: 'tg2', name: 'ui' }],
+  assignees: [{ dart_id: 'u1', name: 'Alice', email: 'alice@example.com' }],
+  priorities: [{ value: 1, label: 'Low' }, { value: 4, label: 'Critical' }],
+  customProperties: [{ name: 'Story Points', type: 'Number' }, { name: 'Team', type: 'Select', options: ['Web', 'Mobile'] }],
+};
+
+function complete(query: string, cursor?: number): string[] {
+  return completeDartQL(query, cursor, semantics, { me: 'Alice' }).suggestions.map(s => s.text);
+}
+
+describe('completeDartQL', () => {
+  it('should offer fields and condition keywords at the start of a condition', () => {
+    expect(complete('')).toEqual(expect.arrayContaining(['SELECT', 'status', 'due_at', 'prop."Story Points"', 'NOT', 'ANY']));
+    expect(complete("status = 'Done' AND ")).toContain('priority');
+    expect(complete("SELECT id WHERE (")).toContain('tags');
+    expect(complete("ANY blockers (")).toContain('status');
+  });
+
+  it('should complete the partial word under the cursor', () => {
+    expect(completeDartQL('sta', undefined, semantics)).toEqual({
+      start: 0,
+      end: 3,
+      suggestions: [{ text: 'status', kind: 'field' }, { text: 'start_at', kind: 'field' }],
+    });
+    expect(complete('prop.st')).toEqual(['prop."Story Points"']);
+    expect(complete("status = 'Done' an")).toEqual(['AND']);
+    expect(complete('due_at IS NOT NULL AND pri ORDER BY due_at', 26)).toEqual(['priority']);
+  });
+
+  it('should offer the operators a field takes', () => {
+    expect(complete('due_at ')).toEqual(['=', '!=', 'IN', 'NOT IN', 'IS NULL', 'IS NOT NULL', '<', '<=', '>', '>=', 'BETWEEN']);
+    expect(complete('is_overdue ')).toEqual(['=', '!=']);
+    expect(complete('title ')).toContain('STARTS WITH');
+    expect(complete('tags ')).toContain('CONTAINS');
+    expect(complete('title NOT ')).toEqual(['IN', 'LIKE', 'ILIKE']);
+    expect(complete('due_at IS ')).toEqual(['NULL', 'NOT NULL']);
+    expect(complete('stauts ')).toEqual([]);
+  });
+
+  it('should offer workspace values inside a string literal', () => {
+    expect(completeDartQL("status = 'In", undefined, semantics)).toEqual({
+      start: 9,
+      end: 12,
+      suggestions: [{ text: "'In Progress'", kind: 'value' }, { text: "'In Review'", kind: 'value' }],
+    });
+    expect(complete('  tags IN ("bug", "')).toEqual(["'bug'", "'ui'"]);
+    expect(complete('assignee = ')).toEqual(['me', "'Alice'"]);
+    expect(complete("assignee = 'a")).toEqual(["'Alice'"]);
+    expect(complete('priority BETWEEN 1 AND ')).toEqual(["'Low'", "'Critical'"]);
+    expect(complete('prop.Team = ')).toEqual(["'Web'", "'Mobile'"]);
+  });
+
+  it('should offer date functions and ranges for date fields', () => {
+    expect(complete('due_at < ')).toEqual(['today()', 'now()', 'start_of_week()', 'start_of_month()']);
+    expect(complete('due_at IN this_')).toEqual(['this_week', 'this_month']);
+  });
+
+  it('should offer joins and the clauses that may follow a value', () => {
+    expect(complete("status = 'Done' ")).toEqual(['AND', 'OR', 'UNION', 'INTERSECT', 'EXCEPT', 'ORDER BY', 'LIMIT', 'OFFSET']);
+    expect(complete("SELECT id, title WHERE status = 'Done' ORDER BY due_at ")).toEqual([
+      'ASC', 'DESC', 'LIMIT', 'OFFSET', 'FORMAT', 'EXPAND',
+    ]);
+    expect(complete('SELECT status, COUNT(*) GROUP BY status ')).toContain('HAVING');
+    expect(complete('status = :status ')).toContain('AND');
+    expect(complete('ANY ')).toContain('blockers');
+  });
+
+  it('should offer columns and aggregates in the SELECT clause', () => {
+    expect(complete('SELECT ')).toEqual(expect.arrayContaining(['*', 'title', 'prop."Story Points"', 'COUNT(*)', 'AVG(']));
+    expect(complete('SELECT ti')).toEqual(['title']);
+    expect(complete('SELECT id, sta')).toEqual(['status', 'start_at']);
+    expect(complete('SELECT status, co')).toEqual(['completed_at', 'COUNT(*)']);
+    expect(complete('SELECT status, AVG(')).toContain('age_days');
+    expect(complete('SELECT id, title ')).toEqual(['WHERE', 'GROUP BY', 'ORDER BY', 'LIMIT', 'OFFSET', 'FORMAT', 'EXPAND']);
+  });
+
+  it('should offer output formats after FORMAT', () => {
+    expect(complete("SELECT id WHERE status = 'Done' FORMAT ")).toEqual(expect.arrayContaining(['table', 'compact', 'csv', 'timeline']));
+    expect(complete("SELECT id WHERE status = 'Done' FORMAT co")).toEqual(['compact']);
+    expect(complete("SELECT id WHERE status = 'Done' format=c")).toEqual(['compact', 'csv', 'checklist']);
+    expect(complete('SELECT id FORMAT compact ')).toEqual(['EXPAND']);
+  });
+
+  it('should not suggest while a number or string is still being typed', () => {
+    expect(complete('priority = 3')).toEqual([]);
+    expect(complete("status = 'Done'")).toEqual([]);
+  });
+});
@@ -0,0 +1,429 @@
+/**
+ * DartQL Completion
+ *
+ * Suggestions for the word under the cursor of a partial query, worked out
+ * from the tokens before it. Tokens are read leniently, so unfinished input
+ * (an open string, a dangling operator) never throws:
+ *
+ *   status = 'In|             → 'In Progress', 'In Review'  (workspace statuses)
+ *   due_at |                  → =, !=, IN, ..., <, BETWEEN
+ *   status = 'Done' AND |     → status, priority, ..., NOT, ANY, ALL
+ *   SELECT |                  → *, title, status, ..., COUNT(*), SUM(
+ *   ... FORMAT |              → table, compact, csv, ...
+ */
+
+import type { DartQLBindings, DartQLCompletion, DartQLCompletionResult } from '../types/index.js';
+import {
+  AGGREGATE_FUNCTIONS,
+  DartQLTokenizer,
+  RELATIONSHIP_FIELDS,
+  TokenType,
+  VALID_FIELDS,
+  normalizeFieldName,
+  type DartQLSemantics,
+  type Token,
+} from './dartql.js';
+import {
+  customPropertyName,
+  findCustomProperty,
+  formatCustomPropertyField,
+  isCustomPropertyField,
+} from './customProperties.js';
+import { DATE_FUNCTIONS, DATE_RANGES } from './relativeDates.js';
+import { formatDartQLValue } from './printer.js';
+import { OUTPUT_FORMATS } from '../formatters/fieldSelector.js';
+
+/** A suggestion and the text the partial word is matched against */
+interface Candidate extends DartQLCompletion {
+  match: string;
+}
+
+/** Operators by field kind; every field also takes = != IN NOT IN IS [NOT] NULL */
+const BASE_OPERATORS = ['=', '!=', 'IN', 'NOT IN', 'IS NULL', 'IS NOT NULL'];
+const RANGE_OPERATORS = ['<', '<=', '>', '>=', 'BETWEEN'];
+const TEXT_OPERATORS = ['LIKE', 'NOT LIKE', 'ILIKE', 'NOT ILIKE', 'STARTS WITH', 'ENDS WITH', 'CONTAINS WORD', 'MATCHES'];
+
+const TEXT_FIELDS = ['title', 'description'];
+const NAME_FIELDS = ['status', 'dartboard', 'dart_id', 'parent_task'];
+const ARRAY_FIELDS = ['assignee', 'tags', 'subtask_ids', 'blocker_ids', 'blocking_ids', 'duplicate_ids', 'related_ids'];
+const DATE_FIELDS = ['created_at', 'updated_at', 'due_at', 'start_at', 'completed_at'];
+const BOOLEAN_FIELDS = ['is_overdue', 'is_completed', 'has_open_blockers'];
+
+/** Keywords that may start a condition */
+const CONDITION_KEYWORDS = ['NOT', 'ANY', 'ALL', 'DESCENDANT OF', 'ANCESTOR OF', 'CHILD OF'];
+
+/** Statement clauses in the order they may appear */
+const CLAUSE_ORDER = ['WHERE', 'GROUP BY', 'HAVING', 'ORDER BY', 'LIMIT', 'OFFSET', 'FORMAT', 'EXPAND'];
+
+/** Clauses a bare selector may end with */
+const SELECTOR_CLAUSES = ['ORDER BY', 'LIMIT', 'OFFSET'];
+
+/** Tokens that finish a value, after which the condition may be joined */
+const VALUE_TOKENS = [
+  TokenType.STRING, TokenType.NUMBER, TokenType.BOOLEAN, TokenType.NULL, TokenType.DURATION,
+  TokenType.DATE_RANGE, TokenType.REGEX, TokenType.RPAREN, TokenType.UNKNOWN,
+];
+
+/** Tokens after which the value of a comparison follows */
+const VALUE_OPERATORS = [
+  TokenType.EQUALS, TokenType.NOT_EQUALS, TokenType.GREATER_THAN, TokenType.GREATER_EQUAL,
+  TokenType.LESS_THAN, TokenType.LESS_EQUAL, TokenType.IN, TokenType.CONTAINS, TokenType.WORD,
+  TokenType.LIKE, TokenType.ILIKE, TokenType.WITH, TokenType.BETWEEN,
+];
+
+// ============================================================================
+// Completion
+// ============================================================================
+
+/**
+ * Complete a partial DartQL query at the cursor
+ *
+ * The word (or string literal) the cursor ends is the partial text, and
+ * suggestions are the fields, operators, keywords or workspace values that
+ * fit there and start with it (case-insensitively). Each suggestion replaces
+ * query[start, end).
+ *
+ * @param query - Partial DartQL query
+ * @param cursor - Cursor offset (default: end of the query)
+ * @param semantics - Workspace vocabulary for values (usually the DartConfig)
+ * @param bindings - `me` binding; parameters are not resolved
+ */
+export function completeDartQL(
+  query: string,
+  cursor: number = query.length,
+  semantics: DartQLSemantics = {},
+  bindings: DartQLBindings = {}
+): DartQLCompletionResult {
+  const end = Math.max(0, Math.min(cursor, query.length));
+  const before = query.slice(0, end);
+  const indent = before.length - before.trimStart().length;
+  const text = before.trim();
+
+  const tokens = new DartQLTokenizer(before, { me: bindings.me }, { lenient: true })
+    .tokenize()
+    .filter(token => token.type !== TokenType.EOF);
+
+  // The last token is being typed when the cursor touches it
+  let start = end;
+  let prefix = '';
+  let inString = false;
+  const last = tokens[tokens.length - 1];
+
+  if (last && before === before.trimEnd() && last.position + last.length === text.length) {
+    const typed = text.slice(last.position);
+    if (/^[A-Za-z_][\w.]*$/.test(typed)) {
+      prefix = typed;
+    } else if (last.type === TokenType.UNKNOWN && (typed[0] === "'" || typed[0] === '"')) {
+      prefix = typed.slice(1);
+      inString = true;
+    } else if (VALUE_TOKENS.includes(last.type) && last.type !== TokenType.RPAREN) {
+      // A number or closed string is still being typed; nothing to suggest
+      return { start: end, end, suggestions: [] };
+    }
+
+    if (prefix !== '' || inString) {
+      start = indent + last.position;
+      tokens.pop();
+    }
+  }
+
+  const candidates = candidatesAfter(tokens, semantics, bindings)
+    .filter(candidate => !inString || candidate.kind === 'value' && candidate.text.startsWith("'"));
+
+  const lowerPrefix = prefix.toLowerCase();
+  const seen = new Set<string>();
+  const suggestions: DartQLCompletion[] = [];
+
+  for (const { text: suggestion, kind, match } of candidates) {
+    if (!match.toLowerCase().startsWith(lowerPrefix) || seen.has(suggestion)) continue;
+    seen.add(suggestion);
+    suggestions.push({ text: suggestion, kind });
+  }
+
+  return { start, end, suggestions };
+}
+
+/**
+ * What may follow the complete tokens before the cursor
+ */
+function candidatesAfter(tokens: Token[], semantics: DartQLSemantics, bindings: DartQLBindings): Candidate[] {
+  const previous = tokens[tokens.length - 1];
+  if (!previous) {
+    return [...keywords(['SELECT']), ...conditionStart(semantics), ...keywords(['ORDER BY', 'LIMIT'])];
+  }
+
+  const scan = scanTokens(tokens);
+  const beforePrevious = tokens[tokens.length - 2];
+
+  switch (scan.clause) {
+    case 'SELECT':
+      if (previous.type === TokenType.SELECT || previous.type === TokenType.COMMA) return columns(semantics);
+      if (previous.type === TokenType.LPAREN && beforePrevious?.type === TokenType.AGGREGATE) return fields(semantics);
+      return keywords(clausesAfter(scan));
+
+    case 'GROUP BY':
+    case 'ORDER BY':
+      if (previous.type === TokenType.GROUP || previous.type === TokenType.ORDER) return keywords(['BY']);
+      if (previous.type === TokenType.BY || previous.type === TokenType.COMMA) return fields(semantics);
+      if (scan.clause === 'ORDER BY' && previous.type !== TokenType.ASC && previous.type !== TokenType.DESC) {
+        return keywords(['ASC', 'DESC', ...clausesAfter(scan)]);
+      }
+      return keywords(clausesAfter(scan));
+
+    case 'LIMIT':
+    case 'OFFSET':
+      return previous.type === TokenType.NUMBER ? keywords(clausesAfter(scan)) : [];
+
+    case 'EXPAND':
+      return previous.type === TokenType.EXPAND || previous.type === TokenType.COMMA
+        ? relationships().filter(candidate => candidate.text !== 'parent')
+        : keywords(clausesAfter(scan));
+
+    case 'FORMAT':
+      return previous.type === TokenType.FORMAT || previous.type === TokenType.EQUALS
+        ? formats()
+        : keywords(clausesAfter(scan));
+  }
+
+  // WHERE, HAVING or a bare selector
+  switch (previous.type) {
+    case TokenType.WHERE:
+    case TokenType.HAVING:
+    case TokenType.OR:
+    case TokenType.UNION:
+    case TokenType.INTERSECT:
+    case TokenType.EXCEPT:
+      return conditionStart(semantics);
+
+    case TokenType.AND:
+      return scan.betweenAnd === tokens.length - 1 ? values(scan.field, previous, semantics, bindings) : conditionStart(semantics);
+
+    case TokenType.NOT:
+      return beforePrevious?.type === TokenType.IDENTIFIER
+        ? operators(['IN', 'LIKE', 'ILIKE'])
+        : beforePrevious?.type === TokenType.IS ? keywords(['NULL']) : conditionStart(semantics);
+
+    case TokenType.LPAREN:
+      if (beforePrevious?.type === TokenType.IN) return values(scan.field, beforePrevious, semantics, bindings);
+      if (beforePrevious?.type === TokenType.AGGREGATE) return fields(semantics);
+      return beforePrevious?.type === TokenType.DATE_FUNCTION ? [] : conditionStart(semantics);
+
+    case TokenType.COMMA:
+      return scan.inList ? values(scan.field, previous, semantics, bindings) : [];
+
+    case TokenType.ANY:
+    case TokenType.ALL:
+      return relationships();
+
+    case TokenType.DESCENDANT:
+    case TokenType.ANCESTOR:
+    case TokenType.CHILD:
+      return keywords(['OF']);
+
+    case TokenType.IS:
+      return keywords(['NULL', 'NOT NULL']);
+
+    case TokenType.STARTS:
+    case TokenType.ENDS:
+      return keywords(['WITH']);
+
+    case TokenType.CONTAINS:
+      return [...keywords(['WORD']), ...values(scan.field, previous, semantics, bindings)];
+
+    case TokenType.IDENTIFIER: {
+      // A relationship name is followed by its predicate in parentheses
+      const field = normalizeFieldName(previous.value);
+      const known = (VALID_FIELDS as readonly string[]).includes(field) || isCustomPropertyField(field);
+      return known && beforePrevious?.type !== TokenType.ANY && beforePrevious?.type !== TokenType.ALL
+        ? operators(operatorsFor(field, semantics))
+        : [];
+    }
+  }
+
+  if (VALUE_OPERATORS.includes(previous.type)) {
+    return values(scan.field, previous, semantics, bindings);
+  }
+  if (VALUE_TOKENS.includes(previous.type)) {
+    const joins = scan.clause === 'HAVING' ? ['AND', 'OR'] : ['AND', 'OR', 'UNION', 'INTERSECT', 'EXCEPT'];
+    return keywords([...joins, ...clausesAfter(scan)]);
+  }
+  return [];
+}
+
+interface TokenScan {
+  /** Statement clause the cursor is in ('' for a bare selector) */
+  clause: string;
+  /** Whether the query is a statement (SELECT ...), not a bare selector */
+  statement: boolean;
+  grouped: boolean;
+  /** Field of the comparison being written */
+  field: string;
+  /** Index of an AND that separates BETWEEN bounds, or -1 */
+  betweenAnd: number;
+  /** Whether the innermost open parenthesis is an IN list */
+  inList: boolean;
+}
+
+/**
+ * Walk the tokens for the open clause, the comparison's field and the
+ * innermost open parenthesis
+ */
+function scanTokens(tokens: Token[]): TokenScan {
+  const scan: TokenScan = { clause: '', statement: false, grouped: false, field: '', betweenAnd: -1, inList: false };
+  const parens: boolean[] = [];
+  let betweenOpen = false;
+
+  tokens.forEach((token, i) => {
+    switch (token.type) {
+      case TokenType.SELECT:
+        scan.statement = true;
+        scan.clause = 'SELECT';
+        break;
+      case TokenType.GROUP:
+        scan.grouped = true;
+        scan.clause = 'GROUP BY';
+        break;
+      case TokenType.ORDER:
+        scan.clause = 'ORDER BY';
+        break;
+      case TokenType.WHERE:
+      case TokenType.HAVING:
+      case TokenType.LIMIT:
+      case TokenType.OFFSET:
+      case TokenType.FORMAT:
+      case TokenType.EXPAND:
+        scan.clause = token.type;
+        break;
+      case TokenType.IDENTIFIER:
+        scan.field = normalizeFieldName(token.value);
+        break;
+      case TokenType.BETWEEN:
+        betweenOpen = true;
+        break;
+      case TokenType.AND:
+        if (betweenOpen) scan.betweenAnd = i;
+        betweenOpen = false;
+        break;
+      case TokenType.LPAREN:
+        parens.push(tokens[i - 1]?.type === TokenType.IN);
+        break;
+      case TokenType.RPAREN:
+        parens.pop();
+        break;
+    }
+  });
+
+  scan.inList = parens[parens.length - 1] ?? false;
+  return scan;
+}
+
+/**
+ * Clauses that may follow the open one
+ */
+function clausesAfter(scan: TokenScan): string[] {
+  const order = scan.statement ? CLAUSE_ORDER : SELECTOR_CLAUSES;
+  return order.slice(order.indexOf(scan.clause) + 1).filter(clause => clause !== 'HAVING' || scan.grouped);
+}
+
+// ============================================================================
+// Candidates
+// ============================================================================
+
+function keywords(words: string[]): Candidate[] {
+  return words.map(word => ({ text: word, kind: 'keyword', match: word }));
+}
+
+function operators(list: string[]): Candidate[] {
+  return list.map(operator => ({ text: operator, kind: 'operator', match: operator }));
+}
+
+function relationships(): Candidate[] {
+  return Object.keys(RELATIONSHIP_FIELDS).map(name => ({ text: name, kind: 'relationship', match: name }));
+}
+
+/** Task fields, then the workspace's custom properties (prop."Story Points") */
+function fields(semantics: DartQLSemantics): Candidate[] {
+  const custom = (semantics.customProperties ?? []).map(property => ({
+    text: formatCustomPropertyField(property.name),
+    kind: 'field' as const,
+    match: `prop.${property.name}`,
+  }));
+  return [...VALID_FIELDS.map(field => ({ text: field, kind: 'field' as const, match: field })), ...custom];
+}
+
+/** SELECT columns: every field, then aggregates (COUNT(*), SUM(field), ...) */
+function columns(semantics: DartQLSemantics): Candidate[] {
+  const aggregates = AGGREGATE_FUNCTIONS.map(fn => ({
+    text: fn === 'COUNT' ? 'COUNT(*)' : `${fn}(`,
+    kind: 'function' as const,
+    match: fn,
+  }));
+  return [{ text: '*', kind: 'field', match: '*' }, ...fields(semantics), ...aggregates];
+}
+
+function formats(): Candidate[] {
+  return OUTPUT_FORMATS.map(format => ({ text: format, kind: 'value', match: format }));
+}
+
+function conditionStart(semantics: DartQLSemantics): Candidate[] {
+  return [
+    ...fields(semantics),
+    ...keywords(CONDITION_KEYWORDS),
+    { text: 'parent', kind: 'relationship', match: 'parent' },
+  ];
+}
+
+function operatorsFor(field: string, semantics: DartQLSemantics): string[] {
+  if (BOOLEAN_FIELDS.includes(field)) return ['=', '!='];
+  if (TEXT_FIELDS.includes(field)) return [...BASE_OPERATORS, ...TEXT_OPERATORS];
+  if (NAME_FIELDS.includes(field)) return [...BASE_OPERATORS, 'LIKE', 'ILIKE', 'STARTS WITH'];
+  if (ARRAY_FIELDS.includes(field)) return [...BASE_OPERATORS, 'CONTAINS'];
+  if (isCustomPropertyField(field)) {
+    const property = findCustomProperty(semantics.customProperties, customPropertyName(field));
+    return property?.type === 'Checkbox' ? ['=', '!=', 'IS NULL', 'IS NOT NULL'] : [...BASE_OPERATORS, ...RANGE_OPERATORS];
+  }
+  // priority, size, depth, dates and numeric virtual fields
+  return [...BASE_OPERATORS, ...RANGE_OPERATORS];
+}
+
+/**
+ * Values for the field after an operator: workspace names as quoted
+ * strings, date functions (and ranges after IN) for dates, true/false
+ */
+function values(field: string, operator: Token, semantics: DartQLSemantics, bindings: DartQLBindings): Candidate[] {
+  const quoted = (names: string[]): Candidate[] =>
+    names.map(name => ({ text: formatDartQLValue(name), kind: 'value', match: name }));
+  const named = (entries: Array<string | { name: string }> | undefined) =>
+    (entries ?? []).map(entry => (typeof entry === 'string' ? entry : entry.name));
+
+  if (DATE_FIELDS.includes(field)) {
+    const functions = DATE_FUNCTIONS.map(fn => ({ text: `${fn}()`, kind: 'function' as const, match: fn }));
+    const ranges = DATE_RANGES.map(range => ({ text: range, kind: 'value' as const, match: range }));
+    return operator.type === TokenType.IN ? [...ranges, ...functions] : functions;
+  }
+  if (BOOLEAN_FIELDS.includes(field)) {
+    return keywords(['true', 'false']).map(candidate => ({ ...candidate, kind: 'value' }));
+  }
+
+  switch (field) {
+    case 'status':
+      return quoted(named(semantics.statuses));
+    case 'dartboard':
+      return quoted(named(semantics.dartboards));
+    case 'tags':
+      return quoted(named(semantics.tags));
+    case 'assignee': {
+      const me: Candidate[] = bindings.me !== undefined ? [{ text: 'me', kind: 'value', match: 'me' }] : [];
+      return [...me, ...quoted(named(semantics.assignees))];
+    }
+    case 'priority':
+      return quoted((semantics.priorities ?? []).map(priority => priority.label));
+    case 'size':
+      return quoted((semantics.sizes ?? []).map(size => size.label));
+  }
+
+  if (isCustomPropertyField(field)) {
+    return quoted(findCustomProperty(semantics.customProperties, customPropertyName(field))?.options ?? []);
+  }
+  return [];
+}
@@ -1535,3 +1535,90 @@ describe('validateRow and resolveReferences - integration', () => {
     expect(resolution.errors).toEqual([]);
   });
 });
+
+// ============================================================================
+// Custom Property Columns
+// ============================================================================
+
+describe('custom property columns', () => {
+  const config: DartConfig = {
+    ...createMockConfig(),
+    customProperties: [
+      { name: 'Team', type: 'Select', options: ['Web', 'Mobile'] },
+      { name: 'Story Points', type: 'Number' },
+      { name: 'Customer Facing', type: 'Checkbox' },
+    ],
+  };
+
+  test('maps property names and prop.Name headers before built-in aliases', () => {
+    const result = parseCSV({
+      csv_data: 'Title,team,Story Points,prop.Customer Facing\nTask,web,3,yes',
+      custom_properties: config.customProperties,
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.data).toEqual([
+      { title: 'Task', 'prop.Team': 'web', 'prop.Story Points': '3', 'prop.Customer Facing': 'yes' },
+    ]);
+  });
+
+  test('keeps built-in column names over properties of the same name', () => {
+    const properties = [
+      { name: 'Status', type: 'Text' },
+      { name: 'Title', type: 'Text' },
+    ];
+    const result = parseCSV({
+      csv_data: 'Title,Status,prop.Status\nTask,Todo,Waiting on legal',
+      custom_properties: properties,
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.data).toEqual([{ title: 'Task', status: 'Todo', 'prop.Status': 'Waiting on legal' }]);
+    expect(result.warnings).toEqual([
+      'Column "Title" maps to the built-in title field; name it "prop.Title" to import the custom property',
+      'Column "Status" maps to the built-in status field; name it "prop.Status" to import the custom property',
+    ]);
+  });
+
+  test('keeps built-in aliases when the workspace has no matching property', () => {
+    const result = normalizeColumns([{ Title: 'Task', 'Story Points': '3' }], ['Title', 'Story Points']);
+
+    expect(result.data).toEqual([{ title: 'Task', size: '3' }]);
+  });
+
+  test('accepts prop.Name as a column_mapping target', () => {
+    const result = parseCSV({
+      csv_data: 'Title,Squad\nTask,Web',
+      column_mapping: { Squad: 'prop.Team' },
+    });
+
+    expect(result.warnings).toEqual([]);
+    expect(result.data).toEqual([{ title: 'Task', 'prop.Team': 'Web' }]);
+  });
+
+  test('validateRow reports unknown properties and invalid values', () => {
+    const errors = validateRow(
+      { title: 'Task', 'prop.Team': 'Desktop', 'prop.Story Points': 'many', 'prop.Squad': 'A' },
+      config,
+      2
+    );
+
+    expect(errors.map(e => e.field)).toEqual(['prop.Team', 'prop.Story Points', 'prop.Squad']);
+    expect(errors[0].error).toContain('one of: Web, Mobile');
+    expect(errors[2].error).toBe("Custom property 'Squad' not found in workspace");
+  });
+
+  test('resolveReferences collects typed values into custom_properties', () => {
+    const resolution = resolveReferences(
+      { title: 'Task', 'prop.Team': 'web', 'prop.Story Points': '3', 'prop.Customer Facing': 'no' },
+      config,
+      2
+    );
+
+    expect(resolution.errors).toEqual([]);
+    expect(resolution.resolved).toEqual({
+      title: 'Task',
+      custom_properties: { Team: 'Web', 'Story Points': 3, 'Customer Facing': false },
+    });
+  });
+});
@@ -6,13 +6,22 @@
  * - Flexible column name matching with aliases
  * - Case-insensitive column normalization
  * - Validates headers and required columns
+ * - Maps workspace custom properties by name or prop.Name headers
  * - Reports unknown columns as warnings
  * - Handles quoted fields and commas in values (via papaparse)
  */
 
 import Papa from 'papaparse';
 import { readFileSync } from 'fs';
-import type { DartConfig } from '../types/index.js';
+import type { DartConfig, DartCustomProperty } from '../types/index.js';
+import { ValidationError as FieldValidationError } from '../types/index.js';
+import {
+  isCustomPropertyField,
+  customPropertyName,
+  customPropertyField,
+  findCustomProperty,
+  coerceCustomPropertyValue,
+} from './customProperties.js';
 
 // ============================================================================
 // Types
@@ -41,6 +50,8 @@ export interface CSVParseOptions {
   csv_data?: string;
   csv_file_path?: string;
   column_mapping?: Record<string, string>;
+  /** DartConfig.customProperties - headers naming a property map to prop.Name */
+  custom_properties?: DartCustomProperty[];
 }
 
 // ============================================================================
@@ -164,7 +175,8 @@ export function parseCSV(options: CSVParseOptions): CSVParseResult {
   const normalizeResult = normalizeColumns(
     parseResult.data,
     parseResult.meta.fields,
-    options.column_mapping
+    options.column_mapping,
+    options.custom_properties
   );
 
   warnings.push(...normalizeResult.warnings);
@@ -183,12 +195,14 @@ export function parseCSV(options: CSVParseOptions): CSVParseResult {
  * @param data - Parsed CSV data
  * @param originalHeaders - Original header names from CSV
  * @param customMapping - Optional custom column mapping
+ * @param customProperties - Optional workspace custom properties
  * @returns Normalized data with warnings and errors
  */
 export function normalizeColumns(
   data: Array<Record<string, string>>,
   originalHeaders: string[],
-  customMapping?: Record<string, string>
+  customMapping?: Record<string, string>,
+  customProperties?: DartCustomProperty[]
 ): CSVParseResult {
   const warnings: string[] = [];
   const errors: string[] = [];
@@ -211,7 +225,7 @@ export function normalizeColumns(
       mappedField = customMapping[trimmedHeader];
 
       // Validate that custom mapping target is a valid field
-      if (!VALID_COLUMNS.includes(mappedField)) {
+      if (!VALID_COLUMNS.includes(mappedField) && !isCustomPropertyField(mappedField)) {
         warnings.push(`Custom mapping for "${trimmedHeader}" maps to unknown field "${mappedField}"; using anyway`);
       }
 
@@ -227,7 +241,7 @@ export function normalizeColumns(
           mappedField = value;
 
           // Validate that custom mapping target is a valid field
-          if (!VALID_COLUMNS.includes(mappedField)) {
+          if (!VALID_COLUMNS.includes(mappedField) && !isCustomPropertyField(mappedField)) {
             warnings.push(`Custom mapping for "${trimmedHeader}" maps to unknown field "${mappedField}"; using anyway`);
           }
 
@@ -238,8 +252,27 @@ export function normalizeColumns(
       if (mappedField) continue;
     }
 
-    // 3. Check built-in aliases (case-insensitive)
+    // 3. Check custom properties: prop.Name headers, then exact property names
+    // (before built-in aliases, so a "Story Points" property beats size).
+    // A built-in column name ("Title", "Status") stays the built-in column;
+    // a property of that name needs a prop.Name header.
     const lowerHeader = trimmedHeader.toLowerCase();
+    const builtIn = VALID_COLUMNS.includes(lowerHeader);
+    const property = isCustomPropertyField(trimmedHeader)
+      ? findCustomProperty(customProperties, customPropertyName(trimmedHeader))
+      : findCustomProperty(customProperties, trimmedHeader);
+    if (builtIn && property && !isCustomPropertyField(trimmedHeader)) {
+      warnings.push(
+        `Column "${trimmedHeader}" maps to the built-in ${lowerHeader} field; ` +
+        `name it "${customPropertyField(property.name)}" to import the custom property`
+      );
+    } else if (property || isCustomPropertyField(trimmedHeader)) {
+      mappedField = customPropertyField(property ? property.name : customPropertyName(trimmedHeader));
+      headerMapping.set(trimmedHeader, mappedField);
+      continue;
+    }
+
+    // 4. Check built-in aliases (case-insensitive)
     for (const [canonicalName, aliases] of Object.entries(COLUMN_ALIASES)) {
       if (aliases.some(alias => alias.toLowerCase() === lowerHeader)) {
         mappedField = canonicalName;
@@ -426,7 +459,7 @@ export function isValidColumn(columnName: string): boolean {
 /**
  * Levenshtein distance algorithm for fuzzy matching (borrowed from DartQL parser)
  */
-function levenshteinDistance(a: string, b: string): number {
+export function levenshteinDistance(a: string, b: string): number {
   const matrix: number[][] = [];
 
   // Initialize matrix
@@ -458,7 +491,7 @@ function levenshteinDistance(a: string, b: string): number {
 /**
  * Find closest matches using fuzzy matching
  */
-function findClosestMatches(input: string, candidates: string[], threshold: number = 2): string[] {
+export function findClosestMatches(input: string, candidates: string[], threshold: number = 2): string[] {
   const matches: Array<{ value: string; distance: number }> = [];
 
   for (const candidate of candidates) {
@@ -713,6 +746,22 @@ export function resolveReferences(
     }
   }
 
+  // Collect prop.Name columns into custom_properties (invalid values are
+  // reported by validateRow and left out here)
+  for (const field of Object.keys(row).filter(isCustomPropertyField)) {
+    delete resolved[field];
+    const property = findCustomProperty(config.customProperties, customPropertyName(field));
+    if (!property) continue;
+
+    try {
+      const customProperties = (resolved.custom_properties ?? {}) as Record<string, unknown>;
+      customProperties[property.name] = coerceCustomPropertyValue(property, row[field]);
+      resolved.custom_properties = customProperties;
+    } catch (error) {
+      if (!(error instanceof FieldValidationError)) throw error;
+    }
+  }
+
   return { resolved, errors, suggestions };
 }
 
@@ -723,6 +772,7 @@ export function resolveReferences(
  * - Required fields (title)
  * - Valid references (dartboard, assignees, tags exist)
  * - Data types (priority 1-5, size 1-5, dates ISO8601)
+ * - Custom property columns (property exists, value matches its type/options)
  *
  * @param row - CSV row data (normalized column names, BEFORE reference resolution)
  * @param config - DartConfig from config cache
@@ -903,6 +953,34 @@ export function validateRow(
     }
   }
 
+  // Validate custom property columns by type and options
+  for (const field of Object.keys(row).filter(isCustomPropertyField)) {
+    const name = customPropertyName(field);
+    const property = findCustomProperty(config.customProperties, name);
+
+    if (!property) {
+      errors.push({
+        row_number: rowNumber,
+        field,
+        error: `Custom property '${name}' not found in workspace`,
+        value: row[field],
+      });
+      continue;
+    }
+
+    try {
+      coerceCustomPropertyValue(property, row[field]);
+    } catch (error) {
+      if (!(error instanceof FieldValidationError)) throw error;
+      errors.push({
+        row_number: rowNumber,
+        field,
+        error: error.message,
+        value: row[field],
+      });
+    }
+  }
+
   // Validate relationship array fields (format-only, not existence check)
   for (const field of RELATIONSHIP_ARRAY_FIELDS) {
     if (row[field]) {
@@ -0,0 +1,114 @@
+/**
+ * Workspace Custom Property Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isCustomPropertyField,
+  customPropertyName,
+  formatCustomPropertyField,
+  customPropertyKind,
+  readCustomProperty,
+  coerceCustomPropertyValue,
+  validateCustomProperties,
+} from './customProperties.js';
+import { ValidationError } from '../types/index.js';
+import type { DartCustomProperty } from '../types/index.js';
+
+const properties: DartCustomProperty[] = [
+  { name: 'Team', type: 'Select', options: ['Web', 'Mobile', 'Platform'] },
+  { name: 'Story Points', type: 'Number' },
+  { name: 'Customer Facing', type: 'Checkbox' },
+  { name: 'Launch', type: 'Dates' },
+  { name: 'Platforms', type: 'Multiselect', options: ['iOS', 'Android', 'Web'] },
+  { name: 'Customer', type: 'Text' },
+];
+
+describe('custom property field names', () => {
+  it('should recognize prop.Name and quoted names', () => {
+    expect(isCustomPropertyField('prop.Team')).toBe(true);
+    expect(isCustomPropertyField('PROP."Story Points"')).toBe(true);
+    expect(isCustomPropertyField('prop.')).toBe(false);
+    expect(isCustomPropertyField('priority')).toBe(false);
+
+    expect(customPropertyName('prop."Story Points"')).toBe('Story Points');
+    expect(customPropertyName('prop.Team')).toBe('Team');
+  });
+
+  it('should quote names that are not identifiers', () => {
+    expect(formatCustomPropertyField('Team')).toBe('prop.Team');
+    expect(formatCustomPropertyField('Story Points')).toBe('prop."Story Points"');
+  });
+});
+
+describe('customPropertyKind', () => {
+  it('should map Dart property types to value kinds', () => {
+    expect(properties.map(customPropertyKind)).toEqual(['select', 'number', 'checkbox', 'date', 'multiselect', 'text']);
+    expect(customPropertyKind({ name: 'Owner', type: 'multi_select' })).toBe('multiselect');
+    expect(customPropertyKind({ name: 'Odd', type: 'Formula' })).toBe('text');
+  });
+});
+
+describe('readCustomProperty', () => {
+  it('should read values by property name, case-insensitively', () => {
+    const task = { custom_properties: { Team: 'Web', 'Story Points': 3 } };
+
+    expect(readCustomProperty(task, 'Team')).toBe('Web');
+    expect(readCustomProperty(task, 'story points')).toBe(3);
+    expect(readCustomProperty(task, 'Customer')).toBeUndefined();
+    expect(readCustomProperty({}, 'Team')).toBeUndefined();
+  });
+});
+
+describe('coerceCustomPropertyValue', () => {
+  it('should accept JSON values and CSV strings by type', () => {
+    expect(coerceCustomPropertyValue(properties[1], '5')).toBe(5);
+    expect(coerceCustomPropertyValue(properties[1], 2.5)).toBe(2.5);
+    expect(coerceCustomPropertyValue(properties[2], 'yes')).toBe(true);
+    expect(coerceCustomPropertyValue(properties[2], false)).toBe(false);
+    expect(coerceCustomPropertyValue(properties[3], '2026-03-01')).toBe('2026-03-01');
+    expect(coerceCustomPropertyValue(properties[5], 42)).toBe('42');
+    expect(coerceCustomPropertyValue(properties[0], null)).toBeNull();
+  });
+
+  it('should resolve select and multiselect options case-insensitively', () => {
+    expect(coerceCustomPropertyValue(properties[0], 'web')).toBe('Web');
+    expect(coerceCustomPropertyValue(properties[4], 'ios, ANDROID')).toEqual(['iOS', 'Android']);
+    expect(coerceCustomPropertyValue(properties[4], ['web'])).toEqual(['Web']);
+  });
+
+  it('should reject values that do not match the type or options', () => {
+    expect(() => coerceCustomPropertyValue(properties[1], 'three')).toThrow('Expected a number');
+    expect(() => coerceCustomPropertyValue(properties[2], 'maybe')).toThrow('Expected true or false');
+    expect(() => coerceCustomPropertyValue(properties[3], '03/01/2026')).toThrow('ISO8601');
+    expect(() => coerceCustomPropertyValue(properties[0], 'Desktop')).toThrow('one of: Web, Mobile, Platform');
+
+    try {
+      coerceCustomPropertyValue(properties[0], 'Desktop');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).field).toBe('custom_properties.Team');
+      expect((error as ValidationError).suggestions).toEqual(['Web', 'Mobile', 'Platform']);
+    }
+  });
+});
+
+describe('validateCustomProperties', () => {
+  it('should key validated values by workspace property name', () => {
+    expect(validateCustomProperties({ team: 'mobile', 'story points': 8 }, properties)).toEqual({
+      Team: 'Mobile',
+      'Story Points': 8,
+    });
+  });
+
+  it('should reject unknown properties with suggestions', () => {
+    expect(() => validateCustomProperties({ Squad: 'Web' }, properties)).toThrow(
+      'Unknown custom property: "Squad". Available custom properties: Team, Story Points'
+    );
+  });
+
+  it('should reject non-objects and workspaces without custom properties', () => {
+    expect(() => validateCustomProperties(['Team'], properties)).toThrow('must be an object');
+    expect(() => validateCustomProperties({ Team: 'Web' }, undefined)).toThrow('No custom properties found');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Workspace Custom Properties
+ *
+ * Custom properties (DartConfig.customProperties) are addressed as
+ * prop.Name or prop."Story Points" in DartQL, field selections and CSV
+ * headers. Values are stored on tasks under custom_properties, keyed by the
+ * property's workspace name.
+ *
+ * Value kinds follow the property type:
+ * - text, user: strings
+ * - number: finite numbers
+ * - checkbox: booleans
+ * - date: ISO8601 dates
+ * - select: one of the configured options
+ * - multiselect: array of configured options
+ */
+
+import { ValidationError } from '../types/index.js';
+import type { DartCustomProperty } from '../types/index.js';
+
+// ============================================================================
+// Field Names
+// ============================================================================
+
+/** Prefix marking a custom property field (prop.Team) */
+export const CUSTOM_PROPERTY_PREFIX = 'prop.';
+
+export type CustomPropertyKind = 'text' | 'number' | 'checkbox' | 'date' | 'select' | 'multiselect' | 'user';
+
+/** Dart property types (lowercased, separators removed) mapped to value kinds */
+const KIND_BY_TYPE: Record<string, CustomPropertyKind> = {
+  text: 'text',
+  string: 'text',
+  number: 'number',
+  checkbox: 'checkbox',
+  boolean: 'checkbox',
+  date: 'date',
+  dates: 'date',
+  select: 'select',
+  status: 'select',
+  multiselect: 'multiselect',
+  user: 'user',
+  users: 'user',
+  person: 'user',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Check whether a field name addresses a custom property (prop.Name)
+ */
+export function isCustomPropertyField(field: string): boolean {
+  return field.toLowerCase().startsWith(CUSTOM_PROPERTY_PREFIX) && customPropertyName(field) !== '';
+}
+
+/**
+ * Property name from a custom property field: prop."Story Points" → Story Points
+ */
+export function customPropertyName(field: string): string {
+  const name = field.slice(CUSTOM_PROPERTY_PREFIX.length).trim();
+  const quoted = name.match(/^(["'])(.*)\1$/);
+  return quoted ? quoted[2] : name;
+}
+
+/**
+ * Canonical field name for a property: prop.Name (name unquoted, case kept)
+ */
+export function customPropertyField(name: string): string {
+  return CUSTOM_PROPERTY_PREFIX + name;
+}
+
+/**
+ * Render a property as DartQL source, quoting names that are not identifiers
+ */
+export function formatCustomPropertyField(name: string): string {
+  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)
+    ? customPropertyField(name)
+    : `${CUSTOM_PROPERTY_PREFIX}"${name.replace(/"/g, '\\"')}"`;
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Find a custom property by name (case-insensitive)
+ */
+export function findCustomProperty(
+  properties: DartCustomProperty[] | undefined,
+  name: string
+): DartCustomProperty | undefined {
+  const normalized = name.toLowerCase().trim();
+  return properties?.find(p => p.name.toLowerCase() === normalized);
+}
+
+/**
+ * Value kind of a property; unrecognized types are treated as text
+ */
+export function customPropertyKind(property: DartCustomProperty): CustomPropertyKind {
+  return KIND_BY_TYPE[property.type.toLowerCase().replace(/[\s_-]/g, '')] ?? 'text';
+}
+
+/**
+ * Read a custom property value from a task (property name case-insensitive)
+ */
+export function readCustomProperty(task: Record<string, unknown>, name: string): unknown {
+  const values = task.custom_properties ?? task.customProperties;
+  if (!values || typeof values !== 'object') return undefined;
+
+  const record = values as Record<string, unknown>;
+  if (name in record) return record[name];
+
+  const normalized = name.toLowerCase();
+  const key = Object.keys(record).find(k => k.toLowerCase() === normalized);
+  return key === undefined ? undefined : record[key];
+}
+
+/**
+ * Resolve a select option case-insensitively to its configured spelling
+ */
+export function findCustomPropertyOption(property: DartCustomProperty, value: string): string | undefined {
+  const normalized = value.toLowerCase().trim();
+  return property.options?.find(option => option.toLowerCase() === normalized);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate and normalize a value for a property
+ *
+ * Accepts JSON values and CSV strings: "42" for numbers, "yes"/"no" for
+ * checkboxes, "A, B" for multiselects. Select options resolve
+ * case-insensitively. null clears the property.
+ *
+ * @throws ValidationError naming the property and the expected value
+ */
+export function coerceCustomPropertyValue(property: DartCustomProperty, value: unknown): unknown {
+  if (value === null) return null;
+
+  const field = `custom_properties.${property.name}`;
+  const invalid = (expected: string, suggestions?: string[]): ValidationError =>
+    new ValidationError(
+      `Invalid value for custom property "${property.name}" (${property.type}): ${JSON.stringify(value)}. Expected ${expected}`,
+      field,
+      suggestions
+    );
+
+  switch (customPropertyKind(property)) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) throw invalid('a number');
+      return number;
+    }
+
+    case 'checkbox': {
+      if (typeof value === 'boolean') return value;
+      const text = typeof value === 'string' ? value.toLowerCase().trim() : '';
+      if (['true', 'yes', 'y', '1'].includes(text)) return true;
+      if (['false', 'no', 'n', '0'].includes(text)) return false;
+      throw invalid('true or false');
+    }
+
+    case 'date':
+      if (typeof value !== 'string' || !ISO_DATE.test(value.trim()) || isNaN(Date.parse(value.trim()))) {
+        throw invalid('an ISO8601 date (YYYY-MM-DD or YYYY-MM-DDTHH:MM:SSZ)');
+      }
+      return value.trim();
+
+    case 'select': {
+      if (typeof value !== 'string') throw invalid('a string');
+      return resolveOption(property, value, invalid);
+    }
+
+    case 'multiselect': {
+      const items = typeof value === 'string'
+        ? value.split(',').map(item => item.trim()).filter(item => item !== '')
+        : value;
+      if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) {
+        throw invalid('an array of strings');
+      }
+      return items.map(item => resolveOption(property, item, invalid));
+    }
+
+    case 'user':
+    case 'text':
+      if (typeof value === 'number') return String(value);
+      if (typeof value !== 'string') throw invalid('a string');
+      return value;
+  }
+}
+
+function resolveOption(
+  property: DartCustomProperty,
+  value: string,
+  invalid: (expected: string, suggestions?: string[]) => ValidationError
+): string {
+  if (!property.options || property.options.length === 0) return value;
+  const option = findCustomPropertyOption(property, value);
+  if (option === undefined) {
+    throw invalid(`one of: ${property.options.join(', ')}`, property.options);
+  }
+  return option;
+}
+
+/**
+ * Validate a custom_properties update against the workspace config
+ *
+ * @param values - Object keyed by property name
+ * @param properties - DartConfig.customProperties
+ * @returns Values keyed by each property's workspace name
+ * @throws ValidationError for unknown properties and invalid values
+ */
+export function validateCustomProperties(
+  values: unknown,
+  properties: DartCustomProperty[] | undefined
+): Record<string, unknown> {
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    throw new ValidationError(
+      'custom_properties must be an object keyed by custom property name',
+      'custom_properties'
+    );
+  }
+
+  if (!properties || properties.length === 0) {
+    throw new ValidationError(
+      'No custom properties found in workspace configuration. Cannot update custom_properties.',
+      'custom_properties'
+    );
+  }
+
+  const validated: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(values as Record<string, unknown>)) {
+    const property = findCustomProperty(properties, name);
+    if (!property) {
+      const names = properties.map(p => p.name);
+      throw new ValidationError(
+        `Unknown custom property: "${name}". Available custom properties: ${names.join(', ')}`,
+        'custom_properties',
+        names
+      );
+    }
+    validated[property.name] = coerceCustomPropertyValue(property, value);
+  }
+
+  return validated;
+}
@@ -6,13 +6,25 @@ import { describe, it, expect } from 'vitest';
 import {
   parseDartQL,
   parseDartQLToAST,
+  parseDartQLStatement,
   convertToFilters,
+  sortTasks,
+  applyResultClauses,
+  hasRelativeDates,
+  resolveTaskDepths,
+  createBindings,
   DartQLTokenizer,
   DartQLLexer,
   TokenType,
   VALID_FIELDS,
+  type DartQLSemantics,
 } from './dartql.js';
 import { DartQLParseError } from '../types/index.js';
+import type { DartTask } from '../types/index.js';
+import { createDateContext } from './relativeDates.js';
+
+/** Disables OR/IN fan-out so OR and IN are evaluated client-side */
+const CLIENT_SIDE = { maxFanOut: 1 };
 
 // ============================================================================
 // Tokenizer Tests
@@ -251,6 +263,19 @@ describe('DartQLTokenizer', () => {
       expect(() => tokenizer.tokenize()).toThrow(DartQLParseError);
       expect(() => tokenizer.tokenize()).toThrow(/Unexpected character/);
     });
+
+    it('should read unreadable input as UNKNOWN tokens in lenient mode', () => {
+      const tokens = new DartQLTokenizer("status = @ AND tag = :tag OR title = 'In Pro", {}, { lenient: true }).tokenize();
+
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.IDENTIFIER, TokenType.EQUALS, TokenType.UNKNOWN, TokenType.AND,
+        TokenType.IDENTIFIER, TokenType.EQUALS, TokenType.UNKNOWN, TokenType.OR,
+        TokenType.IDENTIFIER, TokenType.EQUALS, TokenType.UNKNOWN, TokenType.EOF,
+      ]);
+      expect(tokens[2]).toMatchObject({ value: '@', position: 9, length: 1 });
+      expect(tokens[6]).toMatchObject({ value: ':tag', position: 21 });
+      expect(tokens[10]).toMatchObject({ value: "'In Pro", position: 37 });
+    });
   });
 
   describe('Position Tracking', () => {
@@ -1122,6 +1147,21 @@ describe('convertToFilters', () => {
       expect(result.apiFilters).toEqual({ priority: 3 });
     });
 
+    it('should push priority labels down as their workspace rank', () => {
+      const config = { priorities: [{ value: 2, label: 'Low' }, { value: 4, label: 'High' }] };
+
+      const configured = convertToFilters(parseDartQLToAST("priority = 'High' AND status = 'Todo'").ast, { config });
+      expect(configured.requiresClientSide).toBe(false);
+      expect(configured.apiFilters).toEqual({ priority: 4, status: 'Todo' });
+
+      // Built-in labels rank without a config
+      expect(convertToFilters(parseDartQLToAST("priority = 'critical'").ast).apiFilters).toEqual({ priority: 5 });
+
+      const unknown = convertToFilters(parseDartQLToAST("priority = 'Urgent' AND status = 'Todo'").ast, { config });
+      expect(unknown.apiFilters).toEqual({ status: 'Todo' });
+      expect(unknown.warnings).toContain("Priority 'Urgent' has no workspace rank and requires client-side filtering");
+    });
+
     it('should convert tags equality to array', () => {
       const ast = parseDartQLToAST('tags = "urgent"').ast;
       const result = convertToFilters(ast);
@@ -1202,7 +1242,7 @@ describe('convertToFilters', () => {
   describe('Client-Side: IN Operator', () => {
     it('should require client-side for IN operator', () => {
       const ast = parseDartQLToAST('status IN ("Todo", "In Progress")').ast;
-      const result = convertToFilters(ast);
+      const result = convertToFilters(ast, CLIENT_SIDE);
 
       expect(result.requiresClientSide).toBe(true);
       expect(result.clientFilter).toBeDefined();
@@ -1212,7 +1252,7 @@ describe('convertToFilters', () => {
 
     it('should correctly filter with IN operator', () => {
       const ast = parseDartQLToAST('status IN ("Todo", "Done")').ast;
-      const result = convertToFilters(ast);
+      const result = convertToFilters(ast, CLIENT_SIDE);
 
       expect(result.clientFilter).toBeDefined();
       if (result.clientFilter) {
@@ -1367,7 +1407,7 @@ describe('convertToFilters', () => {
   describe('Client-Side: OR Logic', () => {
     it('should require client-side for OR operator', () => {
       const ast = parseDartQLToAST('status = "Todo" OR status = "In Progress"').ast;
-      const result = convertToFilters(ast);
+      const result = convertToFilters(ast, CLIENT_SIDE);
 
       expect(result.requiresClientSide).toBe(true);
       expect(result.warnings.some(w => w.includes('OR logic'))).toBe(true);
@@ -1481,7 +1521,7 @@ describe('convertToFilters', () => {
   describe('Complex Client-Side Queries', () => {
     it('should handle (status = "Todo" OR status = "In Progress") AND priority >= 3', () => {
       const ast = parseDartQLToAST('(status = "Todo" OR status = "In Progress") AND priority >= 3').ast;
-      const result = convertToFilters(ast);
+      const result = convertToFilters(ast, CLIENT_SIDE);
 
       expect(result.requiresClientSide).toBe(true);
 
@@ -1499,10 +1539,12 @@ describe('convertToFilters', () => {
 
       expect(result.requiresClientSide).toBe(true);
 
+      // status is pushed down to the API; only the NOT (...) residual runs locally
+      expect(result.apiFilters).toEqual({ status: 'Todo' });
+
       if (result.clientFilter) {
         expect(result.clientFilter({ status: 'Todo', priority: 3 })).toBe(true);
         expect(result.clientFilter({ status: 'Todo', priority: 1 })).toBe(false);
-        expect(result.clientFilter({ status: 'Done', priority: 3 })).toBe(false);
       }
     });
   });
@@ -1510,7 +1552,7 @@ describe('convertToFilters', () => {
   describe('Performance Warnings', () => {
     it('should include performance warning for client-side filtering', () => {
       const ast = parseDartQLToAST('status IN ("Todo", "Done")').ast;
-      const result = convertToFilters(ast);
+      const result = convertToFilters(ast, CLIENT_SIDE);
 
       expect(result.warnings.length).toBeGreaterThan(0);
       expect(result.warnings[0]).toContain('performance');
@@ -1610,7 +1652,7 @@ describe('convertToFilters', () => {
 
     it('should handle: tasks in multiple dartboards (client-side fallback)', () => {
       const ast = parseDartQLToAST('dartboard IN ("board1", "board2") AND priority >= 3').ast;
-      const result = convertToFilters(ast);
+      const result = convertToFilters(ast, CLIENT_SIDE);
 
       expect(result.requiresClientSide).toBe(true);
 
@@ -1703,7 +1745,11 @@ describe('convertToFilters', () => {
       };
       const result = convertToFilters(ast);
 
-      expect(result.apiFilters.priority).toBe(0);
+      // An unrankable value stays client-side instead of filtering on priority 0
+      expect(result.apiFilters.priority).toBeUndefined();
+      expect(result.requiresClientSide).toBe(true);
+      expect(result.clientFilter!({ priority: 'not-a-number' })).toBe(true);
+      expect(result.clientFilter!({ priority: 'high' })).toBe(false);
     });
 
     it('should handle mixed AND with API and client-side filters', () => {
@@ -2079,6 +2125,9 @@ describe('DartQL Relationship Fields', () => {
       const ast = parseDartQLToAST('blocker_ids IS NOT NULL AND status = "Todo"').ast;
       const result = convertToFilters(ast);
 
+      // status is pushed down to the API; blocker_ids is checked locally
+      expect(result.apiFilters).toEqual({ status: 'Todo' });
+
       if (result.clientFilter) {
         expect(result.clientFilter({
           blocker_ids: ['task-blocker'],
@@ -2089,11 +2138,6 @@ describe('DartQL Relationship Fields', () => {
           blocker_ids: [],
           status: 'Todo'
         })).toBe(false);
-
-        expect(result.clientFilter({
-          blocker_ids: ['task-blocker'],
-          status: 'Done'
-        })).toBe(false);
       }
     });
 
@@ -2215,3 +2259,1278 @@ describe('DartQL Relationship Fields', () => {
     });
   });
 });
+
+// ============================================================================
+// Result Clauses: ORDER BY / LIMIT / OFFSET
+// ============================================================================
+
+describe('DartQL Result Clauses', () => {
+  describe('Parsing', () => {
+    it('should tokenize result clause keywords case-insensitively', () => {
+      const tokens = new DartQLTokenizer('order by due_at desc limit 5 offset 10').tokenize();
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.ORDER,
+        TokenType.BY,
+        TokenType.IDENTIFIER,
+        TokenType.DESC,
+        TokenType.LIMIT,
+        TokenType.NUMBER,
+        TokenType.OFFSET,
+        TokenType.NUMBER,
+        TokenType.EOF,
+      ]);
+    });
+
+    it('should parse ORDER BY with multiple keys and default ASC', () => {
+      const result = parseDartQLToAST("status = 'Todo' ORDER BY priority DESC, due_at");
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.ast).toMatchObject({ type: 'comparison', field: 'status' });
+      expect(result.orderBy).toEqual([
+        { field: 'priority', direction: 'DESC' },
+        { field: 'due_at', direction: 'ASC' },
+      ]);
+      expect(result.limit).toBeUndefined();
+      expect(result.offset).toBeUndefined();
+    });
+
+    it('should parse LIMIT and OFFSET', () => {
+      const result = parseDartQLToAST("tags CONTAINS 'bug' ORDER BY created_at LIMIT 10 OFFSET 20");
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.limit).toBe(10);
+      expect(result.offset).toBe(20);
+    });
+
+    it('should accept result clauses without a filter expression', () => {
+      const result = parseDartQLToAST('ORDER BY updated_at DESC LIMIT 3');
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.ast).toEqual({ type: 'group', expressions: [] });
+      expect(result.orderBy).toEqual([{ field: 'updated_at', direction: 'DESC' }]);
+      expect(result.limit).toBe(3);
+    });
+
+    it('should validate ORDER BY field names', () => {
+      const result = parseDartQLToAST("status = 'Todo' ORDER BY priorty");
+      expect(result.errors[0]).toContain("Did you mean 'priority'");
+    });
+
+    it('should reject ORDER without BY', () => {
+      const result = parseDartQLToAST("status = 'Todo' ORDER priority");
+      expect(result.errors[0]).toContain("Expected 'BY' after 'ORDER'");
+    });
+
+    it('should reject non-integer and negative LIMIT values', () => {
+      expect(parseDartQLToAST("status = 'Todo' LIMIT 2.5").errors[0]).toContain('LIMIT must be a non-negative integer');
+      expect(parseDartQLToAST("status = 'Todo' LIMIT 'ten'").errors[0]).toContain('LIMIT must be a non-negative integer');
+    });
+
+    it('should reject clauses in the wrong order', () => {
+      const result = parseDartQLToAST("status = 'Todo' LIMIT 5 ORDER BY due_at");
+      expect(result.errors[0]).toContain('Unexpected token');
+    });
+  });
+
+  describe('convertToFilters', () => {
+    it('should carry result clauses through alongside API filters', () => {
+      const parsed = parseDartQLToAST("status = 'Todo' ORDER BY due_at LIMIT 5");
+      const result = convertToFilters(parsed.ast, parsed);
+
+      expect(result.apiFilters).toEqual({ status: 'Todo' });
+      expect(result.requiresClientSide).toBe(false);
+      expect(result.orderBy).toEqual([{ field: 'due_at', direction: 'ASC' }]);
+      expect(result.limit).toBe(5);
+      expect(result.offset).toBeUndefined();
+    });
+
+    it('should match every task when only result clauses are given', () => {
+      const parsed = parseDartQLToAST('ORDER BY created_at LIMIT 10');
+      const result = convertToFilters(parsed.ast, parsed);
+
+      expect(result.apiFilters).toEqual({});
+      expect(result.requiresClientSide).toBe(false);
+      expect(result.clientFilter).toBeUndefined();
+      expect(result.limit).toBe(10);
+    });
+
+    it('should omit result clauses when none are given', () => {
+      const result = convertToFilters(parseDartQLToAST("status = 'Todo'").ast);
+      expect(result.orderBy).toBeUndefined();
+      expect(result.limit).toBeUndefined();
+    });
+  });
+
+  describe('sortTasks', () => {
+    it('should sort priority labels by rank', () => {
+      const tasks = [
+        { id: 'a', priority: 'low' },
+        { id: 'b', priority: 'critical' },
+        { id: 'c', priority: 'medium' },
+        { id: 'd', priority: 'high' },
+      ];
+
+      const sorted = sortTasks(tasks, [{ field: 'priority', direction: 'DESC' }]);
+      expect(sorted.map(t => t.id)).toEqual(['b', 'd', 'c', 'a']);
+    });
+
+    it('should sort size labels by rank', () => {
+      const tasks = [
+        { id: 'a', size: 'large' },
+        { id: 'b', size: 'xs' },
+        { id: 'c', size: 'medium' },
+      ];
+
+      const sorted = sortTasks(tasks, [{ field: 'size', direction: 'ASC' }]);
+      expect(sorted.map(t => t.id)).toEqual(['b', 'c', 'a']);
+    });
+
+    it('should sort workspace priority labels by their configured rank', () => {
+      const semantics = { priorities: [{ value: 6, label: 'Urgent' }, { value: 5, label: 'Highest' }] };
+      const tasks = [
+        { id: 'a', priority: 'High' },
+        { id: 'b', priority: 'Urgent' },
+        { id: 'c', priority: 'Someday' },
+        { id: 'd', priority: 'Highest' },
+        { id: 'e', priority: 3 },
+      ];
+
+      const sorted = sortTasks(tasks, [{ field: 'priority', direction: 'DESC' }], semantics);
+      // Labels without a rank sort with missing values
+      expect(sorted.map(t => t.id)).toEqual(['b', 'd', 'a', 'e', 'c']);
+    });
+
+    it('should sort dates chronologically regardless of string format', () => {
+      const tasks = [
+        { id: 'a', due_at: '2026-03-01T00:00:00Z' },
+        { id: 'b', due_at: '2026-01-15' },
+        { id: 'c', due_at: '2026-02-01T12:00:00+02:00' },
+      ];
+
+      const sorted = sortTasks(tasks, [{ field: 'due_at', direction: 'ASC' }]);
+      expect(sorted.map(t => t.id)).toEqual(['b', 'c', 'a']);
+    });
+
+    it('should place missing values last in both directions', () => {
+      const tasks = [
+        { id: 'a', due_at: null },
+        { id: 'b', due_at: '2026-01-01' },
+        { id: 'c' },
+        { id: 'd', due_at: '2026-02-01' },
+      ];
+
+      expect(sortTasks(tasks, [{ field: 'due_at', direction: 'ASC' }]).map(t => t.id)).toEqual(['b', 'd', 'a', 'c']);
+      expect(sortTasks(tasks, [{ field: 'due_at', direction: 'DESC' }]).map(t => t.id)).toEqual(['d', 'b', 'a', 'c']);
+    });
+
+    it('should break ties with subsequent keys and keep original order otherwise', () => {
+      const tasks = [
+        { id: 'a', priority: 'high', title: 'beta' },
+        { id: 'b', priority: 'low', title: 'alpha' },
+        { id: 'c', priority: 'high', title: 'Alpha' },
+        { id: 'd', priority: 'high', title: 'beta' },
+      ];
+
+      const sorted = sortTasks(tasks, [
+        { field: 'priority', direction: 'DESC' },
+        { field: 'title', direction: 'ASC' },
+      ]);
+      expect(sorted.map(t => t.id)).toEqual(['c', 'a', 'd', 'b']);
+    });
+
+    it('should not mutate the input array', () => {
+      const tasks = [{ id: 'a', title: 'z' }, { id: 'b', title: 'a' }];
+      sortTasks(tasks, [{ field: 'title', direction: 'ASC' }]);
+      expect(tasks.map(t => t.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('applyResultClauses', () => {
+    const tasks = [
+      { id: 'a', created_at: '2026-01-04' },
+      { id: 'b', created_at: '2026-01-01' },
+      { id: 'c', created_at: '2026-01-03' },
+      { id: 'd', created_at: '2026-01-02' },
+    ];
+
+    it('should sort, then skip OFFSET and take LIMIT', () => {
+      const result = applyResultClauses(tasks, {
+        orderBy: [{ field: 'created_at', direction: 'ASC' }],
+        limit: 2,
+        offset: 1,
+      });
+      expect(result.map(t => t.id)).toEqual(['d', 'c']);
+    });
+
+    it('should return all tasks unchanged without clauses', () => {
+      expect(applyResultClauses(tasks, {}).map(t => t.id)).toEqual(['a', 'b', 'c', 'd']);
+    });
+  });
+});
+
+// ============================================================================
+// Relative Dates
+// ============================================================================
+
+describe('DartQL Relative Dates', () => {
+  // Sunday 2026-01-18 in UTC
+  const dateContext = createDateContext({ today: '2026-01-18', now: Date.UTC(2026, 0, 18, 15, 30), timezone: 'UTC' });
+
+  describe('Tokenization', () => {
+    it('should tokenize date functions, arithmetic and durations', () => {
+      const tokens = new DartQLTokenizer('due_at < today() - 7d + 12h').tokenize();
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.IDENTIFIER,
+        TokenType.LESS_THAN,
+        TokenType.DATE_FUNCTION,
+        TokenType.LPAREN,
+        TokenType.RPAREN,
+        TokenType.MINUS,
+        TokenType.DURATION,
+        TokenType.PLUS,
+        TokenType.DURATION,
+        TokenType.EOF,
+      ]);
+      expect(tokens[6].value).toBe('7d');
+      expect(tokens[8].value).toBe('12h');
+    });
+
+    it('should tokenize month durations and keyword ranges', () => {
+      const tokens = new DartQLTokenizer('due_at IN this_month AND created_at > now() - 1MO').tokenize();
+      expect(tokens[2]).toMatchObject({ type: TokenType.DATE_RANGE, value: 'this_month' });
+      expect(tokens[10]).toMatchObject({ type: TokenType.DURATION, value: '1mo' });
+    });
+
+    it('should keep plain numbers as numbers', () => {
+      const tokens = new DartQLTokenizer('priority >= 3').tokenize();
+      expect(tokens[2]).toMatchObject({ type: TokenType.NUMBER, value: '3' });
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should parse a date function with offsets into the AST', () => {
+      const result = parseDartQLToAST('due_at < today() - 7d');
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.ast.value).toEqual({
+        kind: 'date_function',
+        fn: 'today',
+        offsets: [{ amount: -7, unit: 'd' }],
+      });
+      expect(hasRelativeDates(result.ast)).toBe(true);
+    });
+
+    it('should parse keyword ranges after IN and NOT IN', () => {
+      expect(parseDartQLToAST('due_at IN this_week').ast).toMatchObject({
+        operator: 'IN',
+        value: { kind: 'date_range', range: 'this_week' },
+      });
+      expect(parseDartQLToAST('due_at NOT IN last_month').ast).toMatchObject({
+        operator: 'NOT IN',
+        value: { kind: 'date_range', range: 'last_month' },
+      });
+    });
+
+    it('should parse date functions in BETWEEN', () => {
+      const result = parseDartQLToAST('due_at BETWEEN today() AND today() + 1w');
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.ast.value).toEqual([
+        { kind: 'date_function', fn: 'today', offsets: [] },
+        { kind: 'date_function', fn: 'today', offsets: [{ amount: 1, unit: 'w' }] },
+      ]);
+    });
+
+    it('should hint at the function form when a range is used as a value', () => {
+      const result = parseDartQLToAST('due_at < today');
+      expect(result.errors[0]).toContain('can only be used with IN');
+      expect(result.errors[0]).toContain('did you mean today()?');
+    });
+
+    it('should require a duration after + or -', () => {
+      const result = parseDartQLToAST('due_at < today() - 7');
+      expect(result.errors[0]).toContain('Expected duration after + or -');
+    });
+
+    it('should not flag static queries as relative', () => {
+      expect(hasRelativeDates(parseDartQLToAST("due_at < '2026-01-18'").ast)).toBe(false);
+    });
+  });
+
+  describe('convertToFilters', () => {
+    it('should push a resolved comparison down to due_before', () => {
+      const ast = parseDartQLToAST('due_at < today()').ast;
+      const result = convertToFilters(ast, { dateContext });
+
+      expect(result.requiresClientSide).toBe(false);
+      expect(result.apiFilters).toEqual({ due_before: '2026-01-18T00:00:00.000Z' });
+    });
+
+    it('should push a keyword range down to due_after and due_before', () => {
+      const ast = parseDartQLToAST("due_at IN this_week AND status = 'Todo'").ast;
+      const result = convertToFilters(ast, { dateContext });
+
+      expect(result.requiresClientSide).toBe(false);
+      expect(result.apiFilters).toEqual({
+        due_after: '2026-01-12T00:00:00.000Z',
+        due_before: '2026-01-19T00:00:00.000Z',
+        status: 'Todo',
+      });
+    });
+
+    it('should push due_at BETWEEN down to due_after and due_before', () => {
+      const ast = parseDartQLToAST('due_at BETWEEN today() AND today() + 7d').ast;
+      const result = convertToFilters(ast, { dateContext });
+
+      expect(result.requiresClientSide).toBe(false);
+      expect(result.apiFilters).toEqual({
+        due_after: '2026-01-18T00:00:00.000Z',
+        due_before: '2026-01-25T00:00:00.000Z',
+      });
+    });
+
+    it('should evaluate "overdue and not done" client-side against today', () => {
+      const ast = parseDartQLToAST("due_at < today() AND status != 'Done'").ast;
+      const result = convertToFilters(ast, { dateContext });
+
+      expect(result.requiresClientSide).toBe(true);
+      expect(result.apiFilters).toEqual({ due_before: '2026-01-18T00:00:00.000Z' });
+      const tasks = [
+        { id: 'overdue', due_at: '2026-01-17', status: 'Todo' },
+        { id: 'done', due_at: '2026-01-10T09:00:00Z', status: 'Done' },
+      ];
+      expect(tasks.filter(result.clientFilter!).map(t => t.id)).toEqual(['overdue']);
+    });
+
+    it('should evaluate date comparisons chronologically on the client', () => {
+      const ast = parseDartQLToAST("due_at < today() OR status = 'Blocked'").ast;
+      const result = convertToFilters(ast, { ...CLIENT_SIDE, dateContext });
+
+      expect(result.clientFilter!({ due_at: '2026-01-17', status: 'Todo' })).toBe(true);
+      expect(result.clientFilter!({ due_at: '2026-01-18T09:00:00Z', status: 'Todo' })).toBe(false);
+      expect(result.clientFilter!({ status: 'Todo' })).toBe(false);
+    });
+
+    it('should evaluate created_at ranges chronologically', () => {
+      const ast = parseDartQLToAST('created_at > now() - 2d').ast;
+      const result = convertToFilters(ast, { dateContext });
+
+      expect(result.clientFilter!({ created_at: '2026-01-17T00:00:00Z' })).toBe(true);
+      expect(result.clientFilter!({ created_at: '2026-01-16' })).toBe(false);
+    });
+
+    it('should negate keyword ranges for NOT IN', () => {
+      const ast = parseDartQLToAST('created_at NOT IN last_week').ast;
+      const result = convertToFilters(ast, { dateContext });
+
+      expect(result.clientFilter!({ created_at: '2026-01-07T10:00:00Z' })).toBe(false);
+      expect(result.clientFilter!({ created_at: '2026-01-13T10:00:00Z' })).toBe(true);
+    });
+
+    it('should not mutate the parsed AST', () => {
+      const ast = parseDartQLToAST('due_at < today()').ast;
+      convertToFilters(ast, { dateContext });
+      expect(ast.value).toMatchObject({ kind: 'date_function' });
+    });
+
+    it('should report an invalid DART_TIMEZONE as a conversion error', () => {
+      process.env.DART_TIMEZONE = 'Not/AZone';
+      try {
+        const result = convertToFilters(parseDartQLToAST('due_at < today()').ast);
+        expect(result.errors[0]).toContain("Invalid timezone: 'Not/AZone'");
+      } finally {
+        delete process.env.DART_TIMEZONE;
+      }
+    });
+  });
+});
+
+// ============================================================================
+// Partial Predicate Pushdown
+// ============================================================================
+
+describe('DartQL Partial Pushdown', () => {
+  it('should push API-compatible conjuncts and keep the rest as a residual', () => {
+    const ast = parseDartQLToAST("status = 'Todo' AND title LIKE '%login%' AND assignee = 'alice@example.com'").ast;
+    const result = convertToFilters(ast);
+
+    expect(result.apiFilters).toEqual({ status: 'Todo', assignee: 'alice@example.com' });
+    expect(result.requiresClientSide).toBe(true);
+    expect(result.residual).toMatchObject({ type: 'comparison', field: 'title', operator: 'LIKE' });
+  });
+
+  it('should evaluate only the residual client-side', () => {
+    const ast = parseDartQLToAST("assignee = 'alice@example.com' AND title LIKE '%login%'").ast;
+    const result = convertToFilters(ast);
+
+    // DartTask carries assignees[], not assignee - the API already applied that filter
+    expect(result.clientFilter!({ assignees: ['alice@example.com'], title: 'Fix login bug' })).toBe(true);
+    expect(result.clientFilter!({ assignees: ['alice@example.com'], title: 'Docs' })).toBe(false);
+  });
+
+  it('should flatten parenthesized AND groups', () => {
+    const ast = parseDartQLToAST("(status = 'Todo' AND priority = 3) AND (title LIKE '%x%' AND size = 'small')").ast;
+    const result = convertToFilters(ast);
+
+    expect(result.apiFilters).toEqual({ status: 'Todo', priority: 3 });
+    expect(result.residual).toMatchObject({ type: 'logical', operator: 'AND' });
+    expect(result.clientFilter!({ title: 'x', size: 'small' })).toBe(true);
+    expect(result.clientFilter!({ title: 'x', size: 'large' })).toBe(false);
+  });
+
+  it('should keep OR branches with unpushable predicates client-side', () => {
+    const ast = parseDartQLToAST("dartboard = 'Eng' AND (status = 'Todo' OR status = 'Doing' OR title LIKE '%x%')").ast;
+    const result = convertToFilters(ast);
+
+    expect(result.apiFilters).toEqual({ dartboard: 'Eng' });
+    expect(result.warnings.some(w => w.includes('OR logic'))).toBe(true);
+    expect(result.clientFilter!({ status: 'Doing' })).toBe(true);
+    expect(result.clientFilter!({ status: 'Done', title: 'y' })).toBe(false);
+  });
+
+  it('should keep a repeated API filter key in the residual', () => {
+    const ast = parseDartQLToAST("tags = 'bug' AND tags = 'urgent'").ast;
+    const result = convertToFilters(ast);
+
+    expect(result.apiFilters).toEqual({ tags: ['bug'] });
+    expect(result.requiresClientSide).toBe(true);
+    expect(result.residual).toMatchObject({ field: 'tags', value: 'urgent' });
+    expect(result.warnings.some(w => w.includes("Repeated 'tags'"))).toBe(true);
+  });
+
+  it('should push due_at bounds from both sides of a range', () => {
+    const ast = parseDartQLToAST("due_at >= '2026-01-01' AND due_at < '2026-02-01' AND title LIKE '%x%'").ast;
+    const result = convertToFilters(ast);
+
+    expect(result.apiFilters).toEqual({ due_after: '2026-01-01', due_before: '2026-02-01' });
+  });
+
+  it('should mention the pushed filters in the warning', () => {
+    const ast = parseDartQLToAST("status = 'Todo' AND title LIKE '%x%'").ast;
+    const result = convertToFilters(ast);
+
+    expect(result.warnings[0]).toContain('API filters (status)');
+    expect(result.warnings).toContain("Field 'title' not supported by API filters");
+  });
+
+  it('should keep fully pushable queries free of client-side work', () => {
+    const result = convertToFilters(parseDartQLToAST("status = 'Todo' AND dartboard = 'Eng'").ast);
+
+    expect(result.requiresClientSide).toBe(false);
+    expect(result.residual).toBeUndefined();
+    expect(result.clientFilter).toBeUndefined();
+  });
+
+  it('should match every task for an empty expression', () => {
+    const result = convertToFilters({ type: 'group', expressions: [] });
+
+    expect(result.requiresClientSide).toBe(false);
+    expect(result.apiFilters).toEqual({});
+    expect(result.clientFilter).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// OR/IN Fan-Out
+// ============================================================================
+
+describe('DartQL OR/IN Fan-Out', () => {
+  it('should fan IN on a pushable field out into one query per value', () => {
+    const result = convertToFilters(parseDartQLToAST("status IN ('Todo', 'Doing')").ast);
+
+    expect(result.requiresClientSide).toBe(false);
+    expect(result.clientFilter).toBeUndefined();
+    expect(result.apiFilterSets).toEqual([{ status: 'Todo' }, { status: 'Doing' }]);
+  });
+
+  it('should fan OR of pushable predicates out and include common filters in every set', () => {
+    const ast = parseDartQLToAST("assignee = 'alice' AND (dartboard = 'A' OR dartboard = 'B')").ast;
+    const result = convertToFilters(ast);
+
+    expect(result.apiFilters).toEqual({ assignee: 'alice' });
+    expect(result.apiFilterSets).toEqual([
+      { assignee: 'alice', dartboard: 'A' },
+      { assignee: 'alice', dartboard: 'B' },
+    ]);
+  });
+
+  it('should fan out OR branches that are themselves AND chains', () => {
+    const ast = parseDartQLToAST("(status = 'Todo' AND tags = 'bug') OR (status = 'Doing' AND due_at < '2026-02-01')").ast;
+    const result = convertToFilters(ast);
+
+    expect(result.apiFilterSets).toEqual([
+      { status: 'Todo', tags: ['bug'] },
+      { status: 'Doing', due_before: '2026-02-01' },
+    ]);
+  });
+
+  it('should combine multiple fan-out conjuncts as a cross product', () => {
+    const ast = parseDartQLToAST("status IN ('Todo', 'Doing') AND dartboard IN ('A', 'B')").ast;
+    const result = convertToFilters(ast);
+
+    expect(result.apiFilterSets).toHaveLength(4);
+    expect(result.apiFilterSets).toContainEqual({ status: 'Doing', dartboard: 'A' });
+  });
+
+  it('should apply the residual on top of the fan-out', () => {
+    const ast = parseDartQLToAST("status IN ('Todo', 'Doing') AND title LIKE '%login%'").ast;
+    const result = convertToFilters(ast);
+
+    expect(result.apiFilterSets).toHaveLength(2);
+    expect(result.requiresClientSide).toBe(true);
+    expect(result.residual).toMatchObject({ field: 'title', operator: 'LIKE' });
+  });
+
+  it('should fall back to client-side when the fan-out exceeds maxFanOut', () => {
+    const ast = parseDartQLToAST("status IN ('A', 'B', 'C') AND dartboard IN ('X', 'Y')").ast;
+    const result = convertToFilters(ast, { maxFanOut: 4 });
+
+    // status fans out (3 queries); adding dartboard would need 6
+    expect(result.apiFilterSets).toEqual([{ status: 'A' }, { status: 'B' }, { status: 'C' }]);
+    expect(result.residual).toMatchObject({ field: 'dartboard', operator: 'IN' });
+    expect(result.warnings.some(w => w.includes('would need 6 API queries (max 4)'))).toBe(true);
+  });
+
+  it('should read the default cap from DART_MAX_FAN_OUT', () => {
+    process.env.DART_MAX_FAN_OUT = '2';
+    try {
+      const result = convertToFilters(parseDartQLToAST("status IN ('A', 'B', 'C')").ast);
+      expect(result.apiFilterSets).toBeUndefined();
+      expect(result.requiresClientSide).toBe(true);
+    } finally {
+      delete process.env.DART_MAX_FAN_OUT;
+    }
+  });
+
+  it('should not fan out a disjunction containing unpushable predicates', () => {
+    const result = convertToFilters(parseDartQLToAST("status = 'Todo' OR priority >= 3").ast);
+
+    expect(result.apiFilterSets).toBeUndefined();
+    expect(result.requiresClientSide).toBe(true);
+  });
+
+  it('should keep a fan-out clashing with a single-value filter client-side', () => {
+    const result = convertToFilters(parseDartQLToAST("status = 'Todo' AND status IN ('Todo', 'Doing')").ast);
+
+    expect(result.apiFilters).toEqual({ status: 'Todo' });
+    expect(result.apiFilterSets).toBeUndefined();
+    expect(result.residual).toMatchObject({ operator: 'IN' });
+  });
+
+  it('should leave empty IN lists to the client (they match nothing)', () => {
+    const result = convertToFilters(parseDartQLToAST('status IN ()').ast);
+
+    expect(result.apiFilterSets).toBeUndefined();
+    expect(result.clientFilter!({ status: 'Todo' })).toBe(false);
+  });
+
+  it('should note the number of fan-out queries in the warnings', () => {
+    const result = convertToFilters(parseDartQLToAST("tags IN ('bug', 'urgent')").ast);
+
+    expect(result.warnings).toContain('OR/IN conditions fan out into 2 parallel API queries (results merged by dart_id)');
+  });
+});
+
+// ============================================================================
+// Field Semantics
+// ============================================================================
+
+describe('DartQL Field Semantics', () => {
+  const config: DartQLSemantics = {
+    assignees: [
+      { dart_id: 'duid_alice', name: 'Alice Smith', email: 'alice@example.com' },
+      { dart_id: 'duid_bob', name: 'Bob', email: 'bob@example.com' },
+    ],
+    statuses: [{ dart_id: 'duid_todo', name: 'To Do' }, 'Done'],
+    dartboards: [{ dart_id: 'duid_eng', name: 'Engineering' }],
+    tags: [{ dart_id: 'duid_bug', name: 'Bug' }],
+    priorities: [
+      { value: 1, label: 'Lowest' },
+      { value: 2, label: 'Low' },
+      { value: 3, label: 'Medium' },
+      { value: 4, label: 'High' },
+      { value: 5, label: 'Highest' },
+    ],
+    sizes: [
+      { value: 1, label: 'XS' },
+      { value: 2, label: 'S' },
+      { value: 3, label: 'M' },
+      { value: 4, label: 'L' },
+      { value: 5, label: 'XL' },
+    ],
+  };
+
+  /** Client-side filter for a query (maxFanOut: 0 keeps IN/OR local) */
+  function clientFilterFor(where: string, semantics?: DartQLSemantics): (task: unknown) => boolean {
+    const result = convertToFilters(parseDartQLToAST(where).ast, { config: semantics, maxFanOut: 0 });
+    expect(result.clientFilter).toBeDefined();
+    return result.clientFilter!;
+  }
+
+  it('should accept singular aliases and normalize them to canonical fields', () => {
+    const result = parseDartQLToAST("tag = 'bug' AND Assignees = 'Bob' ORDER BY tag");
+
+    expect(result.errors).toEqual([]);
+    expect(result.ast).toMatchObject({
+      left: { field: 'tags' },
+      right: { field: 'assignee' },
+    });
+    expect(result.orderBy).toEqual([{ field: 'tags', direction: 'ASC' }]);
+    expect(convertToFilters(result.ast).apiFilters).toEqual({ tags: ['bug'], assignee: 'Bob' });
+  });
+
+  it('should match assignee against the assignees array by name, email or dart_id', () => {
+    const task = { assignees: ['alice@example.com', 'bob@example.com'] };
+
+    expect(clientFilterFor("assignee IN ('Alice Smith')", config)(task)).toBe(true);
+    expect(clientFilterFor("assignee IN ('duid_alice')", config)(task)).toBe(true);
+    expect(clientFilterFor("assignee IN ('ALICE@example.com')")(task)).toBe(true);
+    expect(clientFilterFor("assignee IN ('Carol')", config)(task)).toBe(false);
+  });
+
+  it('should apply any semantics to positive and all semantics to negative operators', () => {
+    const task = { tags: ['bug', 'frontend'] };
+
+    expect(clientFilterFor("tag IN ('frontend', 'docs')")(task)).toBe(true);
+    expect(clientFilterFor("tags != 'bug'")(task)).toBe(false);
+    expect(clientFilterFor("tags != 'docs'")(task)).toBe(true);
+    expect(clientFilterFor("tags NOT IN ('docs', 'backend')")(task)).toBe(true);
+    expect(clientFilterFor("tags NOT IN ('docs', 'frontend')")(task)).toBe(false);
+    expect(clientFilterFor("tags LIKE 'front%'")(task)).toBe(true);
+    expect(clientFilterFor("tags != 'docs'")({ tags: [] })).toBe(true);
+  });
+
+  it('should compare priority by rank with built-in labels', () => {
+    const filter = clientFilterFor('priority >= 3');
+
+    expect(filter({ priority: 'high' })).toBe(true);
+    expect(filter({ priority: 'Medium' })).toBe(true);
+    expect(filter({ priority: 'low' })).toBe(false);
+    expect(filter({})).toBe(false);
+  });
+
+  it('should compare priority and size by configured rank', () => {
+    expect(clientFilterFor("priority > 'High'", config)({ priority: 'Highest' })).toBe(true);
+    expect(clientFilterFor("priority > 'High'", config)({ priority: 'Medium' })).toBe(false);
+    expect(clientFilterFor("size BETWEEN 'S' AND 'L'", config)({ size: 'M' })).toBe(true);
+    expect(clientFilterFor("size BETWEEN 'S' AND 'L'", config)({ size: 'XL' })).toBe(false);
+    expect(clientFilterFor("priority IN (4, 5)", config)({ priority: 'high' })).toBe(true);
+  });
+
+  it('should resolve status, dartboard and tag values through the workspace config', () => {
+    expect(clientFilterFor("status != 'to do'", config)({ status: 'To Do' })).toBe(false);
+    expect(clientFilterFor("status IN ('duid_todo')", config)({ status: 'To Do' })).toBe(true);
+    expect(clientFilterFor("dartboard NOT IN ('engineering')", config)({ dartboard: 'Engineering' })).toBe(false);
+    expect(clientFilterFor("tags IN ('BUG')", config)({ tags: ['Bug'] })).toBe(true);
+  });
+
+  it('should push canonical workspace names down to the API', () => {
+    const ast = parseDartQLToAST("status = 'to do' AND dartboard = 'duid_eng' AND assignee = 'Alice Smith' AND tag = 'bug'").ast;
+    const result = convertToFilters(ast, { config });
+
+    expect(result.apiFilters).toEqual({
+      status: 'To Do',
+      dartboard: 'Engineering',
+      assignee: 'alice@example.com',
+      tags: ['Bug'],
+    });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should warn about values the workspace does not know', () => {
+    const result = convertToFilters(parseDartQLToAST("status = 'Tood' OR assignee = 'carol'").ast, { config });
+
+    expect(result.warnings).toContain("Unknown status 'Tood' (not in workspace config)");
+    expect(result.warnings).toContain("Unknown assignee 'carol' (not in workspace config)");
+  });
+});
+
+// ============================================================================
+// Virtual Fields
+// ============================================================================
+
+describe('DartQL Virtual Fields', () => {
+  const dateContext = createDateContext({ today: '2026-01-18', now: Date.UTC(2026, 0, 18, 15, 30), timezone: 'UTC' });
+
+  const stale = {
+    dart_id: 'stale',
+    due_at: '2026-01-10T00:00:00Z',
+    updated_at: '2025-12-20T00:00:00Z',
+    blocker_ids: ['duid_block1'],
+  };
+  const fresh = {
+    dart_id: 'fresh',
+    due_at: '2026-01-30T00:00:00Z',
+    updated_at: '2026-01-17T00:00:00Z',
+    blocker_ids: [],
+  };
+
+  it('should tokenize true and false as boolean literals', () => {
+    const tokens = new DartQLTokenizer('is_overdue = TRUE AND is_completed = false').tokenize();
+
+    expect(tokens.filter(t => t.type === TokenType.BOOLEAN).map(t => t.value)).toEqual(['TRUE', 'false']);
+  });
+
+  it('should parse boolean values and accept virtual fields', () => {
+    const result = parseDartQLToAST('is_overdue = true AND days_since_update > 14');
+
+    expect(result.errors).toEqual([]);
+    expect(result.ast).toMatchObject({
+      left: { field: 'is_overdue', operator: '=', value: true },
+      right: { field: 'days_since_update', operator: '>', value: 14 },
+    });
+  });
+
+  it('should evaluate virtual fields client-side as of the date context', () => {
+    const result = convertToFilters(parseDartQLToAST('is_overdue = true AND days_since_update > 14').ast, { dateContext });
+
+    expect(result.apiFilters).toEqual({});
+    expect(result.plan?.reasons).toContain("Virtual field 'is_overdue' is computed client-side");
+    expect([stale, fresh].filter(result.clientFilter!).map(t => t.dart_id)).toEqual(['stale']);
+  });
+
+  it('should keep API pushdown for stored fields next to virtual fields', () => {
+    const result = convertToFilters(
+      parseDartQLToAST("status = 'Todo' AND has_open_blockers = true AND days_until_due BETWEEN 0 AND 14").ast,
+      { dateContext }
+    );
+
+    expect(result.apiFilters).toEqual({ status: 'Todo' });
+    expect([stale, fresh].filter(result.clientFilter!).map(t => t.dart_id)).toEqual([]);
+    expect([fresh].filter(convertToFilters(
+      parseDartQLToAST('days_until_due BETWEEN 0 AND 14 AND blocker_count = 0').ast,
+      { dateContext }
+    ).clientFilter!)).toEqual([fresh]);
+  });
+
+  it('should sort by virtual fields', () => {
+    const sorted = sortTasks([fresh, stale], [{ field: 'days_since_update', direction: 'DESC' }]);
+    expect(sorted.map(t => t.dart_id)).toEqual(['stale', 'fresh']);
+
+    const byFlag = sortTasks([stale, fresh], [{ field: 'has_open_blockers', direction: 'ASC' }]);
+    expect(byFlag.map(t => t.dart_id)).toEqual(['fresh', 'stale']);
+  });
+});
+
+// ============================================================================
+// Custom Properties
+// ============================================================================
+
+describe('DartQL Custom Properties', () => {
+  const config: DartQLSemantics = {
+    customProperties: [
+      { name: 'Team', type: 'Select', options: ['Web', 'Mobile'] },
+      { name: 'Story Points', type: 'Number' },
+      { name: 'Customer Facing', type: 'Checkbox' },
+    ],
+  };
+
+  const web = { dart_id: 'web', status: 'Todo', custom_properties: { Team: 'Web', 'Story Points': 5, 'Customer Facing': true } };
+  const mobile = { dart_id: 'mobile', status: 'Todo', custom_properties: { Team: 'Mobile', 'Story Points': 2 } };
+  const bare = { dart_id: 'bare', status: 'Todo' };
+
+  it('should tokenize prop.Name and prop."Quoted Name" as single fields', () => {
+    const tokens = new DartQLTokenizer('prop.Team = \'Web\' AND prop."Story Points" > 3').tokenize();
+
+    expect(tokens.filter(t => t.type === TokenType.IDENTIFIER).map(t => t.value)).toEqual([
+      'prop.Team',
+      'prop.Story Points',
+    ]);
+  });
+
+  it('should parse custom property fields without unknown-field errors', () => {
+    const result = parseDartQLToAST('PROP.team = \'web\' AND prop."Story Points" >= 3 ORDER BY prop."Story Points" DESC');
+
+    expect(result.errors).toEqual([]);
+    expect(result.ast).toMatchObject({
+      left: { field: 'prop.team' },
+      right: { field: 'prop.Story Points' },
+    });
+    expect(result.orderBy).toEqual([{ field: 'prop.Story Points', direction: 'DESC' }]);
+  });
+
+  it('should reject prop. without a property name', () => {
+    expect(parseDartQLToAST('prop. = 1').errors.length).toBeGreaterThan(0);
+  });
+
+  it('should filter client-side by type, with options resolved through the config', () => {
+    const result = convertToFilters(
+      parseDartQLToAST("status = 'Todo' AND prop.team = 'web' AND prop.\"Story Points\" >= 3").ast,
+      { config }
+    );
+
+    expect(result.apiFilters).toEqual({ status: 'Todo' });
+    expect(result.residual).toMatchObject({ left: { field: 'prop.Team', value: 'Web' } });
+    expect(result.plan?.reasons).toContain("Custom property 'Team' requires client-side filtering");
+    expect([web, mobile, bare].filter(result.clientFilter!).map(t => t.dart_id)).toEqual(['web']);
+
+    const flagged = convertToFilters(parseDartQLToAST('prop."Customer Facing" = true').ast);
+    expect([web, mobile, bare].filter(flagged.clientFilter!).map(t => t.dart_id)).toEqual(['web']);
+
+    const unset = convertToFilters(parseDartQLToAST('prop.Team IS NULL').ast);
+    expect([web, mobile, bare].filter(unset.clientFilter!).map(t => t.dart_id)).toEqual(['bare']);
+  });
+
+  it('should warn about unknown properties and options', () => {
+    const result = convertToFilters(parseDartQLToAST("prop.Squad = 'A' OR prop.Team = 'Desktop'").ast, { config, maxFanOut: 0 });
+
+    expect(result.warnings).toContain("Unknown custom property 'Squad' (not in workspace config)");
+    expect(result.warnings).toContain("Unknown option 'Desktop' for custom property 'Team'");
+  });
+
+  it('should sort by custom property values', () => {
+    const sorted = sortTasks([mobile, bare, web], [{ field: 'prop.Story Points', direction: 'DESC' }]);
+    expect(sorted.map(t => t.dart_id)).toEqual(['web', 'mobile', 'bare']);
+  });
+});
+
+describe('DartQL Relationship Predicates', () => {
+  const tasks: Record<string, Partial<DartTask>> = {
+    blocked: { dart_id: 'blocked', title: 'Blocked', status: 'Todo', blocker_ids: ['open', 'done'] },
+    unblocked: { dart_id: 'unblocked', title: 'Unblocked', status: 'Todo', blocker_ids: ['done'] },
+    free: { dart_id: 'free', title: 'Free', status: 'Todo', parent_task: 'epic' },
+    open: { dart_id: 'open', title: 'Open', status: 'Doing', subtask_ids: [] },
+    done: { dart_id: 'done', title: 'Done', status: 'Done', completed_at: '2026-01-10T00:00:00Z' },
+    epic: { dart_id: 'epic', title: 'Epic', dartboard: 'Roadmap', subtask_ids: ['free', 'unblocked'] },
+  };
+
+  // List API results carry no relationship arrays
+  const listed = (id: string) => ({ dart_id: id, title: tasks[id].title, parent_task: tasks[id].parent_task }) as DartTask;
+
+  const fetcher = () => {
+    const requested: string[][] = [];
+    const fetchTasks = async (ids: string[]) => {
+      requested.push(ids);
+      return new Map(ids.filter(id => id in tasks).map(id => [id, tasks[id] as DartTask]));
+    };
+    return { fetchTasks, requested };
+  };
+
+  const run = async (query: string, ids: string[]) => {
+    const result = convertToFilters(parseDartQLToAST(query).ast);
+    const { fetchTasks, requested } = fetcher();
+    const candidates = await result.resolveRelated!(ids.map(listed), fetchTasks);
+    return { matched: candidates.filter(result.clientFilter!).map(t => t.dart_id), requested, result };
+  };
+
+  it('should parse quantified predicates over related tasks', () => {
+    const result = parseDartQLToAST("ANY blocker (status != 'Done') AND parent (dartboard = 'Roadmap')");
+
+    expect(result.errors).toEqual([]);
+    expect(result.ast).toMatchObject({
+      type: 'logical',
+      left: { type: 'relationship', relationship: 'blockers', quantifier: 'ANY', expressions: [{ field: 'status' }] },
+      right: { type: 'relationship', relationship: 'parent', expressions: [{ field: 'dartboard' }] },
+    });
+    expect(result.ast.right).not.toHaveProperty('quantifier');
+  });
+
+  it('should reject unknown relationships and missing quantifiers', () => {
+    expect(parseDartQLToAST("ANY blokers (status = 'Done')").diagnostics![0]).toMatchObject({
+      message: "Unknown relationship: 'blokers'",
+      suggestions: ['blockers'],
+    });
+    expect(parseDartQLToAST("subtasks (status = 'Done')").errors[0]).toContain('needs ANY or ALL');
+  });
+
+  it('should keep relationship predicates client-side', () => {
+    const result = convertToFilters(parseDartQLToAST("status = 'Todo' AND ANY blockers (status != 'Done')").ast);
+
+    expect(result.apiFilters).toEqual({ status: 'Todo' });
+    expect(result.plan?.reasons).toContain("Relationship predicate 'ANY blockers' fetches related tasks client-side");
+    expect(result.resolveRelated).toBeDefined();
+    expect(convertToFilters(parseDartQLToAST("status = 'Todo' AND title LIKE 'a%'").ast).resolveRelated).toBeUndefined();
+  });
+
+  it('should match ANY and ALL over hydrated candidates', async () => {
+    const any = await run("ANY blockers (completed_at IS NULL)", ['blocked', 'unblocked', 'free']);
+    expect(any.matched).toEqual(['blocked']);
+
+    // ALL holds vacuously for tasks without blockers
+    const all = await run("ALL blockers (status = 'Done')", ['blocked', 'unblocked', 'free']);
+    expect(all.matched).toEqual(['unblocked', 'free']);
+  });
+
+  it('should evaluate parent and nested predicates, fetching each task once', async () => {
+    const { matched, requested } = await run(
+      "parent (dartboard = 'Roadmap' AND ANY subtasks (ANY blockers (status = 'Done')))",
+      ['free', 'blocked']
+    );
+
+    expect(matched).toEqual(['free']);
+    expect(requested).toEqual([['epic'], ['free', 'unblocked'], ['done']]);
+  });
+
+  it('should memoize related tasks across calls for one query', async () => {
+    const result = convertToFilters(parseDartQLToAST("ANY blockers (status = 'Done')").ast);
+    const { fetchTasks, requested } = fetcher();
+
+    await result.resolveRelated!([listed('blocked')], fetchTasks);
+    await result.resolveRelated!([listed('blocked'), listed('unblocked')], fetchTasks);
+
+    expect(requested).toEqual([['blocked'], ['open', 'done'], ['unblocked']]);
+  });
+
+  it('should hydrate list-shaped candidates for relationship counts', async () => {
+    const counted = await run('blocker_count > 0', ['blocked', 'unblocked', 'free']);
+    expect(counted.matched).toEqual(['blocked', 'unblocked']);
+    expect(counted.requested).toEqual([['blocked', 'unblocked', 'free']]);
+
+    // Only blockers without completed_at are open
+    const open = await run('has_open_blockers = true', ['blocked', 'unblocked', 'free']);
+    expect(open.matched).toEqual(['blocked']);
+    expect(open.requested).toEqual([['blocked', 'unblocked', 'free'], ['open', 'done']]);
+  });
+
+  it('should resolve relationship counts used as ORDER BY keys', async () => {
+    const parsed = parseDartQLToAST("status != 'Archived' ORDER BY subtask_count DESC");
+    const result = convertToFilters(parsed.ast, parsed);
+    const { fetchTasks } = fetcher();
+    const candidates = await result.resolveRelated!(['free', 'epic'].map(listed), fetchTasks);
+
+    expect(applyResultClauses(candidates, result).map(t => t.dart_id)).toEqual(['epic', 'free']);
+  });
+
+  it('should ignore related tasks that no longer exist', async () => {
+    tasks.orphan = { dart_id: 'orphan', title: 'Orphan', blocker_ids: ['deleted'] };
+    const { matched } = await run("ANY blockers (status = 'Done') OR ALL blockers (status = 'Done')", ['orphan']);
+    delete tasks.orphan;
+
+    expect(matched).toEqual(['orphan']);
+  });
+});
+
+describe('DartQL Hierarchy Operators', () => {
+  // epic > story > (task, bug); loop1 and loop2 are each other's parent
+  const tasks: Record<string, Partial<DartTask>> = {
+    epic: { dart_id: 'epic', title: 'Epic', subtask_ids: ['story'] },
+    story: { dart_id: 'story', title: 'Story', parent_task: 'epic', subtask_ids: ['task', 'bug'] },
+    task: { dart_id: 'task', title: 'Task', parent_task: 'story', subtask_ids: [] },
+    bug: { dart_id: 'bug', title: 'Bug', parent_task: 'story', subtask_ids: [] },
+    other: { dart_id: 'other', title: 'Other' },
+    loop1: { dart_id: 'loop1', title: 'Loop 1', parent_task: 'loop2', subtask_ids: ['loop2'] },
+    loop2: { dart_id: 'loop2', title: 'Loop 2', parent_task: 'loop1', subtask_ids: ['loop1'] },
+  };
+
+  const listed = (id: string) => ({ dart_id: id, title: tasks[id].title, parent_task: tasks[id].parent_task }) as DartTask;
+
+  const fetcher = () => {
+    const requested: string[][] = [];
+    const fetchTasks = async (ids: string[]) => {
+      requested.push(ids);
+      return new Map(ids.filter(id => id in tasks).map(id => [id, tasks[id] as DartTask]));
+    };
+    return { fetchTasks, requested };
+  };
+
+  const run = async (query: string, ids: string[] = Object.keys(tasks)) => {
+    const parsed = parseDartQLToAST(query);
+    const result = convertToFilters(parsed.ast, parsed);
+    const { fetchTasks, requested } = fetcher();
+    const candidates = await result.resolveRelated!(ids.map(listed), fetchTasks);
+    const matched = result.clientFilter ? candidates.filter(result.clientFilter) : candidates;
+    return { matched: applyResultClauses(matched, result), requested, result };
+  };
+
+  it('should parse hierarchy operators with a task ID', () => {
+    const result = parseDartQLToAST("DESCENDANT OF 'epic' AND NOT CHILD OF 'story'");
+
+    expect(result.errors).toEqual([]);
+    expect(result.ast).toMatchObject({
+      type: 'logical',
+      left: { type: 'hierarchy', operator: 'DESCENDANT OF', value: 'epic' },
+      right: { type: 'logical', operator: 'NOT', right: { type: 'hierarchy', operator: 'CHILD OF', value: 'story' } },
+    });
+    expect(parseDartQLToAST('ANCESTOR OF 42').errors[0]).toContain('Expected task dart_id after ANCESTOR OF');
+  });
+
+  it('should keep hierarchy operators and depth client-side', () => {
+    const result = convertToFilters(parseDartQLToAST("DESCENDANT OF 'epic' AND depth >= 2").ast);
+
+    expect(result.plan?.reasons).toEqual(expect.arrayContaining([
+      'DESCENDANT OF walks the subtask tree client-side',
+      "Field 'depth' is computed by walking parent tasks client-side",
+    ]));
+    expect(result.resolveRelated).toBeDefined();
+    expect(convertToFilters(parseDartQLToAST("CHILD OF 'story'").ast).resolveRelated).toBeUndefined();
+  });
+
+  it('should match the subtask tree below a task', async () => {
+    const { matched, requested } = await run("DESCENDANT OF 'epic'");
+
+    expect(matched.map(t => t.dart_id)).toEqual(['story', 'task', 'bug']);
+    expect(requested).toEqual([['epic'], ['story'], ['task', 'bug']]);
+  });
+
+  it('should match the parent chain above a task', async () => {
+    const { matched } = await run("ANCESTOR OF 'bug'");
+    expect(matched.map(t => t.dart_id)).toEqual(['epic', 'story']);
+  });
+
+  it('should match direct children without fetching', async () => {
+    const parsed = parseDartQLToAST("CHILD OF 'story'");
+    const result = convertToFilters(parsed.ast);
+
+    expect(Object.keys(tasks).map(listed).filter(result.clientFilter!).map(t => t.dart_id)).toEqual(['task', 'bug']);
+  });
+
+  it('should filter and sort by depth', async () => {
+    const { matched } = await run("depth > 0 ORDER BY depth DESC", ['task', 'epic', 'story', 'other']);
+
+    expect(matched.map(t => [t.dart_id, t.depth])).toEqual([['task', 2], ['story', 1]]);
+  });
+
+  it('should terminate on cyclic parent links', async () => {
+    const descendants = await run("DESCENDANT OF 'loop1'");
+    expect(descendants.matched.map(t => t.dart_id)).toEqual(['loop2']);
+
+    // A looping parent chain has no depth
+    const deep = await run('depth >= 0', ['loop1', 'task']);
+    expect(deep.matched.map(t => t.dart_id)).toEqual(['task']);
+  });
+
+  it('should resolve depths for tasks outside a query', async () => {
+    const { fetchTasks, requested } = fetcher();
+    const resolved = await resolveTaskDepths([listed('task'), listed('bug'), listed('other')], fetchTasks);
+
+    expect(resolved.map(t => t.depth)).toEqual([2, 2, 0]);
+    expect(requested).toEqual([['story'], ['epic']]);
+  });
+});
+
+describe('DartQL Parameters and Session Variables', () => {
+  it('should bind parameters as literal tokens spanning the placeholder', () => {
+    const tokens = new DartQLTokenizer("title = :title AND priority >= :p", { params: { title: "it's", p: 3 } }).tokenize();
+
+    expect(tokens[2]).toEqual({ type: TokenType.STRING, value: "it's", position: 8, length: 6 });
+    expect(tokens[6]).toMatchObject({ type: TokenType.NUMBER, value: '3' });
+  });
+
+  it('should never parse bound values as DartQL', () => {
+    const params = { title: "x' OR title LIKE '%" };
+    const result = parseDartQLToAST('title = :title', { params });
+
+    expect(result.errors).toEqual([]);
+    expect(result.ast).toEqual({ type: 'comparison', field: 'title', operator: '=', value: params.title });
+  });
+
+  it('should expand arrays into IN lists and bind booleans', () => {
+    const result = parseDartQLToAST('dart_id IN :ids AND is_overdue = :late', { params: { ids: ['a', 'b'], late: true } });
+
+    expect(result.errors).toEqual([]);
+    expect(result.ast).toMatchObject({
+      left: { field: 'dart_id', operator: 'IN', value: ['a', 'b'] },
+      right: { field: 'is_overdue', operator: '=', value: true },
+    });
+  });
+
+  it('should reject missing parameters and values of the wrong type', () => {
+    expect(parseDartQLToAST("status = :stat", { params: { status: 'Todo' } }).diagnostics![0]).toMatchObject({
+      message: "No value for parameter ':stat' in params (did you mean ':status'?)",
+      start: 9,
+      end: 14,
+    });
+    expect(parseDartQLToAST('dart_id IN :ids', { params: { ids: [] } }).errors[0]).toContain(
+      "Parameter ':ids' must be a string, number, boolean or non-empty array"
+    );
+    expect(parseDartQLToAST('title = :t', { params: { t: { $ne: null } } }).errors[0]).toContain('got {"$ne":null}');
+  });
+
+  it('should bind me to the current user', () => {
+    const result = parseDartQLToAST('assignee = me OR assignee IN (ME, :other)', {
+      me: 'alice@example.com',
+      params: { other: 'bob@example.com' },
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.ast).toMatchObject({
+      left: { value: 'alice@example.com' },
+      right: { value: ['alice@example.com', 'bob@example.com'] },
+    });
+    expect(parseDartQLToAST('assignee = me').errors[0]).toContain("'me' needs the current user");
+  });
+
+  it('should create bindings from the workspace user and validate params', () => {
+    expect(createBindings({ user: { name: 'Alice', email: 'alice@example.com' } }, { x: 1 })).toEqual({
+      me: 'alice@example.com',
+      params: { x: 1 },
+    });
+    expect(createBindings({ user: { name: 'Alice' } }).me).toBe('Alice');
+    expect(() => createBindings({}, ['x'])).toThrow('params must be an object');
+  });
+});
+
+describe('DartQL Text Matching Operators', () => {
+  const filterFor = (query: string) => {
+    const parsed = parseDartQLToAST(query);
+    expect(parsed.errors).toEqual([]);
+    return convertToFilters(parsed.ast).clientFilter!;
+  };
+
+  it('should tokenize regex literals with slashes in classes and escapes', () => {
+    const tokens = new DartQLTokenizer('title MATCHES /^[a/b]\\/x/i AND title ILIKE \'x\'').tokenize();
+
+    expect(tokens[2]).toEqual({ type: TokenType.REGEX, value: '/^[a/b]\\/x/i', position: 14, length: 12 });
+    expect(tokens[5].type).toBe(TokenType.ILIKE);
+    expect(parseDartQLToAST('title MATCHES /abc').errors[0]).toContain('Unterminated regular expression');
+  });
+
+  it('should parse the new operators', () => {
+    const ast = parseDartQLToAST(
+      "title MATCHES /^\\[JIRA-\\d+\\]/ AND title NOT ILIKE 'wip%' AND title STARTS WITH 'Fix' AND description CONTAINS WORD 'auth'"
+    ).ast;
+
+    expect(ast).toMatchObject({
+      left: {
+        left: {
+          left: { operator: 'MATCHES', value: { kind: 'regex', source: '^\\[JIRA-\\d+\\]', flags: '' } },
+          right: { operator: 'NOT ILIKE', value: 'wip%' },
+        },
+        right: { operator: 'STARTS WITH', value: 'Fix' },
+      },
+      right: { field: 'description', operator: 'CONTAINS WORD', value: 'auth' },
+    });
+  });
+
+  it('should reject unsafe or invalid regular expressions', () => {
+    expect(parseDartQLToAST('title MATCHES /(a+)+$/').errors[0]).toContain('nested quantifiers');
+    expect(parseDartQLToAST('title MATCHES /x/g').errors[0]).toContain("unsupported flag 'g'");
+    expect(parseDartQLToAST("title MATCHES 'x'").errors).toEqual([]);
+    expect(parseDartQLToAST('title MATCHES 3').errors[0]).toContain('Expected regular expression after MATCHES');
+    expect(parseDartQLToAST("title STARTS 'x'").errors[0]).toContain('Expected WITH after STARTS');
+  });
+
+  it('should match imported task prefixes with MATCHES', () => {
+    const filter = filterFor('title MATCHES /^\\[JIRA-\\d+\\]/');
+
+    expect(filter({ title: '[JIRA-123] Login fails' })).toBe(true);
+    expect(filter({ title: 'See [JIRA-123]' })).toBe(false);
+    expect(filter({ title: undefined })).toBe(false);
+    expect(filterFor('title MATCHES /^fix/i')({ title: 'FIX it' })).toBe(true);
+  });
+
+  it('should evaluate ILIKE, NOT LIKE, STARTS WITH, ENDS WITH and CONTAINS WORD', () => {
+    expect(filterFor("title ILIKE 'fix%'")({ title: 'FIX login' })).toBe(true);
+    expect(filterFor("title NOT LIKE '%wip%'")({ title: 'WIP: auth' })).toBe(false);
+    expect(filterFor("title NOT LIKE '%wip%'")({ title: 'Done' })).toBe(true);
+    expect(filterFor("title STARTS WITH 'wip'")({ title: 'WIP: auth' })).toBe(true);
+    expect(filterFor("title ENDS WITH '?'")({ title: 'Why?' })).toBe(true);
+    expect(filterFor("title CONTAINS WORD 'auth'")({ title: 'Fix auth flow' })).toBe(true);
+    expect(filterFor("title CONTAINS WORD 'auth'")({ title: 'Fix author list' })).toBe(false);
+  });
+
+  it('should apply NOT LIKE to every element of array fields', () => {
+    const filter = filterFor("tags NOT LIKE 'front%'");
+
+    expect(filter({ tags: ['backend', 'bug'] })).toBe(true);
+    expect(filter({ tags: ['frontend', 'bug'] })).toBe(false);
+    expect(filterFor("tags STARTS WITH 'front'")({ tags: ['bug', 'Frontend'] })).toBe(true);
+  });
+
+  it('should keep text matching client-side with a reason', () => {
+    const result = convertToFilters(parseDartQLToAST("status = 'Todo' AND status MATCHES /^do/i").ast);
+
+    expect(result.apiFilters).toEqual({ status: 'Todo' });
+    expect(result.plan?.reasons).toContain('MATCHES operator requires client-side filtering');
+  });
+});
+
+describe('DartQL Set Operations', () => {
+  it('should bind INTERSECT tighter than UNION and EXCEPT, left to right', () => {
+    const parsed = parseDartQLToAST(
+      "status = 'Todo' UNION tags CONTAINS 'bug' INTERSECT priority = 'high' EXCEPT assignee = 'bob' ORDER BY title LIMIT 5"
+    );
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.ast).toMatchObject({
+      type: 'set',
+      operator: 'EXCEPT',
+      left: {
+        type: 'set',
+        operator: 'UNION',
+        left: { field: 'status' },
+        right: { type: 'set', operator: 'INTERSECT', left: { field: 'tags' }, right: { field: 'priority' } },
+      },
+      right: { field: 'assignee' },
+    });
+    expect(parsed.orderBy).toEqual([{ field: 'title', direction: 'ASC' }]);
+    expect(parsed.limit).toBe(5);
+  });
+
+  it('should require a selector after a set operator', () => {
+    expect(parseDartQLToAST("status = 'Todo' UNION").errors[0]).toContain('Expected');
+    expect(parseDartQLToAST("(status = 'Todo' UNION priority = 'high')").errors.length).toBeGreaterThan(0);
+  });
+
+  it('should plan each side with its own pushdown', () => {
+    const result = convertToFilters(
+      parseDartQLToAST("status IN ('Todo', 'Doing') EXCEPT dartboard = 'Archive' AND title LIKE '%old%'").ast,
+      { orderBy: [{ field: 'title', direction: 'ASC' }], limit: 10 }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.requiresClientSide).toBe(true);
+    expect(result.apiFilters).toEqual({});
+    expect(result.clientFilter).toBeUndefined();
+    expect(result.limit).toBe(10);
+
+    const { operator, left, right } = result.setOperation!;
+    expect(operator).toBe('EXCEPT');
+    expect(left.apiFilterSets).toEqual([{ status: 'Todo' }, { status: 'Doing' }]);
+    expect(left.clientFilter).toBeUndefined();
+    expect(left.orderBy).toBeUndefined();
+    expect(right.apiFilters).toEqual({ dartboard: 'Archive' });
+    expect(right.clientFilter!({ title: 'Old backlog' })).toBe(true);
+    expect(right.limit).toBeUndefined();
+  });
+
+  it('should resolve relative dates on both sides', () => {
+    const result = convertToFilters(
+      parseDartQLToAST('due_at < today() UNION due_at IN next_week').ast,
+      { dateContext: createDateContext({ today: '2026-01-18', now: Date.UTC(2026, 0, 18, 15, 30), timezone: 'UTC' }) }
+    );
+
+    expect(result.setOperation!.left.apiFilters).toEqual({ due_before: '2026-01-18T00:00:00.000Z' });
+    expect(result.plan?.resolved).toMatchObject({
+      type: 'set',
+      operator: 'UNION',
+      left: { value: '2026-01-18T00:00:00.000Z' },
+    });
+  });
+});
+
+describe('DartQL Aggregates', () => {
+  it('should parse aggregate columns, GROUP BY and HAVING', () => {
+    const parsed = parseDartQLStatement(
+      "SELECT status, count(*), AVG(age_days) WHERE dartboard = 'Eng' GROUP BY status HAVING COUNT(*) > 5 ORDER BY avg(age_days) DESC LIMIT 3"
+    );
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.statement.select).toEqual([
+      { name: 'status', start: 7, end: 13 },
+      { name: 'COUNT(*)', start: 15, end: 23, aggregate: { function: 'COUNT', field: null } },
+      { name: 'AVG(age_days)', start: 25, end: 38, aggregate: { function: 'AVG', field: 'age_days' } },
+    ]);
+    expect(parsed.statement.whereClause).toBe("dartboard = 'Eng'");
+    expect(parsed.statement.groupBy).toEqual(['status']);
+    expect(parsed.statement.having).toEqual({ type: 'comparison', field: 'COUNT(*)', operator: '>', value: 5 });
+    expect(parsed.statement.orderBy).toEqual([{ field: 'AVG(age_days)', direction: 'DESC' }]);
+    expect(parsed.statement.limit).toBe(3);
+  });
+
+  it('should validate aggregate arguments and GROUP BY fields', () => {
+    expect(parseDartQLStatement('SELECT SUM(stauts)').diagnostics[0]).toMatchObject({
+      message: "Unknown field: 'stauts'",
+      suggestions: ['status'],
+    });
+    expect(parseDartQLStatement('SELECT COUNT(*) GROUP BY prioirty').errors[0]).toContain("Did you mean 'priority'?");
+    expect(parseDartQLStatement('SELECT SUM(*)').errors[0]).toContain('Only COUNT accepts *');
+  });
+
+  it('should reject aggregates outside aggregate queries', () => {
+    expect(parseDartQLToAST('COUNT(*) > 5').errors[0]).toContain('COUNT() is only allowed in SELECT, HAVING and ORDER BY');
+    expect(parseDartQLStatement("SELECT status, COUNT(*) WHERE COUNT(*) > 1").errors[0]).toContain('only allowed');
+    expect(parseDartQLStatement("SELECT id WHERE status = 'Todo' HAVING COUNT(*) > 1").errors[0])
+      .toBe('HAVING needs GROUP BY or an aggregate in SELECT at position 32');
+  });
+});
@@ -4,10 +4,57 @@
  * Parses SQL-like WHERE clause syntax for filtering Dart tasks.
  * Supports: WHERE status = 'Todo' AND priority >= 3
  *
+ * Full statements add columns and output options around the expression:
+ * SELECT id, title WHERE status = 'Todo' ORDER BY due_at LIMIT 10 FORMAT compact
+ *
  * Phase: Tokenization & Lexical Analysis only (AST building is separate)
  */
 
-import { DartQLParseError } from '../types/index.js';
+import { DartQLParseError, ValidationError } from '../types/index.js';
+import type {
+  DartQLAggregateCall,
+  DartQLAggregateFunction,
+  DartQLBindings,
+  DartQLDateFunction,
+  DartQLDateRange,
+  DartQLDiagnostic,
+  DartQLDurationUnit,
+  DartQLHierarchyOperator,
+  DartQLQuantifier,
+  DartQLRegex,
+  DartQLRelationship,
+  DartQLSelectItem,
+  DartQLStatement,
+  DartQLStatementParseResult,
+} from '../types/index.js';
+import {
+  DATE_FUNCTIONS,
+  DATE_RANGES,
+  createDateContext,
+  resolveDateFunction,
+  resolveDateRange,
+  type DateContext,
+} from './relativeDates.js';
+import { VIRTUAL_FIELDS, isVirtualField, isRelatedVirtualField, computeVirtualField } from './virtualFields.js';
+import {
+  CUSTOM_PROPERTY_PREFIX,
+  isCustomPropertyField,
+  customPropertyName,
+  customPropertyField,
+  findCustomProperty,
+  findCustomPropertyOption,
+  readCustomProperty,
+} from './customProperties.js';
+import { findClosestMatches } from './csv.js';
+import {
+  checkRegexSafety,
+  compileRegex,
+  containsWord,
+  endsWithText,
+  isRegexValue,
+  likeToRegExp,
+  startsWithText,
+} from './textMatching.js';
 
 // ============================================================================
 // Token Types
@@ -18,6 +65,12 @@ export enum TokenType {
   IDENTIFIER = 'IDENTIFIER',       // field names: status, priority, title
   STRING = 'STRING',               // 'Todo', "In Progress"
   NUMBER = 'NUMBER',               // 42, 3.14
+  BOOLEAN = 'BOOLEAN',             // true, false
+  DURATION = 'DURATION',           // 7d, 2w, 3h, 1mo
+  DATE_FUNCTION = 'DATE_FUNCTION', // today, now, start_of_week (before '(')
+  AGGREGATE = 'AGGREGATE',         // count, sum, avg, min, max (before '(')
+  DATE_RANGE = 'DATE_RANGE',       // this_week, last_month (after IN)
+  REGEX = 'REGEX',                 // /^\[JIRA-\d+\]/i (after MATCHES)
 
   // Operators
   EQUALS = 'EQUALS',               // =
@@ -26,19 +79,56 @@ export enum TokenType {
   GREATER_EQUAL = 'GREATER_EQUAL', // >=
   LESS_THAN = 'LESS_THAN',         // <
   LESS_EQUAL = 'LESS_EQUAL',       // <=
+  PLUS = 'PLUS',                   // +
+  MINUS = 'MINUS',                 // -
 
   // Logical operators
   AND = 'AND',
   OR = 'OR',
   NOT = 'NOT',
 
+  // Set operators (between whole selectors)
+  UNION = 'UNION',
+  INTERSECT = 'INTERSECT',
+  EXCEPT = 'EXCEPT',
+
   // Keywords
   IN = 'IN',
   LIKE = 'LIKE',
+  ILIKE = 'ILIKE',
   CONTAINS = 'CONTAINS',
+  WORD = 'WORD',                   // CONTAINS WORD 'auth'
+  STARTS = 'STARTS',               // STARTS WITH 'wip'
+  ENDS = 'ENDS',                   // ENDS WITH '?'
+  WITH = 'WITH',
+  MATCHES = 'MATCHES',             // MATCHES /pattern/flags
   IS = 'IS',
   NULL = 'NULL',
   BETWEEN = 'BETWEEN',
+  ANY = 'ANY',                     // ANY blockers (...)
+  ALL = 'ALL',                     // ALL subtasks (...)
+  DESCENDANT = 'DESCENDANT',       // DESCENDANT OF 'duid_x'
+  ANCESTOR = 'ANCESTOR',           // ANCESTOR OF 'duid_x'
+  CHILD = 'CHILD',                 // CHILD OF 'duid_x'
+  OF = 'OF',
+
+  // Result clauses
+  ORDER = 'ORDER',
+  BY = 'BY',
+  ASC = 'ASC',
+  DESC = 'DESC',
+  LIMIT = 'LIMIT',
+  OFFSET = 'OFFSET',
+
+  // Statement clauses
+  SELECT = 'SELECT',
+  WHERE = 'WHERE',
+  FORMAT = 'FORMAT',               // FORMAT compact, format=compact
+  EXPAND = 'EXPAND',               // EXPAND blockers, subtasks
+  GROUP = 'GROUP',                 // GROUP BY status
+  HAVING = 'HAVING',               // HAVING COUNT(*) > 5
+  STAR = 'STAR',                   // SELECT *
+  HASH = 'HASH',                   // SELECT #blockers
 
   // Grouping
   LPAREN = 'LPAREN',               // (
@@ -84,23 +174,106 @@ export const VALID_FIELDS = [
   'blocking_ids',
   'duplicate_ids',
   'related_ids',
+  // Hierarchy field (levels below the top of the subtask tree, found by
+  // walking parent_task client-side)
+  'depth',
+  // Virtual fields (computed from the task, always evaluated client-side)
+  ...VIRTUAL_FIELDS,
 ] as const;
 
 export type ValidField = typeof VALID_FIELDS[number];
 
+/**
+ * Alternate field names accepted in queries, mapped to their canonical field
+ * (singular names query array fields: tag = 'bug' matches any tag)
+ */
+export const FIELD_ALIASES: Record<string, ValidField> = {
+  tag: 'tags',
+  assignees: 'assignee',
+  subtask: 'subtask_ids',
+  blocker: 'blocker_ids',
+  blocking: 'blocking_ids',
+  duplicate: 'duplicate_ids',
+  related: 'related_ids',
+};
+
+/**
+ * Lowercase a field name and resolve aliases to the canonical field
+ * (custom properties keep their name: prop."Story Points" → prop.Story Points)
+ */
+export function normalizeFieldName(name: string): string {
+  if (isCustomPropertyField(name)) return customPropertyField(customPropertyName(name));
+  const lower = name.toLowerCase();
+  return FIELD_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Task field holding the related task IDs for each relationship
+ */
+export const RELATIONSHIP_FIELDS: Record<DartQLRelationship, string> = {
+  subtasks: 'subtask_ids',
+  blockers: 'blocker_ids',
+  blocking: 'blocking_ids',
+  duplicates: 'duplicate_ids',
+  related: 'related_ids',
+  parent: 'parent_task',
+};
+
+/** Singular relationship names accepted in queries */
+const RELATIONSHIP_ALIASES: Record<string, DartQLRelationship> = {
+  subtask: 'subtasks',
+  blocker: 'blockers',
+  duplicate: 'duplicates',
+};
+
+/**
+ * Resolve a relationship name (ANY blocker → blockers), or null if unknown
+ */
+export function normalizeRelationship(name: string): DartQLRelationship | null {
+  const lower = name.toLowerCase();
+  if (lower in RELATIONSHIP_FIELDS) return lower as DartQLRelationship;
+  return RELATIONSHIP_ALIASES[lower] ?? null;
+}
+
+/** Aggregate functions of aggregate queries (SELECT status, COUNT(*) ...) */
+export const AGGREGATE_FUNCTIONS: readonly DartQLAggregateFunction[] = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'];
+
+/**
+ * Column label of an aggregate call: COUNT(*), SUM(age_days)
+ */
+export function aggregateLabel(call: DartQLAggregateCall): string {
+  return `${call.function}(${call.field ?? '*'})`;
+}
+
 // ============================================================================
 // Tokenizer
 // ============================================================================
 
+/** Session variable for the current user (assignee = me) */
+const ME = 'me';
+
+export interface DartQLTokenizerOptions {
+  /**
+   * Read what cannot be tokenized (an unterminated string, an unknown
+   * character, an unbound parameter) as an UNKNOWN token instead of throwing,
+   * for completing partial input
+   */
+  lenient?: boolean;
+}
+
 export class DartQLTokenizer {
   private input: string;
   private position: number;
   private tokens: Token[];
+  private bindings: DartQLBindings;
+  private lenient: boolean;
 
-  constructor(input: string) {
+  constructor(input: string, bindings: DartQLBindings = {}, options: DartQLTokenizerOptions = {}) {
     this.input = input.trim();
     this.position = 0;
     this.tokens = [];
+    this.bindings = bindings;
+    this.lenient = options.lenient ?? false;
   }
 
   /**
@@ -117,7 +290,7 @@ export class DartQLTokenizer {
         break;
       }
 
-      const token = this.nextToken();
+      const token = this.lenient ? this.nextTokenOrUnknown() : this.nextToken();
       if (token) {
         this.tokens.push(token);
       }
@@ -134,6 +307,23 @@ export class DartQLTokenizer {
     return this.tokens;
   }
 
+  /**
+   * Lenient mode: read the next token, or the unreadable text as UNKNOWN
+   * ('In Prog for an unterminated string, at least one character)
+   */
+  private nextTokenOrUnknown(): Token | null {
+    const start = this.position;
+    try {
+      return this.nextToken();
+    } catch (error) {
+      if (!(error instanceof DartQLParseError)) throw error;
+
+      this.position = Math.max(this.position, start + 1);
+      const value = this.input.slice(start, this.position);
+      return { type: TokenType.UNKNOWN, value, position: start, length: value.length };
+    }
+  }
+
   /**
    * Skip whitespace characters
    */
@@ -190,6 +380,16 @@ export class DartQLTokenizer {
       return this.readOperator();
     }
 
+    // Date arithmetic
+    if (char === '+') {
+      this.consume();
+      return { type: TokenType.PLUS, value: '+', position: start, length: 1 };
+    }
+    if (char === '-') {
+      this.consume();
+      return { type: TokenType.MINUS, value: '-', position: start, length: 1 };
+    }
+
     // Parentheses
     if (char === '(') {
       this.consume();
@@ -206,6 +406,27 @@ export class DartQLTokenizer {
       return { type: TokenType.COMMA, value: ',', position: start, length: 1 };
     }
 
+    // SELECT list modifiers
+    if (char === '*') {
+      this.consume();
+      return { type: TokenType.STAR, value: '*', position: start, length: 1 };
+    }
+    if (char === '#') {
+      this.consume();
+      return { type: TokenType.HASH, value: '#', position: start, length: 1 };
+    }
+
+    // Regular expression literals
+    if (char === '/') {
+      return this.readRegex();
+    }
+
+    // Parameters (:name) emit their bound value's tokens directly
+    if (char === ':') {
+      this.readParameter();
+      return null;
+    }
+
     // Identifiers and keywords
     if (/[a-zA-Z_]/.test(char)) {
       return this.readIdentifierOrKeyword();
@@ -265,6 +486,43 @@ export class DartQLTokenizer {
     };
   }
 
+  /**
+   * Read a regular expression literal (/pattern/flags) into a REGEX token
+   * holding the literal as written; '/' inside [...] or escaped does not end it
+   */
+  private readRegex(): Token {
+    const start = this.position;
+    this.consume(); // Opening slash
+    let inClass = false;
+
+    while (!this.isAtEnd() && (inClass || this.peek() !== '/') && this.peek() !== '\n') {
+      const char = this.consume();
+      if (char === '\\') {
+        this.consume();
+      } else if (char === '[') {
+        inClass = true;
+      } else if (char === ']') {
+        inClass = false;
+      }
+    }
+
+    if (this.peek() !== '/') {
+      throw new DartQLParseError(
+        `Unterminated regular expression starting at position ${start}`,
+        start,
+        '/'
+      );
+    }
+
+    this.consume(); // Closing slash
+    while (!this.isAtEnd() && /[a-zA-Z]/.test(this.peek())) {
+      this.consume();
+    }
+
+    const value = this.input.slice(start, this.position);
+    return { type: TokenType.REGEX, value, position: start, length: value.length };
+  }
+
   /**
    * Read a numeric literal
    */
@@ -285,6 +543,18 @@ export class DartQLTokenizer {
       }
     }
 
+    // Integer immediately followed by a unit is a duration (7d, 2w, 1mo)
+    const unitMatch = value.includes('.') ? null : this.input.slice(this.position).match(/^(mo|h|d|w)(?![a-zA-Z0-9_])/i);
+    if (unitMatch) {
+      this.position += unitMatch[1].length;
+      return {
+        type: TokenType.DURATION,
+        value: value + unitMatch[1].toLowerCase(),
+        position: start,
+        length: this.position - start,
+      };
+    }
+
     const length = this.position - start;
 
     return {
@@ -347,6 +617,11 @@ export class DartQLTokenizer {
       value += this.consume();
     }
 
+    // Custom property field: prop.Team or prop."Story Points"
+    if (value.toLowerCase() + '.' === CUSTOM_PROPERTY_PREFIX && this.peek() === '.') {
+      return this.readCustomPropertyField(start, value);
+    }
+
     const length = this.position - start;
     const upperValue = value.toUpperCase();
 
@@ -355,15 +630,61 @@ export class DartQLTokenizer {
       'AND': TokenType.AND,
       'OR': TokenType.OR,
       'NOT': TokenType.NOT,
+      'UNION': TokenType.UNION,
+      'INTERSECT': TokenType.INTERSECT,
+      'EXCEPT': TokenType.EXCEPT,
       'IN': TokenType.IN,
       'LIKE': TokenType.LIKE,
+      'ILIKE': TokenType.ILIKE,
       'CONTAINS': TokenType.CONTAINS,
+      'WORD': TokenType.WORD,
+      'STARTS': TokenType.STARTS,
+      'ENDS': TokenType.ENDS,
+      'WITH': TokenType.WITH,
+      'MATCHES': TokenType.MATCHES,
       'IS': TokenType.IS,
       'NULL': TokenType.NULL,
+      'TRUE': TokenType.BOOLEAN,
+      'FALSE': TokenType.BOOLEAN,
       'BETWEEN': TokenType.BETWEEN,
+      'ANY': TokenType.ANY,
+      'ALL': TokenType.ALL,
+      'DESCENDANT': TokenType.DESCENDANT,
+      'ANCESTOR': TokenType.ANCESTOR,
+      'CHILD': TokenType.CHILD,
+      'OF': TokenType.OF,
+      'ORDER': TokenType.ORDER,
+      'BY': TokenType.BY,
+      'ASC': TokenType.ASC,
+      'DESC': TokenType.DESC,
+      'LIMIT': TokenType.LIMIT,
+      'OFFSET': TokenType.OFFSET,
+      'SELECT': TokenType.SELECT,
+      'WHERE': TokenType.WHERE,
+      'FORMAT': TokenType.FORMAT,
+      'EXPAND': TokenType.EXPAND,
+      'GROUP': TokenType.GROUP,
+      'HAVING': TokenType.HAVING,
     };
 
-    const type = keywordMap[upperValue] || TokenType.IDENTIFIER;
+    let type = keywordMap[upperValue] || TokenType.IDENTIFIER;
+
+    // Date and aggregate functions are recognized by a following '(', ranges
+    // by name
+    if (type === TokenType.IDENTIFIER) {
+      const lowerValue = value.toLowerCase();
+      const followedByParen = /^\s*\(/.test(this.input.slice(this.position));
+
+      if (followedByParen && (DATE_FUNCTIONS as readonly string[]).includes(lowerValue)) {
+        type = TokenType.DATE_FUNCTION;
+      } else if (followedByParen && (AGGREGATE_FUNCTIONS as readonly string[]).includes(upperValue)) {
+        type = TokenType.AGGREGATE;
+      } else if (!followedByParen && (DATE_RANGES as readonly string[]).includes(lowerValue)) {
+        type = TokenType.DATE_RANGE;
+      } else if (lowerValue === ME) {
+        return this.bindMe(start, value);
+      }
+    }
 
     return {
       type,
@@ -372,26 +693,155 @@ export class DartQLTokenizer {
       length,
     };
   }
+
+  /**
+   * Replace `me` with a string token for the current user
+   */
+  private bindMe(start: number, value: string): Token {
+    if (this.bindings.me === undefined) {
+      throw new DartQLParseError(
+        `'${value}' needs the current user, but the workspace config has no user`,
+        start,
+        value
+      );
+    }
+
+    return { type: TokenType.STRING, value: this.bindings.me, position: start, length: value.length };
+  }
+
+  /**
+   * Read a :name placeholder and push its bound value as literal tokens
+   *
+   * Strings, numbers and booleans become one STRING/NUMBER/BOOLEAN token;
+   * arrays become a parenthesized list for IN. Every token spans the
+   * placeholder, so diagnostics point at it.
+   */
+  private readParameter(): void {
+    const start = this.position;
+    this.consume(); // consume ':'
+
+    const name = this.input.slice(this.position).match(/^[a-zA-Z_][a-zA-Z0-9_]*/)?.[0];
+    if (!name) {
+      throw new DartQLParseError(`Expected parameter name after ':' (e.g., :status)`, start, ':');
+    }
+    this.position += name.length;
+
+    const placeholder = `:${name}`;
+    const length = this.position - start;
+    const params = this.bindings.params ?? {};
+
+    if (!Object.prototype.hasOwnProperty.call(params, name)) {
+      const similar = findClosestMatches(name, Object.keys(params));
+      throw new DartQLParseError(
+        `No value for parameter '${placeholder}' in params` +
+        (similar.length > 0 ? ` (did you mean ':${similar[0]}'?)` : ''),
+        start,
+        placeholder
+      );
+    }
+
+    const value = params[name];
+    const token = (type: TokenType, text: string): Token => ({ type, value: text, position: start, length });
+    const literal = (item: unknown): Token | null => {
+      if (typeof item === 'string') return token(TokenType.STRING, item);
+      if (typeof item === 'number' && Number.isFinite(item)) return token(TokenType.NUMBER, String(item));
+      return null;
+    };
+
+    if (typeof value === 'boolean') {
+      this.tokens.push(token(TokenType.BOOLEAN, String(value)));
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      const items = value.map(literal);
+      if (items.length > 0 && items.every(item => item !== null)) {
+        this.tokens.push(token(TokenType.LPAREN, '('));
+        items.forEach((item, i) => {
+          if (i > 0) this.tokens.push(token(TokenType.COMMA, ','));
+          this.tokens.push(item!);
+        });
+        this.tokens.push(token(TokenType.RPAREN, ')'));
+        return;
+      }
+    } else {
+      const item = literal(value);
+      if (item) {
+        this.tokens.push(item);
+        return;
+      }
+    }
+
+    throw new DartQLParseError(
+      `Parameter '${placeholder}' must be a string, number, boolean or non-empty array of strings and numbers, got ${JSON.stringify(value) ?? typeof value}`,
+      start,
+      placeholder
+    );
+  }
+
+  /**
+   * Read the name after 'prop.' (bare identifier or quoted string) into a
+   * single IDENTIFIER token
+   */
+  private readCustomPropertyField(start: number, prefix: string): Token {
+    this.consume(); // consume '.'
+
+    let name = '';
+    if (this.peek() === '"' || this.peek() === "'") {
+      name = this.readString().value;
+    } else {
+      while (!this.isAtEnd() && /[a-zA-Z0-9_]/.test(this.peek())) {
+        name += this.consume();
+      }
+    }
+
+    if (name.trim() === '') {
+      throw new DartQLParseError(
+        `Expected custom property name after '${prefix}.' (e.g., prop.Team or prop."Story Points")`,
+        start,
+        prefix
+      );
+    }
+
+    return {
+      type: TokenType.IDENTIFIER,
+      value: customPropertyField(name),
+      position: start,
+      length: this.position - start,
+    };
+  }
 }
 
 // ============================================================================
 // Lexer (Token Stream with Validation)
 // ============================================================================
 
+/** Keywords that start a statement clause */
+const STATEMENT_CLAUSES = [
+  TokenType.SELECT, TokenType.WHERE, TokenType.GROUP, TokenType.HAVING, TokenType.ORDER,
+  TokenType.LIMIT, TokenType.OFFSET, TokenType.FORMAT, TokenType.EXPAND,
+];
+
+/** Clauses listing columns or output options rather than task fields */
+const OUTPUT_CLAUSES = [TokenType.SELECT, TokenType.FORMAT, TokenType.EXPAND];
+
 export interface LexerResult {
   tokens: Token[];
   errors: string[];
+  diagnostics: DartQLDiagnostic[];
   fields: string[];
 }
 
 export class DartQLLexer {
   private tokens: Token[];
   private errors: string[];
+  private diagnostics: DartQLDiagnostic[];
   private fields: Set<string>;
 
   constructor(tokens: Token[]) {
     this.tokens = tokens;
     this.errors = [];
+    this.diagnostics = [];
     this.fields = new Set();
   }
 
@@ -400,14 +850,34 @@ export class DartQLLexer {
    */
   analyze(): LexerResult {
     this.errors = [];
+    this.diagnostics = [];
     this.fields = new Set();
 
+    // SELECT columns, formats and expansions are not task fields; the
+    // statement's caller validates them
+    let inFilter = true;
+
     for (let i = 0; i < this.tokens.length; i++) {
       const token = this.tokens[i];
 
-      // Validate identifiers as field names
-      if (token.type === TokenType.IDENTIFIER) {
+      if (STATEMENT_CLAUSES.includes(token.type)) {
+        inFilter = !OUTPUT_CLAUSES.includes(token.type);
+      }
+
+      // Validate identifiers as field names, or as relationship names in
+      // ANY blockers (...) and parent (...); aggregate arguments are fields
+      // in every clause (SELECT SUM(age_days))
+      const isAggregateArgument = this.tokens[i - 2]?.type === TokenType.AGGREGATE;
+      if (token.type === TokenType.IDENTIFIER && isAggregateArgument) {
         this.validateFieldName(token);
+      } else if (token.type === TokenType.IDENTIFIER && inFilter) {
+        const previous = this.tokens[i - 1];
+        const next = this.tokens[i + 1];
+        if (previous && (previous.type === TokenType.ANY || previous.type === TokenType.ALL)) {
+          this.validateRelationship(token);
+        } else if (!(next?.type === TokenType.LPAREN && normalizeRelationship(token.value))) {
+          this.validateFieldName(token);
+        }
       }
 
       // Validate operator sequences (e.g., NOT followed by IN)
@@ -427,7 +897,9 @@ export class DartQLLexer {
       if (token.type === TokenType.IS) {
         const next = this.tokens[i + 1];
         if (!next || (next.type !== TokenType.NULL && next.type !== TokenType.NOT)) {
-          this.errors.push(`IS keyword must be followed by NULL or NOT NULL at position ${token.position}`);
+          const message = 'IS keyword must be followed by NULL or NOT NULL';
+          this.errors.push(`${message} at position ${token.position}`);
+          this.diagnostics.push(tokenDiagnostic(message, token, ['IS NULL', 'IS NOT NULL']));
         }
       }
     }
@@ -435,6 +907,7 @@ export class DartQLLexer {
     return {
       tokens: this.tokens,
       errors: this.errors,
+      diagnostics: this.diagnostics,
       fields: Array.from(this.fields),
     };
   }
@@ -443,93 +916,82 @@ export class DartQLLexer {
    * Validate field name and suggest corrections for typos
    */
   private validateFieldName(token: Token): void {
-    const fieldName = token.value.toLowerCase();
+    const fieldName = normalizeFieldName(token.value);
     this.fields.add(fieldName);
 
-    // Check if field name is valid
-    if (!VALID_FIELDS.includes(fieldName as ValidField)) {
-      const suggestion = this.findClosestField(fieldName);
-      if (suggestion) {
-        this.errors.push(
-          `Unknown field: '${token.value}'. Did you mean '${suggestion}'? (at position ${token.position})`
-        );
-      } else {
-        this.errors.push(
-          `Unknown field: '${token.value}'. Valid fields: ${VALID_FIELDS.join(', ')} (at position ${token.position})`
-        );
-      }
+    // Check if field name is valid (custom properties are checked against
+    // the workspace config in convertToFilters)
+    if (!VALID_FIELDS.includes(fieldName as ValidField) && !isCustomPropertyField(fieldName)) {
+      const suggestions = findClosestMatches(fieldName, [...VALID_FIELDS]);
+      const message = suggestions.length > 0
+        ? `Unknown field: '${token.value}'. Did you mean '${suggestions[0]}'?`
+        : `Unknown field: '${token.value}'. Valid fields: ${VALID_FIELDS.join(', ')}`;
+      this.errors.push(`${message} (at position ${token.position})`);
+      this.diagnostics.push(tokenDiagnostic(`Unknown field: '${token.value}'`, token, suggestions));
     }
   }
 
   /**
-   * Find the closest valid field name using Levenshtein distance (fuzzy matching)
+   * Validate the relationship name after ANY / ALL
    */
-  private findClosestField(input: string): string | null {
-    const threshold = 2; // Maximum edit distance for suggestions
-    let closest: string | null = null;
-    let minDistance = Infinity;
-
-    for (const field of VALID_FIELDS) {
-      const distance = this.levenshteinDistance(input, field);
-      if (distance < minDistance && distance <= threshold) {
-        minDistance = distance;
-        closest = field;
-      }
-    }
-
-    return closest;
+  private validateRelationship(token: Token): void {
+    if (normalizeRelationship(token.value)) return;
+
+    const names = Object.keys(RELATIONSHIP_FIELDS);
+    const suggestions = findClosestMatches(token.value, names);
+    const message = suggestions.length > 0
+      ? `Unknown relationship: '${token.value}'. Did you mean '${suggestions[0]}'?`
+      : `Unknown relationship: '${token.value}'. Valid relationships: ${names.join(', ')}`;
+    this.errors.push(`${message} (at position ${token.position})`);
+    this.diagnostics.push(tokenDiagnostic(`Unknown relationship: '${token.value}'`, token, suggestions));
   }
+}
 
-  /**
-   * Calculate Levenshtein distance between two strings (edit distance)
-   */
-  private levenshteinDistance(a: string, b: string): number {
-    const matrix: number[][] = [];
-
-    // Initialize matrix
-    for (let i = 0; i <= b.length; i++) {
-      matrix[i] = [i];
-    }
-    for (let j = 0; j <= a.length; j++) {
-      matrix[0][j] = j;
-    }
-
-    // Fill matrix
-    for (let i = 1; i <= b.length; i++) {
-      for (let j = 1; j <= a.length; j++) {
-        if (b.charAt(i - 1) === a.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1, // substitution
-            matrix[i][j - 1] + 1,     // insertion
-            matrix[i - 1][j] + 1      // deletion
-          );
-        }
-      }
-    }
-
-    return matrix[b.length][a.length];
-  }
+/**
+ * Diagnostic spanning a token (at least one character, so EOF gets a caret)
+ */
+function tokenDiagnostic(message: string, token: Token, suggestions: string[] = []): DartQLDiagnostic {
+  return {
+    message,
+    start: token.position,
+    end: token.position + Math.max(1, token.length),
+    severity: 'error',
+    suggestions,
+  };
 }
 
 // ============================================================================
 // AST Parser (Recursive Descent)
 // ============================================================================
 
-import type { DartQLExpression, DartQLParseResult, DartQLOperator } from '../types/index.js';
+import type { DartQLExpression, DartQLParseResult, DartQLOperator, DartQLOrderBy } from '../types/index.js';
 
 export class DartQLParser {
   private tokens: Token[];
+  private source: string;
   private position: number;
   private errors: string[];
+  private diagnostics: DartQLDiagnostic[];
   private fields: Set<string>;
+  private orderBy: DartQLOrderBy[];
+  private limit?: number;
+  private offset?: number;
+  /** Whether aggregate calls may appear (HAVING and ORDER BY of aggregate queries) */
+  private allowAggregates: boolean;
 
-  constructor(tokens: Token[]) {
+  /**
+   * @param tokens - Tokens from DartQLTokenizer
+   * @param source - The tokenized (trimmed) input, for the WHERE clause text of statements
+   */
+  constructor(tokens: Token[], source: string = '') {
     this.tokens = tokens;
+    this.source = source;
     this.position = 0;
     this.errors = [];
+    this.diagnostics = [];
     this.fields = new Set();
+    this.orderBy = [];
+    this.allowAggregates = false;
   }
 
   /**
@@ -538,46 +1000,273 @@ export class DartQLParser {
   parse(): DartQLParseResult {
     this.position = 0;
     this.errors = [];
+    this.diagnostics = [];
     this.fields = new Set();
+    this.orderBy = [];
+    this.limit = undefined;
+    this.offset = undefined;
+    this.allowAggregates = false;
 
     // Handle empty input (only EOF token)
     if (this.tokens.length === 1 && this.tokens[0].type === TokenType.EOF) {
-      this.errors.push('Empty query - no expression to parse');
+      this.addError('Empty query - no expression to parse', this.tokens[0], [], false);
       return {
         ast: { type: 'group', expressions: [] },
         fields: [],
         errors: this.errors,
+        diagnostics: this.diagnostics,
       };
     }
 
     try {
-      const ast = this.parseExpression();
+      // A query may consist of result clauses only (e.g., "ORDER BY due_at LIMIT 10"),
+      // in which case the AST is an empty group
+      const ast: DartQLExpression = this.match(TokenType.ORDER, TokenType.LIMIT, TokenType.OFFSET)
+        ? { type: 'group', expressions: [] }
+        : this.parseSetExpression();
+
+      this.parseResultClauses();
 
       // Ensure we consumed all tokens (except EOF)
       if (this.current().type !== TokenType.EOF) {
-        this.addError(`Unexpected token: '${this.current().value}' at position ${this.current().position}`);
+        this.addError(`Unexpected token: '${this.current().value}'`);
       }
 
       return {
         ast,
         fields: Array.from(this.fields),
         errors: this.errors,
+        diagnostics: this.diagnostics,
+        ...this.resultClauses(),
       };
     } catch (error) {
+      // DartQLParseErrors were already recorded by addError before throwing
       if (error instanceof DartQLParseError) {
         this.errors.push(error.message);
       } else {
-        this.errors.push(`Parse error: ${error instanceof Error ? error.message : String(error)}`);
+        const message = `Parse error: ${error instanceof Error ? error.message : String(error)}`;
+        this.errors.push(message);
+        this.diagnostics.push(tokenDiagnostic(message, this.current()));
       }
 
       return {
         ast: { type: 'group', expressions: [] },
         fields: Array.from(this.fields),
         errors: this.errors,
+        diagnostics: this.diagnostics,
       };
     }
   }
 
+  /**
+   * Parse tokens into a statement:
+   * [SELECT columns] [WHERE] expression [GROUP BY fields] [HAVING expression]
+   * [ORDER BY ...] [LIMIT n] [OFFSET n] [FORMAT name] [EXPAND relationships]
+   *
+   * Without SELECT, WHERE is optional. Columns, formats and expansions are
+   * returned as written; the caller validates them. Aggregate calls
+   * (COUNT(*), SUM(field)) may appear in SELECT, and in HAVING and ORDER BY
+   * once SELECT has one or GROUP BY is present.
+   */
+  parseStatement(): DartQLStatementParseResult {
+    this.position = 0;
+    this.errors = [];
+    this.diagnostics = [];
+    this.fields = new Set();
+    this.orderBy = [];
+    this.limit = undefined;
+    this.offset = undefined;
+    this.allowAggregates = false;
+
+    const statement: DartQLStatement = {};
+
+    try {
+      if (this.match(TokenType.SELECT)) {
+        this.consume(); // consume SELECT
+        statement.select = this.parseNameList('SELECT', true);
+      }
+
+      const hasWhere = this.match(TokenType.WHERE);
+      if (hasWhere) {
+        this.consume(); // consume WHERE
+      }
+
+      const endsFilter = this.match(
+        TokenType.GROUP, TokenType.HAVING, TokenType.ORDER, TokenType.LIMIT, TokenType.OFFSET,
+        TokenType.FORMAT, TokenType.EXPAND, TokenType.EOF
+      );
+      if (hasWhere || (!statement.select && !endsFilter)) {
+        const first = this.current();
+        statement.where = this.parseSetExpression();
+        const last = this.tokens[this.position - 1];
+        statement.whereClause = this.source.slice(first.position, last.position + last.length);
+      }
+
+      this.parseGrouping(statement);
+
+      this.parseResultClauses();
+      Object.assign(statement, this.resultClauses());
+      this.parseOutputClauses(statement);
+
+      if (this.current().type !== TokenType.EOF) {
+        this.addError(`Unexpected token: '${this.current().value}'`);
+      }
+    } catch (error) {
+      if (error instanceof DartQLParseError) {
+        this.errors.push(error.message);
+      } else {
+        const message = `Parse error: ${error instanceof Error ? error.message : String(error)}`;
+        this.errors.push(message);
+        this.diagnostics.push(tokenDiagnostic(message, this.current()));
+      }
+    }
+
+    return {
+      statement,
+      fields: Array.from(this.fields),
+      errors: this.errors,
+      diagnostics: this.diagnostics,
+    };
+  }
+
+  /**
+   * Parse GROUP BY and HAVING, enabling aggregates for the clauses after them
+   */
+  private parseGrouping(statement: DartQLStatement): void {
+    if (this.match(TokenType.GROUP)) {
+      this.consume(); // consume GROUP
+      this.expect(TokenType.BY, "Expected 'BY' after 'GROUP'");
+
+      const groupBy = [this.parseGroupField()];
+      while (this.match(TokenType.COMMA)) {
+        this.consume(); // consume comma
+        groupBy.push(this.parseGroupField());
+      }
+      statement.groupBy = groupBy;
+    }
+
+    this.allowAggregates = !!statement.groupBy || !!statement.select?.some(item => item.aggregate);
+
+    if (this.match(TokenType.HAVING)) {
+      const keyword = this.consume();
+      if (!this.allowAggregates) {
+        const message = 'HAVING needs GROUP BY or an aggregate in SELECT';
+        this.addError(message, keyword);
+        throw new DartQLParseError(message, keyword.position, keyword.value);
+      }
+      statement.having = this.parseExpression();
+    }
+  }
+
+  private parseGroupField(): string {
+    const token = this.expect(TokenType.IDENTIFIER, 'Expected field name in GROUP BY');
+    const field = normalizeFieldName(token.value);
+    this.fields.add(field);
+    return field;
+  }
+
+  /**
+   * Parse an aggregate call: COUNT(*), SUM(field), AVG(field), MIN(field), MAX(field)
+   *
+   * @param allowed - Whether the clause accepts aggregates (SELECT always does)
+   */
+  private parseAggregate(allowed: boolean = this.allowAggregates): DartQLAggregateCall & { end: number } {
+    const token = this.consume();
+    const fn = token.value.toUpperCase() as DartQLAggregateFunction;
+
+    if (!allowed) {
+      const message = `${fn}() is only allowed in SELECT, HAVING and ORDER BY of aggregate queries (use aggregate_tasks)`;
+      this.addError(message, token);
+      throw new DartQLParseError(message, token.position, token.value);
+    }
+
+    this.expect(TokenType.LPAREN, `Expected '(' after ${fn}`);
+
+    let field: string | null = null;
+    if (this.match(TokenType.STAR)) {
+      const star = this.consume();
+      if (fn !== 'COUNT') {
+        this.addError(`Only COUNT accepts *, ${fn} needs a field (e.g., ${fn}(age_days))`, star);
+        throw new DartQLParseError(`${fn}(*) is not supported`, star.position, star.value);
+      }
+    } else {
+      field = normalizeFieldName(this.expect(TokenType.IDENTIFIER, `Expected field name or * in ${fn}()`).value);
+    }
+
+    const close = this.expect(TokenType.RPAREN, `Expected ')' to close ${fn}(`);
+    return { function: fn, field, end: close.position + close.length };
+  }
+
+  /**
+   * Parse FORMAT and EXPAND, in either order
+   */
+  private parseOutputClauses(statement: DartQLStatement): void {
+    while (this.match(TokenType.FORMAT, TokenType.EXPAND)) {
+      const keyword = this.consume();
+
+      if (keyword.type === TokenType.FORMAT) {
+        if (statement.format) {
+          this.addError('Duplicate FORMAT clause', keyword);
+        }
+        if (this.match(TokenType.EQUALS)) {
+          this.consume(); // consume = (format=compact)
+        }
+        statement.format = this.parseName('FORMAT', false);
+      } else {
+        statement.expand = [...(statement.expand ?? []), ...this.parseNameList('EXPAND', false)];
+      }
+    }
+  }
+
+  /**
+   * Parse a comma-separated list of names after SELECT or EXPAND
+   */
+  private parseNameList(clause: string, withModifiers: boolean): DartQLSelectItem[] {
+    const items = [this.parseName(clause, withModifiers)];
+
+    while (this.match(TokenType.COMMA)) {
+      this.consume(); // consume comma
+      items.push(this.parseName(clause, withModifiers));
+    }
+
+    return items;
+  }
+
+  /**
+   * Parse one name; SELECT columns may be * or carry a + (expand) or # (count)
+   * modifier
+   */
+  private parseName(clause: string, withModifiers: boolean): DartQLSelectItem {
+    const start = this.current();
+
+    if (withModifiers && this.match(TokenType.STAR)) {
+      this.consume(); // consume *
+      return { name: '*', start: start.position, end: start.position + 1 };
+    }
+
+    if (withModifiers && this.match(TokenType.AGGREGATE)) {
+      const { end, ...aggregate } = this.parseAggregate(true);
+      return { name: aggregateLabel(aggregate), start: start.position, end, aggregate };
+    }
+
+    const modifier = withModifiers && this.match(TokenType.PLUS, TokenType.HASH) ? this.consume().value : '';
+    const token = this.current();
+
+    // Keywords are accepted as names where unambiguous (SELECT desc)
+    const isName = token.type === TokenType.IDENTIFIER ||
+      (/^[a-z_]\w*$/i.test(token.value) && token.type !== TokenType.STRING && !STATEMENT_CLAUSES.includes(token.type));
+
+    if (!isName) {
+      const expected = clause === 'FORMAT' ? 'output format' : clause === 'EXPAND' ? 'relationship' : 'field name';
+      const message = `Expected ${expected} after ${modifier || clause}, got '${token.value}'`;
+      this.addError(message, token);
+      throw new DartQLParseError(message, token.position, token.value);
+    }
+
+    this.consume();
+    return { name: modifier + token.value, start: start.position, end: token.position + token.length };
+  }
+
   /**
    * Get current token
    */
@@ -616,26 +1305,62 @@ export class DartQLParser {
    */
   private expect(type: TokenType, errorMessage: string): Token {
     if (!this.match(type)) {
-      this.addError(errorMessage + ` at position ${this.current().position}`);
+      this.addError(errorMessage);
       throw new DartQLParseError(errorMessage, this.current().position, this.current().value);
     }
     return this.consume();
   }
 
   /**
-   * Add error with context
+   * Add error with its position, recording a diagnostic spanning the token
    */
-  private addError(message: string): void {
-    this.errors.push(message);
+  private addError(
+    message: string,
+    token: Token = this.current(),
+    suggestions: string[] = [],
+    withPosition: boolean = true
+  ): void {
+    this.errors.push(withPosition ? `${message} at position ${token.position}` : message);
+    this.diagnostics.push(tokenDiagnostic(message, token, suggestions));
   }
 
   /**
-   * Parse expression - handles OR (lowest precedence)
+   * Parse set expression - UNION and EXCEPT of selectors (lowest precedence)
    */
-  private parseExpression(): DartQLExpression {
-    let left = this.parseAndExpression();
+  private parseSetExpression(): DartQLExpression {
+    let left = this.parseIntersectExpression();
 
-    while (this.match(TokenType.OR)) {
+    while (this.match(TokenType.UNION, TokenType.EXCEPT)) {
+      const operator = this.consume().type === TokenType.UNION ? 'UNION' : 'EXCEPT';
+      const right = this.parseIntersectExpression();
+      left = { type: 'set', operator, left, right };
+    }
+
+    return left;
+  }
+
+  /**
+   * Parse INTERSECT of selectors (binds tighter than UNION and EXCEPT)
+   */
+  private parseIntersectExpression(): DartQLExpression {
+    let left = this.parseExpression();
+
+    while (this.match(TokenType.INTERSECT)) {
+      this.consume(); // consume INTERSECT
+      const right = this.parseExpression();
+      left = { type: 'set', operator: 'INTERSECT', left, right };
+    }
+
+    return left;
+  }
+
+  /**
+   * Parse expression - handles OR
+   */
+  private parseExpression(): DartQLExpression {
+    let left = this.parseAndExpression();
+
+    while (this.match(TokenType.OR)) {
       this.consume(); // consume OR
       const right = this.parseAndExpression();
       left = {
@@ -699,6 +1424,21 @@ export class DartQLParser {
    * Parse primary expression (comparisons or grouped expressions)
    */
   private parsePrimary(): DartQLExpression {
+    // Quantified relationship predicates: ANY blockers (...), parent (...)
+    if (this.match(TokenType.ANY, TokenType.ALL)) {
+      const quantifier = this.consume().type === TokenType.ALL ? 'ALL' : 'ANY';
+      return this.parseRelationship(quantifier);
+    }
+
+    if (this.match(TokenType.IDENTIFIER) && this.peek().type === TokenType.LPAREN) {
+      return this.parseRelationship();
+    }
+
+    // Hierarchy predicates: DESCENDANT OF 'duid_x'
+    if (this.match(TokenType.DESCENDANT, TokenType.ANCESTOR, TokenType.CHILD)) {
+      return this.parseHierarchy();
+    }
+
     // Handle grouped expressions (parentheses)
     if (this.match(TokenType.LPAREN)) {
       this.consume(); // consume (
@@ -715,14 +1455,76 @@ export class DartQLParser {
     return this.parseComparison();
   }
 
+  /**
+   * Parse relationship predicate: relationship ( expression )
+   *
+   * The quantifier has already been consumed; only parent may omit it.
+   */
+  private parseRelationship(quantifier?: DartQLQuantifier): DartQLExpression {
+    const nameToken = this.expect(
+      TokenType.IDENTIFIER,
+      `Expected relationship name after ${quantifier} (${Object.keys(RELATIONSHIP_FIELDS).join(', ')})`
+    );
+    const relationship = normalizeRelationship(nameToken.value);
+
+    if (!relationship) {
+      this.addError(`Unknown relationship: '${nameToken.value}'`, nameToken);
+      throw new DartQLParseError('Unknown relationship', nameToken.position, nameToken.value);
+    }
+
+    if (!quantifier && relationship !== 'parent') {
+      this.addError(
+        `Relationship '${nameToken.value}' needs ANY or ALL (e.g., ANY ${relationship} (status = 'Done'))`,
+        nameToken,
+        [`ANY ${relationship}`, `ALL ${relationship}`]
+      );
+      throw new DartQLParseError('Missing relationship quantifier', nameToken.position, nameToken.value);
+    }
+
+    this.expect(TokenType.LPAREN, `Expected '(' after relationship '${nameToken.value}'`);
+    const predicate = this.parseExpression();
+    this.expect(TokenType.RPAREN, 'Expected closing parenthesis for relationship predicate');
+
+    return {
+      type: 'relationship',
+      relationship,
+      ...(quantifier && { quantifier }),
+      expressions: [predicate],
+    };
+  }
+
+  /**
+   * Parse hierarchy predicate: (DESCENDANT | ANCESTOR | CHILD) OF 'dart_id'
+   */
+  private parseHierarchy(): DartQLExpression {
+    const keyword = this.consume();
+    const operator = `${keyword.value.toUpperCase()} OF` as DartQLHierarchyOperator;
+    this.expect(TokenType.OF, `Expected OF after ${keyword.value.toUpperCase()}`);
+
+    const token = this.current();
+    if (token.type !== TokenType.STRING || token.value.trim() === '') {
+      this.addError(`Expected task dart_id after ${operator} (e.g., ${operator} 'duid_epic'), got '${token.value}'`, token);
+      throw new DartQLParseError('Expected task dart_id', token.position, token.value);
+    }
+    this.consume();
+
+    return { type: 'hierarchy', operator, value: token.value.trim() };
+  }
+
   /**
    * Parse comparison expression (field operator value)
    */
   private parseComparison(): DartQLExpression {
-    // Expect field name (identifier)
-    const fieldToken = this.expect(TokenType.IDENTIFIER, 'Expected field name');
-    const field = fieldToken.value.toLowerCase();
-    this.fields.add(field);
+    // Aggregates compare by their label in HAVING: COUNT(*) > 5
+    let field: string;
+    if (this.match(TokenType.AGGREGATE)) {
+      field = aggregateLabel(this.parseAggregate());
+    } else {
+      // Expect field name (identifier)
+      const fieldToken = this.expect(TokenType.IDENTIFIER, 'Expected field name');
+      field = normalizeFieldName(fieldToken.value);
+      this.fields.add(field);
+    }
 
     // Special case: IS NULL / IS NOT NULL
     if (this.match(TokenType.IS)) {
@@ -749,7 +1551,7 @@ export class DartQLParser {
       if (next.type === TokenType.IN) {
         this.consume(); // consume NOT
         this.consume(); // consume IN
-        const value = this.parseInArray();
+        const value = this.match(TokenType.DATE_RANGE) ? this.parseDateRange() : this.parseInArray();
         return {
           type: 'comparison',
           field,
@@ -757,12 +1559,44 @@ export class DartQLParser {
           value,
         };
       }
+
+      // NOT LIKE / NOT ILIKE
+      if (next.type === TokenType.LIKE || next.type === TokenType.ILIKE) {
+        this.consume(); // consume NOT
+        const operator = this.consume().type === TokenType.ILIKE ? 'NOT ILIKE' : 'NOT LIKE';
+        return { type: 'comparison', field, operator, value: this.parseValue() };
+      }
+    }
+
+    // Special case: STARTS WITH / ENDS WITH
+    if (this.match(TokenType.STARTS, TokenType.ENDS)) {
+      const keyword = this.consume();
+      this.expect(TokenType.WITH, `Expected WITH after ${keyword.value.toUpperCase()}`);
+      return {
+        type: 'comparison',
+        field,
+        operator: keyword.type === TokenType.STARTS ? 'STARTS WITH' : 'ENDS WITH',
+        value: this.parseValue(),
+      };
+    }
+
+    // Special case: CONTAINS WORD
+    if (this.match(TokenType.CONTAINS) && this.peek().type === TokenType.WORD) {
+      this.consume(); // consume CONTAINS
+      this.consume(); // consume WORD
+      return { type: 'comparison', field, operator: 'CONTAINS WORD', value: this.parseValue() };
+    }
+
+    // Special case: MATCHES /pattern/flags
+    if (this.match(TokenType.MATCHES)) {
+      this.consume(); // consume MATCHES
+      return { type: 'comparison', field, operator: 'MATCHES', value: this.parseRegex() };
     }
 
     // Special case: IN
     if (this.match(TokenType.IN)) {
       this.consume(); // consume IN
-      const value = this.parseInArray();
+      const value = this.match(TokenType.DATE_RANGE) ? this.parseDateRange() : this.parseInArray();
       return {
         type: 'comparison',
         field,
@@ -811,12 +1645,13 @@ export class DartQLParser {
       [TokenType.LESS_THAN]: '<',
       [TokenType.LESS_EQUAL]: '<=',
       [TokenType.LIKE]: 'LIKE',
+      [TokenType.ILIKE]: 'ILIKE',
       [TokenType.CONTAINS]: 'CONTAINS',
     };
 
     const operator = operatorMap[token.type];
     if (!operator) {
-      this.addError(`Expected comparison operator, got '${token.value}' at position ${token.position}`);
+      this.addError(`Expected comparison operator, got '${token.value}'`, token);
       throw new DartQLParseError(`Expected comparison operator`, token.position, token.value);
     }
 
@@ -825,7 +1660,34 @@ export class DartQLParser {
   }
 
   /**
-   * Parse value (string, number, or identifier for NULL)
+   * Parse the operand of MATCHES: a /pattern/flags literal, or a string
+   * (e.g., a bound :param) used as the pattern without flags
+   */
+  private parseRegex(): DartQLRegex {
+    const token = this.current();
+    let regex: DartQLRegex;
+
+    if (token.type === TokenType.REGEX) {
+      const end = token.value.lastIndexOf('/');
+      regex = { kind: 'regex', source: token.value.slice(1, end), flags: token.value.slice(end + 1) };
+    } else if (token.type === TokenType.STRING) {
+      regex = { kind: 'regex', source: token.value, flags: '' };
+    } else {
+      this.addError(`Expected regular expression after MATCHES (e.g., MATCHES /^\\[JIRA-\\d+\\]/i), got '${token.value}'`, token);
+      throw new DartQLParseError('Expected regular expression', token.position, token.value);
+    }
+    this.consume();
+
+    const problem = regex.source === '' ? 'empty pattern' : checkRegexSafety(regex.source, regex.flags);
+    if (problem) {
+      this.addError(`Invalid regular expression ${token.value}: ${problem}`, token);
+    }
+
+    return regex;
+  }
+
+  /**
+   * Parse value (string, number, boolean, or NULL)
    */
   private parseValue(): unknown {
     const token = this.current();
@@ -840,15 +1702,138 @@ export class DartQLParser {
       return parseFloat(token.value);
     }
 
+    // Negative numbers: days_until_due < -7
+    if (token.type === TokenType.MINUS && this.peek().type === TokenType.NUMBER) {
+      this.consume(); // consume -
+      return -parseFloat(this.consume().value);
+    }
+
+    if (token.type === TokenType.BOOLEAN) {
+      this.consume();
+      return token.value.toUpperCase() === 'TRUE';
+    }
+
     if (token.type === TokenType.NULL) {
       this.consume();
       return null;
     }
 
-    this.addError(`Expected value (string, number, or NULL), got '${token.value}' at position ${token.position}`);
+    if (token.type === TokenType.DATE_FUNCTION) {
+      return this.parseDateFunction();
+    }
+
+    if (token.type === TokenType.DATE_RANGE) {
+      const isFunction = (DATE_FUNCTIONS as readonly string[]).includes(token.value.toLowerCase());
+      this.addError(
+        `Date range '${token.value}' can only be used with IN (e.g., due_at IN ${token.value.toLowerCase()})` +
+        (isFunction ? ` - did you mean ${token.value.toLowerCase()}()?` : ''),
+        token,
+        isFunction ? [`${token.value.toLowerCase()}()`] : []
+      );
+      throw new DartQLParseError('Unexpected date range', token.position, token.value);
+    }
+
+    this.addError(`Expected value (string, number, boolean, or NULL), got '${token.value}'`, token);
     throw new DartQLParseError('Expected value', token.position, token.value);
   }
 
+  /**
+   * Parse trailing result clauses: [ORDER BY field [ASC|DESC], ...] [LIMIT n] [OFFSET n]
+   */
+  private parseResultClauses(): void {
+    if (this.match(TokenType.ORDER)) {
+      this.consume(); // consume ORDER
+      this.expect(TokenType.BY, "Expected 'BY' after 'ORDER'");
+
+      do {
+        if (this.orderBy.length > 0) {
+          this.consume(); // consume comma
+        }
+
+        const field = this.match(TokenType.AGGREGATE)
+          ? aggregateLabel(this.parseAggregate())
+          : normalizeFieldName(this.expect(TokenType.IDENTIFIER, 'Expected field name in ORDER BY').value);
+        let direction: 'ASC' | 'DESC' = 'ASC';
+
+        if (this.match(TokenType.ASC, TokenType.DESC)) {
+          direction = this.consume().type === TokenType.DESC ? 'DESC' : 'ASC';
+        }
+
+        this.orderBy.push({ field, direction });
+      } while (this.match(TokenType.COMMA));
+    }
+
+    if (this.match(TokenType.LIMIT)) {
+      this.consume(); // consume LIMIT
+      this.limit = this.parseCount('LIMIT');
+    }
+
+    if (this.match(TokenType.OFFSET)) {
+      this.consume(); // consume OFFSET
+      this.offset = this.parseCount('OFFSET');
+    }
+  }
+
+  /**
+   * Parse non-negative integer argument for LIMIT / OFFSET
+   */
+  private parseCount(clause: string): number {
+    const token = this.current();
+    const value = Number(token.value);
+
+    if (token.type !== TokenType.NUMBER || !Number.isInteger(value) || value < 0) {
+      this.addError(`${clause} must be a non-negative integer, got '${token.value}'`, token);
+      throw new DartQLParseError(`${clause} must be a non-negative integer`, token.position, token.value);
+    }
+
+    this.consume();
+    return value;
+  }
+
+  /**
+   * Collect parsed result clauses (omitting absent ones)
+   */
+  private resultClauses(): Pick<DartQLParseResult, 'orderBy' | 'limit' | 'offset'> {
+    const clauses: Pick<DartQLParseResult, 'orderBy' | 'limit' | 'offset'> = {};
+    if (this.orderBy.length > 0) clauses.orderBy = this.orderBy;
+    if (this.limit !== undefined) clauses.limit = this.limit;
+    if (this.offset !== undefined) clauses.offset = this.offset;
+    return clauses;
+  }
+
+  /**
+   * Parse date function with optional arithmetic: today() - 7d + 2h
+   */
+  private parseDateFunction(): DartQLDateFunction {
+    const fnToken = this.consume();
+    this.expect(TokenType.LPAREN, `Expected '(' after ${fnToken.value}`);
+    this.expect(TokenType.RPAREN, `Expected ')' after ${fnToken.value}(`);
+
+    const offsets: DartQLDateFunction['offsets'] = [];
+
+    while (this.match(TokenType.PLUS, TokenType.MINUS)) {
+      const sign = this.consume().type === TokenType.MINUS ? -1 : 1;
+      const durationToken = this.expect(TokenType.DURATION, 'Expected duration after + or - (e.g., 7d, 2w, 3h, 1mo)');
+      const [, amount, unit] = durationToken.value.match(/^(\d+)(mo|h|d|w)$/) || [];
+
+      offsets.push({ amount: sign * Number(amount), unit: unit as DartQLDurationUnit });
+    }
+
+    return {
+      kind: 'date_function',
+      fn: fnToken.value.toLowerCase() as DartQLDateFunction['fn'],
+      offsets,
+    };
+  }
+
+  /**
+   * Parse keyword date range after IN: this_week, last_month
+   */
+  private parseDateRange(): DartQLDateRange {
+    const token = this.consume();
+    return { kind: 'date_range', range: token.value.toLowerCase() as DartQLDateRange['range'] };
+  }
+
   /**
    * Parse IN array: (value1, value2, value3)
    */
@@ -886,7 +1871,9 @@ export class DartQLParser {
  * Parse DartQL WHERE clause into AST with validation
  *
  * @param input - DartQL WHERE clause (e.g., "status = 'Todo' AND priority >= 3")
+ * @param bindings - Values for :name parameters and `me` (see createBindings)
  * @returns DartQLParseResult with AST, extracted fields, and any errors
+ *          (also as diagnostics with offsets into the untrimmed input)
  *
  * @example
  * const result = parseDartQLToAST("status = 'Todo' AND priority >= 3");
@@ -897,10 +1884,15 @@ export class DartQLParser {
  *   console.log('Fields:', result.fields);
  * }
  */
-export function parseDartQLToAST(input: string): DartQLParseResult {
+export function parseDartQLToAST(input: string, bindings: DartQLBindings = {}): DartQLParseResult {
+  // Token positions are relative to the trimmed input
+  const indent = input.length - input.trimStart().length;
+  const shift = (diagnostics: DartQLDiagnostic[]): DartQLDiagnostic[] =>
+    diagnostics.map(d => ({ ...d, start: d.start + indent, end: d.end + indent }));
+
   try {
-    // Phase 1: Tokenization
-    const tokenizer = new DartQLTokenizer(input);
+    // Phase 1: Tokenization (placeholders are bound here)
+    const tokenizer = new DartQLTokenizer(input, bindings);
     const tokens = tokenizer.tokenize();
 
     // Phase 2: Lexical analysis (field validation)
@@ -913,6 +1905,7 @@ export function parseDartQLToAST(input: string): DartQLParseResult {
         ast: { type: 'group', expressions: [] },
         fields: lexerResult.fields,
         errors: lexerResult.errors,
+        diagnostics: shift(lexerResult.diagnostics),
       };
     }
 
@@ -920,24 +1913,177 @@ export function parseDartQLToAST(input: string): DartQLParseResult {
     const parser = new DartQLParser(tokens);
     const parseResult = parser.parse();
 
-    return parseResult;
+    return { ...parseResult, diagnostics: shift(parseResult.diagnostics ?? []) };
   } catch (error) {
     if (error instanceof DartQLParseError) {
+      const start = error.position ?? 0;
       return {
         ast: { type: 'group', expressions: [] },
         fields: [],
         errors: [error.message],
+        diagnostics: shift([{
+          message: error.message,
+          start,
+          end: start + Math.max(1, error.token?.length ?? 1),
+          severity: 'error',
+          suggestions: [],
+        }]),
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a full DartQL statement (SELECT ... WHERE ... FORMAT ... EXPAND ...)
+ *
+ * Runs the same tokenizer, lexer and parser as parseDartQLToAST; a bare
+ * selector is a statement without SELECT. Diagnostic and name spans are
+ * offsets into the input.
+ *
+ * @param input - Statement as written by the user
+ * @param bindings - Values for :name parameters and `me`
+ */
+export function parseDartQLStatement(input: string, bindings: DartQLBindings = {}): DartQLStatementParseResult {
+  const indent = input.length - input.trimStart().length;
+  const shift = <T extends { start: number; end: number }>(spans: T[]): T[] =>
+    spans.map(span => ({ ...span, start: span.start + indent, end: span.end + indent }));
+
+  try {
+    const tokens = new DartQLTokenizer(input, bindings).tokenize();
+
+    const lexerResult = new DartQLLexer(tokens).analyze();
+    if (lexerResult.errors.length > 0) {
+      return {
+        statement: {},
+        fields: lexerResult.fields,
+        errors: lexerResult.errors,
+        diagnostics: shift(lexerResult.diagnostics),
+      };
+    }
+
+    const result = new DartQLParser(tokens, input.trim()).parseStatement();
+    const { select, format, expand } = result.statement;
+
+    return {
+      ...result,
+      statement: {
+        ...result.statement,
+        ...(select && { select: shift(select) }),
+        ...(format && { format: shift([format])[0] }),
+        ...(expand && { expand: shift(expand) }),
+      },
+      diagnostics: shift(result.diagnostics),
+    };
+  } catch (error) {
+    if (error instanceof DartQLParseError) {
+      const start = error.position ?? 0;
+      return {
+        statement: {},
+        fields: [],
+        errors: [error.message],
+        diagnostics: shift([{
+          message: error.message,
+          start,
+          end: start + Math.max(1, error.token?.length ?? 1),
+          severity: 'error',
+          suggestions: [],
+        }]),
       };
     }
     throw error;
   }
 }
 
+/**
+ * Bindings for a query run by the configured user
+ *
+ * @param config - Workspace config; `me` binds to user's email (or name)
+ * @param params - Tool input params for :name placeholders
+ * @throws ValidationError when params is not an object
+ */
+export function createBindings(config: Pick<DartConfig, 'user'>, params?: unknown): DartQLBindings {
+  if (params !== undefined && (params === null || typeof params !== 'object' || Array.isArray(params))) {
+    throw new ValidationError(
+      'params must be an object mapping parameter names to values (e.g., {"status": "Todo"} for :status)',
+      'params'
+    );
+  }
+
+  const user = config.user;
+  return { params: params as Record<string, unknown> | undefined, me: user ? user.email || user.name : undefined };
+}
+
 // ============================================================================
 // AST to Filters Converter
 // ============================================================================
 
-import type { ListTasksInput } from '../types/index.js';
+import type { DartQLSetOperator, DartTask, ListTasksInput } from '../types/index.js';
+import type { TaskBatchFetcher } from '../formatters/relationshipExpander.js';
+
+/**
+ * Result clauses (ORDER BY / LIMIT / OFFSET) carried from the parse result
+ */
+export type DartQLResultClauses = Pick<DartQLParseResult, 'orderBy' | 'limit' | 'offset'>;
+
+/**
+ * Options for convertToFilters()
+ */
+export interface ConvertToFiltersOptions extends DartQLResultClauses {
+  /**
+   * Reference point for today(), now() and date ranges
+   * (defaults to the clock in DART_TIMEZONE, or UTC)
+   */
+  dateContext?: DateContext;
+
+  /**
+   * Maximum number of parallel listTasks() queries an OR/IN may fan out into
+   * before it is evaluated client-side instead
+   * (defaults to the DART_MAX_FAN_OUT env var, then DEFAULT_MAX_FAN_OUT)
+   */
+  maxFanOut?: number;
+
+  /**
+   * Workspace config (DartConfig) used to resolve status/dartboard/tag/assignee
+   * values and priority/size ranks. Without it, built-in ranks and
+   * case-insensitive name matching are used.
+   */
+  config?: DartQLSemantics;
+
+  /**
+   * Fields read from the matching tasks besides ORDER BY keys (GROUP BY,
+   * aggregates); depth and relationship counts among them are resolved by
+   * resolveRelated
+   */
+  resolveFields?: string[];
+}
+
+/** Default cap on OR/IN fan-out queries */
+export const DEFAULT_MAX_FAN_OUT = 10;
+
+/**
+ * Query plan behind a conversion (what explain_query reports)
+ */
+export interface DartQLQueryPlan {
+  /** WHERE expression after relative dates and workspace names were resolved */
+  resolved: DartQLExpression;
+  /** Conjuncts sent to the API as single-value filters */
+  pushdown: DartQLExpression[];
+  /** OR/IN conjuncts sent to the API as parallel queries */
+  fanOut: DartQLExpression[];
+  /** Why each residual conjunct could not be pushed down */
+  reasons: string[];
+  /** getTask() lookups beyond listTasks (relationship predicates, depth, relationship counts) */
+  lookups: DartQLTaskLookup[];
+}
+
+/** One kind of getTask() lookup a query makes */
+export interface DartQLTaskLookup {
+  /** What is fetched, e.g. "the blockers of each candidate" */
+  description: string;
+  /** Whether the lookup repeats for every candidate (cost grows with candidates) */
+  perCandidate: boolean;
+}
 
 /**
  * Result of converting DartQL AST to filters
@@ -959,6 +2105,43 @@ export interface ConvertToFiltersResult {
    */
   requiresClientSide: boolean;
 
+  /**
+   * Part of the WHERE clause the API cannot evaluate (what clientFilter checks)
+   */
+  residual?: DartQLExpression;
+
+  /**
+   * Fetch the related tasks the residual's relationship predicates
+   * (ANY blockers (...), parent (...)) range over. Run on the candidates before
+   * clientFilter; returns them with relationship arrays hydrated. Fetched tasks
+   * are memoized for the lifetime of this result. Undefined when the residual
+   * has no relationship predicates.
+   */
+  resolveRelated?: (tasks: DartTask[], fetchTasks: TaskBatchFetcher) => Promise<DartTask[]>;
+
+  /**
+   * Filter sets for an OR/IN fan-out: run one listTasks() per set and merge the
+   * results by dart_id. Each set already includes apiFilters. Undefined when a
+   * single query (apiFilters) suffices.
+   */
+  apiFilterSets?: Array<Partial<ListTasksInput>>;
+
+  /**
+   * UNION / INTERSECT / EXCEPT of two selectors, each converted on its own
+   * (with its own API filters, fan-out and client filter). Their tasks are
+   * combined by dart_id; apiFilters is empty. Undefined for a single selector.
+   */
+  setOperation?: {
+    operator: DartQLSetOperator;
+    left: ConvertToFiltersResult;
+    right: ConvertToFiltersResult;
+  };
+
+  /**
+   * How the expression was split between API and client (undefined on errors)
+   */
+  plan?: DartQLQueryPlan;
+
   /**
    * Warning messages about performance implications
    */
@@ -968,6 +2151,21 @@ export interface ConvertToFiltersResult {
    * Errors encountered during conversion
    */
   errors: string[];
+
+  /**
+   * Sort keys to apply after filtering (ORDER BY)
+   */
+  orderBy?: DartQLOrderBy[];
+
+  /**
+   * Maximum number of matching tasks (LIMIT), applied after sorting
+   */
+  limit?: number;
+
+  /**
+   * Number of matching tasks to skip (OFFSET), applied after sorting
+   */
+  offset?: number;
 }
 
 /**
@@ -985,10 +2183,27 @@ export interface ConvertToFiltersResult {
  * - NOT logic
  * - Complex nested expressions
  *
+ * Relative dates (today() - 7d, IN this_week) are resolved to ISO timestamps
+ * first, so they push down to due_before/due_after like literal dates.
+ *
+ * With options.config, status/dartboard/tag/assignee values are rewritten to
+ * their workspace names, and the client-side filter compares priority/size by
+ * rank and matches assignees by name, email or dart_id.
+ *
+ * Selectors combined with UNION / INTERSECT / EXCEPT are converted one by one
+ * into setOperation, so a side that pushes down keeps doing so.
+ *
+ * ORDER BY / LIMIT / OFFSET clauses are passed through unchanged so callers
+ * can apply them with applyResultClauses() after filtering.
+ *
  * @param ast - DartQL AST from parseDartQLToAST()
+ * @param options - Result clauses (pass the parse result directly), date context and config
  * @returns ConvertToFiltersResult with apiFilters and optional clientFilter
  */
-export function convertToFilters(ast: DartQLExpression): ConvertToFiltersResult {
+export function convertToFilters(
+  ast: DartQLExpression,
+  options: ConvertToFiltersOptions = {}
+): ConvertToFiltersResult {
   const result: ConvertToFiltersResult = {
     apiFilters: {},
     requiresClientSide: false,
@@ -996,22 +2211,76 @@ export function convertToFilters(ast: DartQLExpression): ConvertToFiltersResult
     errors: [],
   };
 
+  if (options.orderBy && options.orderBy.length > 0) result.orderBy = options.orderBy;
+  if (options.limit !== undefined) result.limit = options.limit;
+  if (options.offset !== undefined) result.offset = options.offset;
+
+  if (ast.type === 'set') {
+    return convertSetOperation(ast, options, result);
+  }
+
   try {
-    // Analyze AST to determine if we can use API filters or need client-side
-    const analysis = analyzeAST(ast);
+    // Resolve today(), now() - 7d, IN this_week to concrete timestamps
+    if (hasRelativeDates(ast)) {
+      ast = resolveRelativeDates(ast, options.dateContext ?? createDateContext());
+    }
 
-    if (analysis.canUseAPI) {
-      // Extract API-compatible filters
-      result.apiFilters = extractAPIFilters(ast);
-    } else {
-      // Need client-side filtering
-      result.requiresClientSide = true;
-      result.clientFilter = buildClientSideFilter(ast);
+    // Resolve 'todo' → 'To Do', 'alice' → 'alice@example.com' before pushdown
+    if (options.config) {
+      ast = canonicalizeValues(ast, options.config, result.warnings);
+    }
+
+    // Split the top-level AND chain into API-pushable conjuncts and a residual
+    const analysis = analyzeAST(ast, resolveMaxFanOut(options.maxFanOut), options.config);
+    result.apiFilters = analysis.apiFilters;
+    result.plan = {
+      resolved: ast,
+      pushdown: analysis.pushdown,
+      fanOut: analysis.fanOut,
+      reasons: analysis.reasons,
+      lookups: [],
+    };
+
+    if (analysis.apiFilterSets) {
+      result.apiFilterSets = analysis.apiFilterSets;
       result.warnings.push(
-        'Query requires client-side filtering which may impact performance. ' +
-        'Consider using simpler queries with API-supported filters for better performance.'
+        `OR/IN conditions fan out into ${analysis.apiFilterSets.length} parallel API queries (results merged by dart_id)`
+      );
+    }
+
+    // Related tasks are fetched once per query and shared by every candidate
+    const residual = analysis.residual;
+    const relatedTasks: RelatedTaskMemo = new Map();
+    const readFields = [...(result.orderBy?.map(key => key.field) ?? []), ...(options.resolveFields ?? [])];
+    if ((residual && needsRelatedTasks(residual)) || needsTaskResolution(readFields)) {
+      result.resolveRelated = (tasks, fetchTasks) =>
+        resolveRelatedTasks(tasks, residual, fetchTasks, relatedTasks, resolutionFor(readFields));
+      result.plan.lookups = describeTaskLookups(residual, readFields);
+    }
+
+    if (residual) {
+      // Only the residual is evaluated locally, on tasks already narrowed by the API
+      result.requiresClientSide = true;
+      result.residual = residual;
+      result.clientFilter = buildClientSideFilter(
+        residual,
+        options.config,
+        options.dateContext?.now ?? Date.now(),
+        relatedTasks
       );
 
+      if (analysis.pushdown.length > 0) {
+        result.warnings.push(
+          `Part of the query requires client-side filtering. API filters (${Object.keys(analysis.apiFilters).join(', ')}) ` +
+          'narrow the fetch first; the rest is evaluated on the returned tasks.'
+        );
+      } else {
+        result.warnings.push(
+          'Query requires client-side filtering which may impact performance. ' +
+          'Consider using simpler queries with API-supported filters for better performance.'
+        );
+      }
+
       // Add specific warnings for unsupported operations
       if (analysis.reasons.length > 0) {
         result.warnings.push(...analysis.reasons);
@@ -1027,35 +2296,357 @@ export function convertToFilters(ast: DartQLExpression): ConvertToFiltersResult
 }
 
 /**
- * Analysis result for AST evaluation
+ * Convert both sides of a set operation; result clauses apply to the
+ * combined tasks only
  */
-interface ASTAnalysis {
-  canUseAPI: boolean;
-  reasons: string[];
+function convertSetOperation(
+  ast: DartQLExpression,
+  options: ConvertToFiltersOptions,
+  result: ConvertToFiltersResult
+): ConvertToFiltersResult {
+  const sideOptions = { ...options, orderBy: undefined, limit: undefined, offset: undefined };
+  const left = convertToFilters(ast.left!, sideOptions);
+  const right = convertToFilters(ast.right!, sideOptions);
+  const operator = ast.operator as DartQLSetOperator;
+
+  result.errors.push(...left.errors, ...right.errors);
+  result.warnings.push(...new Set([...left.warnings, ...right.warnings]));
+  result.requiresClientSide = true;
+  result.setOperation = { operator, left, right };
+  result.plan = {
+    resolved: { type: 'set', operator, left: left.plan?.resolved ?? ast.left, right: right.plan?.resolved ?? ast.right },
+    pushdown: [],
+    fanOut: [],
+    reasons: [],
+    lookups: [],
+  };
+
+  // Depth and relationship counts are resolved on the combined tasks before sorting
+  const sortFields = result.orderBy?.map(key => key.field) ?? [];
+  if (needsTaskResolution(sortFields)) {
+    result.resolveRelated = (tasks, fetchTasks) => resolveTaskFields(tasks, sortFields, fetchTasks);
+    result.plan.lookups = describeTaskLookups(undefined, sortFields);
+  }
+
+  return result;
 }
 
 /**
- * Analyze AST to determine if it can be converted to API filters
- * API supports: Simple AND chains of equality/range comparisons on specific fields
+ * Check whether an AST contains date functions or keyword date ranges
  */
-function analyzeAST(ast: DartQLExpression): ASTAnalysis {
-  const reasons: string[] = [];
+export function hasRelativeDates(expr: DartQLExpression): boolean {
+  if (expr.type === 'comparison') {
+    const values = Array.isArray(expr.value) ? expr.value : [expr.value];
+    return values.some(isRelativeDateValue);
+  }
 
-  // Check if AST uses unsupported features
-  const canUseAPI = isAPICompatible(ast, reasons);
+  return [expr.left, expr.right, ...(expr.expressions || [])].some(
+    child => child !== undefined && hasRelativeDates(child)
+  );
+}
 
-  return { canUseAPI, reasons };
+function isRelativeDateValue(value: unknown): value is DartQLDateFunction | DartQLDateRange {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const kind = (value as { kind?: unknown }).kind;
+  return kind === 'date_function' || kind === 'date_range';
 }
 
+/**
+ * Replace relative date values with ISO timestamps
+ * - today() - 7d → '2026-01-11T00:00:00.000Z'
+ * - due_at IN this_week → due_at >= start AND due_at < end
+ * - due_at NOT IN this_week → NOT (due_at >= start AND due_at < end)
+ */
+function resolveRelativeDates(expr: DartQLExpression, context: DateContext): DartQLExpression {
+  if (expr.type !== 'comparison') {
+    return {
+      ...expr,
+      ...(expr.left && { left: resolveRelativeDates(expr.left, context) }),
+      ...(expr.right && { right: resolveRelativeDates(expr.right, context) }),
+      ...(expr.expressions && { expressions: expr.expressions.map(e => resolveRelativeDates(e, context)) }),
+    };
+  }
+
+  const value = expr.value;
+
+  if (isRelativeDateValue(value) && value.kind === 'date_range') {
+    const { start, end } = resolveDateRange(value.range, context);
+    const inRange: DartQLExpression = {
+      type: 'logical',
+      operator: 'AND',
+      left: { type: 'comparison', field: expr.field, operator: '>=', value: start },
+      right: { type: 'comparison', field: expr.field, operator: '<', value: end },
+    };
+    return expr.operator === 'NOT IN' ? { type: 'logical', operator: 'NOT', right: inRange } : inRange;
+  }
+
+  const resolveValue = (v: unknown): unknown =>
+    isRelativeDateValue(v) && v.kind === 'date_function' ? resolveDateFunction(v, context) : v;
+
+  return {
+    ...expr,
+    value: Array.isArray(value) ? value.map(resolveValue) : resolveValue(value),
+  };
+}
+
+/**
+ * Analysis result for AST evaluation (the query plan)
+ */
+interface ASTAnalysis {
+  /** True when every conjunct was pushed down (no client-side work) */
+  canUseAPI: boolean;
+  /** Filters for DartClient.listTasks() built from the pushed conjuncts */
+  apiFilters: Partial<ListTasksInput>;
+  /** Conjuncts sent to the API */
+  pushdown: DartQLExpression[];
+  /** OR/IN conjuncts sent to the API as parallel queries */
+  fanOut: DartQLExpression[];
+  /** One filter set per fan-out query (each includes apiFilters) */
+  apiFilterSets?: Array<Partial<ListTasksInput>>;
+  /** AND of the remaining conjuncts, evaluated client-side */
+  residual?: DartQLExpression;
+  /** Why each residual conjunct could not be pushed down */
+  reasons: string[];
+}
+
+/**
+ * Plan the query: split the top-level AND chain into conjuncts, push down those
+ * the API supports (assignee/status/dartboard/priority/tags/due_at) and keep
+ * the rest as a residual predicate
+ *
+ * A conjunct whose API filter key is already taken (e.g., a second status = ...)
+ * stays in the residual, since the API accepts one value per filter.
+ *
+ * Disjunctions of pushable predicates (status IN (...), dartboard = 'A' OR
+ * dartboard = 'B') fan out into one query per branch, as long as the total
+ * number of queries stays within maxFanOut.
+ */
+function analyzeAST(
+  ast: DartQLExpression,
+  maxFanOut: number = DEFAULT_MAX_FAN_OUT,
+  semantics: DartQLSemantics = {}
+): ASTAnalysis {
+  const reasons: string[] = [];
+  const apiFilters: Partial<ListTasksInput> = {};
+  const pushdown: DartQLExpression[] = [];
+  const fanOut: DartQLExpression[] = [];
+  const residual: DartQLExpression[] = [];
+  const candidates: Array<{ conjunct: DartQLExpression; sets: Array<Partial<ListTasksInput>>; reasons: string[] }> = [];
+
+  for (const conjunct of collectConjuncts(ast)) {
+    const conjunctReasons: string[] = [];
+
+    if (!isAPICompatible(conjunct, conjunctReasons, semantics)) {
+      const sets = expandToFilterSets(conjunct, semantics);
+      if (sets && sets.length > 0) {
+        candidates.push({ conjunct, sets, reasons: conjunctReasons });
+      } else {
+        residual.push(conjunct);
+        reasons.push(...conjunctReasons);
+      }
+      continue;
+    }
+
+    const filters = extractAPIFilters(conjunct, semantics);
+    const taken = Object.keys(filters).filter(key => key in apiFilters);
+
+    if (taken.length > 0) {
+      residual.push(conjunct);
+      reasons.push(`Repeated '${taken.join(', ')}' API filter requires client-side filtering`);
+      continue;
+    }
+
+    Object.assign(apiFilters, filters);
+    pushdown.push(conjunct);
+  }
+
+  // Fan-out candidates are combined once the single-value filters are known,
+  // so clashes with those keys can be detected
+  let branchSets: Array<Partial<ListTasksInput>> = [{}];
+  const fanOutKeys = new Set<string>();
+
+  for (const candidate of candidates) {
+    const keys = new Set(candidate.sets.flatMap(set => Object.keys(set)));
+    const taken = [...keys].filter(key => key in apiFilters || fanOutKeys.has(key));
+    const queryCount = branchSets.length * candidate.sets.length;
+
+    if (taken.length > 0) {
+      residual.push(candidate.conjunct);
+      reasons.push(`Repeated '${taken.join(', ')}' API filter requires client-side filtering`);
+    } else if (queryCount > maxFanOut) {
+      residual.push(candidate.conjunct);
+      reasons.push(...candidate.reasons);
+      reasons.push(`OR/IN fan-out would need ${queryCount} API queries (max ${maxFanOut}) - evaluated client-side`);
+    } else {
+      branchSets = branchSets.flatMap(left => candidate.sets.map(right => ({ ...left, ...right })));
+      keys.forEach(key => fanOutKeys.add(key));
+      fanOut.push(candidate.conjunct);
+    }
+  }
+
+  return {
+    canUseAPI: residual.length === 0,
+    apiFilters,
+    pushdown,
+    fanOut,
+    apiFilterSets: fanOut.length > 0 ? branchSets.map(set => ({ ...apiFilters, ...set })) : undefined,
+    residual: combineConjuncts(residual),
+    reasons,
+  };
+}
+
+/**
+ * Resolve the fan-out cap from the option, then DART_MAX_FAN_OUT
+ */
+function resolveMaxFanOut(maxFanOut?: number): number {
+  if (maxFanOut !== undefined) {
+    return maxFanOut;
+  }
+
+  const fromEnv = parseInt(process.env.DART_MAX_FAN_OUT || '', 10);
+  return Number.isInteger(fromEnv) && fromEnv >= 1 ? fromEnv : DEFAULT_MAX_FAN_OUT;
+}
+
+/**
+ * Expand an expression into alternative API filter sets whose union is exactly
+ * the expression's matches, or null when some part cannot be pushed down
+ *
+ * - status IN ('Todo', 'Doing') → [{ status: 'Todo' }, { status: 'Doing' }]
+ * - a OR b → sets(a) + sets(b)
+ * - a AND b → every combination of sets(a) × sets(b) (null on key clashes)
+ */
+function expandToFilterSets(
+  expr: DartQLExpression,
+  semantics: DartQLSemantics = {}
+): Array<Partial<ListTasksInput>> | null {
+  if (expr.type === 'group') {
+    return expr.expressions && expr.expressions.length === 1 ? expandToFilterSets(expr.expressions[0], semantics) : null;
+  }
+
+  if (expr.type === 'comparison') {
+    if (isAPICompatible(expr, [], semantics)) {
+      return [extractAPIFilters(expr, semantics)];
+    }
+
+    const field = expr.field?.toLowerCase();
+    if (expr.operator === 'IN' && Array.isArray(expr.value) && expr.value.length > 0) {
+      const sets = expr.value.map(value => ({ type: 'comparison' as const, field, operator: '=' as const, value }));
+      return sets.every(set => isAPICompatible(set, [], semantics))
+        ? sets.map(set => extractAPIFilters(set, semantics))
+        : null;
+    }
+
+    return null;
+  }
+
+  if (expr.type === 'logical' && expr.operator === 'OR' && expr.left && expr.right) {
+    const left = expandToFilterSets(expr.left, semantics);
+    const right = expandToFilterSets(expr.right, semantics);
+    return left && right ? [...left, ...right] : null;
+  }
+
+  if (expr.type === 'logical' && expr.operator === 'AND' && expr.left && expr.right) {
+    let sets: Array<Partial<ListTasksInput>> = [{}];
+
+    for (const conjunct of collectConjuncts(expr)) {
+      const conjunctSets = expandToFilterSets(conjunct, semantics);
+      if (!conjunctSets) {
+        return null;
+      }
+
+      const combined: Array<Partial<ListTasksInput>> = [];
+      for (const left of sets) {
+        for (const right of conjunctSets) {
+          if (Object.keys(right).some(key => key in left)) {
+            return null;
+          }
+          combined.push({ ...left, ...right });
+        }
+      }
+      sets = combined;
+    }
+
+    return sets;
+  }
+
+  return null;
+}
+
+/**
+ * Flatten a top-level AND chain (through parenthesized groups) into conjuncts.
+ * The empty group of a selector with only result clauses ("ORDER BY
+ * created_at LIMIT 10") has none, so it matches every task.
+ */
+function collectConjuncts(expr: DartQLExpression): DartQLExpression[] {
+  if (expr.type === 'group' && expr.expressions?.length === 0) {
+    return [];
+  }
+
+  if (expr.type === 'logical' && expr.operator === 'AND' && expr.left && expr.right) {
+    return [...collectConjuncts(expr.left), ...collectConjuncts(expr.right)];
+  }
+
+  if (expr.type === 'group' && expr.expressions && expr.expressions.length === 1) {
+    return collectConjuncts(expr.expressions[0]);
+  }
+
+  return [expr];
+}
+
+/**
+ * Rebuild an AND chain from conjuncts (undefined when there are none)
+ */
+function combineConjuncts(conjuncts: DartQLExpression[]): DartQLExpression | undefined {
+  if (conjuncts.length === 0) {
+    return undefined;
+  }
+
+  return conjuncts.reduce((left, right) => ({ type: 'logical', operator: 'AND', left, right }));
+}
+
+/** Pattern operators the API has no filter for */
+const TEXT_MATCH_OPERATORS: readonly DartQLOperator[] = [
+  'LIKE', 'ILIKE', 'NOT LIKE', 'NOT ILIKE', 'CONTAINS', 'CONTAINS WORD', 'STARTS WITH', 'ENDS WITH', 'MATCHES',
+];
+
 /**
  * Check if AST expression is compatible with API filters
  */
-function isAPICompatible(expr: DartQLExpression, reasons: string[]): boolean {
+function isAPICompatible(expr: DartQLExpression, reasons: string[], semantics: DartQLSemantics = {}): boolean {
+  if (expr.type === 'hierarchy') {
+    reasons.push(`${expr.operator} walks the subtask tree client-side`);
+    return false;
+  }
+
+  if (expr.type === 'relationship') {
+    const quantifier = expr.quantifier ? `${expr.quantifier} ` : '';
+    reasons.push(`Relationship predicate '${quantifier}${expr.relationship}' fetches related tasks client-side`);
+    return false;
+  }
+
   // Handle comparison expressions
   if (expr.type === 'comparison') {
     const field = expr.field?.toLowerCase();
     const operator = expr.operator;
 
+    // Virtual fields only exist once a task is fetched
+    if (field && isVirtualField(field)) {
+      reasons.push(`Virtual field '${field}' is computed client-side`);
+      return false;
+    }
+
+    if (field && isCustomPropertyField(field)) {
+      reasons.push(`Custom property '${customPropertyName(expr.field!)}' requires client-side filtering`);
+      return false;
+    }
+
+    if (field === 'depth') {
+      reasons.push(`Field 'depth' is computed by walking parent tasks client-side`);
+      return false;
+    }
+
     // Check field support
     const apiSupportedFields = ['assignee', 'status', 'dartboard', 'priority', 'tags', 'due_at'];
     if (field && !apiSupportedFields.includes(field)) {
@@ -1069,7 +2660,7 @@ function isAPICompatible(expr: DartQLExpression, reasons: string[]): boolean {
       return false;
     }
 
-    if (operator === 'LIKE' || operator === 'CONTAINS') {
+    if (TEXT_MATCH_OPERATORS.includes(operator as DartQLOperator)) {
       reasons.push(`${operator} operator requires client-side filtering`);
       return false;
     }
@@ -1080,6 +2671,9 @@ function isAPICompatible(expr: DartQLExpression, reasons: string[]): boolean {
     }
 
     if (operator === 'BETWEEN') {
+      if (field === 'due_at') {
+        return true; // Maps to due_after + due_before
+      }
       reasons.push(`BETWEEN operator requires client-side filtering`);
       return false;
     }
@@ -1116,6 +2710,12 @@ function isAPICompatible(expr: DartQLExpression, reasons: string[]): boolean {
       return false;
     }
 
+    // The API filters priority by rank; labels it cannot rank stay client-side
+    if (field === 'priority' && rankOf(field, expr.value, semantics) === null) {
+      reasons.push(`Priority '${String(expr.value)}' has no workspace rank and requires client-side filtering`);
+      return false;
+    }
+
     return true;
   }
 
@@ -1133,8 +2733,8 @@ function isAPICompatible(expr: DartQLExpression, reasons: string[]): boolean {
 
     if (expr.operator === 'AND') {
       // Check both sides
-      const leftOk = expr.left ? isAPICompatible(expr.left, reasons) : false;
-      const rightOk = expr.right ? isAPICompatible(expr.right, reasons) : false;
+      const leftOk = expr.left ? isAPICompatible(expr.left, reasons, semantics) : false;
+      const rightOk = expr.right ? isAPICompatible(expr.right, reasons, semantics) : false;
       return leftOk && rightOk;
     }
   }
@@ -1142,7 +2742,7 @@ function isAPICompatible(expr: DartQLExpression, reasons: string[]): boolean {
   // Handle group expressions
   if (expr.type === 'group') {
     if (expr.expressions && expr.expressions.length > 0) {
-      return expr.expressions.every(e => isAPICompatible(e, reasons));
+      return expr.expressions.every(e => isAPICompatible(e, reasons, semantics));
     }
   }
 
@@ -1153,7 +2753,7 @@ function isAPICompatible(expr: DartQLExpression, reasons: string[]): boolean {
  * Extract API-compatible filters from AST
  * Only called when isAPICompatible returns true
  */
-function extractAPIFilters(expr: DartQLExpression): Partial<ListTasksInput> {
+function extractAPIFilters(expr: DartQLExpression, semantics: DartQLSemantics = {}): Partial<ListTasksInput> {
   const filters: Partial<ListTasksInput> = {};
 
   if (expr.type === 'comparison') {
@@ -1168,14 +2768,17 @@ function extractAPIFilters(expr: DartQLExpression): Partial<ListTasksInput> {
     } else if (field === 'dartboard' && operator === '=') {
       filters.dartboard = value != null ? String(value) : '';
     } else if (field === 'priority' && operator === '=') {
-      // Priority should be a number; convert to number or 0 if invalid
-      const numValue = typeof value === 'number' ? value : parseFloat(String(value));
-      filters.priority = isNaN(numValue) ? 0 : numValue;
+      // Labels resolve to their rank ('High' → 4); isAPICompatible rejects the rest
+      const rank = rankOf(field, value, semantics);
+      if (rank !== null) filters.priority = rank;
     } else if (field === 'tags' && operator === '=') {
       // Single tag - convert to array
       filters.tags = value != null ? [String(value)] : [];
     } else if (field === 'due_at') {
-      if (operator === '<' || operator === '<=') {
+      if (operator === 'BETWEEN' && Array.isArray(value) && value.length === 2) {
+        filters.due_after = value[0] != null ? String(value[0]) : '';
+        filters.due_before = value[1] != null ? String(value[1]) : '';
+      } else if (operator === '<' || operator === '<=') {
         filters.due_before = value != null ? String(value) : '';
       } else if (operator === '>' || operator === '>=') {
         filters.due_after = value != null ? String(value) : '';
@@ -1183,34 +2786,360 @@ function extractAPIFilters(expr: DartQLExpression): Partial<ListTasksInput> {
     }
   } else if (expr.type === 'logical' && expr.operator === 'AND') {
     // Merge filters from both sides
-    const leftFilters = expr.left ? extractAPIFilters(expr.left) : {};
-    const rightFilters = expr.right ? extractAPIFilters(expr.right) : {};
+    const leftFilters = expr.left ? extractAPIFilters(expr.left, semantics) : {};
+    const rightFilters = expr.right ? extractAPIFilters(expr.right, semantics) : {};
 
     // Merge (note: duplicate fields will be overwritten - AST parser should prevent this)
     Object.assign(filters, leftFilters, rightFilters);
   } else if (expr.type === 'group') {
     // Extract from grouped expression
     if (expr.expressions && expr.expressions.length > 0) {
-      return extractAPIFilters(expr.expressions[0]);
+      return extractAPIFilters(expr.expressions[0], semantics);
     }
   }
 
   return filters;
 }
 
+/** ISO-8601 date prefix (2026-01-18, 2026-01-18T09:00:00Z) */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * Compare two values for range operators
+ * Numbers compare numerically, ISO dates chronologically (so '2026-01-18' and
+ * '2026-01-18T00:00:00.000Z' are equal), other strings lexically.
+ * Returns null when the values are not comparable.
+ */
+function compareOrdered(taskValue: unknown, value: unknown): number | null {
+  if (typeof taskValue === 'number' && typeof value === 'number') {
+    return taskValue - value;
+  }
+
+  if (typeof taskValue === 'string' && typeof value === 'string') {
+    if (ISO_DATE_PATTERN.test(taskValue) && ISO_DATE_PATTERN.test(value)) {
+      const taskTime = Date.parse(taskValue);
+      const valueTime = Date.parse(value);
+      if (!isNaN(taskTime) && !isNaN(valueTime)) {
+        return taskTime - valueTime;
+      }
+    }
+    return taskValue < value ? -1 : taskValue > value ? 1 : 0;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Field Semantics
+// ============================================================================
+// Tasks store assignees as an array, priorities/sizes as labels and
+// statuses/dartboards/tags as display names. These helpers make comparisons
+// mean what users expect: assignee = 'Alice' matches any assignee by name,
+// email or dart_id, priority >= 3 compares ranks, status = 'todo' resolves
+// through the workspace's statuses.
+
+import {
+  findDartboard,
+  findStatus,
+  findTag,
+  type DartBoard,
+  type DartConfig,
+  type DartStatus,
+  type DartTag,
+} from '../types/index.js';
+
+/**
+ * Workspace vocabulary used to resolve DartQL values (a DartConfig subset)
+ */
+export type DartQLSemantics = Partial<
+  Pick<DartConfig, 'assignees' | 'dartboards' | 'statuses' | 'tags' | 'priorities' | 'sizes' | 'customProperties'>
+>;
+
+/** DartQL fields stored under a different DartTask property */
+const TASK_PROPERTIES: Record<string, string> = {
+  assignee: 'assignees',
+};
+
+/** Fields whose values are names from the workspace config */
+const VOCABULARY_FIELDS = ['assignee', 'status', 'dartboard', 'tags'];
+
+/** Operators whose values name a vocabulary entry */
+const VOCABULARY_OPERATORS: readonly DartQLOperator[] = ['=', '!=', 'IN', 'NOT IN', 'CONTAINS'];
+
+/**
+ * Read a DartQL field from a task, following TASK_PROPERTIES and computing
+ * virtual fields as of `now`
+ */
+export function readTaskField(
+  taskObj: Record<string, unknown>,
+  field: string,
+  now: number,
+  relatedTasks: RelatedTaskMemo = new Map()
+): unknown {
+  if (isVirtualField(field)) return computeVirtualField(taskObj, field, now);
+  if (field === 'depth') return typeof taskObj.depth === 'number' ? taskObj.depth : depthOf(taskObj, relatedTasks);
+  if (isCustomPropertyField(field)) return readCustomProperty(taskObj, customPropertyName(field));
+  const property = TASK_PROPERTIES[field] ?? field;
+  const value = taskObj[property];
+  return value === undefined && property !== field ? taskObj[field] : value;
+}
+
+/**
+ * Rank of a priority/size value: configured label, built-in label, or number
+ */
+export function rankOf(field: string, value: unknown, semantics: DartQLSemantics): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  const label = value.toLowerCase().trim();
+  const configured = (field === 'priority' ? semantics.priorities : semantics.sizes)?.find(
+    entry => entry.label?.toLowerCase() === label
+  );
+  if (configured) return configured.value;
+
+  const ranks = field === 'priority' ? PRIORITY_RANK : SIZE_RANK;
+  if (label in ranks) return ranks[label];
+
+  const numeric = Number(label);
+  return isNaN(numeric) ? null : numeric;
+}
+
+/**
+ * Lowercased identifiers a task value may use for the given query value
+ * (name, email, dart_id), or null when the field has no vocabulary
+ */
+function vocabularyIdentifiers(field: string, value: unknown, semantics: DartQLSemantics): string[] | null {
+  if (typeof value !== 'string' || !VOCABULARY_FIELDS.includes(field)) {
+    return null;
+  }
+
+  const input = value.toLowerCase().trim();
+
+  if (field === 'assignee') {
+    const user = semantics.assignees?.find(a =>
+      [a.name, a.email, a.dart_id].some(id => id?.toLowerCase() === input)
+    );
+    return user ? [user.name, user.email, user.dart_id].filter(Boolean).map(id => id!.toLowerCase()) : [input];
+  }
+
+  const entry = resolveVocabulary(field, value, semantics);
+  if (entry === undefined) return [input];
+  if (typeof entry === 'string') return [entry.toLowerCase()];
+  return [entry.name, entry.dart_id].filter(Boolean).map(id => id.toLowerCase());
+}
+
+function resolveVocabulary(
+  field: string,
+  value: string,
+  semantics: DartQLSemantics
+): DartStatus | DartBoard | DartTag | string | undefined {
+  switch (field) {
+    case 'status':
+      return semantics.statuses && findStatus(semantics.statuses, value);
+    case 'dartboard':
+      return semantics.dartboards && findDartboard(semantics.dartboards, value);
+    case 'tags':
+      return semantics.tags && findTag(semantics.tags, value);
+    default:
+      return undefined;
+  }
+}
+
+function valuesEqual(field: string, taskValue: unknown, value: unknown, semantics: DartQLSemantics): boolean {
+  if (field === 'priority' || field === 'size') {
+    const taskRank = rankOf(field, taskValue, semantics);
+    const valueRank = rankOf(field, value, semantics);
+    if (taskRank !== null && valueRank !== null) {
+      return taskRank === valueRank;
+    }
+  }
+
+  const identifiers = vocabularyIdentifiers(field, value, semantics);
+  if (identifiers) {
+    return typeof taskValue === 'string' && identifiers.includes(taskValue.toLowerCase().trim());
+  }
+
+  // Custom property options compare case-insensitively, like workspace names
+  if (isCustomPropertyField(field) && typeof taskValue === 'string' && typeof value === 'string') {
+    return taskValue.toLowerCase().trim() === value.toLowerCase().trim();
+  }
+
+  return taskValue === value;
+}
+
+/**
+ * Order a task value against a query value (ranks for priority/size)
+ */
+function compareField(field: string, taskValue: unknown, value: unknown, semantics: DartQLSemantics): number | null {
+  if (field === 'priority' || field === 'size') {
+    const taskRank = rankOf(field, taskValue, semantics);
+    const valueRank = rankOf(field, value, semantics);
+    if (taskRank !== null && valueRank !== null) {
+      return taskRank - valueRank;
+    }
+  }
+
+  return compareOrdered(taskValue, value);
+}
+
+/**
+ * Rewrite vocabulary values to their canonical workspace names so they push
+ * down to the API as the API expects them (status = 'todo' → 'To Do')
+ *
+ * Values the workspace does not know are left as-is and reported in warnings.
+ */
+function canonicalizeValues(expr: DartQLExpression, semantics: DartQLSemantics, warnings: string[]): DartQLExpression {
+  if (expr.type !== 'comparison') {
+    return {
+      ...expr,
+      ...(expr.left && { left: canonicalizeValues(expr.left, semantics, warnings) }),
+      ...(expr.right && { right: canonicalizeValues(expr.right, semantics, warnings) }),
+      ...(expr.expressions && { expressions: expr.expressions.map(e => canonicalizeValues(e, semantics, warnings)) }),
+    };
+  }
+
+  if (expr.field && isCustomPropertyField(expr.field)) {
+    return canonicalizeCustomProperty(expr, semantics, warnings);
+  }
+
+  const field = expr.field?.toLowerCase() ?? '';
+  if (!VOCABULARY_FIELDS.includes(field) || !VOCABULARY_OPERATORS.includes(expr.operator as DartQLOperator)) {
+    return expr;
+  }
+
+  const canonical = (value: unknown): unknown => {
+    if (typeof value !== 'string') return value;
+
+    let name: string | undefined;
+    let known: boolean;
+    if (field === 'assignee') {
+      const input = value.toLowerCase().trim();
+      const user = semantics.assignees?.find(a => [a.name, a.email, a.dart_id].some(id => id?.toLowerCase() === input));
+      known = !semantics.assignees?.length || user !== undefined;
+      name = user && (user.email || user.name);
+    } else {
+      const entry = resolveVocabulary(field, value, semantics);
+      const list = field === 'status' ? semantics.statuses : field === 'dartboard' ? semantics.dartboards : semantics.tags;
+      known = !list?.length || entry !== undefined;
+      name = entry === undefined ? undefined : typeof entry === 'string' ? entry : entry.name;
+    }
+
+    if (!known) {
+      const warning = `Unknown ${field === 'tags' ? 'tag' : field} '${value}' (not in workspace config)`;
+      if (!warnings.includes(warning)) warnings.push(warning);
+    }
+
+    return name ?? value;
+  };
+
+  return {
+    ...expr,
+    value: Array.isArray(expr.value) ? expr.value.map(canonical) : canonical(expr.value),
+  };
+}
+
+/**
+ * Rewrite a custom property comparison to the property's workspace name and
+ * its select options to their configured spelling (prop.team = 'web' →
+ * prop.Team = 'Web'), warning about unknown properties and options
+ */
+function canonicalizeCustomProperty(
+  expr: DartQLExpression,
+  semantics: DartQLSemantics,
+  warnings: string[]
+): DartQLExpression {
+  const warn = (warning: string) => {
+    if (!warnings.includes(warning)) warnings.push(warning);
+  };
+
+  const name = customPropertyName(expr.field!);
+  if (!semantics.customProperties?.length) {
+    return expr;
+  }
+
+  const property = findCustomProperty(semantics.customProperties, name);
+  if (!property) {
+    warn(`Unknown custom property '${name}' (not in workspace config)`);
+    return expr;
+  }
+
+  const canonical = (value: unknown): unknown => {
+    if (typeof value !== 'string' || !property.options?.length) return value;
+    const option = findCustomPropertyOption(property, value);
+    if (option === undefined) warn(`Unknown option '${value}' for custom property '${property.name}'`);
+    return option ?? value;
+  };
+
+  return {
+    ...expr,
+    field: customPropertyField(property.name),
+    ...(VOCABULARY_OPERATORS.includes(expr.operator as DartQLOperator) && {
+      value: Array.isArray(expr.value) ? expr.value.map(canonical) : canonical(expr.value),
+    }),
+  };
+}
+
 /**
  * Build client-side filter function from AST
  */
-function buildClientSideFilter(expr: DartQLExpression): (task: unknown) => boolean {
+function buildClientSideFilter(
+  expr: DartQLExpression,
+  semantics: DartQLSemantics = {},
+  now: number = Date.now(),
+  relatedTasks: RelatedTaskMemo = new Map()
+): (task: unknown) => boolean {
   return (task: unknown) => {
-    return evaluateExpression(expr, task);
+    return evaluateExpression(expr, task, semantics, now, relatedTasks);
+  };
+}
+
+/**
+ * Build a filter over result rows keyed by column (aggregate_tasks groups)
+ *
+ * Comparisons read row[field] as stored rather than computing task fields,
+ * so a group's age_days is its key, and aggregates compare by their label
+ * (COUNT(*) > 5). Relationship and hierarchy predicates never match.
+ */
+export function buildRowFilter(
+  expr: DartQLExpression,
+  semantics: DartQLSemantics = {}
+): (row: Record<string, unknown>) => boolean {
+  const evaluate = (node: DartQLExpression, row: Record<string, unknown>): boolean => {
+    if (node.type === 'comparison' && node.field) {
+      const value = row[node.field];
+      if (node.operator === 'IS NULL' || node.operator === 'IS NOT NULL') {
+        const isNull = value === null || value === undefined;
+        return node.operator === 'IS NULL' ? isNull : !isNull;
+      }
+      return evaluateScalar(node.field, node.operator as DartQLOperator, value, node.value, semantics);
+    }
+    if (node.type === 'logical') {
+      if (node.operator === 'AND') return !!node.left && !!node.right && evaluate(node.left, row) && evaluate(node.right, row);
+      if (node.operator === 'OR') return (!!node.left && evaluate(node.left, row)) || (!!node.right && evaluate(node.right, row));
+      if (node.operator === 'NOT') return !!node.right && !evaluate(node.right, row);
+    }
+    if (node.type === 'group' && node.expressions?.[0]) {
+      return evaluate(node.expressions[0], row);
+    }
+    return false;
   };
+
+  return row => evaluate(expr, row);
 }
 
 /**
  * Evaluate AST expression against a task object
+ *
+ * Relationship predicates read related tasks from relatedTasks (filled by
+ * resolveRelatedTasks); related tasks missing from it never match.
  */
-function evaluateExpression(expr: DartQLExpression, task: unknown): boolean {
+function evaluateExpression(
+  expr: DartQLExpression,
+  task: unknown,
+  semantics: DartQLSemantics = {},
+  now: number = Date.now(),
+  relatedTasks: RelatedTaskMemo = new Map()
+): boolean {
   // Type guard for task object
   if (!task || typeof task !== 'object') {
     return false;
@@ -1220,127 +3149,643 @@ function evaluateExpression(expr: DartQLExpression, task: unknown): boolean {
 
   if (expr.type === 'comparison') {
     const field = expr.field?.toLowerCase();
-    const operator = expr.operator;
+    const operator = expr.operator as DartQLOperator;
     const value = expr.value;
 
     if (!field) return false;
 
-    const taskValue = taskObj[field];
+    const taskValue = readTaskField(taskObj, field, now, relatedTasks);
 
-    // Handle different operators
-    switch (operator) {
-      case '=':
-        return taskValue === value;
+    if (operator === 'IS NULL' || operator === 'IS NOT NULL') {
+      // For arrays (like relationship fields), empty array counts as null
+      const isNull = Array.isArray(taskValue) ? taskValue.length === 0 : taskValue === null || taskValue === undefined;
+      return operator === 'IS NULL' ? isNull : !isNull;
+    }
 
-      case '!=':
-        return taskValue !== value;
+    if (Array.isArray(taskValue)) {
+      // Array fields: negative operators must hold for every element (all),
+      // the others for at least one element (any)
+      if (NEGATIVE_OPERATORS.includes(operator)) {
+        return taskValue.every(element => evaluateScalar(field, operator, element, value, semantics));
+      }
+      const elementOperator = operator === 'CONTAINS' ? '=' : operator;
+      return taskValue.some(element => evaluateScalar(field, elementOperator, element, value, semantics));
+    }
 
-      case '>':
-        return typeof taskValue === 'number' && typeof value === 'number' && taskValue > value;
+    return evaluateScalar(field, operator, taskValue, value, semantics);
+  } else if (expr.type === 'logical') {
+    if (expr.operator === 'AND') {
+      const leftResult = expr.left ? evaluateExpression(expr.left, task, semantics, now, relatedTasks) : false;
+      const rightResult = expr.right ? evaluateExpression(expr.right, task, semantics, now, relatedTasks) : false;
+      return leftResult && rightResult;
+    } else if (expr.operator === 'OR') {
+      const leftResult = expr.left ? evaluateExpression(expr.left, task, semantics, now, relatedTasks) : false;
+      const rightResult = expr.right ? evaluateExpression(expr.right, task, semantics, now, relatedTasks) : false;
+      return leftResult || rightResult;
+    } else if (expr.operator === 'NOT') {
+      const result = expr.right ? evaluateExpression(expr.right, task, semantics, now, relatedTasks) : false;
+      return !result;
+    }
+  } else if (expr.type === 'group') {
+    if (expr.expressions && expr.expressions.length > 0) {
+      return evaluateExpression(expr.expressions[0], task, semantics, now, relatedTasks);
+    }
+  } else if (expr.type === 'relationship' && expr.relationship) {
+    const predicate = expr.expressions?.[0];
+    const related = relatedIdsOf(taskObj, expr.relationship)
+      .map(id => relatedTasks.get(id))
+      .filter((relatedTask): relatedTask is DartTask => !!relatedTask);
+    const matches = (relatedTask: DartTask) =>
+      !predicate || evaluateExpression(predicate, relatedTask, semantics, now, relatedTasks);
+
+    // ALL holds vacuously for tasks without related tasks, like SQL's ALL
+    return expr.quantifier === 'ALL' ? related.every(matches) : related.some(matches);
+  } else if (expr.type === 'hierarchy' && typeof expr.value === 'string') {
+    return evaluateHierarchy(expr.operator as DartQLHierarchyOperator, taskObj, expr.value, relatedTasks);
+  }
 
-      case '>=':
-        return typeof taskValue === 'number' && typeof value === 'number' && taskValue >= value;
+  return false;
+}
 
-      case '<':
-        if (typeof taskValue === 'number' && typeof value === 'number') {
-          return taskValue < value;
-        }
-        // String comparison for dates
-        if (typeof taskValue === 'string' && typeof value === 'string') {
-          return taskValue < value;
-        }
-        return false;
+/** Operators that must hold for every element of an array field */
+const NEGATIVE_OPERATORS: readonly DartQLOperator[] = ['!=', 'NOT IN', 'NOT LIKE', 'NOT ILIKE'];
 
-      case '<=':
-        if (typeof taskValue === 'number' && typeof value === 'number') {
-          return taskValue <= value;
-        }
-        if (typeof taskValue === 'string' && typeof value === 'string') {
-          return taskValue <= value;
-        }
-        return false;
+/**
+ * Evaluate a comparison against a single (non-array) task value
+ */
+function evaluateScalar(
+  field: string,
+  operator: DartQLOperator,
+  taskValue: unknown,
+  value: unknown,
+  semantics: DartQLSemantics
+): boolean {
+  switch (operator) {
+    case '=':
+      return valuesEqual(field, taskValue, value, semantics);
 
-      case 'IN':
-        if (Array.isArray(value)) {
-          return value.includes(taskValue);
-        }
-        return false;
+    case '!=':
+      return !valuesEqual(field, taskValue, value, semantics);
 
-      case 'NOT IN':
-        if (Array.isArray(value)) {
-          return !value.includes(taskValue);
-        }
-        return false;
+    case '>': {
+      const cmp = compareField(field, taskValue, value, semantics);
+      return cmp !== null && cmp > 0;
+    }
 
-      case 'CONTAINS':
-        if (Array.isArray(taskValue) && typeof value === 'string') {
-          return taskValue.includes(value);
-        }
-        if (typeof taskValue === 'string' && typeof value === 'string') {
-          return taskValue.includes(value);
-        }
-        return false;
+    case '>=': {
+      const cmp = compareField(field, taskValue, value, semantics);
+      return cmp !== null && cmp >= 0;
+    }
 
-      case 'LIKE':
-        if (typeof taskValue === 'string' && typeof value === 'string') {
-          // LIKE implementation: % means wildcard (any chars), _ means single char
-          // Escape regex special characters first, then replace wildcards
-          const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          const pattern = escaped.replace(/%/g, '.*').replace(/_/g, '.');
-          const regex = new RegExp(`^${pattern}$`, 'i'); // case-insensitive like SQL
-          return regex.test(taskValue);
-        }
-        return false;
+    case '<': {
+      const cmp = compareField(field, taskValue, value, semantics);
+      return cmp !== null && cmp < 0;
+    }
 
-      case 'IS NULL':
-        // For arrays (like relationship fields), empty array counts as null
-        if (Array.isArray(taskValue)) {
-          return taskValue.length === 0;
-        }
-        return taskValue === null || taskValue === undefined;
+    case '<=': {
+      const cmp = compareField(field, taskValue, value, semantics);
+      return cmp !== null && cmp <= 0;
+    }
 
-      case 'IS NOT NULL':
-        // For arrays (like relationship fields), must be non-empty array
-        if (Array.isArray(taskValue)) {
-          return taskValue.length > 0;
-        }
-        return taskValue !== null && taskValue !== undefined;
+    case 'IN':
+      if (Array.isArray(value)) {
+        return value.some(v => valuesEqual(field, taskValue, v, semantics));
+      }
+      return false;
 
-      case 'BETWEEN':
-        if (Array.isArray(value) && value.length === 2) {
-          const [min, max] = value;
-          if (typeof taskValue === 'number' && typeof min === 'number' && typeof max === 'number') {
-            return taskValue >= min && taskValue <= max;
-          }
-          if (typeof taskValue === 'string' && typeof min === 'string' && typeof max === 'string') {
-            return taskValue >= min && taskValue <= max;
-          }
-        }
-        return false;
+    case 'NOT IN':
+      if (Array.isArray(value)) {
+        return !value.some(v => valuesEqual(field, taskValue, v, semantics));
+      }
+      return false;
 
-      default:
-        return false;
+    case 'CONTAINS':
+      if (typeof taskValue === 'string' && typeof value === 'string') {
+        return taskValue.includes(value);
+      }
+      return false;
+
+    case 'LIKE':
+    case 'ILIKE':
+      // % means any characters, _ one character; case-insensitive like SQL
+      return typeof taskValue === 'string' && typeof value === 'string' && likeToRegExp(value).test(taskValue);
+
+    case 'NOT LIKE':
+    case 'NOT ILIKE':
+      return typeof taskValue === 'string' && typeof value === 'string' && !likeToRegExp(value).test(taskValue);
+
+    case 'STARTS WITH':
+      return typeof taskValue === 'string' && typeof value === 'string' && startsWithText(taskValue, value);
+
+    case 'ENDS WITH':
+      return typeof taskValue === 'string' && typeof value === 'string' && endsWithText(taskValue, value);
+
+    case 'CONTAINS WORD':
+      return typeof taskValue === 'string' && typeof value === 'string' && containsWord(taskValue, value);
+
+    case 'MATCHES':
+      return typeof taskValue === 'string' && isRegexValue(value) && compileRegex(value).test(taskValue);
+
+    case 'BETWEEN':
+      if (Array.isArray(value) && value.length === 2) {
+        const [min, max] = value;
+        const fromMin = compareField(field, taskValue, min, semantics);
+        const toMax = compareField(field, taskValue, max, semantics);
+        return fromMin !== null && toMax !== null && fromMin >= 0 && toMax <= 0;
+      }
+      return false;
+
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// Relationship and Hierarchy Predicates
+// ============================================================================
+// ANY blockers (status != 'Done') ranges over the tasks named by a task's
+// blocker_ids. The list API returns empty relationship arrays, so candidates
+// are re-fetched first (parent_task is listed and needs no re-fetch); related
+// tasks come from the fetcher with their own relationships for nested
+// predicates.
+//
+// DESCENDANT OF 'x' fetches x's subtask tree top-down, ANCESTOR OF 'x' and
+// depth fetch parent chains bottom-up; both walks stop at tasks already seen,
+// so cyclic parent/subtask links terminate.
+
+/** Related tasks by dart_id for one query (null: fetched but not found) */
+type RelatedTaskMemo = Map<string, DartTask | null>;
+
+/**
+ * Check whether an expression contains relationship predicates
+ */
+export function hasRelationshipPredicates(expr: DartQLExpression): boolean {
+  if (expr.type === 'relationship') return true;
+  return [expr.left, expr.right, ...(expr.expressions || [])].some(
+    child => child !== undefined && hasRelationshipPredicates(child)
+  );
+}
+
+/**
+ * Check whether evaluating an expression needs tasks beyond the candidates
+ * (relationship predicates, DESCENDANT OF / ANCESTOR OF, depth, and the
+ * relationship counts list responses leave at zero)
+ */
+function needsRelatedTasks(expr: DartQLExpression): boolean {
+  if (expr.type === 'relationship') return true;
+  if (expr.type === 'hierarchy') return expr.operator !== 'CHILD OF';
+  if (expr.type === 'comparison') return needsTaskResolution([expr.field ?? '']);
+  return [expr.left, expr.right, ...(expr.expressions || [])].some(
+    child => child !== undefined && needsRelatedTasks(child)
+  );
+}
+
+/**
+ * Outermost relationship and hierarchy predicates of an expression (nested
+ * ones are reached through their parent's related tasks)
+ */
+function collectRelatedPredicates(expr: DartQLExpression, found: DartQLExpression[] = []): DartQLExpression[] {
+  if (expr.type === 'relationship' || expr.type === 'hierarchy') {
+    found.push(expr);
+    return found;
+  }
+
+  if (expr.left) collectRelatedPredicates(expr.left, found);
+  if (expr.right) collectRelatedPredicates(expr.right, found);
+  expr.expressions?.forEach(e => collectRelatedPredicates(e, found));
+  return found;
+}
+
+/**
+ * Fields an expression compares outside relationship predicates
+ */
+function comparedFields(expr: DartQLExpression, found: string[] = []): string[] {
+  if (expr.type === 'relationship') return found;
+  if (expr.type === 'comparison' && expr.field) found.push(expr.field);
+  if (expr.left) comparedFields(expr.left, found);
+  if (expr.right) comparedFields(expr.right, found);
+  expr.expressions?.forEach(e => comparedFields(e, found));
+  return found;
+}
+
+/**
+ * Check whether fields (ORDER BY keys, columns, GROUP BY) need tasks beyond
+ * a list response: depth walks parent chains, relationship counts need the
+ * full tasks
+ */
+export function needsTaskResolution(fields: string[]): boolean {
+  return fields.some(field => field === 'depth' || isRelatedVirtualField(field));
+}
+
+/** What resolveRelatedTasks computes beyond the expression's own needs */
+interface TaskResolution {
+  /** Set depth on every task */
+  depth?: boolean;
+  /** Merge in full tasks (relationship arrays) */
+  relationships?: boolean;
+  /** Fetch blockers and set open_blocker_count */
+  openBlockers?: boolean;
+}
+
+/**
+ * Resolution needed by an expression's comparisons plus the given fields
+ */
+function resolutionOf(expr: DartQLExpression | undefined, fields: string[]): TaskResolution {
+  const compared = resolutionFor(expr ? comparedFields(expr) : []);
+  const read = resolutionFor(fields);
+  return {
+    depth: compared.depth || read.depth,
+    relationships: compared.relationships || read.relationships,
+    openBlockers: compared.openBlockers || read.openBlockers,
+  };
+}
+
+function resolutionFor(fields: string[]): TaskResolution {
+  return {
+    depth: fields.includes('depth'),
+    relationships: fields.some(isRelatedVirtualField),
+    openBlockers: fields.includes('has_open_blockers'),
+  };
+}
+
+function relatedIdsOf(task: Record<string, unknown>, relationship: DartQLRelationship): string[] {
+  const value = task[RELATIONSHIP_FIELDS[relationship]];
+  if (Array.isArray(value)) return value.filter((id): id is string => typeof id === 'string' && id !== '');
+  return typeof value === 'string' && value !== '' ? [value] : [];
+}
+
+/**
+ * IDs of a task's ancestors, nearest first, as far as the memo reaches
+ */
+function ancestorIdsOf(task: Record<string, unknown>, memo: RelatedTaskMemo): string[] {
+  const ids: string[] = [];
+  const seen = new Set([String(task.dart_id)]);
+  let parentId = task.parent_task;
+
+  while (typeof parentId === 'string' && parentId !== '' && !seen.has(parentId)) {
+    ids.push(parentId);
+    seen.add(parentId);
+    parentId = memo.get(parentId)?.parent_task;
+  }
+
+  return ids;
+}
+
+/**
+ * Levels below the top of the subtask tree, or null when an ancestor was not
+ * fetched or the parent chain loops
+ */
+function depthOf(task: Record<string, unknown>, memo: RelatedTaskMemo): number | null {
+  const seen = new Set([String(task.dart_id)]);
+  let parentId = task.parent_task;
+  let depth = 0;
+
+  while (typeof parentId === 'string' && parentId !== '') {
+    if (seen.has(parentId)) return null;
+    seen.add(parentId);
+    depth++;
+
+    const parent = memo.get(parentId);
+    if (parent === undefined) return null;
+    parentId = parent?.parent_task; // a deleted parent ends the chain
+  }
+
+  return depth;
+}
+
+function evaluateHierarchy(
+  operator: DartQLHierarchyOperator,
+  task: Record<string, unknown>,
+  dartId: string,
+  memo: RelatedTaskMemo
+): boolean {
+  switch (operator) {
+    case 'CHILD OF':
+      return task.parent_task === dartId;
+    case 'DESCENDANT OF':
+      return ancestorIdsOf(task, memo).includes(dartId);
+    case 'ANCESTOR OF': {
+      const target = memo.get(dartId);
+      return !!target && ancestorIdsOf(target as unknown as Record<string, unknown>, memo).includes(String(task.dart_id));
     }
-  } else if (expr.type === 'logical') {
-    if (expr.operator === 'AND') {
-      const leftResult = expr.left ? evaluateExpression(expr.left, task) : false;
-      const rightResult = expr.right ? evaluateExpression(expr.right, task) : false;
-      return leftResult && rightResult;
-    } else if (expr.operator === 'OR') {
-      const leftResult = expr.left ? evaluateExpression(expr.left, task) : false;
-      const rightResult = expr.right ? evaluateExpression(expr.right, task) : false;
-      return leftResult || rightResult;
-    } else if (expr.operator === 'NOT') {
-      const result = expr.right ? evaluateExpression(expr.right, task) : false;
-      return !result;
+  }
+}
+
+/**
+ * Fetch the tasks not yet in the memo, recording misses so they are not
+ * requested again
+ */
+async function fetchIntoMemo(ids: Iterable<string>, fetchTasks: TaskBatchFetcher, memo: RelatedTaskMemo): Promise<void> {
+  const missing = [...new Set(ids)].filter(id => !memo.has(id));
+  if (missing.length === 0) return;
+
+  const fetched = await fetchTasks(missing);
+  for (const id of missing) {
+    memo.set(id, fetched.get(id) ?? null);
+  }
+}
+
+/**
+ * Fetch a task and its whole subtask tree, one level per batch
+ */
+async function fetchDescendants(rootId: string, fetchTasks: TaskBatchFetcher, memo: RelatedTaskMemo): Promise<void> {
+  const visited = new Set<string>();
+  let level = [rootId];
+
+  while (level.length > 0) {
+    level.forEach(id => visited.add(id));
+    await fetchIntoMemo(level, fetchTasks, memo);
+    level = [...new Set(level.flatMap(id => memo.get(id)?.subtask_ids ?? []))].filter(id => !visited.has(id));
+  }
+}
+
+/**
+ * Fetch the parent chains of tasks up to the top of their trees, one level
+ * per batch
+ */
+async function fetchAncestors(tasks: DartTask[], fetchTasks: TaskBatchFetcher, memo: RelatedTaskMemo): Promise<void> {
+  const visited = new Set<string>();
+  const parentsOf = (parents: Array<DartTask | null | undefined>) =>
+    [...new Set(parents.map(task => task?.parent_task).filter((id): id is string => !!id && !visited.has(id)))];
+  let level = parentsOf(tasks);
+
+  while (level.length > 0) {
+    level.forEach(id => visited.add(id));
+    await fetchIntoMemo(level, fetchTasks, memo);
+    level = parentsOf(level.map(id => memo.get(id)));
+  }
+}
+
+/**
+ * Check whether candidates are fetched in full: list responses leave out the
+ * relationship arrays predicates other than parent (...) and counts read
+ */
+function hydratesCandidates(predicates: DartQLExpression[], resolution: TaskResolution): boolean {
+  return (
+    predicates.some(p => p.type === 'relationship' && p.relationship !== 'parent') ||
+    !!resolution.relationships
+  );
+}
+
+/**
+ * Describe the getTask() lookups resolving an expression and the given
+ * fields makes, for explain_query. Each related task is fetched once per
+ * query.
+ */
+export function describeTaskLookups(expr: DartQLExpression | undefined, fields: string[] = []): DartQLTaskLookup[] {
+  const predicates = expr ? collectRelatedPredicates(expr) : [];
+  const resolution = resolutionOf(expr, fields);
+  const lookups: DartQLTaskLookup[] = [];
+  const perCandidate = (description: string) => lookups.push({ description, perCandidate: true });
+
+  if (hydratesCandidates(predicates, resolution)) perCandidate('each candidate, for its relationship arrays');
+
+  for (const predicate of predicates) {
+    if (predicate.type === 'hierarchy') {
+      const target = `'${String(predicate.value)}'`;
+      if (predicate.operator === 'DESCENDANT OF') {
+        lookups.push({ description: `the subtask tree of ${target}`, perCandidate: false });
+      } else if (predicate.operator === 'ANCESTOR OF') {
+        lookups.push({ description: `${target} and its parent chain`, perCandidate: false });
+      }
+      continue;
     }
-  } else if (expr.type === 'group') {
-    if (expr.expressions && expr.expressions.length > 0) {
-      return evaluateExpression(expr.expressions[0], task);
+
+    const inner = predicate.expressions?.[0];
+    const nested = inner && needsRelatedTasks(inner) ? ', plus what the nested condition needs of them' : '';
+    perCandidate(`the ${predicate.relationship} of each candidate${nested}`);
+  }
+
+  if (resolution.openBlockers) perCandidate('the blockers of each candidate (has_open_blockers)');
+  if (resolution.depth) perCandidate('the parent chain of each candidate (depth)');
+
+  return lookups.filter((lookup, i) => lookups.findIndex(l => l.description === lookup.description) === i);
+}
+
+/**
+ * Hydrate candidates and fetch every task the expression's relationship and
+ * hierarchy predicates reach, level by level. Candidates are returned with
+ * depth set for a depth comparison (or resolution.depth), and with
+ * open_blocker_count set for has_open_blockers (or resolution.openBlockers).
+ */
+async function resolveRelatedTasks(
+  tasks: DartTask[],
+  expr: DartQLExpression | undefined,
+  fetchTasks: TaskBatchFetcher,
+  memo: RelatedTaskMemo,
+  resolution: TaskResolution = {}
+): Promise<DartTask[]> {
+  if (tasks.length === 0) return tasks;
+  const predicates = expr ? collectRelatedPredicates(expr) : [];
+  const needed = resolutionOf(expr, []);
+
+  let hydrated = tasks;
+  if (hydratesCandidates(predicates, needed) || resolution.relationships) {
+    await fetchIntoMemo(tasks.map(task => task.dart_id), fetchTasks, memo);
+    hydrated = tasks.map(task => {
+      const full = memo.get(task.dart_id);
+      return full ? { ...task, ...full } : task;
+    });
+  }
+
+  for (const predicate of predicates) {
+    if (predicate.type === 'hierarchy') {
+      const dartId = String(predicate.value);
+      if (predicate.operator === 'DESCENDANT OF') {
+        await fetchDescendants(dartId, fetchTasks, memo);
+      } else if (predicate.operator === 'ANCESTOR OF') {
+        await fetchIntoMemo([dartId], fetchTasks, memo);
+        const target = memo.get(dartId);
+        if (target) await fetchAncestors([target], fetchTasks, memo);
+      }
+      continue;
+    }
+
+    const ids = hydrated.flatMap(task => relatedIdsOf(task as unknown as Record<string, unknown>, predicate.relationship!));
+    await fetchIntoMemo(ids, fetchTasks, memo);
+
+    const inner = predicate.expressions?.[0];
+    if (inner && needsRelatedTasks(inner)) {
+      const related = ids.map(id => memo.get(id)).filter((task): task is DartTask => !!task);
+      await resolveRelatedTasks(related, inner, fetchTasks, memo);
     }
   }
 
-  return false;
+  if (needed.openBlockers || resolution.openBlockers) {
+    // Deleted blockers (null in the memo) no longer block
+    const blockerIds = (task: DartTask) => relatedIdsOf(task as unknown as Record<string, unknown>, 'blockers');
+    await fetchIntoMemo(hydrated.flatMap(blockerIds), fetchTasks, memo);
+    hydrated = hydrated.map(task => {
+      const openBlockers = blockerIds(task).filter(id => {
+        const blocker = memo.get(id);
+        return !!blocker && !blocker.completed_at;
+      });
+      const resolved = { ...task, open_blocker_count: openBlockers.length };
+      // Related tasks are evaluated from the memo (ANY subtasks (has_open_blockers = true))
+      if (memo.get(task.dart_id)) memo.set(task.dart_id, resolved);
+      return resolved;
+    });
+  }
+
+  if (needed.depth || resolution.depth) {
+    await fetchAncestors(hydrated, fetchTasks, memo);
+    hydrated = hydrated.map(task => {
+      const depth = depthOf(task as unknown as Record<string, unknown>, memo);
+      return depth === null ? task : { ...task, depth };
+    });
+  }
+
+  return hydrated;
+}
+
+/**
+ * Set depth on tasks by fetching their parent chains (for depth columns and
+ * ORDER BY depth outside a WHERE clause)
+ */
+export function resolveTaskDepths(tasks: DartTask[], fetchTasks: TaskBatchFetcher): Promise<DartTask[]> {
+  return resolveRelatedTasks(tasks, undefined, fetchTasks, new Map(), { depth: true });
+}
+
+/**
+ * Resolve what the given fields need (see needsTaskResolution): depth, full
+ * tasks for relationship counts, blockers for has_open_blockers
+ */
+export function resolveTaskFields(
+  tasks: DartTask[],
+  fields: string[],
+  fetchTasks: TaskBatchFetcher
+): Promise<DartTask[]> {
+  return resolveRelatedTasks(tasks, undefined, fetchTasks, new Map(), resolutionFor(fields));
+}
+
+// ============================================================================
+// Result Clauses (ORDER BY / LIMIT / OFFSET)
+// ============================================================================
+
+/** Priority labels ranked to match the numeric scale (5 = critical) */
+const PRIORITY_RANK: Record<string, number> = {
+  critical: 5,
+  high: 4,
+  medium: 3,
+  low: 2,
+};
+
+/** Size labels ranked smallest to largest */
+const SIZE_RANK: Record<string, number> = {
+  xs: 1,
+  small: 2,
+  medium: 3,
+  large: 4,
+  xl: 5,
+};
+
+const DATE_FIELDS = ['created_at', 'updated_at', 'due_at', 'start_at', 'completed_at'];
+
+/**
+ * Resolve a task field to a comparable sort key
+ * Returns null for missing/empty values (and priority/size labels without a
+ * rank) so they always sort last
+ */
+function sortKey(task: unknown, field: string, semantics: DartQLSemantics): number | string | null {
+  if (!task || typeof task !== 'object') {
+    return null;
+  }
+
+  const taskObj = task as Record<string, unknown>;
+
+  if (isVirtualField(field)) {
+    const computed = computeVirtualField(taskObj, field);
+    return typeof computed === 'boolean' ? Number(computed) : computed;
+  }
+
+  let value = isCustomPropertyField(field) ? readCustomProperty(taskObj, customPropertyName(field)) : taskObj[field];
+  if (typeof value === 'boolean') {
+    value = Number(value);
+  }
+
+  // DartTask stores assignees as an array; fall back to it for 'assignee'
+  if (value === undefined && field === 'assignee') {
+    value = taskObj.assignees;
+  }
+
+  if (Array.isArray(value)) {
+    value = value.length > 0 ? value.map(String).join(',') : null;
+  }
+
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  if (field === 'priority' || field === 'size') {
+    return rankOf(field, value, semantics);
+  }
+
+  if (DATE_FIELDS.includes(field)) {
+    const time = Date.parse(String(value));
+    return isNaN(time) ? null : time;
+  }
+
+  return typeof value === 'number' ? value : String(value).toLowerCase();
+}
+
+/**
+ * Sort tasks by one or more ORDER BY keys
+ *
+ * Type-aware: priority/size by workspace rank (as WHERE compares them), dates chronologically, numbers numerically,
+ * strings case-insensitively, virtual fields by computed value (false < true). Missing values sort last in both directions.
+ * The sort is stable, so ties keep their original (API) order.
+ *
+ * @param tasks - Tasks to sort (not mutated)
+ * @param orderBy - Sort keys in precedence order
+ * @param semantics - Workspace priority/size ranks
+ * @returns New sorted array
+ */
+export function sortTasks<T>(tasks: T[], orderBy: DartQLOrderBy[], semantics: DartQLSemantics = {}): T[] {
+  if (orderBy.length === 0) {
+    return [...tasks];
+  }
+
+  return [...tasks].sort((a, b) => {
+    for (const { field, direction } of orderBy) {
+      const keyA = sortKey(a, field, semantics);
+      const keyB = sortKey(b, field, semantics);
+
+      if (keyA === null && keyB === null) continue;
+      if (keyA === null) return 1;
+      if (keyB === null) return -1;
+
+      let cmp: number;
+      if (typeof keyA === 'number' && typeof keyB === 'number') {
+        cmp = keyA - keyB;
+      } else {
+        cmp = String(keyA).localeCompare(String(keyB));
+      }
+
+      if (cmp !== 0) {
+        return direction === 'DESC' ? -cmp : cmp;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Apply ORDER BY, then OFFSET and LIMIT, to already-filtered tasks
+ *
+ * @param tasks - Tasks matching the WHERE clause
+ * @param clauses - Result clauses (a ConvertToFiltersResult or DartQLParseResult)
+ * @param semantics - Workspace priority/size ranks for ORDER BY
+ * @returns New array with the ordered, windowed result set
+ */
+export function applyResultClauses<T>(
+  tasks: T[],
+  clauses: DartQLResultClauses,
+  semantics: DartQLSemantics = {}
+): T[] {
+  const sorted = clauses.orderBy ? sortTasks(tasks, clauses.orderBy, semantics) : tasks;
+  const start = clauses.offset ?? 0;
+  const end = clauses.limit !== undefined ? start + clauses.limit : undefined;
+  return sorted.slice(start, end);
 }
 
 // ============================================================================
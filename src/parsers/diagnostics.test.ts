@@ -0,0 +1,127 @@
+/**
+ * DartQL Diagnostics Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diagnoseDartQL, renderDiagnostic, formatDiagnostics } from './diagnostics.js';
+import { parseDartQLToAST } from './dartql.js';
+import type { DartQLSemantics } from './dartql.js';
+
+const config: DartQLSemantics = {
+  statuses: [{ dart_id: 'st1', name: 'To Do' }, { dart_id: 'st2', name: 'Done' }],
+  dartboards: [{ dart_id: 'db1', name: 'Engineering' }],
+  tags: ['bug', 'feature'],
+  assignees: [{ dart_id: 'u1', name: 'Alice', email: 'alice@example.com' }],
+  customProperties: [{ name: 'Team', type: 'Select', options: ['Web', 'Mobile'] }],
+};
+
+describe('parse diagnostics', () => {
+  it('should locate unknown fields and suggest the closest fields', () => {
+    const result = parseDartQLToAST("stauts = 'Done'");
+
+    expect(result.diagnostics).toEqual([{
+      message: "Unknown field: 'stauts'",
+      start: 0,
+      end: 6,
+      severity: 'error',
+      suggestions: ['status'],
+    }]);
+  });
+
+  it('should locate parser errors on the offending token', () => {
+    const result = parseDartQLToAST("status = 'Done' AND priority >");
+
+    expect(result.diagnostics![0]).toMatchObject({ start: 30, end: 31, severity: 'error' });
+    expect(result.diagnostics![0].message).toContain('Expected value');
+  });
+
+  it('should record tokenizer errors and offset leading whitespace', () => {
+    const result = parseDartQLToAST("  status = 'Done");
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics![0]).toMatchObject({ start: 11, end: 12 });
+    expect(result.diagnostics![0].message).toContain('Unterminated string literal');
+  });
+});
+
+describe('diagnoseDartQL', () => {
+  it('should return no diagnostics for known values', () => {
+    expect(diagnoseDartQL(
+      "status IN ('to do', 'st2') AND dartboard = 'Engineering' AND tags CONTAINS 'bug' AND assignee = 'alice@example.com'",
+      config
+    )).toEqual([]);
+  });
+
+  it('should suggest statuses for unknown status values', () => {
+    expect(diagnoseDartQL("status = 'Doen'", config)).toEqual([{
+      message: "Unknown status 'Doen'",
+      start: 9,
+      end: 15,
+      severity: 'error',
+      suggestions: ['Done'],
+    }]);
+  });
+
+  it('should check every value in an IN list and assignee names and emails', () => {
+    const diagnostics = diagnoseDartQL("tags IN ('bug', 'featur') OR assignee = 'Alcie'", config);
+
+    expect(diagnostics.map(d => d.message)).toEqual(["Unknown tag 'featur'", "Unknown assignee 'Alcie'"]);
+    expect(diagnostics[0].suggestions).toEqual(['feature']);
+    expect(diagnostics[1].suggestions).toEqual(['Alice']);
+  });
+
+  it('should not check values of LIKE or vocabularies missing from the config', () => {
+    expect(diagnoseDartQL("status LIKE 'Do%' AND title = 'Doen'", config)).toEqual([]);
+    expect(diagnoseDartQL("status = 'Doen'", {})).toEqual([]);
+  });
+
+  it('should report unknown custom properties as errors and options as warnings', () => {
+    const diagnostics = diagnoseDartQL("prop.Teem = 'Web' OR prop.team = 'Wbe'", config);
+
+    expect(diagnostics).toEqual([
+      { message: "Unknown custom property 'Teem'", start: 0, end: 9, severity: 'error', suggestions: ['Team'] },
+      { message: "Unknown option 'Wbe' for custom property 'Team'", start: 33, end: 38, severity: 'warning', suggestions: ['Web'] },
+    ]);
+  });
+
+  it('should check bound parameter values at the placeholder', () => {
+    expect(diagnoseDartQL('status = :status', config, { params: { status: 'Doen' } })).toEqual([{
+      message: "Unknown status 'Doen'",
+      start: 9,
+      end: 16,
+      severity: 'error',
+      suggestions: ['Done'],
+    }]);
+  });
+
+  it('should return parse diagnostics without checking values', () => {
+    const diagnostics = diagnoseDartQL("stauts = 'Doen'", config);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe("Unknown field: 'stauts'");
+  });
+});
+
+describe('renderDiagnostic', () => {
+  it('should underline the span with carets and list suggestions', () => {
+    const query = "status = 'Doen'";
+    const [diagnostic] = diagnoseDartQL(query, config);
+
+    expect(renderDiagnostic(query, diagnostic)).toBe([
+      "error: Unknown status 'Doen' (did you mean 'Done'?)",
+      "  status = 'Doen'",
+      '           ^^^^^^',
+    ].join('\n'));
+  });
+
+  it('should render the line containing the span of a multi-line query', () => {
+    const query = "status = 'Done'\nAND stauts = 'To Do'";
+    const diagnostics = parseDartQLToAST(query).diagnostics!;
+
+    expect(formatDiagnostics(query, diagnostics)).toBe([
+      "error: Unknown field: 'stauts' (did you mean 'status'?)",
+      "  AND stauts = 'To Do'",
+      '      ^^^^^^',
+    ].join('\n'));
+  });
+});
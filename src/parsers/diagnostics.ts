@@ -0,0 +1,203 @@
+/**
+ * DartQL Diagnostics
+ *
+ * Structured problems for a DartQL query: parse errors from the tokenizer,
+ * lexer and parser, plus values the workspace does not know (status = 'Doen'),
+ * each with the offending span and the closest valid alternatives.
+ *
+ * renderDiagnostic shows the span under the query line:
+ *
+ *   error: Unknown status 'Doen' (did you mean 'Done'?)
+ *     status = 'Doen'
+ *              ^^^^^^
+ */
+
+import type { DartQLBindings, DartQLDiagnostic } from '../types/index.js';
+import {
+  DartQLTokenizer,
+  TokenType,
+  normalizeFieldName,
+  parseDartQLToAST,
+  type DartQLSemantics,
+  type Token,
+} from './dartql.js';
+import {
+  customPropertyName,
+  findCustomProperty,
+  findCustomPropertyOption,
+  isCustomPropertyField,
+} from './customProperties.js';
+import { findClosestMatches } from './csv.js';
+
+/** Operators whose values must name a vocabulary entry or select option */
+const VALUE_OPERATORS = [TokenType.EQUALS, TokenType.NOT_EQUALS, TokenType.IN, TokenType.CONTAINS];
+
+/** Display names of vocabulary fields in messages */
+const VOCABULARY_LABELS: Record<string, string> = {
+  status: 'status',
+  dartboard: 'dartboard',
+  tags: 'tag',
+  assignee: 'assignee',
+};
+
+// ============================================================================
+// Diagnosis
+// ============================================================================
+
+/**
+ * Diagnose a DartQL query
+ *
+ * Parse errors are returned as-is. A query that parses is checked against the
+ * workspace: unknown statuses, dartboards, tags, assignees and custom
+ * properties are errors; unknown select options are warnings. Vocabularies the
+ * config leaves empty are not checked.
+ *
+ * @param query - DartQL query as written by the user
+ * @param semantics - Workspace vocabulary (usually the DartConfig)
+ * @param bindings - Values for :name parameters and `me`, checked like literals
+ * @returns Diagnostics in query order (empty when the query is fine)
+ */
+export function diagnoseDartQL(
+  query: string,
+  semantics: DartQLSemantics = {},
+  bindings: DartQLBindings = {}
+): DartQLDiagnostic[] {
+  const parseResult = parseDartQLToAST(query, bindings);
+  if (parseResult.errors.length > 0) {
+    return parseResult.diagnostics ?? [];
+  }
+
+  // The query tokenized above, so this cannot throw
+  const tokens = new DartQLTokenizer(query, bindings).tokenize();
+  const indent = query.length - query.trimStart().length;
+  const diagnostics: DartQLDiagnostic[] = [];
+
+  let field = '';
+  let checkValues = false;
+
+  for (const token of tokens) {
+    if (token.type === TokenType.IDENTIFIER) {
+      field = normalizeFieldName(token.value);
+      checkValues = false;
+
+      const unknown = isCustomPropertyField(field) && diagnoseCustomProperty(field, token, semantics);
+      if (unknown) diagnostics.push(unknown);
+    } else if (VALUE_OPERATORS.includes(token.type)) {
+      checkValues = true;
+    } else if (token.type === TokenType.STRING && checkValues) {
+      const diagnostic = diagnoseValue(field, token, semantics);
+      if (diagnostic) diagnostics.push(diagnostic);
+    } else if (token.type !== TokenType.LPAREN && token.type !== TokenType.COMMA && token.type !== TokenType.NOT) {
+      checkValues = false;
+    }
+  }
+
+  return diagnostics.map(d => ({ ...d, start: d.start + indent, end: d.end + indent }));
+}
+
+function diagnoseValue(field: string, token: Token, semantics: DartQLSemantics): DartQLDiagnostic | null {
+  if (isCustomPropertyField(field)) {
+    const property = findCustomProperty(semantics.customProperties, customPropertyName(field));
+    if (!property?.options?.length || findCustomPropertyOption(property, token.value) !== undefined) {
+      return null;
+    }
+    return diagnostic(
+      `Unknown option '${token.value}' for custom property '${property.name}'`,
+      token,
+      findClosestMatches(token.value, property.options),
+      'warning'
+    );
+  }
+
+  const label = VOCABULARY_LABELS[field];
+  const entries = label ? vocabularyEntries(field, semantics) : [];
+  if (entries.length === 0) return null;
+
+  const input = token.value.toLowerCase().trim();
+  if (entries.some(entry => entry.ids.some(id => id.toLowerCase() === input))) return null;
+
+  return diagnostic(
+    `Unknown ${label} '${token.value}'`,
+    token,
+    findClosestMatches(token.value, entries.flatMap(entry => entry.names))
+  );
+}
+
+function diagnoseCustomProperty(field: string, token: Token, semantics: DartQLSemantics): DartQLDiagnostic | null {
+  const properties = semantics.customProperties;
+  const name = customPropertyName(field);
+  if (!properties?.length || findCustomProperty(properties, name)) return null;
+
+  return diagnostic(
+    `Unknown custom property '${name}'`,
+    token,
+    findClosestMatches(name, properties.map(p => p.name))
+  );
+}
+
+/**
+ * Vocabulary entries for a field: every identifier a value may use, and the
+ * names worth suggesting (dart_ids are accepted but never suggested)
+ */
+function vocabularyEntries(field: string, semantics: DartQLSemantics): Array<{ ids: string[]; names: string[] }> {
+  const named = (entry: string | { dart_id: string; name: string }) =>
+    typeof entry === 'string' ? { ids: [entry], names: [entry] } : { ids: [entry.name, entry.dart_id], names: [entry.name] };
+
+  switch (field) {
+    case 'status':
+      return (semantics.statuses ?? []).map(named);
+    case 'dartboard':
+      return (semantics.dartboards ?? []).map(named);
+    case 'tags':
+      return (semantics.tags ?? []).map(named);
+    case 'assignee':
+      return (semantics.assignees ?? []).map(user => {
+        const names = [user.name, user.email].filter((id): id is string => !!id);
+        return { ids: user.dart_id ? [...names, user.dart_id] : names, names };
+      });
+    default:
+      return [];
+  }
+}
+
+function diagnostic(
+  message: string,
+  token: Token,
+  suggestions: string[],
+  severity: DartQLDiagnostic['severity'] = 'error'
+): DartQLDiagnostic {
+  return { message, start: token.position, end: token.position + token.length, severity, suggestions };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a diagnostic with carets under the offending span of its query line
+ */
+export function renderDiagnostic(query: string, diagnostic: DartQLDiagnostic): string {
+  const lineStart = query.lastIndexOf('\n', diagnostic.start - 1) + 1;
+  const newline = query.indexOf('\n', lineStart);
+  const line = query.slice(lineStart, newline === -1 ? undefined : newline);
+
+  const column = Math.min(diagnostic.start - lineStart, line.length);
+  const width = Math.max(1, Math.min(diagnostic.end - diagnostic.start, line.length - column));
+
+  const hint = diagnostic.suggestions.length > 0
+    ? ` (did you mean ${diagnostic.suggestions.map(s => `'${s}'`).join(', ')}?)`
+    : '';
+
+  return [
+    `${diagnostic.severity}: ${diagnostic.message}${hint}`,
+    `  ${line}`,
+    `  ${' '.repeat(column)}${'^'.repeat(width)}`,
+  ].join('\n');
+}
+
+/**
+ * Render diagnostics one after another, separated by blank lines
+ */
+export function formatDiagnostics(query: string, diagnostics: DartQLDiagnostic[]): string {
+  return diagnostics.map(d => renderDiagnostic(query, d)).join('\n\n');
+}
@@ -0,0 +1,133 @@
+/**
+ * DartQL Printer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDartQLToAST } from './dartql.js';
+import { formatDartQL, formatDartQLField, formatDartQLValue } from './printer.js';
+import { ValidationError } from '../types/index.js';
+import type { DartQLExpression } from '../types/index.js';
+
+function format(query: string): string {
+  const result = parseDartQLToAST(query);
+  expect(result.errors).toEqual([]);
+  return formatDartQL(result.ast, result);
+}
+
+/** Group nodes only record parentheses, so drop them before comparing trees */
+function stripGroups(expr: DartQLExpression | undefined): DartQLExpression | undefined {
+  if (!expr) return expr;
+  if (expr.type === 'group') return stripGroups(expr.expressions?.[0]);
+  return {
+    ...expr,
+    ...(expr.left && { left: stripGroups(expr.left) }),
+    ...(expr.right && { right: stripGroups(expr.right) }),
+    ...(expr.expressions && { expressions: expr.expressions.map(e => stripGroups(e) as DartQLExpression) }),
+  };
+}
+
+describe('formatDartQL', () => {
+  it('should normalize keyword case, field case, quoting and spacing', () => {
+    expect(format("Status='todo' and (priority>=3 or tags contains \"bug\")")).toBe(
+      "status = 'todo' AND (priority >= 3 OR tags CONTAINS 'bug')"
+    );
+    expect(format('assignee is not null and due_at is null')).toBe('assignee IS NOT NULL AND due_at IS NULL');
+    expect(format("status not in ('Done', \"Archived\") and priority between 2 and 5")).toBe(
+      "status NOT IN ('Done', 'Archived') AND priority BETWEEN 2 AND 5"
+    );
+  });
+
+  it('should only keep parentheses precedence needs', () => {
+    expect(format('((priority = 1 AND size = 2) OR tags = "test")')).toBe("priority = 1 AND size = 2 OR tags = 'test'");
+    expect(format('priority = 1 AND (size = 2 AND tags = "test")')).toBe(
+      "priority = 1 AND (size = 2 AND tags = 'test')"
+    );
+    expect(format('NOT (priority = 1)')).toBe('NOT priority = 1');
+    expect(format('NOT (priority = 1 OR size = 2)')).toBe('NOT (priority = 1 OR size = 2)');
+    expect(format('(((priority = 1)))')).toBe('priority = 1');
+  });
+
+  it('should print set operations, relationships and hierarchy operators', () => {
+    expect(format("status = 'Todo' UNION tags CONTAINS 'bug' INTERSECT priority = 'high' EXCEPT assignee = 'bob'")).toBe(
+      "status = 'Todo' UNION tags CONTAINS 'bug' INTERSECT priority = 'high' EXCEPT assignee = 'bob'"
+    );
+    expect(format("any blocker (status != 'Done') and not parent (dartboard = 'Roadmap')")).toBe(
+      "ANY blockers (status != 'Done') AND NOT parent (dartboard = 'Roadmap')"
+    );
+    expect(format("DESCENDANT OF 'epic' AND NOT CHILD OF 'story'")).toBe("DESCENDANT OF 'epic' AND NOT CHILD OF 'story'");
+  });
+
+  it('should reject set operations nested inside filter operators', () => {
+    const set = parseDartQLToAST("status = 'Todo' UNION priority = 'high'").ast;
+    const nested: DartQLExpression = { type: 'logical', operator: 'AND', left: set, right: set.right };
+
+    expect(() => formatDartQL(nested)).toThrow(ValidationError);
+  });
+
+  it('should print result clauses, and only them for a clauses-only query', () => {
+    expect(format("status = 'Todo' ORDER BY priority DESC, title ASC LIMIT 5 OFFSET 10")).toBe(
+      "status = 'Todo' ORDER BY priority DESC, title ASC LIMIT 5 OFFSET 10"
+    );
+    expect(format('LIMIT 5')).toBe('LIMIT 5');
+  });
+});
+
+describe('formatDartQLValue', () => {
+  it('should escape quotes, backslashes and control characters', () => {
+    expect(formatDartQLValue("it's a \\path\n")).toBe("'it\\'s a \\\\path\\n'");
+    expect(formatDartQLValue(true)).toBe('true');
+    expect(formatDartQLValue(null)).toBe('NULL');
+    expect(formatDartQLValue(-3)).toBe('-3');
+  });
+
+  it('should print date functions and ranges by name', () => {
+    expect(format('due_at < TODAY() - 7d')).toBe('due_at < today() - 7d');
+    expect(format('due_at BETWEEN today() AND today() + 1w')).toBe('due_at BETWEEN today() AND today() + 1w');
+    expect(format('due_at IN this_week')).toBe('due_at IN this_week');
+  });
+
+  it('should print regular expressions as literals, or strings when a literal cannot hold them', () => {
+    expect(format('title MATCHES /^[a/b]\\/x/i')).toBe('title MATCHES /^[a/b]\\/x/i');
+    expect(formatDartQLValue({ kind: 'regex', source: 'a/b', flags: '' })).toBe("'a/b'");
+    expect(() => formatDartQLValue({ kind: 'regex', source: 'a/b', flags: 'i' })).toThrow(ValidationError);
+  });
+});
+
+describe('formatDartQLField', () => {
+  it('should quote custom property names and keep aggregate labels', () => {
+    expect(formatDartQLField('prop.Story Points')).toBe('prop."Story Points"');
+    expect(formatDartQLField('prop.Team')).toBe('prop.Team');
+    expect(formatDartQLField('COUNT(*)')).toBe('COUNT(*)');
+    expect(formatDartQLField('AVG(Age_Days)')).toBe('AVG(age_days)');
+  });
+});
+
+describe('DartQL round trip', () => {
+  const queries = [
+    "status = 'Todo' AND priority >= 3",
+    'priority = 1 OR size = 2 AND tags = "test"',
+    '(priority = 1 OR size = 2) AND (tags = "test" OR status = "Todo")',
+    'priority = 1 AND (size = 2 OR (tags = "a" AND NOT (status = "b" OR status = "c")))',
+    "NOT NOT status = 'Done'",
+    'status IN ("Todo", "In Progress") AND assignee IS NOT NULL',
+    "title LIKE '%it\\'s%' OR title NOT ILIKE 'wip%' OR description CONTAINS WORD 'auth'",
+    "title MATCHES /^\\[JIRA-\\d+\\]/ AND title STARTS WITH 'Fix' AND title ENDS WITH '\\\\'",
+    'due_at BETWEEN today() - 1mo AND today() + 2w OR created_at IN last_week',
+    "prop.\"Story Points\" >= -3 AND prop.team = 'web\\nmobile'",
+    "ALL blockers (completed_at IS NOT NULL) AND NOT ANY subtasks (status = 'Blocked' OR priority = 'high')",
+    "DESCENDANT OF 'epic' AND NOT CHILD OF 'story'",
+    "status = 'Todo' UNION tags CONTAINS 'bug' INTERSECT (priority = 'high' OR size = 1) EXCEPT assignee = 'bob'",
+  ];
+
+  it.each(queries)('should parse the printed form of %s back to the same tree', query => {
+    const original = parseDartQLToAST(query);
+    expect(original.errors).toEqual([]);
+
+    const printed = formatDartQL(original.ast);
+    const reparsed = parseDartQLToAST(printed);
+
+    expect(reparsed.errors).toEqual([]);
+    expect(stripGroups(reparsed.ast)).toEqual(stripGroups(original.ast));
+    expect(formatDartQL(reparsed.ast)).toBe(printed);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * DartQL Printer
+ *
+ * Turns a DartQLExpression back into DartQL text, so tools can echo a
+ * selector as the server understood it (relative dates and workspace names
+ * resolved):
+ *
+ *   status='todo' and (priority>=3 or tags contains "bug")
+ *   → status = 'To Do' AND (priority >= 3 OR tags CONTAINS 'bug')
+ *
+ * Output is canonical: keywords upper-case, booleans lower-case, strings
+ * single-quoted, one space around operators, and parentheses only where
+ * precedence (OR < AND < NOT) or a right-nested chain needs them. Parsing the
+ * output gives back the same tree up to group nodes, which only record
+ * parentheses.
+ */
+
+import type {
+  DartQLDateFunction,
+  DartQLDateRange,
+  DartQLExpression,
+  DartQLOrderBy,
+  DartQLRegex,
+} from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { AGGREGATE_FUNCTIONS } from './dartql.js';
+import { customPropertyName, formatCustomPropertyField, isCustomPropertyField } from './customProperties.js';
+import { formatRegex, isRegexValue } from './textMatching.js';
+
+/** ORDER BY / LIMIT / OFFSET printed after the expression */
+export interface DartQLPrintClauses {
+  orderBy?: DartQLOrderBy[];
+  limit?: number;
+  offset?: number;
+}
+
+/** Binding strength: set operators loosest, comparisons and predicates tightest */
+const PRECEDENCE: Record<string, number> = {
+  UNION: 1,
+  EXCEPT: 1,
+  INTERSECT: 2,
+  OR: 3,
+  AND: 4,
+  NOT: 5,
+};
+
+const PRIMARY = 6;
+
+const AGGREGATE_LABEL = new RegExp(`^(${AGGREGATE_FUNCTIONS.join('|')})\\((.+)\\)$`);
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+/**
+ * Print an expression (and optional result clauses) as canonical DartQL
+ *
+ * An empty group, the AST of a clauses-only query, prints as an empty
+ * expression: formatDartQL(ast, { limit: 5 }) → 'LIMIT 5'.
+ *
+ * @throws ValidationError for trees the parser cannot produce, such as a set
+ *   operation nested inside AND
+ */
+export function formatDartQL(expr: DartQLExpression, clauses: DartQLPrintClauses = {}): string {
+  const parts = [printExpression(expr)];
+
+  if (clauses.orderBy && clauses.orderBy.length > 0) {
+    parts.push(`ORDER BY ${clauses.orderBy.map(key => `${formatDartQLField(key.field)} ${key.direction}`).join(', ')}`);
+  }
+  if (clauses.limit !== undefined) parts.push(`LIMIT ${clauses.limit}`);
+  if (clauses.offset !== undefined) parts.push(`OFFSET ${clauses.offset}`);
+
+  return parts.filter(part => part !== '').join(' ');
+}
+
+function printExpression(expr: DartQLExpression): string {
+  switch (expr.type) {
+    case 'group':
+      // Groups only record parentheses; operands are re-parenthesized by precedence
+      return expr.expressions?.[0] ? printExpression(expr.expressions[0]) : '';
+
+    case 'set':
+    case 'logical': {
+      const operator = String(expr.operator);
+      const precedence = PRECEDENCE[operator];
+      if (operator === 'NOT') {
+        return `NOT ${printOperand(expr.right, precedence, false, expr)}`;
+      }
+      return [
+        printOperand(expr.left, precedence, false, expr),
+        operator,
+        printOperand(expr.right, precedence, true, expr),
+      ].join(' ');
+    }
+
+    case 'relationship': {
+      const quantifier = expr.quantifier ? `${expr.quantifier} ` : '';
+      const predicate = expr.expressions?.[0];
+      return `${quantifier}${expr.relationship} (${predicate ? printExpression(predicate) : ''})`;
+    }
+
+    case 'hierarchy':
+      return `${expr.operator} ${formatDartQLValue(expr.value)}`;
+
+    case 'comparison':
+      return printComparison(expr);
+  }
+}
+
+/**
+ * Print an operand of a logical or set operator, parenthesized when it binds
+ * looser than its parent, or as loose on the right (a AND (b AND c))
+ */
+function printOperand(
+  operand: DartQLExpression | undefined,
+  parentPrecedence: number,
+  isRight: boolean,
+  parent: DartQLExpression
+): string {
+  if (!operand) {
+    throw new ValidationError(`${parent.operator} is missing an operand`);
+  }
+
+  const inner = unwrapGroups(operand);
+  const precedence = precedenceOf(inner);
+  const needsParens = precedence < parentPrecedence || (isRight && precedence === parentPrecedence);
+  if (!needsParens) return printExpression(inner);
+
+  // Parentheses hold a filter expression, never a set operation
+  if (inner.type === 'set') {
+    throw new ValidationError(`${inner.operator} cannot be nested inside ${parent.operator} in DartQL`);
+  }
+  return `(${printExpression(inner)})`;
+}
+
+function unwrapGroups(expr: DartQLExpression): DartQLExpression {
+  let inner = expr;
+  while (inner.type === 'group' && inner.expressions?.[0]) {
+    inner = inner.expressions[0];
+  }
+  return inner;
+}
+
+function precedenceOf(expr: DartQLExpression): number {
+  return expr.type === 'logical' || expr.type === 'set' ? PRECEDENCE[String(expr.operator)] : PRIMARY;
+}
+
+function printComparison(expr: DartQLExpression): string {
+  const field = formatDartQLField(expr.field ?? '');
+  const value = expr.value;
+
+  switch (expr.operator) {
+    case 'IS NULL':
+    case 'IS NOT NULL':
+      return `${field} ${expr.operator}`;
+
+    case 'BETWEEN': {
+      const [start, end] = Array.isArray(value) ? value : [];
+      return `${field} BETWEEN ${formatDartQLValue(start)} AND ${formatDartQLValue(end)}`;
+    }
+
+    case 'IN':
+    case 'NOT IN':
+      return Array.isArray(value)
+        ? `${field} ${expr.operator} (${value.map(formatDartQLValue).join(', ')})`
+        : `${field} ${expr.operator} ${formatDartQLValue(value)}`;
+
+    default:
+      return `${field} ${expr.operator} ${formatDartQLValue(value)}`;
+  }
+}
+
+// ============================================================================
+// Fields and Values
+// ============================================================================
+
+/**
+ * Print a field: lower-case names, prop.Name or prop."Story Points" for
+ * custom properties, COUNT(*) / AVG(age_days) for aggregate labels
+ */
+export function formatDartQLField(field: string): string {
+  const aggregate = field.match(AGGREGATE_LABEL);
+  if (aggregate) {
+    return `${aggregate[1]}(${aggregate[2] === '*' ? '*' : formatDartQLField(aggregate[2])})`;
+  }
+  return isCustomPropertyField(field) ? formatCustomPropertyField(customPropertyName(field)) : field.toLowerCase();
+}
+
+/**
+ * Print a literal: strings single-quoted with \\, \' and control characters
+ * escaped, booleans as true/false, null as NULL, date functions and ranges
+ * by name, regular expressions as /source/flags
+ */
+export function formatDartQLValue(value: unknown): string {
+  if (typeof value === 'string') return quoteString(value);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (value === null || value === undefined) return 'NULL';
+  if (isRegexValue(value)) return formatRegexLiteral(value);
+  if (isDateFunction(value)) return formatDateFunction(value);
+  if (isDateRange(value)) return value.range;
+  return String(value);
+}
+
+function quoteString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `'${escaped}'`;
+}
+
+/**
+ * A regex literal ends at the first unescaped '/' outside [...] and at line
+ * breaks; other patterns print as the string form MATCHES accepts
+ */
+function formatRegexLiteral(regex: DartQLRegex): string {
+  let inClass = false;
+  let literal = !regex.source.includes('\n');
+
+  for (let i = 0; literal && i < regex.source.length; i++) {
+    const char = regex.source[i];
+    if (char === '\\') i++;
+    else if (char === '[') inClass = true;
+    else if (char === ']') inClass = false;
+    else if (char === '/' && !inClass) literal = false;
+  }
+
+  if (literal) return formatRegex(regex);
+  if (regex.flags === '') return quoteString(regex.source);
+  throw new ValidationError(`Regular expression /${regex.source}/${regex.flags} cannot be written in DartQL`);
+}
+
+function formatDateFunction(value: DartQLDateFunction): string {
+  const offsets = value.offsets.map(({ amount, unit }) => ` ${amount < 0 ? '-' : '+'} ${Math.abs(amount)}${unit}`);
+  return `${value.fn}()${offsets.join('')}`;
+}
+
+function isDateFunction(value: unknown): value is DartQLDateFunction {
+  return !!value && typeof value === 'object' && (value as { kind?: unknown }).kind === 'date_function';
+}
+
+function isDateRange(value: unknown): value is DartQLDateRange {
+  return !!value && typeof value === 'object' && (value as { kind?: unknown }).kind === 'date_range';
+}
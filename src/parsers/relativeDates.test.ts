@@ -0,0 +1,131 @@
+/**
+ * Relative Date Resolution Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createDateContext, resolveDateFunction, resolveDateRange } from './relativeDates.js';
+import { ValidationError } from '../types/index.js';
+import type { DartQLDateFunction } from '../types/index.js';
+
+function fn(name: DartQLDateFunction['fn'], ...offsets: DartQLDateFunction['offsets']): DartQLDateFunction {
+  return { kind: 'date_function', fn: name, offsets };
+}
+
+// Sunday 2026-01-18, 15:30 UTC
+const NOW = Date.UTC(2026, 0, 18, 15, 30);
+
+describe('createDateContext', () => {
+  afterEach(() => {
+    delete process.env.DART_TIMEZONE;
+  });
+
+  it('should prefer DartConfig.today over the clock', () => {
+    const ctx = createDateContext({ today: '2026-03-05', now: NOW });
+    expect(ctx.today).toBe('2026-03-05');
+  });
+
+  it('should accept a full timestamp as DartConfig.today', () => {
+    const ctx = createDateContext({ today: '2026-03-05T00:00:00Z', now: NOW });
+    expect(ctx.today).toBe('2026-03-05');
+  });
+
+  it('should derive today from the clock in the configured timezone', () => {
+    // 2026-01-18 15:30 UTC is already 2026-01-19 in Tokyo
+    expect(createDateContext({ now: NOW, timezone: 'Asia/Tokyo' }).today).toBe('2026-01-19');
+    expect(createDateContext({ now: NOW, timezone: 'UTC' }).today).toBe('2026-01-18');
+  });
+
+  it('should read the timezone from DART_TIMEZONE and default to UTC', () => {
+    expect(createDateContext({ now: NOW }).timezone).toBe('UTC');
+
+    process.env.DART_TIMEZONE = 'Europe/Berlin';
+    expect(createDateContext({ now: NOW }).timezone).toBe('Europe/Berlin');
+  });
+
+  it('should reject unknown timezones', () => {
+    expect(() => createDateContext({ timezone: 'Mars/Olympus_Mons' })).toThrow(ValidationError);
+    expect(() => createDateContext({ timezone: 'Mars/Olympus_Mons' })).toThrow("Invalid timezone: 'Mars/Olympus_Mons'");
+  });
+});
+
+describe('resolveDateFunction', () => {
+  const utc = createDateContext({ today: '2026-01-18', now: NOW, timezone: 'UTC' });
+
+  it('should resolve today() to local midnight', () => {
+    expect(resolveDateFunction(fn('today'), utc)).toBe('2026-01-18T00:00:00.000Z');
+  });
+
+  it('should resolve now() to the current instant', () => {
+    expect(resolveDateFunction(fn('now'), utc)).toBe('2026-01-18T15:30:00.000Z');
+  });
+
+  it('should apply day, week and hour offsets', () => {
+    expect(resolveDateFunction(fn('today', { amount: -7, unit: 'd' }), utc)).toBe('2026-01-11T00:00:00.000Z');
+    expect(resolveDateFunction(fn('now', { amount: 2, unit: 'w' }), utc)).toBe('2026-02-01T15:30:00.000Z');
+    expect(resolveDateFunction(fn('now', { amount: -3, unit: 'h' }), utc)).toBe('2026-01-18T12:30:00.000Z');
+  });
+
+  it('should apply multiple offsets in order', () => {
+    const expr = fn('today', { amount: 1, unit: 'w' }, { amount: -1, unit: 'd' });
+    expect(resolveDateFunction(expr, utc)).toBe('2026-01-24T00:00:00.000Z');
+  });
+
+  it('should clamp month arithmetic to the end of the month', () => {
+    const ctx = createDateContext({ today: '2026-01-31', now: NOW, timezone: 'UTC' });
+    expect(resolveDateFunction(fn('today', { amount: 1, unit: 'mo' }), ctx)).toBe('2026-02-28T00:00:00.000Z');
+  });
+
+  it('should resolve start_of_week() to Monday', () => {
+    // 2026-01-18 is a Sunday - the week started Monday 2026-01-12
+    expect(resolveDateFunction(fn('start_of_week'), utc)).toBe('2026-01-12T00:00:00.000Z');
+
+    const monday = createDateContext({ today: '2026-01-12', now: NOW, timezone: 'UTC' });
+    expect(resolveDateFunction(fn('start_of_week'), monday)).toBe('2026-01-12T00:00:00.000Z');
+  });
+
+  it('should resolve start_of_month()', () => {
+    expect(resolveDateFunction(fn('start_of_month'), utc)).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('should resolve midnight in the configured timezone', () => {
+    const newYork = createDateContext({ today: '2026-01-18', now: NOW, timezone: 'America/New_York' });
+    expect(resolveDateFunction(fn('today'), newYork)).toBe('2026-01-18T05:00:00.000Z');
+  });
+
+  it('should keep local midnight across DST changes', () => {
+    // US DST starts 2026-03-08: EST (UTC-5) before, EDT (UTC-4) after
+    const newYork = createDateContext({ today: '2026-03-10', now: NOW, timezone: 'America/New_York' });
+    expect(resolveDateFunction(fn('today'), newYork)).toBe('2026-03-10T04:00:00.000Z');
+    expect(resolveDateFunction(fn('today', { amount: -7, unit: 'd' }), newYork)).toBe('2026-03-03T05:00:00.000Z');
+  });
+});
+
+describe('resolveDateRange', () => {
+  const utc = createDateContext({ today: '2026-01-18', now: NOW, timezone: 'UTC' });
+
+  it('should resolve day ranges', () => {
+    expect(resolveDateRange('today', utc)).toEqual({
+      start: '2026-01-18T00:00:00.000Z',
+      end: '2026-01-19T00:00:00.000Z',
+    });
+    expect(resolveDateRange('yesterday', utc).start).toBe('2026-01-17T00:00:00.000Z');
+    expect(resolveDateRange('tomorrow', utc).start).toBe('2026-01-19T00:00:00.000Z');
+  });
+
+  it('should resolve week ranges starting Monday', () => {
+    expect(resolveDateRange('this_week', utc)).toEqual({
+      start: '2026-01-12T00:00:00.000Z',
+      end: '2026-01-19T00:00:00.000Z',
+    });
+    expect(resolveDateRange('last_week', utc).start).toBe('2026-01-05T00:00:00.000Z');
+    expect(resolveDateRange('next_week', utc).end).toBe('2026-01-26T00:00:00.000Z');
+  });
+
+  it('should resolve month ranges', () => {
+    expect(resolveDateRange('last_month', utc)).toEqual({
+      start: '2025-12-01T00:00:00.000Z',
+      end: '2026-01-01T00:00:00.000Z',
+    });
+    expect(resolveDateRange('next_month', utc).end).toBe('2026-03-01T00:00:00.000Z');
+  });
+});
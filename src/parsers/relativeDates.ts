@@ -0,0 +1,248 @@
+/**
+ * Relative Date Resolution for DartQL
+ *
+ * Resolves date functions and keyword ranges to ISO timestamps:
+ * - Functions: today(), now(), start_of_week(), start_of_month()
+ * - Arithmetic: today() - 7d, now() + 2w, start_of_month() + 1mo
+ * - Ranges: due_at IN this_week, created_at IN last_month
+ *
+ * Calendar math (days, weeks, months) happens on the wall clock of the
+ * configured timezone, so "today() - 7d" is always local midnight even
+ * across DST changes. Hours are added as elapsed time.
+ */
+
+import { ValidationError } from '../types/index.js';
+import type { DartQLDateFunction, DartQLDateRange, DartQLDurationUnit } from '../types/index.js';
+
+// ============================================================================
+// Vocabulary
+// ============================================================================
+
+/** Date functions callable as name() */
+export const DATE_FUNCTIONS = ['today', 'now', 'start_of_week', 'start_of_month'] as const;
+
+/** Keyword ranges usable with IN / NOT IN */
+export const DATE_RANGES = [
+  'today',
+  'yesterday',
+  'tomorrow',
+  'this_week',
+  'last_week',
+  'next_week',
+  'this_month',
+  'last_month',
+  'next_month',
+] as const;
+
+/** Duration units for date arithmetic (7d, 2w, 3h, 1mo) */
+export const DURATION_UNITS: readonly DartQLDurationUnit[] = ['h', 'd', 'w', 'mo'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// Context
+// ============================================================================
+
+/**
+ * Reference point for resolving relative dates
+ */
+export interface DateContext {
+  /** Today's calendar date in the context timezone (YYYY-MM-DD) */
+  today: string;
+  /** Current instant in epoch milliseconds */
+  now: number;
+  /** IANA timezone name (e.g., 'America/New_York') */
+  timezone: string;
+}
+
+export interface DateContextOptions {
+  /** DartConfig.today - takes precedence over the clock for today() */
+  today?: string;
+  /** IANA timezone; defaults to DART_TIMEZONE env var, then UTC */
+  timezone?: string;
+  /** Current time override (defaults to Date.now()) */
+  now?: Date | number;
+}
+
+/**
+ * Build a DateContext from DartConfig.today and the configured timezone
+ *
+ * @throws ValidationError if the timezone is not a valid IANA name
+ */
+export function createDateContext(options: DateContextOptions = {}): DateContext {
+  const timezone = options.timezone || process.env.DART_TIMEZONE || 'UTC';
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new ValidationError(
+      `Invalid timezone: '${timezone}'. Use an IANA name such as 'UTC' or 'America/New_York' (DART_TIMEZONE)`,
+      'timezone'
+    );
+  }
+
+  const now = options.now instanceof Date ? options.now.getTime() : (options.now ?? Date.now());
+  const configToday = options.today?.match(/^(\d{4}-\d{2}-\d{2})/)?.[1];
+  const today = configToday ?? formatYMD(toWallClock(now, timezone));
+
+  return { today, now, timezone };
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Resolve a date function (with optional offsets) to an ISO timestamp
+ *
+ * @example
+ * resolveDateFunction({ kind: 'date_function', fn: 'today', offsets: [{ amount: -7, unit: 'd' }] }, ctx)
+ * // → '2026-01-11T00:00:00.000Z' when today is 2026-01-18 in UTC
+ */
+export function resolveDateFunction(expr: DartQLDateFunction, context: DateContext): string {
+  let wall = anchorWallClock(expr.fn, context);
+
+  for (const offset of expr.offsets) {
+    wall = addDuration(wall, offset.amount, offset.unit);
+  }
+
+  return new Date(toInstant(wall, context.timezone)).toISOString();
+}
+
+/**
+ * Resolve a keyword range to a half-open [start, end) pair of ISO timestamps
+ */
+export function resolveDateRange(
+  range: DartQLDateRange['range'],
+  context: DateContext
+): { start: string; end: string } {
+  const today = parseYMD(context.today);
+  let start: number;
+  let unit: DartQLDurationUnit;
+
+  switch (range) {
+    case 'today':
+    case 'yesterday':
+    case 'tomorrow':
+      start = addDuration(today, range === 'today' ? 0 : range === 'yesterday' ? -1 : 1, 'd');
+      unit = 'd';
+      break;
+    case 'this_week':
+    case 'last_week':
+    case 'next_week':
+      start = addDuration(startOfWeek(today), range === 'this_week' ? 0 : range === 'last_week' ? -1 : 1, 'w');
+      unit = 'w';
+      break;
+    case 'this_month':
+    case 'last_month':
+    case 'next_month':
+      start = addDuration(startOfMonth(today), range === 'this_month' ? 0 : range === 'last_month' ? -1 : 1, 'mo');
+      unit = 'mo';
+      break;
+    default:
+      throw new ValidationError(`Unknown date range: '${range}'. Valid ranges: ${DATE_RANGES.join(', ')}`);
+  }
+
+  const end = addDuration(start, 1, unit);
+
+  return {
+    start: new Date(toInstant(start, context.timezone)).toISOString(),
+    end: new Date(toInstant(end, context.timezone)).toISOString(),
+  };
+}
+
+// ============================================================================
+// Wall-Clock Helpers
+// ============================================================================
+// A "wall clock" value is the local date/time in the context timezone encoded
+// as if it were UTC, so Date.UTC / getUTC* arithmetic works on local fields.
+
+function anchorWallClock(fn: DartQLDateFunction['fn'], context: DateContext): number {
+  const today = parseYMD(context.today);
+
+  switch (fn) {
+    case 'today':
+      return today;
+    case 'now':
+      return toWallClock(context.now, context.timezone);
+    case 'start_of_week':
+      return startOfWeek(today);
+    case 'start_of_month':
+      return startOfMonth(today);
+    default:
+      throw new ValidationError(`Unknown date function: '${fn}()'. Valid functions: ${DATE_FUNCTIONS.join(', ')}`);
+  }
+}
+
+/** Monday of the week containing the given day (ISO weeks) */
+function startOfWeek(wall: number): number {
+  const dayOfWeek = new Date(wall).getUTCDay(); // 0 = Sunday
+  return addDuration(wall, -((dayOfWeek + 6) % 7), 'd');
+}
+
+function startOfMonth(wall: number): number {
+  const date = new Date(wall);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+function addDuration(wall: number, amount: number, unit: DartQLDurationUnit): number {
+  const date = new Date(wall);
+
+  switch (unit) {
+    case 'h':
+      return wall + amount * HOUR_MS;
+    case 'd':
+      date.setUTCDate(date.getUTCDate() + amount);
+      return date.getTime();
+    case 'w':
+      date.setUTCDate(date.getUTCDate() + amount * 7);
+      return date.getTime();
+    case 'mo': {
+      // Clamp to the last day of the target month (Jan 31 + 1mo → Feb 28)
+      const day = date.getUTCDate();
+      date.setUTCDate(1);
+      date.setUTCMonth(date.getUTCMonth() + amount);
+      const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+      date.setUTCDate(Math.min(day, lastDay));
+      return date.getTime();
+    }
+  }
+}
+
+function parseYMD(ymd: string): number {
+  const [year, month, day] = ymd.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatYMD(wall: number): string {
+  return new Date(wall).toISOString().slice(0, 10);
+}
+
+/** Offset of the timezone from UTC at the given instant, in milliseconds */
+function timezoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+
+  const get = (type: string): number => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return asUTC - Math.floor(instant / 1000) * 1000;
+}
+
+function toWallClock(instant: number, timezone: string): number {
+  return instant + timezoneOffset(instant, timezone);
+}
+
+function toInstant(wall: number, timezone: string): number {
+  // Two passes settle the offset when the wall time sits near a DST change
+  const guess = wall - timezoneOffset(wall, timezone);
+  return wall - timezoneOffset(guess, timezone);
+}
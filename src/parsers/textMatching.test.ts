@@ -0,0 +1,85 @@
+/**
+ * DartQL Text Matching Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkRegexSafety,
+  compileRegex,
+  containsWord,
+  endsWithText,
+  likeToRegExp,
+  startsWithText,
+} from './textMatching.js';
+
+describe('likeToRegExp', () => {
+  it('should translate wildcards and escape regex characters', () => {
+    expect(likeToRegExp('fix(%)_x').test('Fix(login)-x')).toBe(true);
+    expect(likeToRegExp('a.b').test('axb')).toBe(false);
+  });
+
+  it('should let % span lines', () => {
+    expect(likeToRegExp('%api%').test('Intro\nThe API changed')).toBe(true);
+  });
+});
+
+describe('prefix, suffix and word matching', () => {
+  it('should compare prefixes and suffixes case-insensitively', () => {
+    expect(startsWithText('WIP: auth', 'wip:')).toBe(true);
+    expect(endsWithText('Release notes?', 'NOTES?')).toBe(true);
+    expect(startsWithText('auth', 'authentication')).toBe(false);
+  });
+
+  it('should match whole words and phrases only', () => {
+    expect(containsWord('Fix auth flow', 'AUTH')).toBe(true);
+    expect(containsWord('Fix author list', 'auth')).toBe(false);
+    expect(containsWord('oauth_token leak', 'token')).toBe(false);
+    expect(containsWord('Löschen der Ä-Liste', 'der')).toBe(true);
+    expect(containsWord('the login page is slow', 'login page')).toBe(true);
+    expect(containsWord('anything', '  ')).toBe(false);
+  });
+});
+
+describe('checkRegexSafety', () => {
+  it('should accept ordinary patterns', () => {
+    expect(checkRegexSafety('^\\[JIRA-\\d+\\]', '')).toBeNull();
+    expect(checkRegexSafety('(foo|bar)baz', 'i')).toBeNull();
+    expect(checkRegexSafety('[(+*)]+', '')).toBeNull();
+    expect(checkRegexSafety('(ab?){1}x*', '')).toBeNull();
+    expect(checkRegexSafety('^\\s*\\w+:\\d+$', '')).toBeNull();
+    expect(checkRegexSafety('a+?b+', '')).toBeNull();
+  });
+
+  it('should reject nested quantifiers', () => {
+    for (const source of ['(a+)+', '(a*)*b', '(\\w+\\s?)*$', '((ab)+c){2,}', '(?:x{2,5})+']) {
+      expect(checkRegexSafety(source, ''), source).toContain('nested quantifiers');
+    }
+  });
+
+  it('should reject repeated alternations', () => {
+    for (const source of ['^(a|a)*$', '(a|aa)+$', '(\\w|\\d)+$', '(foo|bar)+baz', '((x|y)z)+']) {
+      expect(checkRegexSafety(source, ''), source).toContain('repeated alternations');
+    }
+  });
+
+  it('should reject adjacent repeats that overlap', () => {
+    for (const source of ['\\d+\\d+$', '\\d+\\w*x', '.*.*=', '[a-f]+a{2,}', 'a+?A+']) {
+      expect(checkRegexSafety(source, source === 'a+?A+' ? 'i' : ''), source).toContain('adjacent repeats');
+    }
+  });
+
+  it('should reject backreferences, bad flags, long and invalid patterns', () => {
+    expect(checkRegexSafety('(a)\\1', '')).toContain('backreferences');
+    expect(checkRegexSafety('a', 'g')).toContain("unsupported flag 'g'");
+    expect(checkRegexSafety('a'.repeat(501), '')).toContain('longer than 500');
+    expect(checkRegexSafety('(a', '')).toContain('Invalid regular expression');
+  });
+});
+
+describe('compileRegex', () => {
+  it('should compile each value once', () => {
+    const value = { kind: 'regex' as const, source: '^fix', flags: 'i' };
+    expect(compileRegex(value)).toBe(compileRegex(value));
+    expect(compileRegex(value).test('FIX login')).toBe(true);
+  });
+});
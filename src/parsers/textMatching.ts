@@ -0,0 +1,249 @@
+/**
+ * DartQL Text Matching
+ *
+ * Pattern operators on text fields:
+ * - LIKE / ILIKE 'fix%': SQL wildcards (% any run of characters, _ one)
+ * - STARTS WITH / ENDS WITH 'wip': prefix and suffix
+ * - CONTAINS WORD 'auth': whole words only ('auth' does not match 'author')
+ * - MATCHES /^\[JIRA-\d+\]/i: JavaScript regular expression
+ *
+ * All but MATCHES ignore case; MATCHES follows its flags. Regular
+ * expressions are checked by checkRegexSafety before they run: patterns
+ * like (a+)+ or (a|a)* backtrack exponentially on titles they do not match.
+ */
+
+import type { DartQLRegex } from '../types/index.js';
+
+/** Longest regular expression source MATCHES accepts */
+export const MAX_REGEX_LENGTH = 500;
+
+/** Flags MATCHES accepts (g and y would make RegExp.test stateful) */
+export const REGEX_FLAGS = ['i', 'm', 's', 'u'];
+
+/** Letters, digits and underscore continue a word */
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ============================================================================
+// Wildcard, Prefix and Word Matching
+// ============================================================================
+
+/**
+ * Compile a LIKE pattern: % matches any characters, _ exactly one
+ */
+export function likeToRegExp(pattern: string): RegExp {
+  const escaped = escapeRegExp(pattern);
+  return new RegExp(`^${escaped.replace(/%/g, '.*').replace(/_/g, '.')}$`, 'is');
+}
+
+/**
+ * Check whether text starts with a prefix (case-insensitive)
+ */
+export function startsWithText(text: string, prefix: string): boolean {
+  return text.toLowerCase().startsWith(prefix.toLowerCase());
+}
+
+/**
+ * Check whether text ends with a suffix (case-insensitive)
+ */
+export function endsWithText(text: string, suffix: string): boolean {
+  return text.toLowerCase().endsWith(suffix.toLowerCase());
+}
+
+/**
+ * Check whether text contains a word or phrase not touching other letters,
+ * digits or underscores (case-insensitive)
+ */
+export function containsWord(text: string, word: string): boolean {
+  const trimmed = word.trim();
+  if (trimmed === '') return false;
+  return new RegExp(`(?<!${WORD_CHAR})${escapeRegExp(trimmed)}(?!${WORD_CHAR})`, 'iu').test(text);
+}
+
+// ============================================================================
+// Regular Expressions
+// ============================================================================
+
+/** Characters tried when deciding whether two atoms can match the same text */
+const OVERLAP_PROBES = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  'é', 'ß', 'Ж', '中', ' ', ' ',
+];
+
+/** Open group while scanning: does it contain a repeated atom, an alternation? */
+interface GroupScan {
+  repeats: boolean;
+  alternates: boolean;
+}
+
+/**
+ * Find why a regular expression must not run, or null if it is safe
+ *
+ * Rejects invalid patterns, stateful or unknown flags, backreferences and the
+ * shapes that cause catastrophic backtracking: nested quantifiers ((a+)+,
+ * (\w*\s?)*), repeated alternations ((a|aa)+, (\w|\d)+) and adjacent repeats
+ * that can match the same characters (\d+\w*, .*.*).
+ */
+export function checkRegexSafety(source: string, flags: string = ''): string | null {
+  if (source.length > MAX_REGEX_LENGTH) {
+    return `pattern is longer than ${MAX_REGEX_LENGTH} characters`;
+  }
+
+  const badFlag = [...flags].find(flag => !REGEX_FLAGS.includes(flag));
+  if (badFlag) {
+    return `unsupported flag '${badFlag}' (supported: ${REGEX_FLAGS.join(', ')})`;
+  }
+
+  try {
+    new RegExp(source, flags);
+  } catch (error) {
+    return (error as Error).message;
+  }
+
+  const groups: GroupScan[] = [];
+  let closedGroup: GroupScan | null = null;
+  // Single-character atom just read, and the repeated atom directly before it
+  let atom: string | null = null;
+  let repeatedAtom: string | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const group = closedGroup;
+    const previous = atom;
+    closedGroup = null;
+    atom = null;
+
+    const quantifier = repetitionAt(source, i);
+    if (quantifier > 0) {
+      if (group?.repeats) {
+        return 'nested quantifiers such as (a+)+ can take exponential time';
+      }
+      if (group?.alternates) {
+        return 'repeated alternations such as (a|aa)+ can take exponential time';
+      }
+      if (previous !== null && repeatedAtom !== null && atomsOverlap(repeatedAtom, previous, flags)) {
+        return 'adjacent repeats that match the same characters, such as \\d+\\w*, can take polynomial time';
+      }
+      repeatedAtom = previous;
+      if (groups.length > 0) groups[groups.length - 1].repeats = true;
+      i += quantifier - 1;
+      continue;
+    }
+
+    // '?' makes an atom optional (or a quantifier lazy); the run of repeats goes on
+    if (char === '?') {
+      continue;
+    }
+
+    // An atom read without a quantifier ends the run
+    if (previous !== null) repeatedAtom = null;
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(source[i + 1] ?? '')) {
+        return 'backreferences are not supported';
+      }
+      atom = source.slice(i, i + 2);
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      // Skip the character class; quantifiers inside it are literal
+      const start = i;
+      for (i++; i < source.length && source[i] !== ']'; i++) {
+        if (source[i] === '\\') i++;
+      }
+      atom = source.slice(start, i + 1);
+      continue;
+    }
+
+    // Groups, alternatives and anchors end the run too
+    if ('()|^$'.includes(char)) repeatedAtom = null;
+
+    if (char === '(') {
+      groups.push({ repeats: false, alternates: false });
+      continue;
+    }
+
+    if (char === ')') {
+      closedGroup = groups.pop() ?? null;
+      const parent = groups[groups.length - 1];
+      if (closedGroup && parent) {
+        parent.repeats ||= closedGroup.repeats;
+        parent.alternates ||= closedGroup.alternates;
+      }
+      continue;
+    }
+
+    if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1].alternates = true;
+      continue;
+    }
+
+    if (char !== '^' && char !== '$') {
+      atom = char;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether two single-character atoms (a, \d, [a-z], .) match a common
+ * character; atoms that do not compile alone count as overlapping
+ */
+function atomsOverlap(a: string, b: string, flags: string): boolean {
+  try {
+    const first = new RegExp(`^(?:${a})$`, flags);
+    const second = new RegExp(`^(?:${b})$`, flags);
+    return OVERLAP_PROBES.some(probe => first.test(probe) && second.test(probe));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Length of an unbounded or multi-match quantifier at position i (*, +,
+ * {n,}, {n,m} with m > 1), or 0
+ */
+function repetitionAt(source: string, i: number): number {
+  if (source[i] === '*' || source[i] === '+') return 1;
+  if (source[i] !== '{') return 0;
+
+  const match = source.slice(i).match(/^\{(\d+)(,(\d*))?\}/);
+  if (!match) return 0;
+  const max = match[2] === undefined ? Number(match[1]) : match[3] === '' ? Infinity : Number(match[3]);
+  return max > 1 ? match[0].length : 0;
+}
+
+/** Compiled patterns by AST value, so each query compiles its regex once */
+const compiled = new WeakMap<DartQLRegex, RegExp>();
+
+/**
+ * Compile a MATCHES value (already checked by checkRegexSafety)
+ */
+export function compileRegex(regex: DartQLRegex): RegExp {
+  let pattern = compiled.get(regex);
+  if (!pattern) {
+    pattern = new RegExp(regex.source, regex.flags);
+    compiled.set(regex, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Check whether a value is a MATCHES operand
+ */
+export function isRegexValue(value: unknown): value is DartQLRegex {
+  return !!value && typeof value === 'object' && (value as { kind?: unknown }).kind === 'regex';
+}
+
+/**
+ * Render a MATCHES operand as a DartQL regex literal
+ */
+export function formatRegex(regex: DartQLRegex): string {
+  return `/${regex.source}/${regex.flags}`;
+}
@@ -0,0 +1,70 @@
+/**
+ * Computed Virtual Field Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeVirtualField, isVirtualField, VIRTUAL_FIELDS } from './virtualFields.js';
+
+// Sunday 2026-01-18, 15:30 UTC
+const NOW = Date.UTC(2026, 0, 18, 15, 30);
+
+const task = {
+  created_at: '2026-01-08T15:30:00Z',
+  updated_at: '2026-01-17T03:00:00Z',
+  due_at: '2026-01-16T00:00:00Z',
+  assignees: ['alice@example.com', 'bob@example.com'],
+  tags: ['bug'],
+  subtask_ids: ['duid_sub1', 'duid_sub2', 'duid_sub3'],
+  blocker_ids: ['duid_block1'],
+};
+
+describe('isVirtualField', () => {
+  it('should recognize every virtual field and nothing else', () => {
+    for (const field of VIRTUAL_FIELDS) {
+      expect(isVirtualField(field)).toBe(true);
+    }
+    expect(isVirtualField('due_at')).toBe(false);
+  });
+});
+
+describe('computeVirtualField', () => {
+  it('should count whole days since creation and last update', () => {
+    expect(computeVirtualField(task, 'age_days', NOW)).toBe(10);
+    expect(computeVirtualField(task, 'days_since_update', NOW)).toBe(1);
+  });
+
+  it('should count days until due, negative once past due', () => {
+    expect(computeVirtualField(task, 'days_until_due', NOW)).toBe(-3);
+    expect(computeVirtualField({ due_at: '2026-01-19T12:00:00Z' }, 'days_until_due', NOW)).toBe(0);
+    expect(computeVirtualField({}, 'days_until_due', NOW)).toBeNull();
+  });
+
+  it('should flag overdue tasks only while they are open', () => {
+    expect(computeVirtualField(task, 'is_overdue', NOW)).toBe(true);
+    expect(computeVirtualField({ ...task, completed_at: '2026-01-17T00:00:00Z' }, 'is_overdue', NOW)).toBe(false);
+    expect(computeVirtualField({ due_at: '2026-02-01T00:00:00Z' }, 'is_overdue', NOW)).toBe(false);
+    expect(computeVirtualField({}, 'is_overdue', NOW)).toBe(false);
+  });
+
+  it('should derive completion from completed_at', () => {
+    expect(computeVirtualField(task, 'is_completed', NOW)).toBe(false);
+    expect(computeVirtualField({ completed_at: '2026-01-17T00:00:00Z' }, 'is_completed', NOW)).toBe(true);
+  });
+
+  it('should count relationships, assignees and tags', () => {
+    expect(computeVirtualField(task, 'subtask_count', NOW)).toBe(3);
+    expect(computeVirtualField(task, 'blocker_count', NOW)).toBe(1);
+    expect(computeVirtualField(task, 'assignee_count', NOW)).toBe(2);
+    expect(computeVirtualField({ assignee: 'alice@example.com' }, 'assignee_count', NOW)).toBe(1);
+    expect(computeVirtualField(task, 'tag_count', NOW)).toBe(1);
+    expect(computeVirtualField({}, 'subtask_count', NOW)).toBe(0);
+  });
+
+  it('should read open blockers from the resolved count', () => {
+    expect(computeVirtualField({ ...task, open_blocker_count: 1 }, 'has_open_blockers', NOW)).toBe(true);
+    expect(computeVirtualField({ ...task, open_blocker_count: 0 }, 'has_open_blockers', NOW)).toBe(false);
+    // Blockers that were not fetched are unknown
+    expect(computeVirtualField(task, 'has_open_blockers', NOW)).toBeNull();
+    expect(computeVirtualField({ blocker_ids: [] }, 'has_open_blockers', NOW)).toBe(false);
+  });
+});
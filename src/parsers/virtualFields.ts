@@ -0,0 +1,134 @@
+/**
+ * Computed Virtual Fields for DartQL
+ *
+ * Fields derived from stored task data rather than read from it:
+ * - Ages: age_days, days_since_update, days_until_due
+ * - Flags: is_overdue, is_completed, has_open_blockers (a blocker not completed)
+ * - Counts: subtask_count, blocker_count, assignee_count, tag_count
+ *
+ * Virtual fields are never sent to the API; they are evaluated client-side
+ * against a reference instant so every task in a query sees the same "now".
+ */
+
+// ============================================================================
+// Vocabulary
+// ============================================================================
+
+/** Virtual field names usable in WHERE, ORDER BY and SELECT */
+export const VIRTUAL_FIELDS = [
+  'age_days',
+  'days_since_update',
+  'days_until_due',
+  'is_overdue',
+  'is_completed',
+  'subtask_count',
+  'blocker_count',
+  'has_open_blockers',
+  'assignee_count',
+  'tag_count',
+] as const;
+
+export type VirtualField = typeof VIRTUAL_FIELDS[number];
+
+/**
+ * Virtual fields read from relationship arrays, which list responses leave
+ * empty: the full tasks (and for has_open_blockers, the blockers) must be
+ * fetched before they are computed
+ */
+export const RELATED_VIRTUAL_FIELDS: readonly VirtualField[] = ['subtask_count', 'blocker_count', 'has_open_blockers'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a (lowercase) field name is a virtual field
+ */
+export function isVirtualField(field: string): field is VirtualField {
+  return (VIRTUAL_FIELDS as readonly string[]).includes(field);
+}
+
+/**
+ * Check whether a field is computed from relationship arrays
+ */
+export function isRelatedVirtualField(field: string): boolean {
+  return (RELATED_VIRTUAL_FIELDS as readonly string[]).includes(field);
+}
+
+// ============================================================================
+// Computation
+// ============================================================================
+
+/**
+ * Compute a virtual field for a task
+ *
+ * Day counts are whole days (floored), so a task created 36 hours ago has
+ * age_days = 1 and a task due in 12 hours has days_until_due = 0.
+ *
+ * has_open_blockers reads open_blocker_count, set on tasks whose blockers
+ * were fetched; it is null for a task with blockers that were not.
+ *
+ * @param task - Task object (DartTask or a raw API task)
+ * @param field - Virtual field name
+ * @param now - Reference instant in epoch milliseconds
+ * @returns Number, boolean, or null when the underlying data is missing
+ */
+export function computeVirtualField(
+  task: Record<string, unknown>,
+  field: VirtualField,
+  now: number = Date.now()
+): number | boolean | null {
+  switch (field) {
+    case 'age_days':
+      return daysBetween(parseTime(task.created_at), now);
+
+    case 'days_since_update':
+      return daysBetween(parseTime(task.updated_at), now);
+
+    case 'days_until_due': {
+      const due = parseTime(task.due_at);
+      return due === null ? null : Math.floor((due - now) / DAY_MS);
+    }
+
+    case 'is_overdue': {
+      const due = parseTime(task.due_at);
+      return due !== null && due < now && !isCompleted(task);
+    }
+
+    case 'is_completed':
+      return isCompleted(task);
+
+    case 'subtask_count':
+      return countOf(task.subtask_ids);
+
+    case 'blocker_count':
+      return countOf(task.blocker_ids);
+
+    case 'has_open_blockers':
+      if (typeof task.open_blocker_count === 'number') return task.open_blocker_count > 0;
+      return countOf(task.blocker_ids) > 0 ? null : false;
+
+    case 'assignee_count':
+      return countOf(task.assignees ?? task.assignee);
+
+    case 'tag_count':
+      return countOf(task.tags);
+  }
+}
+
+function parseTime(value: unknown): number | null {
+  if (typeof value !== 'string' || value === '') return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+function daysBetween(from: number | null, to: number): number | null {
+  return from === null ? null : Math.floor((to - from) / DAY_MS);
+}
+
+function isCompleted(task: Record<string, unknown>): boolean {
+  return parseTime(task.completed_at) !== null;
+}
+
+function countOf(value: unknown): number {
+  if (Array.isArray(value)) return value.length;
+  return typeof value === 'string' && value !== '' ? 1 : 0;
+}
@@ -0,0 +1,85 @@
+/**
+ * aggregate_tasks Tool Handler Tests
+ *
+ * Tests for the GROUP BY/HAVING pipeline wired through DartClient
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleAggregateTasks } from './aggregate_tasks.js';
+import { DartClient } from '../api/dartClient.js';
+import { configCache } from '../cache/configCache.js';
+
+// Mock DartClient
+vi.mock('../api/dartClient.js');
+
+const tasks = [
+  { dart_id: 'duid_task000001', title: 'Fix login bug', status: 'Todo', priority: 'high', tags: ['bug', 'ui'] },
+  { dart_id: 'duid_task000002', title: 'Write release notes', status: 'Doing', priority: 'low', tags: ['docs'] },
+  { dart_id: 'duid_task000003', title: 'Fix logout bug', status: 'Todo', priority: 'medium', tags: ['bug'] },
+];
+
+const emptyConfig = {
+  assignees: [],
+  dartboards: [],
+  statuses: [],
+  tags: [],
+  priorities: [],
+  sizes: [],
+  folders: [],
+};
+
+function mockClient() {
+  const listTasks = vi.fn().mockResolvedValue({ tasks, total: tasks.length });
+  const getConfig = vi.fn().mockResolvedValue(emptyConfig);
+  vi.mocked(DartClient).mockImplementation(() => ({ listTasks, getConfig } as unknown as DartClient));
+  return { listTasks };
+}
+
+describe('aggregate_tasks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    configCache.invalidate();
+    process.env.DART_TOKEN = 'dsa_test_token';
+  });
+
+  it('should reject an empty query', async () => {
+    mockClient();
+    await expect(handleAggregateTasks({ query: '' })).rejects.toThrow('query is required');
+  });
+
+  it('should reject invalid aggregations before fetching', async () => {
+    const { listTasks } = mockClient();
+
+    await expect(handleAggregateTasks({ query: 'SELECT title, COUNT(*) GROUP BY status' }))
+      .rejects.toThrow("Column 'title' must appear in GROUP BY");
+    await expect(handleAggregateTasks({ query: 'SELECT status, COUNT(*) FORMAT ids' }))
+      .rejects.toThrow("Unknown format 'ids' for groups");
+    expect(listTasks).not.toHaveBeenCalled();
+  });
+
+  it('should push the WHERE clause down and render groups', async () => {
+    const { listTasks } = mockClient();
+
+    const result = await handleAggregateTasks({
+      query: "SELECT tags, COUNT(*) WHERE status = :status GROUP BY tags ORDER BY COUNT(*) DESC FORMAT compact",
+      params: { status: 'Todo' },
+    });
+
+    expect(listTasks).toHaveBeenCalledWith({ status: 'Todo', limit: 500, offset: 0 });
+    expect(result.format).toBe('compact');
+    expect(result.group_count).toBe(3);
+    expect(result.task_count).toBe(3);
+    expect(result.output.split('\n')[0]).toBe('bug\t2');
+    expect(result.output.split('\n').at(-1)).toBe('3 groups from 3 tasks');
+  });
+
+  it('should filter groups with HAVING', async () => {
+    mockClient();
+
+    const result = await handleAggregateTasks({
+      query: "SELECT status, COUNT(*), MAX(priority) GROUP BY status HAVING COUNT(*) > 1 FORMAT json",
+    });
+
+    expect(JSON.parse(result.output)).toEqual([{ status: 'Todo', 'COUNT(*)': 2, 'MAX(priority)': 'high' }]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * aggregate_tasks Tool Handler
+ *
+ * Group the tasks matching a DartQL WHERE clause and compute COUNT, SUM,
+ * AVG, MIN and MAX per group, filtered by HAVING and rendered as a compact
+ * table:
+ *
+ *   SELECT status, assignee, COUNT(*), AVG(age_days)
+ *   WHERE dartboard = 'Engineering' GROUP BY status, assignee HAVING COUNT(*) > 5
+ */
+
+import { DartClient } from '../api/dartClient.js';
+import { fetchMatchingTasks } from '../api/taskFetcher.js';
+import { handleGetConfig } from './get_config.js';
+import {
+  convertToFilters,
+  hasRelativeDates,
+  parseDartQLStatement,
+  needsTaskResolution,
+  resolveTaskFields,
+  createBindings,
+  ConvertToFiltersResult,
+} from '../parsers/dartql.js';
+import { aggregateTasks, aggregationFields, planAggregation } from '../parsers/aggregation.js';
+import { createDateContext } from '../parsers/relativeDates.js';
+import { formatAggregateRows, parseFormat } from '../formatters/index.js';
+import {
+  AggregateTasksInput,
+  AggregateTasksOutput,
+  DartTask,
+  DartAPIError,
+  ValidationError,
+} from '../types/index.js';
+
+/** Safety limit on the tasks one aggregation scans */
+const MAX_SCANNED_TASKS = 10000;
+
+/** Formats groups render in (ids has no meaning for groups) */
+const AGGREGATE_FORMATS = ['table', 'compact', 'csv', 'json'];
+
+/**
+ * Handle aggregate_tasks tool calls
+ *
+ * Flow:
+ * 1. Parse the statement and check its columns, GROUP BY and HAVING
+ *    (planAggregation)
+ * 2. Convert the WHERE expression to API filters + client-side filter
+ * 3. Scan every matching task (up to MAX_SCANNED_TASKS)
+ * 4. Group, aggregate, apply HAVING / ORDER BY / LIMIT / OFFSET
+ * 5. Render with formatAggregateRows()
+ *
+ * @param input - AggregateTasksInput with a DartQL aggregate query
+ * @returns AggregateTasksOutput with formatted groups
+ */
+export async function handleAggregateTasks(input: AggregateTasksInput): Promise<AggregateTasksOutput> {
+  const safeInput = input || ({} as AggregateTasksInput);
+
+  if (!safeInput.query || typeof safeInput.query !== 'string' || safeInput.query.trim() === '') {
+    throw new ValidationError(
+      'query is required and must be a non-empty DartQL string (e.g., "SELECT status, COUNT(*) GROUP BY status")',
+      'query'
+    );
+  }
+
+  const DART_TOKEN = process.env.DART_TOKEN;
+
+  if (!DART_TOKEN) {
+    throw new DartAPIError(
+      'DART_TOKEN environment variable is required. Get your token from: https://app.dartai.com/?settings=account',
+      401
+    );
+  }
+
+  // ============================================================================
+  // Step 1: Parse and plan the aggregation
+  // ============================================================================
+  const config = await handleGetConfig({ cache_bust: false });
+  const parsed = parseDartQLStatement(safeInput.query, createBindings(config, safeInput.params));
+
+  if (parsed.errors.length > 0) {
+    throw new ValidationError(`DartQL parse errors: ${parsed.errors.join('; ')}`, 'query', parsed.errors);
+  }
+
+  const { statement } = parsed;
+  const { plan, errors } = planAggregation(statement);
+
+  if (statement.expand) {
+    errors.push('EXPAND is not supported by aggregate_tasks');
+  }
+  const format = parseFormat(statement.format?.name);
+  if (statement.format && !AGGREGATE_FORMATS.includes(statement.format.name.toLowerCase())) {
+    errors.push(`Unknown format '${statement.format.name}' for groups (use ${AGGREGATE_FORMATS.join(', ')})`);
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(`DartQL aggregate errors: ${errors.join('; ')}`, 'query', errors);
+  }
+
+  // ============================================================================
+  // Step 2: Convert the WHERE expression to filters
+  // ============================================================================
+  // Result clauses apply to groups, so only the filter converts. Grouped and
+  // aggregated depth and relationship counts are resolved on the matching tasks.
+  const fields = aggregationFields(plan);
+  let filterResult: ConvertToFiltersResult = {
+    apiFilters: {},
+    requiresClientSide: false,
+    warnings: [],
+    errors: [],
+    resolveRelated: needsTaskResolution(fields)
+      ? (tasks, fetchTasks) => resolveTaskFields(tasks, fields, fetchTasks)
+      : undefined,
+  };
+
+  if (statement.where) {
+    const dateContext = hasRelativeDates(statement.where) ? createDateContext({ today: config.today }) : undefined;
+    filterResult = convertToFilters(statement.where, { dateContext, config, resolveFields: fields });
+
+    if (filterResult.errors.length > 0) {
+      throw new ValidationError(
+        `DartQL conversion errors: ${filterResult.errors.join('; ')}`,
+        'query',
+        filterResult.errors
+      );
+    }
+  }
+
+  // ============================================================================
+  // Step 3: Fetch every matching task
+  // ============================================================================
+  const client = new DartClient({ token: DART_TOKEN });
+  let tasks: DartTask[];
+
+  try {
+    tasks = await fetchMatchingTasks(client, filterResult, {
+      maxTasks: MAX_SCANNED_TASKS,
+      onLimitExceeded: () =>
+        new ValidationError(
+          `Aggregation scans too many tasks (>${MAX_SCANNED_TASKS.toLocaleString('en-US')}). Please narrow your WHERE clause with API-supported filters.`,
+          'query'
+        ),
+    });
+  } catch (error) {
+    if (error instanceof DartAPIError) {
+      throw new DartAPIError(
+        `Failed to fetch matching tasks: ${error.message}`,
+        error.statusCode,
+        error.response
+      );
+    }
+    throw error;
+  }
+
+  // ============================================================================
+  // Steps 4-5: Aggregate and format
+  // ============================================================================
+  const rows = aggregateTasks(tasks, plan, config);
+
+  return {
+    output: formatAggregateRows(rows, plan.columns, { format, task_count: tasks.length }),
+    format,
+    group_count: rows.length,
+    task_count: tasks.length,
+    warnings: filterResult.warnings,
+  };
+}
@@ -19,7 +19,18 @@
 
 import pLimit from 'p-limit';
 import { DartClient } from '../api/dartClient.js';
-import { parseDartQLToAST, convertToFilters } from '../parsers/dartql.js';
+import { fetchMatchingTasks } from '../api/taskFetcher.js';
+import { handleGetConfig } from './get_config.js';
+import {
+  parseDartQLToAST,
+  convertToFilters,
+  applyResultClauses,
+  hasRelativeDates,
+  createBindings,
+} from '../parsers/dartql.js';
+import { createDateContext } from '../parsers/relativeDates.js';
+import { diagnoseDartQL, formatDiagnostics } from '../parsers/diagnostics.js';
+import { formatDartQL } from '../parsers/printer.js';
 import {
   BatchDeleteTasksInput,
   BatchDeleteTasksOutput,
@@ -98,20 +109,39 @@ export async function handleBatchDeleteTasks(
   // ============================================================================
   // Step 3: Parse DartQL selector
   // ============================================================================
-  const parseResult = parseDartQLToAST(input.selector);
+  // Workspace config binds `me` and resolves relative dates (DartConfig.today),
+  // the status/dartboard/tag/assignee vocabulary and priority/size ranks
+  const config = await handleGetConfig({ cache_bust: false });
+
+  // Parameters are bound as literal tokens, never spliced into the selector
+  const bindings = createBindings(config, input.params);
+  const parseResult = parseDartQLToAST(input.selector, bindings);
 
   if (parseResult.errors.length > 0) {
+    const diagnostics = parseResult.diagnostics ?? [];
     throw new ValidationError(
-      `DartQL parse errors: ${parseResult.errors.join('; ')}`,
+      `DartQL parse errors:\n${formatDiagnostics(input.selector, diagnostics)}`,
       'selector',
-      parseResult.errors
+      diagnostics.flatMap(d => d.suggestions)
     );
   }
 
   // ============================================================================
   // Step 4: Convert AST to filters
   // ============================================================================
-  const filterResult = convertToFilters(parseResult.ast);
+  // Unknown statuses, dartboards, tags and assignees fail before any tasks are fetched
+  const selectorErrors = diagnoseDartQL(input.selector, config, bindings).filter(d => d.severity === 'error');
+  if (selectorErrors.length > 0) {
+    throw new ValidationError(
+      `DartQL selector does not match the workspace:\n${formatDiagnostics(input.selector, selectorErrors)}`,
+      'selector',
+      selectorErrors.flatMap(d => d.suggestions)
+    );
+  }
+
+  const dateContext = hasRelativeDates(parseResult.ast) ? createDateContext({ today: config.today }) : undefined;
+
+  const filterResult = convertToFilters(parseResult.ast, { ...parseResult, dateContext, config });
 
   if (filterResult.errors.length > 0) {
     throw new ValidationError(
@@ -126,40 +156,21 @@ export async function handleBatchDeleteTasks(
   // ============================================================================
   const client = new DartClient({ token: DART_TOKEN });
 
-  // Fetch all matching tasks (use high limit to get all)
+  // Fetch all matching tasks (OR/IN fan-out queries run in parallel, merged by dart_id)
   let matchingTasks: DartTask[] = [];
   try {
-    // Start with API filters if available
-    const apiFilters = filterResult.apiFilters;
-    let offset = 0;
-    const limit = 500;
-    let hasMore = true;
-
-    while (hasMore) {
-      const response = await client.listTasks({
-        ...apiFilters,
-        limit,
-        offset,
-      });
-
-      matchingTasks.push(...(response.tasks || []));
-
-      hasMore = offset + limit < (response.total || 0);
-      offset += limit;
-
+    matchingTasks = await fetchMatchingTasks(client, filterResult, {
+      concurrency,
       // Safety limit: max 10,000 tasks
-      if (matchingTasks.length >= 10000) {
-        throw new ValidationError(
+      onLimitExceeded: () =>
+        new ValidationError(
           'Selector matches too many tasks (>10,000). Please narrow your selector to avoid accidental mass deletion.',
           'selector'
-        );
-      }
-    }
+        ),
+    });
 
-    // Apply client-side filtering if needed
-    if (filterResult.requiresClientSide && filterResult.clientFilter) {
-      matchingTasks = matchingTasks.filter(filterResult.clientFilter);
-    }
+    // Apply ORDER BY / LIMIT / OFFSET (e.g., "... ORDER BY created_at LIMIT 10")
+    matchingTasks = applyResultClauses(matchingTasks, filterResult, config);
   } catch (error) {
     if (error instanceof DartAPIError) {
       throw new DartAPIError(
@@ -172,6 +183,7 @@ export async function handleBatchDeleteTasks(
   }
 
   const selectorMatched = matchingTasks.length;
+  const resolvedSelector = formatDartQL(filterResult.plan?.resolved ?? parseResult.ast, filterResult);
 
   // ============================================================================
   // Step 6: Handle dry_run mode (preview only, no deletions)
@@ -185,6 +197,7 @@ export async function handleBatchDeleteTasks(
 
     return {
       batch_operation_id: 'dry_run',
+      resolved_selector: resolvedSelector,
       selector_matched: selectorMatched,
       dry_run: true,
       preview_tasks: previewTasks,
@@ -199,7 +212,7 @@ export async function handleBatchDeleteTasks(
   // ============================================================================
   // Step 7: Create batch operation for tracking
   // ============================================================================
-  const batchOperation = createBatchOperation('delete', selectorMatched);
+  const batchOperation = createBatchOperation('delete', selectorMatched, resolvedSelector);
   const batchOperationId = batchOperation.batch_operation_id;
   const startTime = Date.now();
 
@@ -248,6 +261,7 @@ export async function handleBatchDeleteTasks(
 
   return {
     batch_operation_id: batchOperationId,
+    resolved_selector: resolvedSelector,
     selector_matched: selectorMatched,
     dry_run: false,
     successful_deletions: deletedDartIds.length,
@@ -0,0 +1,164 @@
+/**
+ * batch_update_tasks Tool Handler Tests
+ *
+ * Tests for the per-task diff: no-op skipping, rank comparison, relationship
+ * updates and the dry-run preview
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleBatchUpdateTasks } from './batch_update_tasks.js';
+import { DartClient } from '../api/dartClient.js';
+import { configCache } from '../cache/configCache.js';
+
+// Mock DartClient
+vi.mock('../api/dartClient.js');
+
+const config = {
+  assignees: [],
+  dartboards: [],
+  statuses: [
+    { dart_id: 'duid_status_todo', name: 'Todo' },
+    { dart_id: 'duid_status_done', name: 'Done' },
+  ],
+  tags: [],
+  priorities: [
+    { value: 5, label: 'Critical' },
+    { value: 4, label: 'High' },
+    { value: 3, label: 'Medium' },
+    { value: 2, label: 'Low' },
+  ],
+  sizes: [
+    { value: 1, label: 'XS' },
+    { value: 3, label: 'M' },
+    { value: 5, label: 'XL' },
+  ],
+  folders: [],
+};
+
+const tasks = [
+  { dart_id: 'duid_task000001', title: 'Fix login bug', status: 'Todo', priority: 'High', size: 'M', description: 'Steps' },
+  { dart_id: 'duid_task000002', title: 'Ship release', status: 'Done', priority: 'Low', size: 'XL', description: 'Notes' },
+];
+
+function mockClient(listed: object[] = tasks) {
+  const listTasks = vi.fn().mockResolvedValue({ tasks: listed, total: listed.length });
+  const updateTask = vi.fn().mockResolvedValue({});
+  vi.mocked(DartClient).mockImplementation(() => ({
+    listTasks,
+    updateTask,
+    getConfig: vi.fn().mockResolvedValue(config),
+  } as any));
+  return { listTasks, updateTask };
+}
+
+describe('batch_update_tasks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    configCache.invalidate();
+    process.env.DART_TOKEN = 'dsa_test_token';
+  });
+
+  it('should skip and count tasks the update would not change', async () => {
+    const { updateTask } = mockClient();
+
+    const result = await handleBatchUpdateTasks({
+      selector: "title CONTAINS 'i'",
+      updates: { status: 'Done' },
+      dry_run: false,
+    });
+
+    expect(result.selector_matched).toBe(2);
+    expect(result.successful_dart_ids).toEqual(['duid_task000001']);
+    expect(result.skipped_updates).toBe(1);
+    expect(result.skipped_dart_ids).toEqual(['duid_task000002']);
+    expect(updateTask).toHaveBeenCalledTimes(1);
+    expect(updateTask).toHaveBeenCalledWith({ dart_id: 'duid_task000001', updates: { status: 'duid_status_done' } });
+  });
+
+  it('should compare priority and size by rank, not by label', async () => {
+    const { updateTask } = mockClient();
+
+    const result = await handleBatchUpdateTasks({
+      selector: "title CONTAINS 'i'",
+      updates: { priority: 4, size: 3 },
+      dry_run: false,
+    });
+
+    expect(result.skipped_dart_ids).toEqual(['duid_task000001']);
+    expect(result.successful_dart_ids).toEqual(['duid_task000002']);
+    expect(updateTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('should always apply relationship updates', async () => {
+    const { updateTask } = mockClient([{ ...tasks[0], blocker_ids: ['duid_task000002'] }]);
+
+    const result = await handleBatchUpdateTasks({
+      selector: "status = 'Todo'",
+      updates: { blocker_ids: ['duid_task000002'] },
+      dry_run: false,
+    });
+
+    expect(result.skipped_updates).toBe(0);
+    expect(updateTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat a text field missing from the list response as changed', async () => {
+    const { title, dart_id, status } = tasks[0];
+    const { updateTask } = mockClient([{ dart_id, title, status }]);
+
+    const result = await handleBatchUpdateTasks({
+      selector: "status = 'Todo'",
+      updates: { description: '' },
+      dry_run: false,
+    });
+
+    expect(result.skipped_updates).toBe(0);
+    expect(updateTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat a selector with only result clauses as matching every task', async () => {
+    const { updateTask } = mockClient([
+      { ...tasks[0], created_at: '2026-01-02T00:00:00Z' },
+      { ...tasks[1], created_at: '2026-01-01T00:00:00Z', status: 'Todo' },
+    ]);
+
+    const result = await handleBatchUpdateTasks({
+      selector: 'ORDER BY created_at LIMIT 1',
+      updates: { status: 'Done' },
+      dry_run: false,
+    });
+
+    expect(result.selector_matched).toBe(1);
+    expect(result.successful_dart_ids).toEqual(['duid_task000002']);
+    expect(updateTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('should preview a per-field diff without updating', async () => {
+    const { updateTask } = mockClient();
+
+    const result = await handleBatchUpdateTasks({
+      selector: "title CONTAINS 'i'",
+      updates: { status: 'Done', priority: 4 },
+    });
+
+    expect(updateTask).not.toHaveBeenCalled();
+    expect(result.dry_run).toBe(true);
+    expect(result.change_summary).toBe('2 tasks: status changes 1, 1 already Done; priority changes 1, 1 already High');
+    expect(result.preview_tasks).toEqual([
+      {
+        dart_id: 'duid_task000001',
+        title: 'Fix login bug',
+        changes: [{ field: 'status', from: 'Todo', to: 'Done' }],
+        no_op: false,
+      },
+      {
+        dart_id: 'duid_task000002',
+        title: 'Ship release',
+        changes: [{ field: 'priority', from: 'Low', to: 'High' }],
+        no_op: false,
+      },
+    ]);
+    expect(result.preview).toContain('Todo');
+    expect(result.preview).toContain('Done');
+  });
+});
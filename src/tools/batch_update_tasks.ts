@@ -5,18 +5,38 @@
  * CRITICAL PRODUCTION SAFETY: Always recommend dry_run=true first!
  *
  * Flow:
- * 1. Parse DartQL selector to AST
+ * 1. Parse DartQL selector to AST (binding :params and `me`)
  * 2. Resolve selector to dart_ids via list_tasks + client-side filtering
- * 3. dry_run=true: Return preview (max 10 tasks) without updating
- * 4. dry_run=false: Parallel updates with p-limit concurrency control
- * 5. Collect successful_dart_ids and failed_items
- * 6. Return batch_operation_id, execution_time_ms, and results
+ * 3. Diff each task against the updates: only fields that would change are
+ *    listed, and tasks with nothing to change are flagged as no-ops
+ * 4. dry_run=true: Return the diff (table/compact/markdown) without updating
+ * 5. dry_run=false: Parallel updates with p-limit concurrency control,
+ *    skipping no-op tasks
+ * 6. Collect successful_dart_ids, skipped_dart_ids and failed_items
+ * 7. Return batch_operation_id, execution_time_ms, and results
  */
 
 import pLimit from 'p-limit';
 import { DartClient } from '../api/dartClient.js';
+import { fetchMatchingTasks } from '../api/taskFetcher.js';
 import { handleGetConfig } from './get_config.js';
-import { parseDartQLToAST, convertToFilters } from '../parsers/dartql.js';
+import {
+  parseDartQLToAST,
+  convertToFilters,
+  applyResultClauses,
+  hasRelativeDates,
+  createBindings,
+  rankOf,
+} from '../parsers/dartql.js';
+import { createDateContext } from '../parsers/relativeDates.js';
+import { diagnoseDartQL, formatDiagnostics } from '../parsers/diagnostics.js';
+import { formatDartQL } from '../parsers/printer.js';
+import {
+  formatCustomPropertyField,
+  readCustomProperty,
+  validateCustomProperties,
+} from '../parsers/customProperties.js';
+import { formatCustomProperty, formatDate, formatTaskChanges } from '../formatters/index.js';
 import {
   BatchUpdateTasksInput,
   BatchUpdateTasksOutput,
@@ -24,6 +44,7 @@ import {
   ValidationError,
   DartConfig,
   DartTask,
+  TaskChangePreview,
   findDartboard,
   findStatus,
   findTag,
@@ -38,6 +59,26 @@ import {
   addFailedItem,
 } from '../batch/batchOperations.js';
 
+/** Renderings of the dry-run diff */
+const PREVIEW_FORMATS = ['table', 'compact', 'markdown'] as const;
+
+/** Preview tasks returned as JSON; the rendered preview covers every task */
+const MAX_PREVIEW_TASKS = 10;
+
+/**
+ * Relationship arrays are often missing from list responses, so an update to
+ * one always counts as a change
+ */
+const RELATIONSHIP_FIELDS = ['subtask_ids', 'blocker_ids', 'blocking_ids', 'duplicate_ids', 'related_ids'];
+
+/** One updated field: display name, new value, and how a task compares */
+interface FieldPlan {
+  field: string;
+  to: string;
+  from: (task: DartTask) => string;
+  unchanged: (task: DartTask) => boolean;
+}
+
 /**
  * Handle batch_update_tasks tool calls
  *
@@ -91,23 +132,62 @@ export async function handleBatchUpdateTasks(
     throw new ValidationError('concurrency must be between 1 and 20', 'concurrency');
   }
 
+  const previewFormat = input.preview_format ?? 'table';
+  if (!PREVIEW_FORMATS.includes(previewFormat)) {
+    throw new ValidationError(`preview_format must be one of: ${PREVIEW_FORMATS.join(', ')}`, 'preview_format');
+  }
+
+  // ============================================================================
+  // Step 2: Get workspace config for validation (also binds `me`)
+  // ============================================================================
+  let config: DartConfig;
+  try {
+    config = await handleGetConfig({ cache_bust: false });
+  } catch (error) {
+    if (error instanceof DartAPIError) {
+      throw new DartAPIError(
+        `Failed to retrieve workspace config for validation: ${error.message}`,
+        error.statusCode,
+        error.response
+      );
+    }
+    throw error;
+  }
+
   // ============================================================================
-  // Step 2: Parse DartQL selector
+  // Step 3: Parse DartQL selector
   // ============================================================================
-  const parseResult = parseDartQLToAST(input.selector);
+  // Parameters are bound as literal tokens, never spliced into the selector
+  const bindings = createBindings(config, input.params);
+  const parseResult = parseDartQLToAST(input.selector, bindings);
 
   if (parseResult.errors.length > 0) {
+    const diagnostics = parseResult.diagnostics ?? [];
     throw new ValidationError(
-      `DartQL parse errors: ${parseResult.errors.join('; ')}`,
+      `DartQL parse errors:\n${formatDiagnostics(input.selector, diagnostics)}`,
       'selector',
-      parseResult.errors
+      diagnostics.flatMap(d => d.suggestions)
+    );
+  }
+
+  // Unknown statuses, dartboards, tags and assignees fail before any tasks are fetched
+  const selectorErrors = diagnoseDartQL(input.selector, config, bindings).filter(d => d.severity === 'error');
+  if (selectorErrors.length > 0) {
+    throw new ValidationError(
+      `DartQL selector does not match the workspace:\n${formatDiagnostics(input.selector, selectorErrors)}`,
+      'selector',
+      selectorErrors.flatMap(d => d.suggestions)
     );
   }
 
   // ============================================================================
-  // Step 3: Convert AST to filters
+  // Step 4: Convert AST to filters (relative dates and vocabulary resolve against config)
   // ============================================================================
-  const filterResult = convertToFilters(parseResult.ast);
+  const filterResult = convertToFilters(parseResult.ast, {
+    ...parseResult,
+    dateContext: hasRelativeDates(parseResult.ast) ? createDateContext({ today: config.today }) : undefined,
+    config,
+  });
 
   if (filterResult.errors.length > 0) {
     throw new ValidationError(
@@ -117,23 +197,6 @@ export async function handleBatchUpdateTasks(
     );
   }
 
-  // ============================================================================
-  // Step 4: Get workspace config for validation
-  // ============================================================================
-  let config: DartConfig;
-  try {
-    config = await handleGetConfig({ cache_bust: false });
-  } catch (error) {
-    if (error instanceof DartAPIError) {
-      throw new DartAPIError(
-        `Failed to retrieve workspace config for validation: ${error.message}`,
-        error.statusCode,
-        error.response
-      );
-    }
-    throw error;
-  }
-
   // ============================================================================
   // Step 5: Validate updates against workspace config
   // ============================================================================
@@ -144,40 +207,21 @@ export async function handleBatchUpdateTasks(
   // ============================================================================
   const client = new DartClient({ token: DART_TOKEN });
 
-  // Fetch all matching tasks (use high limit to get all)
+  // Fetch all matching tasks (OR/IN fan-out queries run in parallel, merged by dart_id)
   let matchingTasks: DartTask[] = [];
   try {
-    // Start with API filters if available
-    const apiFilters = filterResult.apiFilters;
-    let offset = 0;
-    const limit = 500;
-    let hasMore = true;
-
-    while (hasMore) {
-      const response = await client.listTasks({
-        ...apiFilters,
-        limit,
-        offset,
-      });
-
-      matchingTasks.push(...(response.tasks || []));
-
-      hasMore = offset + limit < (response.total || 0);
-      offset += limit;
-
+    matchingTasks = await fetchMatchingTasks(client, filterResult, {
+      concurrency,
       // Safety limit: max 10,000 tasks
-      if (matchingTasks.length >= 10000) {
-        throw new ValidationError(
+      onLimitExceeded: () =>
+        new ValidationError(
           'Selector matches too many tasks (>10,000). Please narrow your selector.',
           'selector'
-        );
-      }
-    }
+        ),
+    });
 
-    // Apply client-side filtering if needed
-    if (filterResult.requiresClientSide && filterResult.clientFilter) {
-      matchingTasks = matchingTasks.filter(filterResult.clientFilter);
-    }
+    // Apply ORDER BY / LIMIT / OFFSET (e.g., "... ORDER BY created_at LIMIT 10")
+    matchingTasks = applyResultClauses(matchingTasks, filterResult, config);
   } catch (error) {
     if (error instanceof DartAPIError) {
       throw new DartAPIError(
@@ -190,25 +234,33 @@ export async function handleBatchUpdateTasks(
   }
 
   const selectorMatched = matchingTasks.length;
+  const resolvedSelector = formatDartQL(filterResult.plan?.resolved ?? parseResult.ast, filterResult);
 
   // ============================================================================
-  // Step 7: Handle dry_run mode (preview only, no updates)
+  // Step 7: Diff tasks against the updates (no-op tasks are skipped)
   // ============================================================================
-  if (dryRun) {
-    const previewTasks = matchingTasks.slice(0, 10).map((task) => ({
-      dart_id: task.dart_id,
-      title: task.title,
-      current_values: extractCurrentValues(task, Object.keys(validatedUpdates)),
-      new_values: validatedUpdates,
-    }));
+  const fieldPlans = planFieldUpdates(validatedUpdates, config);
+  const changePreviews = matchingTasks.map(task => previewChanges(task, fieldPlans));
+  const changeSummary = summarizeChanges(changePreviews, fieldPlans);
+  const tasksToUpdate = matchingTasks.filter((_task, i) => !changePreviews[i].no_op);
+  const skippedDartIds = changePreviews.filter(preview => preview.no_op).map(preview => preview.dart_id);
 
+  // ============================================================================
+  // Step 8: Handle dry_run mode (preview only, no updates)
+  // ============================================================================
+  if (dryRun) {
     return {
       batch_operation_id: 'dry_run',
+      resolved_selector: resolvedSelector,
       selector_matched: selectorMatched,
       dry_run: true,
-      preview_tasks: previewTasks,
+      preview_tasks: changePreviews.slice(0, MAX_PREVIEW_TASKS),
+      preview: formatTaskChanges(changePreviews, { format: previewFormat, summary: changeSummary }),
+      change_summary: changeSummary,
       successful_updates: 0,
       failed_updates: 0,
+      skipped_updates: skippedDartIds.length,
+      skipped_dart_ids: skippedDartIds,
       successful_dart_ids: [],
       failed_items: [],
       execution_time_ms: 0,
@@ -216,20 +268,20 @@ export async function handleBatchUpdateTasks(
   }
 
   // ============================================================================
-  // Step 8: Create batch operation for tracking
+  // Step 9: Create batch operation for tracking
   // ============================================================================
-  const batchOperation = createBatchOperation('update', selectorMatched);
+  const batchOperation = createBatchOperation('update', tasksToUpdate.length, resolvedSelector);
   const batchOperationId = batchOperation.batch_operation_id;
   const startTime = Date.now();
 
   // ============================================================================
-  // Step 9: Execute parallel updates with concurrency control
+  // Step 10: Execute parallel updates with concurrency control
   // ============================================================================
   const limit = pLimit(concurrency);
   const successfulDartIds: string[] = [];
   const failedItems: Array<{ dart_id: string; error: string; reason: string }> = [];
 
-  const updatePromises = matchingTasks.map((task) =>
+  const updatePromises = tasksToUpdate.map((task) =>
     limit(async () => {
       try {
         await client.updateTask({
@@ -267,18 +319,22 @@ export async function handleBatchUpdateTasks(
   await Promise.all(updatePromises);
 
   // ============================================================================
-  // Step 10: Complete batch operation and return results
+  // Step 11: Complete batch operation and return results
   // ============================================================================
   const executionTimeMs = Date.now() - startTime;
-  const status = failedItems.length === 0 ? 'completed' : failedItems.length === selectorMatched ? 'failed' : 'completed';
+  const status = failedItems.length === 0 ? 'completed' : failedItems.length === tasksToUpdate.length ? 'failed' : 'completed';
   completeBatchOperation(batchOperationId, status);
 
   return {
     batch_operation_id: batchOperationId,
+    resolved_selector: resolvedSelector,
     selector_matched: selectorMatched,
     dry_run: false,
+    change_summary: changeSummary,
     successful_updates: successfulDartIds.length,
     failed_updates: failedItems.length,
+    skipped_updates: skippedDartIds.length,
+    skipped_dart_ids: skippedDartIds,
     successful_dart_ids: successfulDartIds,
     failed_items: failedItems,
     execution_time_ms: executionTimeMs,
@@ -609,20 +665,195 @@ async function validateUpdates(
     validated.related_ids = relatedIds;
   }
 
+  // Validate custom properties by type and options (keys resolve to workspace names)
+  if (updates.custom_properties !== undefined) {
+    validated.custom_properties = validateCustomProperties(updates.custom_properties, config.customProperties);
+  }
+
   return validated;
 }
 
+// ============================================================================
+// Change Preview
+// ============================================================================
+
+/** Text value on one line, '-' when empty */
+function displayText(value: unknown): string {
+  return String(value ?? '').replace(/\s+/g, ' ').trim() || '-';
+}
+
+/** List value comma-separated, '-' when empty */
+function displayList(values: string[] | undefined): string {
+  return values && values.length > 0 ? values.join(',') : '-';
+}
+
+/** Same members, ignoring order and case */
+function sameMembers(a: string[], b: string[]): boolean {
+  const normalize = (values: string[]) => [...new Set(values.map(v => v.toLowerCase()))].sort().join('\n');
+  return normalize(a) === normalize(b);
+}
+
+/** Name of a status, dartboard or tag resolved by name or dart_id */
+function vocabularyName(entry: { name: string } | string | undefined, fallback: string): string {
+  if (entry === undefined) return fallback;
+  return typeof entry === 'string' ? entry : entry.name;
+}
+
 /**
- * Extract current values from task for preview
+ * Build a comparison for each updated field, resolving the validated values
+ * (dart_ids, emails, ranks) back to the names tasks carry
  */
-function extractCurrentValues(task: DartTask, updatedFields: string[]): Partial<DartTask> {
-  const currentValues: Record<string, unknown> = {};
+function planFieldUpdates(updates: Partial<DartTask>, config: DartConfig): FieldPlan[] {
+  const plans: FieldPlan[] = [];
+
+  for (const [key, value] of Object.entries(updates)) {
+    switch (key) {
+      case 'status':
+      case 'dartboard': {
+        const isStatus = key === 'status';
+        const id = String(value);
+        const name = isStatus
+          ? vocabularyName(findStatus(config.statuses ?? [], id), id)
+          : vocabularyName(findDartboard(config.dartboards ?? [], id), id);
+        const current = (task: DartTask) => (isStatus ? task.status : task.dartboard);
+        const currentId = (task: DartTask) => (isStatus ? task.status_id : task.dartboard_id);
+        plans.push({
+          field: key,
+          to: name,
+          from: task => displayText(current(task)),
+          unchanged: task => currentId(task) === id || current(task)?.toLowerCase() === name.toLowerCase(),
+        });
+        break;
+      }
 
-  for (const field of updatedFields) {
-    if (field in task) {
-      currentValues[field] = task[field as keyof DartTask];
+      case 'priority':
+      case 'size': {
+        const options = (key === 'priority' ? config.priorities : config.sizes) ?? [];
+        const rank = rankOf(key, value, config);
+        plans.push({
+          field: key,
+          to: options.find(option => option.value === value)?.label ?? displayText(value),
+          from: task => displayText(task[key]),
+          unchanged: task => rankOf(key, task[key], config) === rank,
+        });
+        break;
+      }
+
+      case 'assignees': {
+        // Tasks list assignees by name; updates resolve to email or name
+        const names = (ids: string[] | undefined) =>
+          (ids ?? []).map(id => {
+            const input = id.toLowerCase();
+            const user = (config.assignees ?? []).find(a =>
+              [a.name, a.email, a.dart_id].some(identifier => identifier?.toLowerCase() === input)
+            );
+            return user ? user.name : id;
+          });
+        const target = names(value as string[]);
+        plans.push({
+          field: key,
+          to: displayList(target),
+          from: task => displayList(names(task.assignees)),
+          unchanged: task => sameMembers(names(task.assignees), target),
+        });
+        break;
+      }
+
+      case 'tags': {
+        // Tasks list tags by name; updates resolve to dart_ids
+        const names = (ids: string[] | undefined) =>
+          (ids ?? []).map(id => vocabularyName(findTag(config.tags ?? [], id), id));
+        const target = names(value as string[]);
+        plans.push({
+          field: key,
+          to: displayList(target),
+          from: task => displayList(names(task.tags)),
+          unchanged: task => sameMembers(names(task.tags), target),
+        });
+        break;
+      }
+
+      case 'due_at':
+      case 'start_at': {
+        const time = new Date(String(value)).getTime();
+        plans.push({
+          field: key,
+          to: formatDate(value),
+          from: task => formatDate(task[key]),
+          unchanged: task => !!task[key] && new Date(task[key]!).getTime() === time,
+        });
+        break;
+      }
+
+      case 'custom_properties':
+        for (const [name, propertyValue] of Object.entries(value as Record<string, unknown>)) {
+          const target = JSON.stringify(propertyValue ?? null);
+          const current = (task: DartTask) => readCustomProperty(task as unknown as Record<string, unknown>, name);
+          plans.push({
+            field: formatCustomPropertyField(name),
+            to: formatCustomProperty(propertyValue),
+            from: task => formatCustomProperty(current(task)),
+            unchanged: task => JSON.stringify(current(task) ?? null) === target,
+          });
+        }
+        break;
+
+      default: {
+        if (RELATIONSHIP_FIELDS.includes(key)) {
+          // '?' when the list response left the current links out
+          plans.push({
+            field: key,
+            to: displayList(value as string[]),
+            from: task => {
+              const current = task[key as keyof DartTask] as string[] | undefined;
+              return current && current.length > 0 ? displayList(current) : '?';
+            },
+            unchanged: () => false,
+          });
+          break;
+        }
+
+        // title, description, parent_task: list responses can leave these
+        // out, so a missing field counts as a change ('?' in the preview)
+        const target = String(value ?? '');
+        const current = (task: DartTask) => task[key as keyof DartTask];
+        plans.push({
+          field: key,
+          to: displayText(value),
+          from: task => (current(task) === undefined ? '?' : displayText(current(task))),
+          unchanged: task => current(task) !== undefined && String(current(task) ?? '') === target,
+        });
+      }
     }
   }
 
-  return currentValues as Partial<DartTask>;
+  return plans;
+}
+
+/**
+ * Fields the update would change on a task; a no-op when there are none
+ */
+function previewChanges(task: DartTask, plans: FieldPlan[]): TaskChangePreview {
+  const changes = plans
+    .filter(plan => !plan.unchanged(task))
+    .map(plan => ({ field: plan.field, from: plan.from(task), to: plan.to }));
+
+  return { dart_id: task.dart_id, title: task.title, changes, no_op: changes.length === 0 };
+}
+
+/**
+ * Per-field counts: "42 tasks: status changes 40, 2 already Done"
+ */
+function summarizeChanges(previews: TaskChangePreview[], plans: FieldPlan[]): string {
+  const fields = plans.map(plan => {
+    const changed = previews.filter(preview => preview.changes.some(change => change.field === plan.field)).length;
+    const already = previews.length - changed;
+    const target = plan.to === '-' ? 'empty' : plan.to;
+    return `${plan.field} changes ${changed}` + (already > 0 ? `, ${already} already ${target}` : '');
+  });
+
+  const noOps = previews.filter(preview => preview.no_op).length;
+  const skipped = noOps > 0 ? `; ${noOps} skipped (no change)` : '';
+
+  return `${previews.length} tasks: ${fields.join('; ')}${skipped}`;
 }
@@ -0,0 +1,73 @@
+/**
+ * complete_query Tool Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleCompleteQuery, completeDartQLArgument } from './complete_query.js';
+import { DartClient } from '../api/dartClient.js';
+import { configCache } from '../cache/configCache.js';
+
+// Mock DartClient
+vi.mock('../api/dartClient.js');
+
+const config = {
+  assignees: [{ dart_id: 'u1', name: 'Alice', email: 'alice@example.com' }],
+  dartboards: [{ dart_id: 'db1', name: 'Engineering' }, { dart_id: 'db2', name: 'Marketing' }],
+  statuses: [{ dart_id: 'st1', name: 'To Do' }, { dart_id: 'st2', name: 'In Progress' }],
+  tags: [],
+  priorities: [],
+  sizes: [],
+  folders: [],
+};
+
+describe('complete_query', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    configCache.invalidate();
+    process.env.DART_TOKEN = 'dsa_test_token';
+    vi.mocked(DartClient).mockImplementation(() => ({
+      getConfig: vi.fn().mockResolvedValue(config),
+    } as any));
+  });
+
+  it('should validate query, cursor and limit', async () => {
+    await expect(handleCompleteQuery({} as any)).rejects.toThrow('query is required');
+    await expect(handleCompleteQuery({ query: 'status', cursor: 7 })).rejects.toThrow('cursor must be an integer between 0 and 6');
+    await expect(handleCompleteQuery({ query: '', limit: 0 })).rejects.toThrow('limit must be an integer');
+  });
+
+  it('should complete workspace values at the cursor', async () => {
+    const result = await handleCompleteQuery({ query: "dartboard = 'E AND status = 'To Do'", cursor: 14 });
+
+    expect(result).toEqual({
+      start: 12,
+      end: 14,
+      suggestions: [{ text: "'Engineering'", kind: 'value' }],
+      total: 1,
+    });
+  });
+
+  it('should cap suggestions at the limit and report the total', async () => {
+    const result = await handleCompleteQuery({ query: "status = 'To Do' AND ", limit: 3 });
+
+    expect(result.suggestions.map(s => s.text)).toEqual(['status', 'priority', 'size']);
+    expect(result.total).toBeGreaterThan(3);
+  });
+
+  it('should return whole argument values for completion/complete', async () => {
+    expect(await completeDartQLArgument('selector', "status = 'In")).toEqual({
+      values: ["status = 'In Progress'"],
+      total: 1,
+      hasMore: false,
+    });
+    expect(await completeDartQLArgument('dart_id', 'abc')).toEqual({ values: [], total: 0, hasMore: false });
+  });
+
+  it('should still complete keywords without a workspace config', async () => {
+    delete process.env.DART_TOKEN;
+
+    const result = await completeDartQLArgument('query', "status = 'To Do' OR");
+
+    expect(result.values).toEqual(["status = 'To Do' OR", "status = 'To Do' ORDER BY"]);
+  });
+});
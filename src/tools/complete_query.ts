@@ -0,0 +1,88 @@
+/**
+ * complete_query Tool Handler
+ *
+ * Suggest what comes next in a partial DartQL query: field names at the start
+ * of a condition, the operators a field takes, workspace statuses, dartboards,
+ * tags and assignees inside a string literal, and keywords after a value.
+ * The same completions answer MCP completion/complete requests for DartQL
+ * arguments (query, selector, where).
+ */
+
+import { handleGetConfig } from './get_config.js';
+import { createBindings } from '../parsers/dartql.js';
+import { completeDartQL } from '../parsers/completion.js';
+import { CompleteQueryInput, CompleteQueryOutput, DartConfig, ValidationError } from '../types/index.js';
+
+/** Suggestions returned when no limit is given */
+const DEFAULT_LIMIT = 20;
+
+/** MCP caps completion/complete at 100 values */
+const MAX_LIMIT = 100;
+
+/** Tool arguments holding DartQL, completed by completion/complete */
+const DARTQL_ARGUMENTS = ['query', 'selector', 'where'];
+
+/**
+ * Handle complete_query tool calls
+ *
+ * @param input - CompleteQueryInput with the partial query and cursor
+ * @returns CompleteQueryOutput with suggestions replacing query[start, end)
+ */
+export async function handleCompleteQuery(input: CompleteQueryInput): Promise<CompleteQueryOutput> {
+  const safeInput = input || ({} as CompleteQueryInput);
+
+  if (typeof safeInput.query !== 'string') {
+    throw new ValidationError('query is required and must be a string (partial DartQL, e.g., "status = \'In")', 'query');
+  }
+
+  const cursor = safeInput.cursor ?? safeInput.query.length;
+  if (!Number.isInteger(cursor) || cursor < 0 || cursor > safeInput.query.length) {
+    throw new ValidationError(`cursor must be an integer between 0 and ${safeInput.query.length}`, 'cursor');
+  }
+
+  const limit = safeInput.limit ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ValidationError(`limit must be an integer between 1 and ${MAX_LIMIT}`, 'limit');
+  }
+
+  // Workspace config supplies the values and binds `me`
+  const config = await handleGetConfig({ cache_bust: false });
+  const result = completeDartQL(safeInput.query, cursor, config, createBindings(config));
+
+  return {
+    ...result,
+    suggestions: result.suggestions.slice(0, limit),
+    total: result.suggestions.length,
+  };
+}
+
+/**
+ * Complete a DartQL tool argument for MCP completion/complete
+ *
+ * The cursor is at the end of the value, and each completion is the whole new
+ * argument value. Without a workspace config (no DART_TOKEN, API down) fields,
+ * operators and keywords are still suggested.
+ *
+ * @param name - Argument name; only query, selector and where are DartQL
+ * @param value - Argument value typed so far
+ */
+export async function completeDartQLArgument(
+  name: string,
+  value: string
+): Promise<{ values: string[]; total: number; hasMore: boolean }> {
+  if (!DARTQL_ARGUMENTS.includes(name)) {
+    return { values: [], total: 0, hasMore: false };
+  }
+
+  let config: Partial<DartConfig> = {};
+  try {
+    config = await handleGetConfig({ cache_bust: false });
+  } catch {
+    // Complete without workspace values
+  }
+
+  const { start, suggestions } = completeDartQL(value, value.length, config, createBindings(config));
+  const values = suggestions.map(suggestion => value.slice(0, start) + suggestion.text);
+
+  return { values: values.slice(0, MAX_LIMIT), total: values.length, hasMore: values.length > MAX_LIMIT };
+}
@@ -0,0 +1,200 @@
+/**
+ * explain_query Tool Handler Tests
+ *
+ * Tests for plan description (pushdown, fan-out, residual) and the count probe
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleExplainQuery } from './explain_query.js';
+import { DartClient } from '../api/dartClient.js';
+import { configCache } from '../cache/configCache.js';
+
+// Mock DartClient
+vi.mock('../api/dartClient.js');
+
+const emptyConfig = {
+  assignees: [],
+  dartboards: [],
+  statuses: [],
+  tags: [],
+  priorities: [],
+  sizes: [],
+  folders: [],
+};
+
+function mockClient(total = 0, config: Record<string, unknown> = emptyConfig) {
+  const listTasks = vi.fn().mockResolvedValue({ tasks: [], total });
+  vi.mocked(DartClient).mockImplementation(() => ({
+    listTasks,
+    getConfig: vi.fn().mockResolvedValue(config),
+  } as any));
+  return { listTasks };
+}
+
+describe('explain_query', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    configCache.invalidate();
+    process.env.DART_TOKEN = 'dsa_test_token';
+  });
+
+  it('should reject an empty query', async () => {
+    await expect(handleExplainQuery({ query: '' })).rejects.toThrow('query is required');
+  });
+
+  it('should split pushdown and client-side predicates with reasons', async () => {
+    mockClient();
+
+    const result = await handleExplainQuery({
+      query: "Dartboard = 'Engineering' AND title LIKE '%auth%'",
+      probe: false,
+    });
+
+    expect(result.strategy).toBe('api_with_client_filter');
+    expect(result.fields).toEqual(['dartboard', 'title']);
+    expect(result.api_predicates).toEqual(["dartboard = 'Engineering'"]);
+    expect(result.client_predicate).toBe("title LIKE '%auth%'");
+    expect(result.api_queries).toEqual([{ dartboard: 'Engineering' }]);
+    expect(result.reasons.length).toBeGreaterThan(0);
+    expect(result.estimated_pages).toBeUndefined();
+  });
+
+  it('should describe OR/IN fan-out', async () => {
+    mockClient();
+
+    const result = await handleExplainQuery({ query: "status IN ('Todo', 'Doing')", probe: false });
+
+    expect(result.strategy).toBe('api_fan_out');
+    expect(result.fan_out_predicates).toEqual(["status IN ('Todo', 'Doing')"]);
+    expect(result.api_queries).toEqual([{ status: 'Todo' }, { status: 'Doing' }]);
+    expect(result.client_predicate).toBeNull();
+  });
+
+  it('should describe relationship predicates as client-side', async () => {
+    mockClient();
+
+    const result = await handleExplainQuery({
+      query: "status = 'Todo' AND ALL blockers (completed_at IS NOT NULL) AND NOT parent (dartboard = 'Roadmap')",
+      probe: false,
+    });
+
+    expect(result.client_predicate).toBe(
+      "ALL blockers (completed_at IS NOT NULL) AND NOT parent (dartboard = 'Roadmap')"
+    );
+    expect(result.reasons).toContain("Relationship predicate 'ALL blockers' fetches related tasks client-side");
+  });
+
+  it('should render regular expressions as literals', async () => {
+    mockClient();
+
+    const result = await handleExplainQuery({ query: "title MATCHES /^\\[JIRA-\\d+\\]/i AND title NOT LIKE '%wip%'", probe: false });
+
+    expect(result.client_predicate).toBe("title MATCHES /^\\[JIRA-\\d+\\]/i AND title NOT LIKE '%wip%'");
+  });
+
+  it('should describe hierarchy operators as client-side', async () => {
+    mockClient();
+
+    const result = await handleExplainQuery({ query: "DESCENDANT OF 'duid_epic' AND depth <= 2", probe: false });
+
+    expect(result.client_predicate).toBe("DESCENDANT OF 'duid_epic' AND depth <= 2");
+    expect(result.reasons).toContain('DESCENDANT OF walks the subtask tree client-side');
+  });
+
+  it('should list the task lookups relationship predicates and depth need', async () => {
+    mockClient();
+
+    const result = await handleExplainQuery({
+      query: "DESCENDANT OF 'duid_epic' AND depth <= 2 AND ANY blockers (status = 'Todo')",
+      probe: false,
+    });
+
+    expect(result.task_lookups).toEqual([
+      'each candidate, for its relationship arrays',
+      "the subtask tree of 'duid_epic'",
+      'the blockers of each candidate',
+      'the parent chain of each candidate (depth)',
+    ]);
+    expect(result.estimated_task_lookups).toBeUndefined();
+  });
+
+  it('should estimate task lookups and warn past the per-query limit', async () => {
+    mockClient(800);
+
+    const result = await handleExplainQuery({ query: "status = 'Todo' AND has_open_blockers = true" });
+
+    expect(result.task_lookups).toEqual([
+      'each candidate, for its relationship arrays',
+      'the blockers of each candidate (has_open_blockers)',
+    ]);
+    expect(result.estimated_task_lookups).toBe(1600);
+    expect(result.warnings).toContain(
+      'About 1600 task lookups exceed the limit of 1000 per query - narrow the API-pushable conditions so fewer candidates need fetching'
+    );
+  });
+
+  it('should report no task lookups for API-only queries', async () => {
+    mockClient(10);
+
+    const result = await handleExplainQuery({ query: "status = 'Todo'" });
+
+    expect(result.task_lookups).toEqual([]);
+    expect(result.estimated_task_lookups).toBeUndefined();
+  });
+
+  it('should plan each side of a set operation', async () => {
+    const { listTasks } = mockClient(40);
+
+    const result = await handleExplainQuery({
+      query: "status IN ('Todo', 'Doing') EXCEPT dartboard = 'Archive' AND title LIKE '%old%'",
+    });
+
+    expect(result.strategy).toBe('set_operation');
+    expect(result.set_operation).toMatchObject({
+      operator: 'EXCEPT',
+      left: { strategy: 'api_fan_out', fan_out_predicates: ["status IN ('Todo', 'Doing')"] },
+      right: { strategy: 'api_with_client_filter', client_predicate: "title LIKE '%old%'" },
+    });
+    expect(result.api_queries).toEqual([{ status: 'Todo' }, { status: 'Doing' }, { dartboard: 'Archive' }]);
+    expect(result.fields).toEqual(['status', 'dartboard', 'title']);
+    expect(listTasks).toHaveBeenCalledTimes(3);
+    expect(result.estimated_candidates).toBe(120);
+  });
+
+  it('should normalize field aliases and values, warning about unknown values', async () => {
+    mockClient(0, {
+      ...emptyConfig,
+      statuses: [{ dart_id: 'st1', name: 'To Do' }],
+      tags: [{ dart_id: 'tg1', name: 'Bug' }],
+    });
+
+    const result = await handleExplainQuery({ query: "status = 'to do' AND tag = 'bug' AND status != 'Tood'", probe: false });
+
+    expect(result.fields).toEqual(['status', 'tags']);
+    expect(result.canonical_where).toBe("status = 'To Do' AND tags = 'Bug' AND status != 'Tood'");
+    expect(result.api_queries).toEqual([{ status: 'To Do', tags: ['Bug'] }]);
+    expect(result.warnings).toContain("Unknown status 'Tood' (not in workspace config)");
+  });
+
+  it('should estimate pages with a count probe per API query', async () => {
+    const { listTasks } = mockClient(1200);
+
+    const result = await handleExplainQuery({ query: "SELECT id WHERE tags IN ('a', 'b') ORDER BY due_at LIMIT 5" });
+
+    expect(listTasks).toHaveBeenCalledTimes(2);
+    expect(listTasks).toHaveBeenCalledWith({ tags: ['a'], limit: 1, offset: 0 });
+    expect(result.estimated_candidates).toBe(2400);
+    expect(result.estimated_pages).toBe(6);
+    expect(result.fields).toEqual(['tags', 'due_at']);
+    expect(result.limit).toBe(5);
+  });
+
+  it('should warn when the API filters match no tasks', async () => {
+    mockClient(0);
+
+    const result = await handleExplainQuery({ query: "status = 'Tood'" });
+
+    expect(result.estimated_pages).toBe(1);
+    expect(result.warnings).toContain('The API filters match no tasks - check status, dartboard, assignee and tag values');
+  });
+});
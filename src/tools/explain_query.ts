@@ -0,0 +1,274 @@
+/**
+ * explain_query Tool Handler
+ *
+ * Show the execution plan for a DartQL query without fetching its results:
+ * parsed AST, referenced fields, which predicates go to the API (single-value
+ * filters or OR/IN fan-out) and which run client-side, plus a count probe
+ * estimating how many listTasks() pages the query will scan and how many
+ * getTask() lookups relationship predicates, depth and relationship counts
+ * need. Both sides of a UNION / INTERSECT / EXCEPT get a plan of their own.
+ */
+
+import pLimit from 'p-limit';
+import { DartClient } from '../api/dartClient.js';
+import { MAX_TASK_LOOKUPS } from '../api/taskFetcher.js';
+import { handleGetConfig } from './get_config.js';
+import {
+  convertToFilters,
+  hasRelativeDates,
+  createBindings,
+  ConvertToFiltersResult,
+} from '../parsers/dartql.js';
+import { createDateContext } from '../parsers/relativeDates.js';
+import { formatDartQL, formatDartQLField } from '../parsers/printer.js';
+import { parseQuery } from '../formatters/index.js';
+import {
+  ExplainQueryInput,
+  ExplainQueryOutput,
+  ExplainQueryPlan,
+  DartQLExpression,
+  DartAPIError,
+  ValidationError,
+} from '../types/index.js';
+
+/** Page size used by the task fetcher */
+const PAGE_SIZE = 500;
+
+/**
+ * Handle explain_query tool calls
+ *
+ * Flow:
+ * 1. Parse the statement (parseQuery)
+ * 2. Convert its WHERE expression to filters, keeping the query plan
+ * 3. Describe pushdown, fan-out and client-side predicates
+ * 4. Probe each API query with limit=1 to estimate candidates, pages and
+ *    task lookups
+ *
+ * @param input - ExplainQueryInput with DartQL query
+ * @returns ExplainQueryOutput describing the execution plan
+ */
+export async function handleExplainQuery(input: ExplainQueryInput): Promise<ExplainQueryOutput> {
+  const safeInput = input || ({} as ExplainQueryInput);
+
+  if (!safeInput.query || typeof safeInput.query !== 'string' || safeInput.query.trim() === '') {
+    throw new ValidationError(
+      'query is required and must be a non-empty DartQL string (e.g., "status = \'Todo\' AND title LIKE \'%bug%\'")',
+      'query'
+    );
+  }
+
+  if (safeInput.probe !== undefined && typeof safeInput.probe !== 'boolean') {
+    throw new ValidationError('probe must be a boolean', 'probe');
+  }
+
+  // ============================================================================
+  // Step 1-2: Parse the statement and convert its WHERE expression to filters
+  // ============================================================================
+  // Workspace config binds `me` and resolves relative dates (DartConfig.today),
+  // the status/dartboard/tag/assignee vocabulary and priority/size ranks
+  const config = await handleGetConfig({ cache_bust: false });
+  const parsed = parseQuery(safeInput.query, createBindings(config, safeInput.params));
+
+  if (parsed.errors.length > 0) {
+    throw new ValidationError(
+      `DartQL parse errors: ${parsed.errors.join('; ')}`,
+      'query',
+      parsed.errors
+    );
+  }
+
+  const { statement } = parsed;
+  const whereClause = statement.whereClause ?? null;
+
+  let filterResult: ConvertToFiltersResult = {
+    apiFilters: {},
+    requiresClientSide: false,
+    warnings: [],
+    errors: [],
+    orderBy: statement.orderBy,
+    limit: statement.limit,
+    offset: statement.offset,
+  };
+  let ast: DartQLExpression | null = null;
+
+  if (statement.where) {
+    const dateContext = hasRelativeDates(statement.where) ? createDateContext({ today: config.today }) : undefined;
+    filterResult = convertToFilters(statement.where, {
+      orderBy: statement.orderBy,
+      limit: statement.limit,
+      offset: statement.offset,
+      dateContext,
+      config,
+    });
+    ast = filterResult.plan?.resolved ?? statement.where;
+
+    if (filterResult.errors.length > 0) {
+      throw new ValidationError(
+        `DartQL conversion errors: ${filterResult.errors.join('; ')}`,
+        'query',
+        filterResult.errors
+      );
+    }
+  }
+
+  // ============================================================================
+  // Step 3: Describe the plan
+  // ============================================================================
+  const plan = describePlan(filterResult);
+
+  const fields = collectFields(ast);
+  for (const { field } of filterResult.orderBy ?? []) {
+    const name = formatDartQLField(field);
+    if (!fields.includes(name)) fields.push(name);
+  }
+
+  const apiQueries = plan.api_queries;
+
+  const output: ExplainQueryOutput = {
+    where_clause: whereClause,
+    canonical_where: ast ? formatDartQL(ast) : null,
+    ast,
+    fields,
+    ...plan,
+    ...(filterResult.orderBy && { order_by: filterResult.orderBy }),
+    ...(filterResult.limit !== undefined && { limit: filterResult.limit }),
+    ...(filterResult.offset !== undefined && { offset: filterResult.offset }),
+    warnings: [...filterResult.warnings],
+  };
+
+  // ============================================================================
+  // Step 4: Count probe
+  // ============================================================================
+  if (safeInput.probe === false) {
+    return output;
+  }
+
+  const DART_TOKEN = process.env.DART_TOKEN;
+
+  if (!DART_TOKEN) {
+    throw new DartAPIError(
+      'DART_TOKEN environment variable is required. Get your token from: https://app.dartai.com/?settings=account',
+      401
+    );
+  }
+
+  const client = new DartClient({ token: DART_TOKEN });
+  const limit = pLimit(5);
+
+  try {
+    const totals = await Promise.all(
+      apiQueries.map(filters =>
+        limit(async () => (await client.listTasks({ ...filters, limit: 1, offset: 0 })).total || 0)
+      )
+    );
+
+    output.estimated_candidates = totals.reduce((sum, total) => sum + total, 0);
+    output.estimated_pages = totals.reduce((sum, total) => sum + Math.max(1, Math.ceil(total / PAGE_SIZE)), 0);
+
+    if (output.task_lookups.length > 0) {
+      output.estimated_task_lookups = estimateTaskLookups(filterResult, output.estimated_candidates);
+    }
+  } catch (error) {
+    if (error instanceof DartAPIError) {
+      throw new DartAPIError(`Count probe failed: ${error.message}`, error.statusCode, error.response);
+    }
+    throw error;
+  }
+
+  if (output.estimated_candidates === 0) {
+    output.warnings.push('The API filters match no tasks - check status, dartboard, assignee and tag values');
+  }
+
+  if ((output.estimated_task_lookups ?? 0) > MAX_TASK_LOOKUPS) {
+    output.warnings.push(
+      `About ${output.estimated_task_lookups} task lookups exceed the limit of ${MAX_TASK_LOOKUPS} per query - ` +
+      'narrow the API-pushable conditions so fewer candidates need fetching'
+    );
+  }
+
+  return output;
+}
+
+/**
+ * Describe how a converted selector executes. A set operation describes both
+ * sides; its api_queries lists every query either side runs.
+ */
+function describePlan(filterResult: ConvertToFiltersResult): ExplainQueryPlan {
+  if (filterResult.setOperation) {
+    const { operator, left, right } = filterResult.setOperation;
+    const leftPlan = describePlan(left);
+    const rightPlan = describePlan(right);
+
+    return {
+      strategy: 'set_operation',
+      api_predicates: [],
+      fan_out_predicates: [],
+      client_predicate: null,
+      api_queries: [...leftPlan.api_queries, ...rightPlan.api_queries],
+      reasons: [],
+      task_lookups: [
+        ...new Set([...leftPlan.task_lookups, ...rightPlan.task_lookups, ...lookupDescriptions(filterResult)]),
+      ],
+      set_operation: { operator, left: leftPlan, right: rightPlan },
+    };
+  }
+
+  const plan = filterResult.plan;
+  const pushdown = plan?.pushdown ?? [];
+  const fanOut = plan?.fanOut ?? [];
+  const residual = filterResult.residual ?? null;
+
+  let strategy: ExplainQueryPlan['strategy'];
+  if (residual) {
+    strategy = pushdown.length > 0 || fanOut.length > 0 ? 'api_with_client_filter' : 'client_scan';
+  } else {
+    strategy = fanOut.length > 0 ? 'api_fan_out' : 'api';
+  }
+
+  return {
+    strategy,
+    api_predicates: pushdown.map(expr => formatDartQL(expr)),
+    fan_out_predicates: fanOut.map(expr => formatDartQL(expr)),
+    client_predicate: residual ? formatDartQL(residual) : null,
+    api_queries: filterResult.apiFilterSets ?? [filterResult.apiFilters],
+    reasons: plan?.reasons ?? [],
+    task_lookups: lookupDescriptions(filterResult),
+  };
+}
+
+function lookupDescriptions(filterResult: ConvertToFiltersResult): string[] {
+  return (filterResult.plan?.lookups ?? []).map(lookup => lookup.description);
+}
+
+/**
+ * Estimate getTask() requests: one per candidate for each per-candidate
+ * lookup, one for each fixed lookup (a set operation counts every candidate
+ * against both sides)
+ */
+function estimateTaskLookups(filterResult: ConvertToFiltersResult, candidates: number): number {
+  const lookups = filterResult.plan?.lookups ?? [];
+  const own = lookups.reduce((sum, lookup) => sum + (lookup.perCandidate ? candidates : 1), 0);
+
+  if (!filterResult.setOperation) return own;
+  const { left, right } = filterResult.setOperation;
+  return own + estimateTaskLookups(left, candidates) + estimateTaskLookups(right, candidates);
+}
+
+/**
+ * Collect referenced field names in order of first appearance (aliases
+ * were already resolved by the parser, e.g. tag → tags)
+ */
+function collectFields(expr: DartQLExpression | null, fields: string[] = []): string[] {
+  if (!expr) return fields;
+
+  if (expr.type === 'comparison' && expr.field) {
+    const field = formatDartQLField(expr.field);
+    if (!fields.includes(field)) fields.push(field);
+  }
+
+  if (expr.left) collectFields(expr.left, fields);
+  if (expr.right) collectFields(expr.right, fields);
+  expr.expressions?.forEach(e => collectFields(e, fields));
+
+  return fields;
+}
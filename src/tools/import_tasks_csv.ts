@@ -39,8 +39,8 @@ import {
  *
  * Flow:
  * 1. Input validation (require csv_data or csv_file_path, dartboard)
- * 2. Parse CSV with parseCSV() and column_mapping
- * 3. Get config via get_config() for reference resolution
+ * 2. Get config via get_config() for reference resolution and custom properties
+ * 3. Parse CSV with parseCSV(), column_mapping and custom property columns
  * 4. Validate ALL rows - collect errors (don't stop on first error)
  * 5. Resolve references (dartboard, assignee, status, tags names → dart_ids)
  * 6. If validate_only=true: return preview + validation_errors
@@ -106,13 +106,48 @@ export async function handleImportTasksCSV(
   }
 
   // ============================================================================
-  // Phase 2: Parse CSV
+  // Phase 2: Get config for reference resolution and custom property columns
+  // ============================================================================
+
+  let config: DartConfig;
+  try {
+    config = await handleGetConfig({ cache_bust: false });
+  } catch (error) {
+    if (error instanceof DartAPIError) {
+      throw new DartAPIError(
+        `Failed to retrieve workspace config for validation: ${error.message}`,
+        error.statusCode,
+        error.response
+      );
+    }
+    throw error;
+  }
+
+  // Validate dartboard exists
+  const dartboard = findDartboard(config.dartboards, input.dartboard);
+
+  if (!dartboard) {
+    const dartboardNames = getDartboardNames(config.dartboards);
+    const availableDartboards = dartboardNames.slice(0, 10).join(', ') +
+      (dartboardNames.length > 10 ? `, ... (${dartboardNames.length - 10} more)` : '');
+    throw new ValidationError(
+      `Invalid dartboard: "${input.dartboard}" not found in workspace. Available dartboards: ${availableDartboards}`,
+      'dartboard',
+      dartboardNames
+    );
+  }
+
+  const dartboardId = typeof dartboard === 'string' ? dartboard : dartboard.dart_id;
+
+  // ============================================================================
+  // Phase 3: Parse CSV
   // ============================================================================
 
   const parseResult = parseCSV({
     csv_data: input.csv_data,
     csv_file_path: input.csv_file_path,
     column_mapping: input.column_mapping,
+    custom_properties: config.customProperties,
   });
 
   // Check for parse errors
@@ -140,40 +175,6 @@ export async function handleImportTasksCSV(
     );
   }
 
-  // ============================================================================
-  // Phase 3: Get config for reference resolution
-  // ============================================================================
-
-  let config: DartConfig;
-  try {
-    config = await handleGetConfig({ cache_bust: false });
-  } catch (error) {
-    if (error instanceof DartAPIError) {
-      throw new DartAPIError(
-        `Failed to retrieve workspace config for validation: ${error.message}`,
-        error.statusCode,
-        error.response
-      );
-    }
-    throw error;
-  }
-
-  // Validate dartboard exists
-  const dartboard = findDartboard(config.dartboards, input.dartboard);
-
-  if (!dartboard) {
-    const dartboardNames = getDartboardNames(config.dartboards);
-    const availableDartboards = dartboardNames.slice(0, 10).join(', ') +
-      (dartboardNames.length > 10 ? `, ... (${dartboardNames.length - 10} more)` : '');
-    throw new ValidationError(
-      `Invalid dartboard: "${input.dartboard}" not found in workspace. Available dartboards: ${availableDartboards}`,
-      'dartboard',
-      dartboardNames
-    );
-  }
-
-  const dartboardId = typeof dartboard === 'string' ? dartboard : dartboard.dart_id;
-
   // ============================================================================
   // Phase 4: Validate ALL rows - collect errors for all rows
   // ============================================================================
@@ -255,6 +256,7 @@ export async function handleImportTasksCSV(
         blocking_ids: item.data.blocking_ids as string[] | undefined,
         duplicate_ids: item.data.duplicate_ids as string[] | undefined,
         related_ids: item.data.related_ids as string[] | undefined,
+        custom_properties: item.data.custom_properties as Record<string, unknown> | undefined,
       },
     }));
 
@@ -327,6 +329,7 @@ export async function handleImportTasksCSV(
           blocking_ids: item.data.blocking_ids as string[] | undefined,
           duplicate_ids: item.data.duplicate_ids as string[] | undefined,
           related_ids: item.data.related_ids as string[] | undefined,
+          custom_properties: item.data.custom_properties as Record<string, unknown> | undefined,
         };
 
         // Create task via API
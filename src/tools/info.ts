@@ -61,13 +61,29 @@ const TOOL_GROUPS = {
     ],
   },
   'task-query': {
-    count: 2,
+    count: 6,
     purpose: 'Search and filter tasks',
     tools: [
       {
         name: 'list_tasks',
         description: 'List tasks with optional filtering by assignee, status, dartboard, priority, due date, has_parent, and more',
       },
+      {
+        name: 'query_tasks',
+        description: 'Run a DartQL query (SELECT fields WHERE ... format=X) and get token-efficient table/compact/csv output',
+      },
+      {
+        name: 'aggregate_tasks',
+        description: 'Count and summarize tasks per group (SELECT status, COUNT(*) ... GROUP BY status HAVING ...)',
+      },
+      {
+        name: 'explain_query',
+        description: 'Show how a DartQL query executes: API filters vs. client-side predicates, reasons, page estimate',
+      },
+      {
+        name: 'complete_query',
+        description: 'Suggest fields, operators, workspace values and keywords for a partial DartQL query',
+      },
       {
         name: 'search_tasks',
         description: 'Full-text search across task titles and descriptions with relevance ranking',
@@ -143,7 +159,7 @@ Group       | Count | Purpose
 discovery   | 1     | Progressive capability discovery
 config      | 1     | Workspace configuration
 task-crud   | 5     | Single task operations
-task-query  | 2     | Search and filter tasks
+task-query  | 6     | Search and filter tasks
 task-batch  | 3     | Bulk operations on multiple tasks
 doc-crud    | 5     | Document management
 import      | 1     | CSV bulk import
@@ -151,6 +167,10 @@ import      | 1     | CSV bulk import
 Quick Start:    info(level='group', target='task-crud')
 Batch Ops:      info(level='group', target='task-batch')
 DartQL Help:    info(level='tool', target='batch_update_tasks')
+Query Output:   info(level='tool', target='query_tasks')
+Aggregations:   info(level='tool', target='aggregate_tasks')
+Query Plans:    info(level='tool', target='explain_query')
+Completion:     info(level='tool', target='complete_query')
 Relationships:  info(level='tool', target='relationships')`;
 }
 
@@ -253,6 +273,178 @@ Examples:
 Token Budget: ~400 tokens
 Performance: Fast (cached) / Medium (API call)`,
 
+    query_tasks: `Tool: query_tasks
+Description: Run a DartQL query and get token-efficient formatted output
+
+Input Schema:
+  query: string (required)
+    [SELECT fields] [WHERE] <DartQL expression> [ORDER BY ...] [LIMIT n] [OFFSET n]
+      [FORMAT x | format=x] [EXPAND subtasks, blockers, ...]
+    A bare WHERE clause is also accepted (uses default fields)
+    Unknown fields, formats and expansions are errors with their position
+
+  limit?: integer (default: 50, max: 500)
+  offset?: integer (default: 0)
+  group_by?: 'assignee' | 'priority' (swimlanes for FORMAT board)
+  max_tokens? | max_chars?: integer (output budget, one of the two)
+
+Field Selection:
+  id, title, desc, status, pri, size, assignee, board, tags,
+  due, start, done, created, updated, parent
+  #subtasks, #blockers, #blocking, #dups, #related  (relationship counts)
+  age_days, days_since_update, days_until_due, is_overdue, is_completed,
+  subtask_count, blocker_count, has_open_blockers, assignee_count, tag_count
+                                                     (virtual fields)
+  prop.Team, prop."Story Points"                     (custom properties)
+  +subtasks, +blockers, +blocking                    (expand related titles)
+  *                                                  (all fields)
+
+Output Formats (FORMAT x or format=x):
+  table (default), compact, csv, json, ids,
+  markdown (GFM pipe table, titles linked to the task),
+  checklist (- [x] title (@assignee, due ...), checked when completed),
+  tree (subtasks nested under parents with ├─/└─, "2/3 done" on parents),
+  board (Kanban columns per status in workspace order with WIP counts;
+         group_by='assignee' or 'priority' adds swimlanes),
+  timeline (bars from start_at to due_at on a day/week axis, ▼ today,
+            overdue tasks and ◀ blockers noted after each bar)
+
+Examples:
+  query_tasks(query="status = 'Todo'")
+    → Default columns (id, title, status, pri, assignee, due) as a table
+
+  query_tasks(query="SELECT id,title,due WHERE dartboard = 'Engineering' format=compact")
+    → Tab-separated rows, one per task
+
+  query_tasks(query="SELECT id,title,+blockers WHERE tags CONTAINS 'release'")
+    → Table plus blocker titles nested under each task
+    (same as: SELECT id,title WHERE tags CONTAINS 'release' EXPAND blockers)
+
+  query_tasks(query="SELECT id,title,pri WHERE tags CONTAINS 'bug' ORDER BY priority DESC LIMIT 10")
+    → Ten highest-priority bugs (priority/size sort by rank, dates chronologically)
+
+Output ends with a footer like "50 tasks of 134 | more: +50" - pass
+offset=50 to get the next page.
+
+Output Budget (max_tokens=N, ~4 chars per token):
+  Over budget, output is trimmed in steps until it fits:
+  1. drop columns outside id, title, status, pri, assignee, due
+  2. shorten titles to 20, 15, then 10 characters
+  3. switch table to compact
+  4. return fewer tasks
+  The footer lists what was trimmed:
+    "18 tasks of 134 | more: +18 | trimmed: dropped tags,desc; title 15; compact"
+  Continue at next_offset (18).
+
+Token Budget: ~10-15 tokens per task (table), less with compact/ids
+Performance: Fast for API-compatible WHERE clauses, slower with client-side filters`,
+
+    aggregate_tasks: `Tool: aggregate_tasks
+Description: Group matching tasks and compute counts, sums, averages, minimums and maximums
+
+Input Schema:
+  query: string (required)
+    SELECT columns [WHERE <DartQL expression>] [GROUP BY fields] [HAVING <condition>]
+      [ORDER BY ...] [LIMIT n] [OFFSET n] [FORMAT table|compact|csv|json]
+    Columns are GROUP BY fields and aggregates; without GROUP BY the plain
+    columns are the grouping, and aggregates alone give one row
+  params?: object - values for :name placeholders
+
+Aggregates:
+  COUNT(*)      tasks in the group
+  COUNT(field)  tasks with a value
+  SUM(field), AVG(field)  numbers; flags as 0/1, priority/size by rank
+  MIN(field), MAX(field)  smallest / largest value (dates, ranks, numbers)
+
+Grouping:
+  Array fields unnest: a task tagged bug and ui counts in both groups,
+  likewise for several assignees. Empty values form their own group (-).
+  Timestamps group by day. HAVING and ORDER BY use group fields and
+  aggregates (HAVING COUNT(*) > 5, ORDER BY AVG(age_days) DESC).
+
+Examples:
+  aggregate_tasks(query="SELECT status, COUNT(*) GROUP BY status")
+    → Task count per status
+
+  aggregate_tasks(query="SELECT assignee, COUNT(*), AVG(age_days) WHERE is_completed = false GROUP BY assignee HAVING COUNT(*) > 5 ORDER BY COUNT(*) DESC")
+    → Busiest assignees with the average age of their open tasks
+
+  aggregate_tasks(query="SELECT dartboard, SUM(prop.\"Story Points\") WHERE status != 'Done' GROUP BY dartboard")
+    → Open story points per dartboard
+
+Output ends with a footer like "4 groups from 212 tasks".
+
+Token Budget: ~10 tokens per group (table)
+Performance: Scans every matching task (up to 10,000)`,
+
+    explain_query: `Tool: explain_query
+Description: Show how a DartQL query executes without fetching its results
+
+Input Schema:
+  query: string (required)
+    Any form query_tasks accepts (SELECT/WHERE/ORDER BY/format), or a bare WHERE clause
+  probe?: boolean (default: true)
+    Send one limit=1 listTasks request per API query to count candidates
+
+Output:
+  strategy: api | api_fan_out | api_with_client_filter | client_scan | set_operation
+  api_predicates, fan_out_predicates, client_predicate
+  api_queries (listTasks filters), reasons (why predicates stay client-side)
+  task_lookups (get_task fetches for relationship predicates, depth, counts)
+  set_operation: {operator, left, right} - one plan per UNION/INTERSECT/EXCEPT side
+  ast, fields, order_by/limit/offset
+  estimated_candidates, estimated_pages (500 tasks per page)
+  estimated_task_lookups (a query stops past 1,000)
+  warnings (e.g., "Unknown status 'Tood' (not in workspace config)")
+
+Examples:
+  explain_query(query="dartboard = 'Engineering' AND title LIKE '%auth%'")
+    → dartboard pushed to the API, LIKE evaluated on the returned tasks
+
+  explain_query(query="status IN ('Todo', 'Doing')", probe=false)
+    → api_fan_out with two listTasks queries, no count probe
+
+Token Budget: ~200-400 tokens
+Performance: Fast (one limit=1 request per API query)`,
+
+    complete_query: `Tool: complete_query
+Description: Suggest completions for a partial DartQL query at a cursor
+
+Input Schema:
+  query: string (required)
+    Partial DartQL, e.g. "status = 'In"
+  cursor?: integer (default: end of the query)
+  limit?: integer (default: 20, max: 100)
+
+Output:
+  start, end: the span each suggestion replaces (the word or string being typed)
+  suggestions: [{text, kind}] - kind is field, operator, keyword, relationship,
+    value or function; string values come quoted ('In Progress')
+  total: suggestions before the limit
+
+Suggests:
+  Condition start (after WHERE, AND, OR, '(')  → fields, NOT, ANY, ALL, DESCENDANT OF, ...
+  After a field                               → operators the field takes
+  After an operator / inside a string         → workspace statuses, dartboards, tags,
+                                                assignees, priorities, sizes, options;
+                                                today(), this_week for dates
+  After a value                               → AND, OR, UNION, ORDER BY, LIMIT, ...
+  After SELECT or a comma in it               → *, fields, COUNT(*), SUM(, ...
+  After FORMAT                                → table, compact, csv, ...
+
+Examples:
+  complete_query(query="status = 'In")
+    → 'In Progress', 'In Review' replacing 'In (start=9, end=12)
+
+  complete_query(query="due_at ")
+    → =, !=, IN, NOT IN, IS NULL, IS NOT NULL, <, <=, >, >=, BETWEEN
+
+MCP clients can also request completion/complete for the query, selector and
+where arguments; each value is the whole completed argument.
+
+Token Budget: ~50-200 tokens
+Performance: Fast (cached workspace config, no task requests)`,
+
     batch_update_tasks: `Tool: batch_update_tasks
 Description: Update multiple tasks matching a DartQL selector expression (SQL-like WHERE syntax)
 
@@ -262,7 +454,8 @@ Input Schema:
 
   updates: object (required)
     Fields to update on all matching tasks
-    Properties: status, priority, size, assignees, tags, due_at, start_at
+    Properties: status, priority, size, assignees, tags, due_at, start_at,
+      custom_properties ({"Team": "Web"} - validated by type and options)
 
   dry_run?: boolean (default: false)
     Preview matching tasks without updating (RECOMMENDED for first run)
@@ -270,27 +463,70 @@ Input Schema:
   concurrency?: integer (default: 5)
     Max concurrent API calls (1-20)
 
+  preview_format?: "table" | "compact" | "markdown" (default: table)
+    Rendering of the dry-run diff
+
 Output Schema:
   batch_operation_id: string
   selector_matched: integer (total tasks matching selector)
   dry_run: boolean
-  preview_tasks?: Array<{dart_id, title, current_values}> (if dry_run=true)
+  preview_tasks?: Array<{dart_id, title, changes: [{field, from, to}], no_op}>
+    (if dry_run=true, first 10 tasks)
+  preview?: string (if dry_run=true, every task's changes in preview_format:
+    "status: Todo → Done"; no-op tasks read "(no change, skipped)")
+  change_summary: string ("42 tasks: status changes 40, 2 already Done")
   successful_updates: integer
   failed_updates: integer
+  skipped_updates: integer (tasks the update would not change; never sent)
+  skipped_dart_ids: string[]
   successful_dart_ids: string[]
   failed_items: Array<{dart_id, error, reason}>
   execution_time_ms: integer
 
 DartQL Syntax Guide:
   Operators: =, !=, >, >=, <, <=, IN, NOT IN, LIKE, CONTAINS
+  Text: ILIKE, NOT LIKE, STARTS WITH, ENDS WITH, CONTAINS WORD (ignore case),
+    MATCHES /regex/flags (flags i m s u; nested quantifiers, repeated
+    alternations and overlapping adjacent repeats rejected)
   Logical: AND, OR, NOT
   Grouping: Use parentheses for precedence
+  Set operations: selector UNION|INTERSECT|EXCEPT selector - each side keeps
+    its own API pushdown, tasks combined by dart_id (INTERSECT binds tighter)
+  Semantics: assignee/tags match any element (!=, NOT IN: every element);
+    assignee by name, email or dart_id; status/dartboard/tag names are
+    case-insensitive; priority/size compare by rank (priority >= 3 → High)
+    Aliases: tag → tags, subtask/blocker/blocking/duplicate/related → *_ids
+  Virtual fields: age_days, days_since_update, days_until_due, is_overdue,
+    is_completed, subtask_count, blocker_count, has_open_blockers,
+    assignee_count, tag_count (client-side; booleans: true/false)
+  Custom properties: prop.Team, prop."Story Points" (client-side, typed;
+    select options case-insensitive)
+  Related tasks: ANY|ALL subtasks|blockers|blocking|duplicates|related (expr),
+    parent (expr) - client-side, fetches candidates and related tasks
+    (ALL is true without related tasks)
+  Subtask tree: DESCENDANT OF 'duid', ANCESTOR OF 'duid', CHILD OF 'duid',
+    depth (0 = top level) - client-side, walks parent/subtask links
+  Result clauses: ORDER BY field [ASC|DESC], ... LIMIT n OFFSET n (nulls sort last)
+  Parameters: :name bound from params (strings, numbers, booleans, arrays for
+    IN; never re-parsed), me = configured user (assignee = me)
+  Relative dates: today(), now(), start_of_week(), start_of_month(),
+    arithmetic (today() - 7d, now() + 2w; units h, d, w, mo),
+    ranges (due_at IN this_week | last_month | today ...), timezone via DART_TIMEZONE
+  API pushdown: AND chains split into API filters + client-side residual;
+    IN / OR on status, assignee, dartboard, priority, tags fan out into
+    parallel API queries (max DART_MAX_FAN_OUT, default 10)
+  Diagnostics: syntax errors and unknown fields, statuses, dartboards, tags,
+    assignees or custom properties are rejected before any task is fetched,
+    with the span underlined and the closest matches suggested
 
   Examples:
     "status = 'Todo'"
     "priority >= 3 AND assignee = 'duid_user1'"
     "tags CONTAINS 'urgent' AND due_at < '2026-02-01'"
     "(status = 'Todo' OR status = 'In Progress') AND NOT (priority = 1)"
+    "tags CONTAINS 'bug' ORDER BY created_at ASC LIMIT 10"
+    "due_at < today() AND status != 'Done'"
+    "blocker_count > 0 AND ALL blockers (status = 'Done')"
 
 Workflow:
   1. batch_update_tasks(selector="...", updates={...}, dry_run=true)
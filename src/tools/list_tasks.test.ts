@@ -176,3 +176,166 @@ describe('list_tasks - optional chaining safety', () => {
     expect(result.filters_applied).toHaveProperty('assignee');
   });
 });
+
+describe('list_tasks - output budget', () => {
+  const pageTasks = Array.from({ length: 6 }, (_, i) => ({
+    dart_id: `task${i}`,
+    title: `Task number ${i}`,
+    description: 'A long description that full detail returns. '.repeat(5),
+    status: 'Todo',
+    parent_task: i % 2 === 0 ? 'parent1' : undefined,
+    created_at: '2024-01-01',
+    updated_at: '2024-01-02',
+  }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.DART_TOKEN = 'dsa_test_token';
+    vi.mocked(DartClient).mockImplementation(() => ({
+      listTasks: vi.fn().mockResolvedValue({ tasks: pageTasks, total: 20 }),
+    } as any));
+  });
+
+  it('should lower detail_level before returning fewer tasks', async () => {
+    const result = await handleListTasks({ detail_level: 'full', limit: 6, max_chars: 1500 });
+
+    expect(result.trimmed).toEqual(['detail_level standard']);
+    expect(result.returned_count).toBe(6);
+    expect(result.tasks[0]).not.toHaveProperty('description');
+    expect(JSON.stringify(result, null, 2).length).toBeLessThanOrEqual(1500);
+  });
+
+  it('should continue at the API position of the first task left out', async () => {
+    const result = await handleListTasks({ has_parent: true, limit: 6, offset: 10, max_chars: 600 });
+
+    // has_parent keeps task0, task2, task4 of the API page
+    expect(result.returned_count).toBeLessThan(3);
+    expect(result.tasks.map(task => task.dart_id)).toEqual(
+      ['task0', 'task2', 'task4'].slice(0, result.returned_count)
+    );
+    expect(result.next_offset).toBe(10 + 2 * result.returned_count);
+    expect(result.has_more).toBe(true);
+    expect(result.trimmed?.[0]).toBe('detail_level minimal');
+    expect(JSON.stringify(result, null, 2).length).toBeLessThanOrEqual(600);
+  });
+});
+
+describe('list_tasks - order_by', () => {
+  const tasks = [
+    { dart_id: 'low', title: 'Low', priority: 'low', created_at: '2024-01-03' },
+    { dart_id: 'none', title: 'None', created_at: '2024-01-01' },
+    { dart_id: 'high-new', title: 'High new', priority: 'high', created_at: '2024-01-04' },
+    { dart_id: 'high-old', title: 'High old', priority: 'high', created_at: '2024-01-02' },
+  ];
+  const config = {
+    assignees: [],
+    dartboards: [],
+    statuses: [],
+    tags: [],
+    priorities: [
+      { value: 5, label: 'Urgent' },
+      { value: 4, label: 'High' },
+      { value: 2, label: 'Low' },
+    ],
+    sizes: [],
+    folders: [],
+  };
+  let listTasks: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.DART_TOKEN = 'dsa_test_token';
+    listTasks = vi.fn().mockResolvedValue({ tasks, total: tasks.length });
+    vi.mocked(DartClient).mockImplementation(() => ({
+      listTasks,
+      getConfig: vi.fn().mockResolvedValue(config),
+    } as any));
+  });
+
+  it('should sort every matching task before cutting the page', async () => {
+    const result = await handleListTasks({ order_by: 'priority DESC, created_at', limit: 2, offset: 1 });
+
+    expect(listTasks).toHaveBeenCalledWith(expect.objectContaining({ limit: 500, offset: 0 }));
+    expect(result.tasks.map(task => task.dart_id)).toEqual(['high-new', 'low']);
+    expect(result.total_count).toBe(4);
+    expect(result.has_more).toBe(true);
+    expect(result.next_offset).toBe(3);
+    expect(result.filters_applied.order_by).toBe('priority DESC, created_at');
+  });
+
+  it('should sort priority by workspace rank', async () => {
+    listTasks.mockResolvedValue({
+      tasks: [...tasks, { dart_id: 'urgent', title: 'Urgent', priority: 'Urgent', created_at: '2024-01-05' }],
+      total: 5,
+    });
+
+    const result = await handleListTasks({ order_by: 'priority DESC, created_at' });
+
+    expect(result.tasks.map(task => task.dart_id)).toEqual(['urgent', 'high-old', 'high-new', 'low', 'none']);
+  });
+
+  it('should reject order_by with anything but sort keys', async () => {
+    await expect(handleListTasks({ order_by: 'priority LIMIT 5' })).rejects.toThrow('order_by takes sort keys only');
+    await expect(handleListTasks({ order_by: 'priorty' })).rejects.toThrow('Invalid order_by');
+    await expect(handleListTasks({ order_by: 'blocker_count DESC' })).rejects.toThrow('use query_tasks');
+    expect(listTasks).not.toHaveBeenCalled();
+  });
+});
+
+describe('list_tasks - params', () => {
+  const config = {
+    assignees: [{ dart_id: 'user1', name: "Pat O'Brien", email: "o'brien@example.com" }],
+    dartboards: [],
+    statuses: [{ dart_id: 'st1', name: 'Todo' }],
+    tags: [{ dart_id: 'tag1', name: 'bug' }, { dart_id: 'tag2', name: 'ui' }],
+    priorities: [],
+    sizes: [],
+    folders: [],
+    user: { name: "Pat O'Brien", email: "o'brien@example.com" },
+  };
+  let listTasks: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.DART_TOKEN = 'dsa_test_token';
+    vi.mocked(configCache.get).mockReturnValue(null);
+    listTasks = vi.fn().mockResolvedValue({ tasks: [], total: 0 });
+    vi.mocked(DartClient).mockImplementation(() => ({
+      listTasks,
+      getConfig: vi.fn().mockResolvedValue(config),
+    } as any));
+  });
+
+  it('should bind :name placeholders in filters from params', async () => {
+    const result = await handleListTasks({
+      assignee: ':owner',
+      status: ':status',
+      tags: [':labels'],
+      params: { owner: "o'brien@example.com", status: 'Todo', labels: ['bug', 'ui'] },
+    });
+
+    expect(listTasks).toHaveBeenCalledWith(expect.objectContaining({
+      assignee: "o'brien@example.com",
+      status: 'st1',
+      tags: ['tag1', 'tag2'],
+    }));
+    expect(listTasks.mock.calls[0][0]).not.toHaveProperty('params');
+    expect(result.filters_applied.status).toBe('st1');
+  });
+
+  it('should resolve assignee me to the configured user', async () => {
+    await handleListTasks({ assignee: 'me' });
+
+    expect(listTasks).toHaveBeenCalledWith(expect.objectContaining({ assignee: "o'brien@example.com" }));
+  });
+
+  it('should reject missing and mistyped parameters before listing', async () => {
+    await expect(handleListTasks({ status: ':state', params: { status: 'Todo' } }))
+      .rejects.toThrow("No value for parameter ':state' in params (did you mean ':status'?)");
+    await expect(handleListTasks({ status: ':status', params: { status: ['Todo'] } }))
+      .rejects.toThrow("Parameter ':status' for status must be a string");
+    await expect(handleListTasks({ tags: [':labels'], params: { labels: [] } }))
+      .rejects.toThrow("Parameter ':labels' for tags must be a string or non-empty array of strings");
+    expect(listTasks).not.toHaveBeenCalled();
+  });
+});
@@ -6,8 +6,14 @@
  */
 
 import { DartClient } from '../api/dartClient.js';
+import { fetchMatchingTasks } from '../api/taskFetcher.js';
 import { configCache } from '../cache/configCache.js';
+import { resolveCharBudget } from '../formatters/index.js';
+import { parseDartQLToAST, needsTaskResolution, sortTasks, createBindings } from '../parsers/dartql.js';
+import { findClosestMatches } from '../parsers/csv.js';
 import {
+  DartConfig,
+  DartQLOrderBy,
   ListTasksInput,
   ListTasksOutput,
   DartTask,
@@ -21,17 +27,25 @@ import {
   getTagNames,
 } from '../types/index.js';
 
+/** Safety limit on tasks fetched to sort with order_by */
+const MAX_SORTED_TASKS = 10000;
+
+/** Filters whose value may be a :name placeholder (tags entries may be too) */
+const PLACEHOLDER_FILTERS = ['assignee', 'status', 'dartboard', 'priority', 'due_before', 'due_after'] as const;
+
 /**
  * Handle list_tasks tool calls
  *
  * Flow:
  * 1. Validate input parameters (pagination, filters, detail_level)
  * 2. Resolve filter references (names to IDs) against config
- * 3. Call DartClient.listTasks() with filters
+ * 3. Call DartClient.listTasks() with filters (order_by: fetch every
+ *    matching task, sort, then cut the page)
  * 4. Apply client-side filtering fallback if API doesn't support filter
  * 5. Apply detail_level pruning (minimal/standard/full)
  * 6. Calculate pagination metadata
- * 7. Return tasks with pagination info and filters_applied
+ * 7. Fit max_tokens/max_chars: lower detail_level, then return fewer tasks
+ * 8. Return tasks with pagination info and filters_applied
  *
  * @param input - ListTasksInput with filters, pagination, and detail level
  * @returns ListTasksOutput with tasks array and pagination metadata
@@ -56,11 +70,14 @@ export async function handleListTasks(input: ListTasksInput): Promise<ListTasksO
   const limit = validateLimit(safeInput.limit);
   const offset = validateOffset(safeInput.offset);
 
-  // Validate detail_level
+  // Validate detail_level and output budget
   const detailLevel = validateDetailLevel(safeInput.detail_level);
+  const maxChars = resolveCharBudget(safeInput);
+  const orderBy = validateOrderBy(safeInput.order_by);
 
-  // Validate and resolve filters
-  const resolvedFilters = await resolveFilters(safeInput, client);
+  // Bind :name placeholders and `me`, then validate and resolve filters
+  const boundInput = await bindFilters(safeInput, client);
+  const resolvedFilters = await resolveFilters(boundInput, client);
 
   // Build API request with resolved filters
   const apiRequest: ListTasksInput = {
@@ -73,7 +90,9 @@ export async function handleListTasks(input: ListTasksInput): Promise<ListTasksO
   // Call DartClient.listTasks()
   let apiResponse: { tasks: DartTask[]; total: number };
   try {
-    apiResponse = await client.listTasks(apiRequest);
+    apiResponse = orderBy
+      ? await fetchSortedPage(client, apiRequest, orderBy, boundInput)
+      : await client.listTasks(apiRequest);
   } catch (error) {
     // Enhance error messages for authentication issues
     if (error instanceof DartAPIError) {
@@ -96,33 +115,91 @@ export async function handleListTasks(input: ListTasksInput): Promise<ListTasksO
   }
 
   // Extract tasks and total count
-  let tasks = apiResponse.tasks || [];
+  const pageTasks = apiResponse.tasks || [];
   const totalCount = apiResponse.total || 0;
 
   // Apply client-side filtering fallback if API doesn't support certain filters
   // (Some filters might not be supported by the API, so we filter client-side)
-  tasks = applyClientSideFilters(tasks, safeInput);
-
-  // Apply detail_level pruning to reduce token usage
-  tasks = applyDetailLevel(tasks, detailLevel);
+  const filteredTasks = applyClientSideFilters(pageTasks, boundInput);
 
   // Calculate pagination metadata
-  const returnedCount = tasks.length;
   // Use limit (not returnedCount) to calculate hasMore, as client-side filtering could reduce returnedCount
   const hasMore = offset + limit < totalCount;
-  const nextOffset = hasMore ? offset + limit : null;
 
   // Build filters_applied object
-  const filtersApplied = buildFiltersApplied(safeInput, resolvedFilters);
+  const filtersApplied = buildFiltersApplied(boundInput, resolvedFilters);
 
-  return {
-    tasks,
+  // Apply detail_level pruning to reduce token usage
+  const output: ListTasksOutput = {
+    tasks: applyDetailLevel(filteredTasks, detailLevel),
     total_count: totalCount,
-    returned_count: returnedCount,
+    returned_count: filteredTasks.length,
     has_more: hasMore,
-    next_offset: nextOffset,
+    next_offset: hasMore ? offset + limit : null,
     filters_applied: filtersApplied,
   };
+
+  if (maxChars === undefined || measure(output) <= maxChars) {
+    return output;
+  }
+  return fitToBudget(output, maxChars, { pageTasks, filteredTasks, detailLevel, offset });
+}
+
+/** Characters in the tool response (index.ts prints results indented by 2) */
+function measure(output: ListTasksOutput): number {
+  return JSON.stringify(output, null, 2).length;
+}
+
+/**
+ * Shrink an over-budget response: lower detail_level, then keep only as many
+ * tasks as fit (at least one), continuing at the API position of the first
+ * task left out
+ */
+function fitToBudget(
+  output: ListTasksOutput,
+  maxChars: number,
+  page: {
+    pageTasks: DartTask[];
+    filteredTasks: DartTask[];
+    detailLevel: 'minimal' | 'standard' | 'full';
+    offset: number;
+  }
+): ListTasksOutput {
+  const levels: Array<'minimal' | 'standard' | 'full'> = ['full', 'standard', 'minimal'];
+  let fitted = output;
+
+  for (const level of levels.slice(levels.indexOf(page.detailLevel) + 1)) {
+    fitted = {
+      ...output,
+      tasks: applyDetailLevel(page.filteredTasks, level),
+      trimmed: [`detail_level ${level}`],
+    };
+    if (measure(fitted) <= maxChars) return fitted;
+  }
+
+  const withCount = (count: number): ListTasksOutput => {
+    if (count >= page.filteredTasks.length) return fitted;
+    const nextOffset = page.offset + page.pageTasks.indexOf(page.filteredTasks[count]);
+    return {
+      ...fitted,
+      tasks: fitted.tasks.slice(0, count),
+      returned_count: count,
+      has_more: true,
+      next_offset: nextOffset,
+      trimmed: [...(fitted.trimmed || []), `first ${count} of ${page.filteredTasks.length} tasks`],
+    };
+  };
+
+  // Largest task count that fits, found by bisection
+  let low = Math.min(1, page.filteredTasks.length);
+  let high = page.filteredTasks.length;
+  while (low < high) {
+    const count = Math.ceil((low + high) / 2);
+    if (measure(withCount(count)) <= maxChars) low = count;
+    else high = count - 1;
+  }
+
+  return withCount(low);
 }
 
 /**
@@ -167,6 +244,64 @@ function validateOffset(offset?: number): number {
   return offset;
 }
 
+/**
+ * Parse order_by ("priority DESC, created_at") into DartQL sort keys
+ */
+function validateOrderBy(orderBy?: string): DartQLOrderBy[] | undefined {
+  if (orderBy === undefined || orderBy === null) {
+    return undefined;
+  }
+
+  if (typeof orderBy !== 'string' || orderBy.trim() === '') {
+    throw new ValidationError('order_by must be a non-empty string, e.g. "priority DESC, created_at"', 'order_by');
+  }
+
+  const parsed = parseDartQLToAST(`ORDER BY ${orderBy}`);
+  if (parsed.errors.length > 0) {
+    throw new ValidationError(`Invalid order_by: ${parsed.errors.join('; ')}`, 'order_by', parsed.errors);
+  }
+
+  if (parsed.limit !== undefined || parsed.offset !== undefined) {
+    throw new ValidationError('order_by takes sort keys only; use limit and offset for paging', 'order_by');
+  }
+
+  const keys = parsed.orderBy ?? [];
+  if (needsTaskResolution(keys.map(key => key.field))) {
+    throw new ValidationError(
+      'order_by cannot sort by depth or relationship counts (list responses leave them out); use query_tasks',
+      'order_by'
+    );
+  }
+
+  return keys;
+}
+
+/**
+ * Fetch every task matching the filters, sort it and cut the requested page,
+ * so order_by sorts across pages rather than within one. The total counts
+ * tasks after client-side filters.
+ */
+async function fetchSortedPage(
+  client: DartClient,
+  request: ListTasksInput,
+  orderBy: DartQLOrderBy[],
+  input: ListTasksInput
+): Promise<{ tasks: DartTask[]; total: number }> {
+  const { limit = 50, offset = 0, ...filters } = request;
+  const tasks = await fetchMatchingTasks(client, { apiFilters: filters }, {
+    maxTasks: MAX_SORTED_TASKS,
+    onLimitExceeded: () =>
+      new ValidationError(
+        `order_by sorts at most ${MAX_SORTED_TASKS} tasks. Add filters to narrow the list.`,
+        'order_by'
+      ),
+  });
+
+  // Priority and size sort by workspace rank, as DartQL ORDER BY does
+  const sorted = sortTasks(applyClientSideFilters(tasks, input), orderBy, await loadConfig(client));
+  return { tasks: sorted.slice(offset, offset + limit), total: sorted.length };
+}
+
 /**
  * Validate detail_level parameter
  */
@@ -184,6 +319,105 @@ function validateDetailLevel(detailLevel?: string): 'minimal' | 'standard' | 'fu
   return detailLevel as 'minimal' | 'standard' | 'full';
 }
 
+/**
+ * Substitute :name placeholders in filter values from params, and `me` in
+ * assignee with the configured user. Bound values are used as given and
+ * never re-parsed; params itself is not passed on to the API.
+ */
+async function bindFilters(input: ListTasksInput, client: DartClient): Promise<ListTasksInput> {
+  const { params, ...filters } = input;
+  const usesMe = typeof filters.assignee === 'string' && filters.assignee.trim().toLowerCase() === 'me';
+  if (params === undefined && !usesMe) {
+    return filters;
+  }
+
+  const bindings = createBindings(usesMe ? await loadConfig(client) : {}, params);
+  const bound: ListTasksInput = { ...filters };
+
+  if (usesMe) {
+    if (bindings.me === undefined) {
+      throw new ValidationError("assignee 'me' needs the current user, but the workspace config has no user", 'assignee');
+    }
+    bound.assignee = bindings.me;
+  }
+
+  for (const field of PLACEHOLDER_FILTERS) {
+    const value = bound[field];
+    if (typeof value === 'string' && isPlaceholder(value)) {
+      const boundValue = lookupParameter(value, bindings.params, field);
+      if (typeof boundValue !== 'string' && !(field === 'priority' && typeof boundValue === 'number')) {
+        throw new ValidationError(
+          `Parameter '${value}' for ${field} must be a ${field === 'priority' ? 'string or number' : 'string'}, got ${JSON.stringify(boundValue)}`,
+          field
+        );
+      }
+      Object.assign(bound, { [field]: boundValue });
+    }
+  }
+
+  if (Array.isArray(bound.tags)) {
+    bound.tags = bound.tags.flatMap(tag => {
+      if (typeof tag !== 'string' || !isPlaceholder(tag)) return [tag];
+      const boundValue = lookupParameter(tag, bindings.params, 'tags');
+      const tags = Array.isArray(boundValue) ? boundValue : [boundValue];
+      if (tags.length === 0 || tags.some(item => typeof item !== 'string')) {
+        throw new ValidationError(
+          `Parameter '${tag}' for tags must be a string or non-empty array of strings, got ${JSON.stringify(boundValue)}`,
+          'tags'
+        );
+      }
+      return tags as string[];
+    });
+  }
+
+  return bound;
+}
+
+/**
+ * Whether a filter value is a :name placeholder
+ */
+function isPlaceholder(value: string): boolean {
+  return /^:[a-zA-Z_][a-zA-Z0-9_]*$/.test(value.trim());
+}
+
+/**
+ * Value bound to a :name placeholder
+ *
+ * @throws ValidationError when params has no value for it
+ */
+function lookupParameter(placeholder: string, params: Record<string, unknown> | undefined, field: string): unknown {
+  const name = placeholder.trim().slice(1);
+  const values = params ?? {};
+
+  if (!Object.prototype.hasOwnProperty.call(values, name)) {
+    const similar = findClosestMatches(name, Object.keys(values));
+    throw new ValidationError(
+      `No value for parameter '${placeholder.trim()}' in params` +
+      (similar.length > 0 ? ` (did you mean ':${similar[0]}'?)` : ''),
+      field,
+      similar.map(match => `:${match}`)
+    );
+  }
+
+  return values[name];
+}
+
+/**
+ * Workspace config from the cache, fetched and cached on a miss
+ */
+async function loadConfig(client: DartClient): Promise<DartConfig> {
+  let config = configCache.get();
+  if (!config) {
+    config = await client.getConfig();
+    configCache.set({
+      ...config,
+      cached_at: new Date().toISOString(),
+      cache_ttl_seconds: configCache.getTTL(),
+    });
+  }
+  return config;
+}
+
 /**
  * Resolve filter references (names to IDs) against workspace config
  */
@@ -199,15 +433,7 @@ async function resolveFilters(
   }
 
   // Get config to resolve names to IDs
-  let config = configCache.get();
-  if (!config) {
-    config = await client.getConfig();
-    configCache.set({
-      ...config,
-      cached_at: new Date().toISOString(),
-      cache_ttl_seconds: configCache.getTTL(),
-    });
-  }
+  const config = await loadConfig(client);
 
   const resolved: ListTasksInput = { ...input };
 
@@ -497,6 +723,7 @@ function buildFiltersApplied(
   filtersApplied.limit = input.limit !== undefined ? input.limit : 50;
   filtersApplied.offset = input.offset !== undefined ? input.offset : 0;
   filtersApplied.detail_level = input.detail_level || 'standard';
+  if (input.order_by) filtersApplied.order_by = input.order_by;
 
   // Flag indicating client-side filtering was used
   if (hasRelationshipFilters(input)) {
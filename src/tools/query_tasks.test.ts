@@ -0,0 +1,353 @@
+/**
+ * query_tasks Tool Handler Tests
+ *
+ * Tests for the SELECT/WHERE/format pipeline wired through DartClient
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleQueryTasks } from './query_tasks.js';
+import { DartClient } from '../api/dartClient.js';
+import { configCache } from '../cache/configCache.js';
+import { DartAPIError } from '../types/index.js';
+
+// Mock DartClient
+vi.mock('../api/dartClient.js');
+
+const tasks = [
+  {
+    dart_id: 'duid_task000001',
+    title: 'Fix login bug',
+    status: 'Todo',
+    priority: 'high',
+    assignees: ['alice@example.com'],
+    tags: ['bug'],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-02T00:00:00Z',
+  },
+  {
+    dart_id: 'duid_task000002',
+    title: 'Write release notes',
+    status: 'Doing',
+    priority: 'low',
+    assignees: ['bob@example.com'],
+    tags: ['docs'],
+    created_at: '2026-01-03T00:00:00Z',
+    updated_at: '2026-01-04T00:00:00Z',
+  },
+  {
+    dart_id: 'duid_task000003',
+    title: 'Fix logout bug',
+    status: 'Todo',
+    priority: 'medium',
+    assignees: [],
+    tags: ['bug'],
+    created_at: '2026-01-05T00:00:00Z',
+    updated_at: '2026-01-06T00:00:00Z',
+  },
+];
+
+const emptyConfig = {
+  assignees: [],
+  dartboards: [],
+  statuses: [],
+  tags: [],
+  priorities: [],
+  sizes: [],
+  folders: [],
+};
+
+function mockClient(overrides: Record<string, unknown> = {}) {
+  const listTasks = vi.fn().mockResolvedValue({ tasks, total: tasks.length });
+  const getTask = vi.fn();
+  const getConfig = vi.fn().mockResolvedValue(emptyConfig);
+  vi.mocked(DartClient).mockImplementation(() => ({
+    listTasks,
+    getTask,
+    getConfig,
+    ...overrides,
+  } as any));
+  return { listTasks, getTask };
+}
+
+describe('query_tasks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    configCache.invalidate();
+    process.env.DART_TOKEN = 'dsa_test_token';
+  });
+
+  it('should reject an empty query', async () => {
+    mockClient();
+    await expect(handleQueryTasks({ query: '  ' })).rejects.toThrow('query is required');
+  });
+
+  it('should surface DartQL parse errors', async () => {
+    mockClient();
+    await expect(handleQueryTasks({ query: "stauts = 'Todo'" })).rejects.toThrow('DartQL parse errors');
+  });
+
+  it('should reject unknown SELECT columns with their position', async () => {
+    const { listTasks } = mockClient();
+
+    await expect(handleQueryTasks({ query: "SELECT id,tilte WHERE status = 'Todo'" }))
+      .rejects.toThrow("Unknown field 'tilte' in SELECT at position 10");
+    expect(listTasks).not.toHaveBeenCalled();
+  });
+
+  it('should keep WHERE and format keywords inside string literals', async () => {
+    const { listTasks } = mockClient();
+
+    const result = await handleQueryTasks({ query: "SELECT id WHERE title = 'Where to go format=csv' FORMAT ids" });
+
+    expect(listTasks).toHaveBeenCalledWith({ limit: 500, offset: 0 });
+    expect(result.format).toBe('ids');
+  });
+
+  it('should bind params and me against the workspace user', async () => {
+    const { listTasks } = mockClient({
+      getConfig: vi.fn().mockResolvedValue({ ...emptyConfig, user: { name: 'Alice', email: 'alice@example.com' } }),
+    });
+
+    await handleQueryTasks({ query: 'assignee = me AND status = :status', params: { status: "Won't Do" } });
+
+    expect(listTasks).toHaveBeenCalledWith({ assignee: 'alice@example.com', status: "Won't Do", limit: 50, offset: 0 });
+  });
+
+  it('should push API-compatible filters down and paginate via the API', async () => {
+    const { listTasks } = mockClient();
+    listTasks.mockResolvedValue({ tasks: tasks.slice(0, 2), total: 12 });
+
+    const result = await handleQueryTasks({ query: "status = 'Todo'", limit: 2, offset: 4 });
+
+    expect(listTasks).toHaveBeenCalledTimes(1);
+    expect(listTasks).toHaveBeenCalledWith({ status: 'Todo', limit: 2, offset: 4 });
+    expect(result.total_count).toBe(12);
+    expect(result.has_more).toBe(true);
+    expect(result.next_offset).toBe(6);
+    expect(result.output).toContain('2 tasks of 12 | more: +6');
+  });
+
+  it('should apply client-side filters and paginate locally', async () => {
+    const { listTasks } = mockClient();
+
+    const result = await handleQueryTasks({ query: "SELECT id,title WHERE title LIKE '%bug%' format=compact" });
+
+    expect(listTasks).toHaveBeenCalledWith({ limit: 500, offset: 0 });
+    expect(result.format).toBe('compact');
+    expect(result.total_count).toBe(2);
+    expect(result.output.split('\n')).toEqual([
+      '..000001\tFix login bug',
+      '..000003\tFix logout bug',
+      '2 tasks',
+    ]);
+  });
+
+  it('should fan OR conditions out into parallel API queries merged by dart_id', async () => {
+    const { listTasks } = mockClient();
+    listTasks.mockImplementation(async ({ status }: { status: string }) => {
+      const matching = tasks.filter(t => t.status === status);
+      return { tasks: matching, total: matching.length };
+    });
+
+    const result = await handleQueryTasks({ query: "status IN ('Todo', 'Doing') format=ids" });
+
+    expect(listTasks).toHaveBeenCalledTimes(2);
+    expect(listTasks).toHaveBeenCalledWith({ status: 'Todo', limit: 500, offset: 0 });
+    expect(listTasks).toHaveBeenCalledWith({ status: 'Doing', limit: 500, offset: 0 });
+    expect(result.total_count).toBe(3);
+  });
+
+  it('should select all tasks when SELECT has no WHERE clause', async () => {
+    mockClient();
+
+    const result = await handleQueryTasks({ query: 'SELECT id format=ids' });
+
+    expect(result.output).toBe('duid_task000001\nduid_task000002\nduid_task000003');
+    expect(result.returned_count).toBe(3);
+  });
+
+  it('should sort the full result set before paginating for ORDER BY', async () => {
+    const { listTasks } = mockClient();
+
+    const result = await handleQueryTasks({
+      query: "SELECT id,title WHERE tags CONTAINS 'bug' OR status = 'Doing' ORDER BY priority DESC LIMIT 2 format=compact",
+    });
+
+    expect(listTasks).toHaveBeenCalledWith({ limit: 500, offset: 0 });
+    expect(result.total_count).toBe(2);
+    expect(result.output.split('\n')).toEqual([
+      '..000001\tFix login bug',
+      '..000003\tFix logout bug',
+      '2 tasks',
+    ]);
+  });
+
+  it('should sort priority by workspace rank like WHERE compares it', async () => {
+    mockClient({
+      getConfig: vi.fn().mockResolvedValue({
+        ...emptyConfig,
+        priorities: [{ value: 1, label: 'high' }, { value: 2, label: 'medium' }, { value: 3, label: 'low' }],
+      }),
+    });
+
+    const result = await handleQueryTasks({ query: 'SELECT id ORDER BY priority DESC format=ids' });
+
+    expect(result.output).toBe('duid_task000002\nduid_task000003\nduid_task000001');
+  });
+
+  it('should sort all tasks when only result clauses are given', async () => {
+    mockClient();
+
+    const result = await handleQueryTasks({ query: 'SELECT id ORDER BY created_at DESC format=ids' });
+
+    expect(result.output).toBe('duid_task000003\nduid_task000002\nduid_task000001');
+  });
+
+  it('should keep API pagination within the LIMIT/OFFSET window', async () => {
+    const { listTasks } = mockClient();
+    listTasks.mockResolvedValue({ tasks: tasks.slice(0, 2), total: 40 });
+
+    const result = await handleQueryTasks({ query: "status = 'Todo' LIMIT 5 OFFSET 10", limit: 3, offset: 3 });
+
+    expect(listTasks).toHaveBeenCalledWith({ status: 'Todo', limit: 2, offset: 13 });
+    expect(result.total_count).toBe(5);
+    expect(result.has_more).toBe(false);
+  });
+
+  it('should resolve relative dates against DartConfig.today', async () => {
+    const getConfig = vi.fn().mockResolvedValue({ ...emptyConfig, today: '2026-01-18' });
+    const { listTasks } = mockClient({ getConfig });
+
+    await handleQueryTasks({ query: "due_at IN this_week AND status = 'Todo'" });
+
+    expect(listTasks).toHaveBeenCalledWith({
+      due_after: '2026-01-12T00:00:00.000Z',
+      due_before: '2026-01-19T00:00:00.000Z',
+      status: 'Todo',
+      limit: 50,
+      offset: 0,
+    });
+  });
+
+  it('should hydrate and expand relationships when requested', async () => {
+    const { listTasks, getTask } = mockClient();
+    listTasks.mockResolvedValue({ tasks: [tasks[0]], total: 1 });
+    getTask.mockImplementation(async (id: string) => {
+      if (id === 'duid_task000001') {
+        return { ...tasks[0], blocker_ids: ['duid_task000002'] };
+      }
+      if (id === 'duid_task000002') {
+        return tasks[1];
+      }
+      throw new Error('not found');
+    });
+
+    const result = await handleQueryTasks({ query: "SELECT id,title,+blockers WHERE status = 'Todo'" });
+
+    expect(result.output).toContain('#blk');
+    expect(result.output).toContain('blockers:');
+    expect(result.output).toContain('Write release notes');
+  });
+
+  it('should render deleted related tasks as not found and surface other fetch errors', async () => {
+    const { listTasks, getTask } = mockClient();
+    listTasks.mockResolvedValue({ tasks: [tasks[0]], total: 1 });
+    let failure = new DartAPIError('Not found', 404);
+    getTask.mockImplementation(async (id: string) => {
+      if (id === 'duid_task000001') return { ...tasks[0], blocker_ids: ['duid_gone00001'] };
+      throw failure;
+    });
+
+    const result = await handleQueryTasks({ query: "SELECT id,title,+blockers WHERE status = 'Todo'" });
+    expect(result.output).toContain('(not found)');
+
+    failure = new DartAPIError('Rate limited', 429);
+    await expect(handleQueryTasks({ query: "SELECT id,title,+blockers WHERE status = 'Todo'" })).rejects.toThrow(
+      'Rate limited'
+    );
+  });
+
+  it('should fit max_tokens by trimming columns and continuing after the tasks returned', async () => {
+    const { listTasks } = mockClient();
+    listTasks.mockResolvedValue({ tasks, total: 12 });
+
+    const result = await handleQueryTasks({
+      query: "SELECT id,title,status,tags WHERE status = 'Todo'",
+      limit: 3,
+      offset: 4,
+      max_tokens: 30,
+    });
+
+    expect(result.output.length).toBeLessThanOrEqual(120);
+    expect(result.format).toBe('compact');
+    expect(result.trimmed).toEqual(['dropped tags', 'title 10', 'compact']);
+    expect(result.returned_count).toBeLessThan(3);
+    expect(result.next_offset).toBe(4 + result.returned_count);
+    expect(result.output).toContain(`| more: +${4 + result.returned_count} | trimmed:`);
+  });
+
+  it('should reject max_tokens together with max_chars', async () => {
+    mockClient();
+    await expect(handleQueryTasks({ query: "status = 'Todo'", max_tokens: 100, max_chars: 400 }))
+      .rejects.toThrow('Give max_tokens or max_chars, not both');
+  });
+
+  it('should render a tree with the titles of parents outside the results', async () => {
+    const { listTasks, getTask } = mockClient();
+    listTasks.mockResolvedValue({
+      tasks: [
+        { ...tasks[0], parent_task: 'duid_epic00001' },
+        { ...tasks[2], parent_task: 'duid_task000001' },
+      ],
+      total: 2,
+    });
+    getTask.mockResolvedValue({ dart_id: 'duid_epic00001', title: 'Auth epic' });
+
+    const result = await handleQueryTasks({ query: "SELECT id,title,status WHERE status = 'Todo' FORMAT tree" });
+
+    expect(getTask).toHaveBeenCalledWith('duid_epic00001');
+    expect(result.output).toBe([
+      '◇ ..c00001 Auth epic (not in results) 0/2 done',
+      '└─ ..000001 Fix login bug [Todo] 0/1 done',
+      '   └─ ..000003 Fix logout bug [Todo]',
+      '2 tasks',
+    ].join('\n'));
+  });
+
+  it('should order board columns by the workspace statuses and validate group_by', async () => {
+    mockClient({
+      getConfig: vi.fn().mockResolvedValue({ ...emptyConfig, statuses: [{ dart_id: 's1', name: 'Doing' }, 'Todo'] }),
+    });
+
+    const result = await handleQueryTasks({ query: 'SELECT title FORMAT board', group_by: 'priority' });
+
+    expect(result.output.split('\n')[1]).toMatch(/^│ Doing \(1\) +│ Todo \(2\) +│$/);
+    expect(result.output).toContain('pri H (1)');
+    await expect(handleQueryTasks({ query: 'SELECT title FORMAT board', group_by: 'status' as any }))
+      .rejects.toThrow('group_by must be one of: assignee, priority');
+    await expect(handleQueryTasks({ query: 'SELECT title', group_by: 'assignee' }))
+      .rejects.toThrow('add FORMAT board');
+  });
+
+  it('should hydrate blockers and mark the workspace today on a timeline', async () => {
+    const { listTasks, getTask } = mockClient({
+      getConfig: vi.fn().mockResolvedValue({ ...emptyConfig, today: '2026-01-14' }),
+    });
+    const scheduled = [
+      { ...tasks[0], start_at: '2026-01-05', due_at: '2026-01-12' },
+      { ...tasks[1], start_at: '2026-01-10', due_at: '2026-01-16' },
+    ];
+    listTasks.mockResolvedValue({ tasks: scheduled, total: 2 });
+    getTask.mockImplementation(async (id: string) =>
+      id === 'duid_task000002' ? { ...scheduled[1], blocker_ids: ['duid_task000001'] } : scheduled[0]
+    );
+
+    const result = await handleQueryTasks({ query: "SELECT id,title WHERE status = 'Todo' FORMAT timeline" });
+    const lines = result.output.split('\n');
+
+    expect(getTask).toHaveBeenCalledTimes(2);
+    expect(lines[1]).toMatch(/┬─+┬─▼──$/);
+    expect(lines[2]).toMatch(/Fix login bug.*overdue$/);
+    expect(lines[3]).toMatch(/Write release notes.*◀ \.\.000001!$/);
+  });
+});
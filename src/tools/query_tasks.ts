@@ -0,0 +1,386 @@
+/**
+ * query_tasks Tool Handler
+ *
+ * Run a single DartQL query and return token-efficient formatted output.
+ * Combines field selection (SELECT), filtering (WHERE), relationship expansion
+ * (+field or EXPAND) and output formatting (FORMAT table|compact|csv|json|ids|markdown|checklist|tree|board|timeline).
+ */
+
+import { DartClient } from '../api/dartClient.js';
+import { fetchMatchingTasks, createTaskBatchFetcher } from '../api/taskFetcher.js';
+import { handleGetConfig } from './get_config.js';
+import {
+  convertToFilters,
+  applyResultClauses,
+  hasRelativeDates,
+  needsTaskResolution,
+  resolveTaskFields,
+  createBindings,
+  ConvertToFiltersResult,
+} from '../parsers/dartql.js';
+import { createDateContext } from '../parsers/relativeDates.js';
+import {
+  parseQuery,
+  formatTasks,
+  formatTasksWithinBudget,
+  resolveCharBudget,
+  expandRelationships,
+  formatExpandedAsNested,
+  abbreviateId,
+  type ExpandedTask,
+  type RelationshipType,
+  type TaskBatchFetcher,
+} from '../formatters/index.js';
+import {
+  QueryTasksInput,
+  QueryTasksOutput,
+  DartTask,
+  DartAPIError,
+  ValidationError,
+  getStatusNames,
+} from '../types/index.js';
+
+/** Fields whose values only come back from get_task (list API omits relationships) */
+const RELATIONSHIP_COUNT_FIELDS = [
+  '#subtasks', '#blockers', '#blocking', '#dups', '#related',
+  'subtask_count', 'blocker_count',
+];
+
+/** Board swimlanes accepted by group_by */
+const BOARD_GROUP_BY = ['assignee', 'priority'];
+
+/** Safety limit when a query needs client-side filtering or sorting */
+const MAX_SCANNED_TASKS = 10000;
+
+/**
+ * Handle query_tasks tool calls
+ *
+ * Flow:
+ * 1. Parse the statement into field selection, WHERE expression, result
+ *    clauses, format and expansions (parseQuery)
+ * 2. Convert the WHERE expression to API filters + client-side filter
+ * 3. Page through DartClient.listTasks() (single page when one API query is
+ *    exact and no ORDER BY is given; OR/IN fan-out runs queries in parallel),
+ *    then apply ORDER BY / LIMIT / OFFSET
+ * 4. Hydrate relationship data and expand related task titles when requested
+ * 5. Render with formatTasks() including the pagination footer
+ *
+ * @param input - QueryTasksInput with DartQL query and pagination
+ * @returns QueryTasksOutput with formatted output and pagination metadata
+ */
+export async function handleQueryTasks(input: QueryTasksInput): Promise<QueryTasksOutput> {
+  const safeInput = input || ({} as QueryTasksInput);
+
+  if (!safeInput.query || typeof safeInput.query !== 'string' || safeInput.query.trim() === '') {
+    throw new ValidationError(
+      'query is required and must be a non-empty DartQL string (e.g., "SELECT id,title WHERE status = \'Todo\'")',
+      'query'
+    );
+  }
+
+  const DART_TOKEN = process.env.DART_TOKEN;
+
+  if (!DART_TOKEN) {
+    throw new DartAPIError(
+      'DART_TOKEN environment variable is required. Get your token from: https://app.dartai.com/?settings=account',
+      401
+    );
+  }
+
+  const limit = validateLimit(safeInput.limit);
+  const offset = validateOffset(safeInput.offset);
+  const maxChars = resolveCharBudget(safeInput);
+
+  // ============================================================================
+  // Step 1: Parse the SELECT statement
+  // ============================================================================
+  // Workspace config binds `me` and resolves relative dates (DartConfig.today),
+  // the status/dartboard/tag/assignee vocabulary and priority/size ranks
+  const config = await handleGetConfig({ cache_bust: false });
+  const parsed = parseQuery(safeInput.query, createBindings(config, safeInput.params));
+
+  if (parsed.errors.length > 0) {
+    throw new ValidationError(
+      `DartQL parse errors: ${parsed.errors.join('; ')}`,
+      'query',
+      parsed.errors
+    );
+  }
+
+  const { selection, statement } = parsed;
+
+  if (safeInput.group_by !== undefined) {
+    if (!BOARD_GROUP_BY.includes(safeInput.group_by)) {
+      throw new ValidationError(`group_by must be one of: ${BOARD_GROUP_BY.join(', ')}`, 'group_by');
+    }
+    if (selection.format !== 'board') {
+      throw new ValidationError('group_by sets board swimlanes; add FORMAT board to the query', 'group_by');
+    }
+  }
+
+  // ============================================================================
+  // Step 2: Convert the WHERE expression to filters
+  // ============================================================================
+  let filterResult: ConvertToFiltersResult = {
+    apiFilters: {},
+    requiresClientSide: false,
+    warnings: [],
+    errors: [],
+  };
+
+  if (statement.where) {
+    const dateContext = hasRelativeDates(statement.where) ? createDateContext({ today: config.today }) : undefined;
+    filterResult = convertToFilters(statement.where, {
+      orderBy: statement.orderBy,
+      limit: statement.limit,
+      offset: statement.offset,
+      dateContext,
+      config,
+    });
+
+    if (filterResult.errors.length > 0) {
+      throw new ValidationError(
+        `DartQL conversion errors: ${filterResult.errors.join('; ')}`,
+        'query',
+        filterResult.errors
+      );
+    }
+  } else {
+    // "SELECT ... ORDER BY ... LIMIT ..." without a filter expression selects all tasks
+    const sortFields = statement.orderBy?.map(key => key.field) ?? [];
+    filterResult = {
+      ...filterResult,
+      orderBy: statement.orderBy,
+      limit: statement.limit,
+      offset: statement.offset,
+      // ORDER BY depth or a relationship count resolves the tasks before sorting
+      resolveRelated: needsTaskResolution(sortFields)
+        ? (tasks, fetchTasks) => resolveTaskFields(tasks, sortFields, fetchTasks)
+        : undefined,
+    };
+  }
+
+  // ============================================================================
+  // Step 3: Fetch matching tasks
+  // ============================================================================
+  const client = new DartClient({ token: DART_TOKEN });
+
+  let pageTasks: DartTask[];
+  let totalCount: number;
+
+  try {
+    if (!filterResult.requiresClientSide && !filterResult.orderBy && !filterResult.apiFilterSets) {
+      // API filters are exact - let the API paginate within the LIMIT/OFFSET window
+      const queryOffset = filterResult.offset ?? 0;
+      const queryLimit = filterResult.limit ?? Infinity;
+      const pageSize = Math.min(limit, queryLimit - offset);
+
+      const response = await client.listTasks({
+        ...filterResult.apiFilters,
+        limit: Math.max(pageSize, 1),
+        offset: queryOffset + offset,
+      });
+      pageTasks = pageSize > 0 ? (response.tasks || []).slice(0, pageSize) : [];
+      totalCount = Math.min(Math.max((response.total || 0) - queryOffset, 0), queryLimit);
+    } else {
+      // Client-side filter, sort or fan-out - scan all candidates, then paginate locally
+      const candidates = await fetchMatchingTasks(client, filterResult, {
+        maxTasks: MAX_SCANNED_TASKS,
+        onLimitExceeded: () =>
+          new ValidationError(
+            `Query scans too many tasks (>${MAX_SCANNED_TASKS.toLocaleString('en-US')}). Please narrow your WHERE clause with API-supported filters.`,
+            'query'
+          ),
+      });
+      const matching = applyResultClauses(candidates, filterResult, config);
+      totalCount = matching.length;
+      pageTasks = matching.slice(offset, offset + limit);
+    }
+  } catch (error) {
+    if (error instanceof DartAPIError) {
+      throw new DartAPIError(
+        `Failed to fetch matching tasks: ${error.message}`,
+        error.statusCode,
+        error.response
+      );
+    }
+    throw error;
+  }
+
+  // ============================================================================
+  // Step 4: Hydrate relationships and expand related titles
+  // ============================================================================
+  const fetchTask = async (dartId: string): Promise<DartTask | null> => {
+    try {
+      return await client.getTask(dartId);
+    } catch (error) {
+      // Deleted tasks are rendered as "(not found)"; other failures surface
+      if (error instanceof DartAPIError && error.statusCode === 404) return null;
+      throw error;
+    }
+  };
+  // Hydration and expansion share one fetcher (and its lookup limit)
+  const fetchTasks = createTaskBatchFetcher(client);
+
+  const expand = selection.expand as RelationshipType[];
+  // The timeline format draws blocker edges from blocker_ids
+  const needsRelationships = expand.length > 0 || selection.format === 'timeline' ||
+    selection.fields.some(f => RELATIONSHIP_COUNT_FIELDS.includes(f));
+
+  // depth and open blockers are only set on tasks when the query needed them
+  // for filtering or sorting
+  const unresolved = selection.fields.filter(field =>
+    (field === 'depth' && pageTasks.some(task => task.depth === undefined)) ||
+    (field === 'has_open_blockers' && pageTasks.some(task => task.open_blocker_count === undefined))
+  );
+  if (unresolved.length > 0) {
+    pageTasks = await resolveTaskFields(pageTasks, unresolved, fetchTasks);
+  }
+
+  let tasks: ExpandedTask[] = pageTasks;
+  if (needsRelationships && pageTasks.length > 0) {
+    // The list endpoint does not return taskRelationships
+    const fullTasks = await fetchTasks(pageTasks.map(task => task.dart_id));
+    tasks = pageTasks.map(task => ({ ...task, ...fullTasks.get(task.dart_id) }));
+  }
+  if (expand.length > 0) {
+    tasks = await expandRelationships(tasks, { expand, fetchTask, fetchTasks });
+  }
+
+  // The tree format groups tasks whose parent is not on this page under the parent's title
+  if (selection.format === 'tree') {
+    tasks = await expandMissingParents(tasks, fetchTask, fetchTasks);
+  }
+
+  // ============================================================================
+  // Step 5: Format output
+  // ============================================================================
+  const formatOptions = {
+    fields: selection.fields,
+    format: selection.format,
+    truncate_title: selection.truncate_title,
+    total_count: totalCount,
+    has_more: offset + limit < totalCount,
+    offset,
+    // Board columns follow the workspace's status order
+    statuses: getStatusNames(config.statuses || []),
+    group_by: safeInput.group_by,
+    // Timeline marks today in the workspace timezone
+    ...(selection.format === 'timeline' && { today: createDateContext({ today: config.today }).today }),
+  };
+  const warnings = [...filterResult.warnings];
+
+  // Over max_tokens/max_chars: fewer columns, narrower titles, compact, then fewer tasks
+  const budgeted = maxChars !== undefined
+    ? formatTasksWithinBudget(tasks, maxChars, formatOptions)
+    : undefined;
+  const format = budgeted?.format ?? selection.format;
+  const returnedCount = budgeted?.returned_count ?? tasks.length;
+  const hasMore = budgeted?.has_more ?? formatOptions.has_more;
+  let output = budgeted?.output ?? formatTasks(tasks, formatOptions);
+
+  if (expand.length > 0 && (format === 'table' || format === 'compact')) {
+    const expansionLines = renderExpansions(tasks.slice(0, returnedCount), expand);
+    const expansions = '\n\n' + expansionLines.join('\n');
+    if (expansionLines.length > 0 && maxChars !== undefined && output.length + expansions.length > maxChars) {
+      warnings.push('Expanded relationships were left out to fit the output budget');
+    } else if (expansionLines.length > 0) {
+      output += expansions;
+    }
+  }
+
+  return {
+    output,
+    format,
+    total_count: totalCount,
+    returned_count: returnedCount,
+    has_more: hasMore,
+    next_offset: hasMore ? offset + (budgeted ? returnedCount : limit) : null,
+    warnings,
+    ...(budgeted && budgeted.trimmed.length > 0 && { trimmed: budgeted.trimmed }),
+  };
+}
+
+/**
+ * Validate and normalize limit parameter
+ */
+function validateLimit(limit?: number): number {
+  if (limit === undefined || limit === null) {
+    return 50; // Default limit
+  }
+
+  if (typeof limit !== 'number' || !Number.isInteger(limit)) {
+    throw new ValidationError('limit must be an integer', 'limit');
+  }
+
+  if (limit < 1) {
+    throw new ValidationError('limit must be at least 1', 'limit');
+  }
+
+  if (limit > 500) {
+    throw new ValidationError('limit must not exceed 500 (max allowed)', 'limit');
+  }
+
+  return limit;
+}
+
+/**
+ * Validate and normalize offset parameter
+ */
+function validateOffset(offset?: number): number {
+  if (offset === undefined || offset === null) {
+    return 0; // Default offset
+  }
+
+  if (typeof offset !== 'number' || !Number.isInteger(offset)) {
+    throw new ValidationError('offset must be an integer', 'offset');
+  }
+
+  if (offset < 0) {
+    throw new ValidationError('offset must be non-negative', 'offset');
+  }
+
+  return offset;
+}
+
+/**
+ * Expand the parent of each task whose parent_task is not among the tasks
+ */
+async function expandMissingParents(
+  tasks: ExpandedTask[],
+  fetchTask: (dartId: string) => Promise<DartTask | null>,
+  fetchTasks: TaskBatchFetcher
+): Promise<ExpandedTask[]> {
+  const ids = new Set(tasks.map(task => task.dart_id));
+  const orphans = tasks.filter(task => task.parent_task && !ids.has(task.parent_task));
+  if (orphans.length === 0) return tasks;
+
+  const expanded = await expandRelationships(orphans, { expand: ['parent'], fetchTask, fetchTasks });
+  const parents = new Map(expanded.map(task => [task.dart_id, task._parent]));
+  return tasks.map(task => (parents.has(task.dart_id) ? { ...task, _parent: parents.get(task.dart_id) } : task));
+}
+
+/**
+ * Render expanded relationship titles as nested lists below the main output
+ */
+function renderExpansions(tasks: ExpandedTask[], expand: RelationshipType[]): string[] {
+  const lines: string[] = [];
+
+  for (const task of tasks) {
+    const taskLines: string[] = [];
+
+    for (const rel of expand) {
+      const summaries = task[`_${rel}` as keyof ExpandedTask] as ExpandedTask['_subtasks'];
+      const nested = formatExpandedAsNested(summaries, '    ');
+      if (nested.length > 0) {
+        taskLines.push(`  ${rel}:`, ...nested);
+      }
+    }
+
+    if (taskLines.length > 0) {
+      lines.push(`${abbreviateId(task.dart_id)} ${task.title}`, ...taskLines);
+    }
+  }
+
+  return lines;
+}
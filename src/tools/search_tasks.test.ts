@@ -0,0 +1,130 @@
+/**
+ * search_tasks Tool Handler Tests
+ *
+ * Tests for the DartQL where pre-filter (API pushdown + residual)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleSearchTasks } from './search_tasks.js';
+import { DartClient } from '../api/dartClient.js';
+import { configCache } from '../cache/configCache.js';
+
+// Mock DartClient
+vi.mock('../api/dartClient.js');
+
+const emptyConfig = {
+  assignees: [],
+  dartboards: [],
+  statuses: [],
+  tags: [],
+  priorities: [],
+  sizes: [],
+  folders: [],
+};
+
+const tasks = [
+  { dart_id: 'duid_task000001', title: 'Fix login bug', status: 'Todo', priority: 'high', tags: ['bug'] },
+  { dart_id: 'duid_task000002', title: 'Login page copy', status: 'Todo', priority: 'low', tags: ['docs'] },
+  { dart_id: 'duid_task000003', title: 'Fix logout bug', status: 'Todo', priority: 'high', tags: ['bug'] },
+];
+
+const boardConfig = {
+  ...emptyConfig,
+  dartboards: [
+    { dart_id: 'duid_board_eng', name: 'Engineering' },
+    { dart_id: 'duid_board_des', name: 'Design' },
+  ],
+};
+
+function mockClient(config: object = emptyConfig) {
+  const listTasks = vi.fn().mockResolvedValue({ tasks, total: tasks.length });
+  vi.mocked(DartClient).mockImplementation(() => ({
+    listTasks,
+    getConfig: vi.fn().mockResolvedValue(config),
+  } as any));
+  return { listTasks };
+}
+
+describe('search_tasks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    configCache.invalidate();
+    process.env.DART_TOKEN = 'dsa_test_token';
+  });
+
+  it('should search all tasks when no where clause is given', async () => {
+    const { listTasks } = mockClient();
+
+    const result = await handleSearchTasks({ query: 'login' });
+
+    expect(listTasks).toHaveBeenCalledWith({ dartboard: undefined, limit: 500, offset: 0, detail_level: 'full' });
+    expect(result.total_results).toBe(2);
+  });
+
+  it('should push API-compatible where conditions down and filter the residual locally', async () => {
+    const { listTasks } = mockClient();
+
+    const result = await handleSearchTasks({
+      query: 'login',
+      where: "status = 'Todo' AND tags CONTAINS 'bug'",
+    });
+
+    expect(listTasks).toHaveBeenCalledWith({
+      status: 'Todo',
+      dartboard: undefined,
+      limit: 500,
+      offset: 0,
+      detail_level: 'full',
+    });
+    expect(result.tasks.map(t => t.dart_id)).toEqual(['duid_task000001']);
+  });
+
+  it('should reject an invalid where clause before fetching', async () => {
+    const { listTasks } = mockClient();
+
+    await expect(handleSearchTasks({ query: 'login', where: "stauts = 'Todo'" })).rejects.toThrow('DartQL parse errors');
+    expect(listTasks).not.toHaveBeenCalled();
+  });
+
+  it('should reject a dartboard that contradicts the where clause', async () => {
+    const { listTasks } = mockClient(boardConfig);
+
+    await expect(
+      handleSearchTasks({ query: 'login', dartboard: 'Engineering', where: "dartboard = 'Design'" })
+    ).rejects.toThrow('dartboard conflicts with the where clause');
+    expect(listTasks).not.toHaveBeenCalled();
+  });
+
+  it('should accept a dartboard the where clause agrees with', async () => {
+    const { listTasks } = mockClient(boardConfig);
+
+    await handleSearchTasks({ query: 'login', dartboard: 'Engineering', where: "dartboard = 'engineering'" });
+
+    expect(listTasks).toHaveBeenCalledWith({ dartboard: 'duid_board_eng', limit: 500, offset: 0, detail_level: 'full' });
+  });
+
+  it('should page through ranked results with offset', async () => {
+    mockClient();
+
+    const first = await handleSearchTasks({ query: 'login', limit: 1 });
+    const second = await handleSearchTasks({ query: 'login', limit: 1, offset: 1 });
+
+    expect(first.has_more).toBe(true);
+    expect(first.next_offset).toBe(1);
+    expect(second.tasks.map(t => t.dart_id)).not.toEqual(first.tasks.map(t => t.dart_id));
+    expect(second.has_more).toBe(false);
+    expect(second.next_offset).toBeNull();
+  });
+
+  it('should return fewer results to fit max_chars and continue after them', async () => {
+    mockClient();
+
+    const result = await handleSearchTasks({ query: 'login', max_chars: 500 });
+
+    expect(result.tasks).toHaveLength(1);
+    expect(result.total_results).toBe(2);
+    expect(result.next_offset).toBe(1);
+    expect(result.trimmed).toEqual(['descriptions', 'first 1 of 2 tasks']);
+    expect(JSON.stringify(result, null, 2).length).toBeLessThanOrEqual(500);
+  });
+});
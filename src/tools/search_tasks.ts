@@ -6,14 +6,27 @@
  */
 
 import { DartClient } from '../api/dartClient.js';
+import { fetchMatchingTasks } from '../api/taskFetcher.js';
 import { configCache } from '../cache/configCache.js';
+import { handleGetConfig } from './get_config.js';
+import {
+  parseDartQLToAST,
+  convertToFilters,
+  hasRelativeDates,
+  createBindings,
+  ConvertToFiltersResult,
+} from '../parsers/dartql.js';
+import { createDateContext } from '../parsers/relativeDates.js';
+import { resolveCharBudget } from '../formatters/index.js';
 import {
   DartTask,
   DartAPIError,
   ValidationError,
   SearchTasksInput,
   SearchTasksOutput,
+  DartBoard,
   findDartboard,
+  getDartboardId,
   getDartboardNames,
 } from '../types/index.js';
 
@@ -23,11 +36,13 @@ import {
  * Flow:
  * 1. Parse query string (extract phrases, exclusions, terms)
  * 2. Try Dart API search endpoint if available
- * 3. Fallback: list_tasks + client-side search
+ * 3. Fallback: list_tasks + client-side search (narrowed by the optional
+ *    DartQL where clause - API-compatible parts are pushed down)
  * 4. Calculate relevance scores for each match
  * 5. Sort by relevance descending
  * 6. Apply progressive detail levels based on relevance
- * 7. Return search results with metadata
+ * 7. Fit max_tokens/max_chars: drop descriptions, then return fewer tasks
+ * 8. Return search results with metadata
  */
 export async function handleSearchTasks(input: SearchTasksInput): Promise<SearchTasksOutput> {
   // Defensive input handling
@@ -65,8 +80,10 @@ export async function handleSearchTasks(input: SearchTasksInput): Promise<Search
     );
   }
 
-  // Validate limit
+  // Validate pagination and output budget
   const limit = validateLimit(safeInput.limit);
+  const offset = validateOffset(safeInput.offset);
+  const maxChars = resolveCharBudget(safeInput);
 
   // Resolve dartboard if provided
   let dartboardId: string | undefined;
@@ -74,12 +91,19 @@ export async function handleSearchTasks(input: SearchTasksInput): Promise<Search
     dartboardId = await resolveDartboard(safeInput.dartboard, client);
   }
 
+  // Parse optional DartQL pre-filter
+  const filterResult = safeInput.where !== undefined ? await parseWhere(safeInput.where) : undefined;
+  if (filterResult && dartboardId) {
+    const config = await handleGetConfig({ cache_bust: false });
+    alignDartboardFilters(filterResult, dartboardId, config.dartboards ?? []);
+  }
+
   // Try API search endpoint first (if available in future)
   // For now, we'll use client-side search as fallback
   const searchMethod = 'client_side'; // TODO: Implement API search when endpoint is available
 
-  // Fetch all tasks for client-side search
-  const tasks = await fetchAllTasks(client, dartboardId, safeInput.include_completed);
+  // Fetch all tasks for client-side search (narrowed by the where clause)
+  const tasks = await fetchAllTasks(client, dartboardId, safeInput.include_completed, filterResult);
 
   // Perform client-side search with relevance scoring
   const searchResults = performClientSideSearch(tasks, queryParsed);
@@ -87,18 +111,63 @@ export async function handleSearchTasks(input: SearchTasksInput): Promise<Search
   // Sort by relevance descending
   searchResults.sort((a, b) => b.relevance_score - a.relevance_score);
 
-  // Apply limit
-  const limitedResults = searchResults.slice(0, limit);
+  // Apply pagination
+  const limitedResults = searchResults.slice(offset, offset + limit);
+  const hasMore = offset + limit < searchResults.length;
 
   // Apply progressive detail levels based on relevance
   const resultsWithDetail = applyProgressiveDetail(limitedResults);
 
-  return {
+  const output: SearchTasksOutput = {
     tasks: resultsWithDetail,
     total_results: searchResults.length,
     query_parsed: queryParsed,
     search_method: searchMethod,
+    has_more: hasMore,
+    next_offset: hasMore ? offset + limit : null,
   };
+
+  if (maxChars === undefined || measure(output) <= maxChars) {
+    return output;
+  }
+  return fitToBudget(output, maxChars, offset);
+}
+
+/** Characters in the tool response (index.ts prints results indented by 2) */
+function measure(output: SearchTasksOutput): number {
+  return JSON.stringify(output, null, 2).length;
+}
+
+/**
+ * Shrink an over-budget response: drop descriptions, then keep only as many
+ * of the best matches as fit (at least one)
+ */
+function fitToBudget(output: SearchTasksOutput, maxChars: number, offset: number): SearchTasksOutput {
+  const fitted: SearchTasksOutput = {
+    ...output,
+    tasks: output.tasks.map(({ description: _description, ...task }) => task as DartTask & { relevance_score: number }),
+    trimmed: ['descriptions'],
+  };
+  if (measure(fitted) <= maxChars) return fitted;
+
+  const withCount = (count: number): SearchTasksOutput => count >= fitted.tasks.length ? fitted : {
+    ...fitted,
+    tasks: fitted.tasks.slice(0, count),
+    has_more: true,
+    next_offset: offset + count,
+    trimmed: ['descriptions', `first ${count} of ${fitted.tasks.length} tasks`],
+  };
+
+  // Largest task count that fits, found by bisection
+  let low = Math.min(1, fitted.tasks.length);
+  let high = fitted.tasks.length;
+  while (low < high) {
+    const count = Math.ceil((low + high) / 2);
+    if (measure(withCount(count)) <= maxChars) low = count;
+    else high = count - 1;
+  }
+
+  return withCount(low);
 }
 
 /**
@@ -174,6 +243,61 @@ function validateLimit(limit?: number): number {
   return limit;
 }
 
+/**
+ * Validate offset parameter
+ */
+function validateOffset(offset?: number): number {
+  if (offset === undefined || offset === null) {
+    return 0; // Default offset
+  }
+
+  if (typeof offset !== 'number' || !Number.isInteger(offset)) {
+    throw new ValidationError('offset must be an integer', 'offset');
+  }
+
+  if (offset < 0) {
+    throw new ValidationError('offset must be non-negative', 'offset');
+  }
+
+  return offset;
+}
+
+/**
+ * Parse the DartQL where clause into API filters plus a residual client-side filter
+ */
+async function parseWhere(where: string): Promise<ConvertToFiltersResult> {
+  if (typeof where !== 'string' || where.trim() === '') {
+    throw new ValidationError('where must be a non-empty DartQL expression', 'where');
+  }
+
+  // Workspace config binds `me` and resolves relative dates (DartConfig.today),
+  // the status/dartboard/tag/assignee vocabulary and priority/size ranks
+  const config = await handleGetConfig({ cache_bust: false });
+  const parseResult = parseDartQLToAST(where, createBindings(config));
+
+  if (parseResult.errors.length > 0) {
+    throw new ValidationError(
+      `DartQL parse errors: ${parseResult.errors.join('; ')}`,
+      'where',
+      parseResult.errors
+    );
+  }
+
+  const dateContext = hasRelativeDates(parseResult.ast) ? createDateContext({ today: config.today }) : undefined;
+
+  const filterResult = convertToFilters(parseResult.ast, { dateContext, config });
+
+  if (filterResult.errors.length > 0) {
+    throw new ValidationError(
+      `DartQL conversion errors: ${filterResult.errors.join('; ')}`,
+      'where',
+      filterResult.errors
+    );
+  }
+
+  return filterResult;
+}
+
 /**
  * Resolve dartboard name or dart_id to dart_id
  */
@@ -220,40 +344,59 @@ async function resolveDartboard(dartboard: string, client: DartClient): Promise<
   return typeof matchedDartboard === 'string' ? matchedDartboard : matchedDartboard.dart_id;
 }
 
+/**
+ * Reconcile the dartboard parameter with dartboard conditions the where clause
+ * pushes down. A condition naming the same board is rewritten to its dart_id so
+ * both agree; a different board is a contradiction and is rejected rather than
+ * letting either side win.
+ */
+function alignDartboardFilters(
+  filter: Pick<ConvertToFiltersResult, 'apiFilters' | 'apiFilterSets' | 'setOperation'>,
+  dartboardId: string,
+  dartboards: (DartBoard | string)[]
+): void {
+  if (filter.setOperation) {
+    alignDartboardFilters(filter.setOperation.left, dartboardId, dartboards);
+    alignDartboardFilters(filter.setOperation.right, dartboardId, dartboards);
+    return;
+  }
+
+  for (const filters of [filter.apiFilters, ...(filter.apiFilterSets ?? [])]) {
+    if (filters.dartboard === undefined) continue;
+
+    const matched = findDartboard(dartboards, filters.dartboard);
+    if (!matched || getDartboardId(matched) !== dartboardId) {
+      throw new ValidationError(
+        `dartboard conflicts with the where clause (dartboard = '${filters.dartboard}'). Remove one of them or make them agree.`,
+        'dartboard'
+      );
+    }
+    filters.dartboard = dartboardId;
+  }
+}
+
 /**
  * Fetch all tasks for client-side search
- * Uses pagination to fetch all tasks (up to reasonable limit)
+ * Uses pagination to fetch all tasks (up to reasonable limit). A where clause
+ * narrows the fetch with API filters (fanned out for OR/IN) and its residual
+ * is applied to the results.
  */
 async function fetchAllTasks(
   client: DartClient,
   dartboardId?: string,
-  includeCompleted?: boolean
+  includeCompleted?: boolean,
+  filterResult: Pick<
+    ConvertToFiltersResult,
+    'apiFilters' | 'apiFilterSets' | 'clientFilter' | 'resolveRelated' | 'setOperation'
+  > = { apiFilters: {} }
 ): Promise<DartTask[]> {
-  const allTasks: DartTask[] = [];
-  const fetchLimit = 500; // Max per request
-  const maxTotalTasks = 10000; // Safety limit to prevent memory issues
-  let offset = 0;
-  let hasMore = true;
-
-  while (hasMore && allTasks.length < maxTotalTasks) {
-    const response = await client.listTasks({
-      dartboard: dartboardId,
-      limit: fetchLimit,
-      offset,
+  const allTasks = await fetchMatchingTasks(client, filterResult, {
+    maxTasks: 10000, // Safety limit to prevent memory issues
+    extraFilters: {
+      ...(dartboardId ? { dartboard: dartboardId } : {}),
       detail_level: 'full', // Need full text for search
-    });
-
-    allTasks.push(...response.tasks);
-
-    // Check if we have more tasks to fetch
-    hasMore = offset + fetchLimit < response.total;
-    offset += fetchLimit;
-
-    // Safety break
-    if (allTasks.length >= maxTotalTasks) {
-      break;
-    }
-  }
+    },
+  });
 
   // Filter out completed tasks if not included
   if (!includeCompleted) {
@@ -15,6 +15,7 @@
 
 import { DartClient } from '../api/dartClient.js';
 import { handleGetConfig } from './get_config.js';
+import { validateCustomProperties } from '../parsers/customProperties.js';
 import {
   UpdateTaskInput,
   UpdateTaskOutput,
@@ -473,6 +474,16 @@ export async function handleUpdateTask(input: UpdateTaskInput): Promise<UpdateTa
     resolvedUpdates.related_ids = relatedIds;
   }
 
+  // ============================================================================
+  // Step 12b: Validate custom properties by type and options
+  // ============================================================================
+  if (input.updates.custom_properties !== undefined) {
+    resolvedUpdates.custom_properties = validateCustomProperties(
+      input.updates.custom_properties,
+      config.customProperties
+    );
+  }
+
   // ============================================================================
   // Step 13: Call DartClient.updateTask()
   // ============================================================================
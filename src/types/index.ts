@@ -67,6 +67,18 @@ export interface DartTask extends TaskRelationships {
   created_at: string;
   updated_at: string;
   parent_task?: string;
+  /**
+   * Levels below the top of the subtask tree (0 = no parent). Only set on
+   * tasks returned by queries that resolved the hierarchy (DartQL depth).
+   */
+  depth?: number;
+  /**
+   * Blockers without completed_at. Only set on tasks returned by queries that
+   * fetched the blockers (DartQL has_open_blockers).
+   */
+  open_blocker_count?: number;
+  /** Custom property values keyed by property name */
+  custom_properties?: Record<string, unknown>;
   url?: string;
 }
 
@@ -106,6 +118,12 @@ export interface DartSize {
   label: string;
 }
 
+export interface DartCustomProperty {
+  name: string;
+  type: string; // e.g., "Text", "Number", "Checkbox", "Date", "Select", "Multiselect", "User"
+  options?: string[]; // Select / multiselect choices
+}
+
 export interface DartDoc {
   doc_id: string;
   title: string;
@@ -145,7 +163,7 @@ export interface DartConfig {
   folders: DartFolder[];
   types?: string[];
   skills?: string[];
-  customProperties?: Array<{ name: string; type: string; options?: string[] }>;
+  customProperties?: DartCustomProperty[];
   cached_at?: string;
   cache_ttl_seconds?: number;
 }
@@ -300,6 +318,8 @@ export interface CreateTaskInput {
   duplicate_ids?: string[];
   /** IDs of tasks that are related to this task */
   related_ids?: string[];
+  /** Custom property values keyed by property name */
+  custom_properties?: Record<string, unknown>;
 }
 
 export interface CreateTaskOutput {
@@ -393,7 +413,17 @@ export interface DeleteTaskOutput {
   message: string;
 }
 
-export interface ListTasksInput {
+/**
+ * Output size limit for list_tasks, query_tasks and search_tasks. Output
+ * over budget loses low-priority detail first, then tasks; the rest is
+ * fetched from next_offset. Give one of the two (a token is ~4 chars).
+ */
+export interface OutputBudgetInput {
+  max_tokens?: number;
+  max_chars?: number;
+}
+
+export interface ListTasksInput extends OutputBudgetInput {
   assignee?: string;
   status?: string;
   dartboard?: string;
@@ -404,6 +434,10 @@ export interface ListTasksInput {
   limit?: number;
   offset?: number;
   detail_level?: 'minimal' | 'standard' | 'full';
+  /** Sort keys across all matching tasks, DartQL ORDER BY syntax: "priority DESC, created_at" */
+  order_by?: string;
+  /** Values for :name placeholders in filter values (assignee: ':owner'); assignee 'me' is the configured user */
+  params?: Record<string, DartQLParamValue>;
 
   // Relationship filters (client-side filtering)
   /**
@@ -422,6 +456,124 @@ export interface ListTasksOutput {
   has_more: boolean;
   next_offset: number | null;
   filters_applied: Record<string, unknown>;
+  /** Detail given up to fit max_tokens/max_chars, e.g. ['detail_level minimal', 'first 8 of 50 tasks'] */
+  trimmed?: string[];
+}
+
+export interface QueryTasksInput extends OutputBudgetInput {
+  /**
+   * DartQL query with optional SELECT prefix and format option, e.g.
+   * "SELECT id,title,due WHERE status = 'Todo' format=compact"
+   */
+  query: string;
+  /** Values for :name placeholders in the query */
+  params?: Record<string, DartQLParamValue>;
+  limit?: number;
+  offset?: number;
+  /** Swimlanes for FORMAT board */
+  group_by?: 'assignee' | 'priority';
+}
+
+export interface QueryTasksOutput {
+  /** Formatted result (table, compact, csv, json, ids, markdown, checklist, tree, board, or timeline) */
+  output: string;
+  format: string;
+  total_count: number;
+  returned_count: number;
+  has_more: boolean;
+  next_offset: number | null;
+  warnings: string[];
+  /** Columns, title width and format given up to fit max_tokens/max_chars */
+  trimmed?: string[];
+}
+
+export interface AggregateTasksInput {
+  /**
+   * DartQL aggregate query, e.g.
+   * "SELECT status, COUNT(*), AVG(age_days) WHERE dartboard = 'Engineering' GROUP BY status"
+   */
+  query: string;
+  /** Values for :name placeholders in the query */
+  params?: Record<string, DartQLParamValue>;
+}
+
+export interface AggregateTasksOutput {
+  /** Formatted groups (table, compact, csv, or json) */
+  output: string;
+  format: string;
+  /** Groups returned (after HAVING, LIMIT and OFFSET) */
+  group_count: number;
+  /** Tasks matching the WHERE clause */
+  task_count: number;
+  warnings: string[];
+}
+
+export interface ExplainQueryInput {
+  /** DartQL query in any form query_tasks accepts (SELECT/WHERE/format optional) */
+  query: string;
+  /** Values for :name placeholders in the query */
+  params?: Record<string, DartQLParamValue>;
+  /** Run a count probe per API query to estimate pages (default: true) */
+  probe?: boolean;
+}
+
+/** How one selector executes (each side of a set operation has its own) */
+export interface ExplainQueryPlan {
+  /** How the query executes */
+  strategy: 'api' | 'api_fan_out' | 'api_with_client_filter' | 'client_scan' | 'set_operation';
+  /** Predicates pushed to the API as single-value filters */
+  api_predicates: string[];
+  /** OR/IN predicates fanned out into parallel API queries */
+  fan_out_predicates: string[];
+  /** Predicate evaluated client-side on the fetched tasks (null when none) */
+  client_predicate: string | null;
+  /** listTasks() filters, one entry per API query (all sides for set operations) */
+  api_queries: Array<Partial<ListTasksInput>>;
+  /** Why predicates could not be pushed down */
+  reasons: string[];
+  /** getTask() lookups beyond listTasks, one request per task (relationship predicates, depth, counts) */
+  task_lookups: string[];
+  /** UNION / INTERSECT / EXCEPT: the plans of both sides, combined by dart_id */
+  set_operation?: {
+    operator: DartQLSetOperator;
+    left: ExplainQueryPlan;
+    right: ExplainQueryPlan;
+  };
+}
+
+export interface ExplainQueryOutput extends ExplainQueryPlan {
+  /** WHERE clause that was parsed (null when the query has none) */
+  where_clause: string | null;
+  /** WHERE expression as understood: canonical DartQL, relative dates and workspace names resolved */
+  canonical_where: string | null;
+  /** Parsed WHERE expression, relative dates resolved */
+  ast: DartQLExpression | null;
+  /** Field names referenced by WHERE and ORDER BY, normalized to lowercase */
+  fields: string[];
+  order_by?: DartQLOrderBy[];
+  limit?: number;
+  offset?: number;
+  /** Tasks the API returns before client-side filtering (count probe) */
+  estimated_candidates?: number;
+  /** listTasks() pages (500 tasks each) needed to fetch all candidates */
+  estimated_pages?: number;
+  /** getTask() requests task_lookups needs, estimated as one per candidate for each per-candidate lookup */
+  estimated_task_lookups?: number;
+  warnings: string[];
+}
+
+export interface CompleteQueryInput {
+  /** Partial DartQL query */
+  query: string;
+  /** Offset of the cursor in the query (default: end of the query) */
+  cursor?: number;
+  /** Maximum suggestions to return (default: 20) */
+  limit?: number;
+}
+
+export interface CompleteQueryOutput extends DartQLCompletionResult {
+  /** Suggestions before the limit was applied */
+  total: number;
 }
 
 // ============================================================================
@@ -430,23 +582,45 @@ export interface ListTasksOutput {
 
 export interface BatchUpdateTasksInput {
   selector: string; // DartQL WHERE clause
+  params?: Record<string, DartQLParamValue>; // Values for :name placeholders
   updates: Partial<Omit<DartTask, 'dart_id' | 'created_at' | 'updated_at'>>;
   dry_run?: boolean;
   concurrency?: number;
+  preview_format?: 'table' | 'compact' | 'markdown'; // Dry-run diff rendering (default: table)
+}
+
+/** A field an update changes on one task, as display values */
+export interface TaskFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/** Fields an update changes on one task; no_op when nothing would change */
+export interface TaskChangePreview {
+  dart_id: string;
+  title: string;
+  changes: TaskFieldChange[];
+  no_op: boolean;
 }
 
 export interface BatchUpdateTasksOutput {
   batch_operation_id: string;
+  /** Selector as understood: canonical DartQL, relative dates and workspace names resolved */
+  resolved_selector: string;
   selector_matched: number;
   dry_run: boolean;
-  preview_tasks?: Array<{
-    dart_id: string;
-    title: string;
-    current_values: Partial<DartTask>;
-    new_values: Partial<DartTask>;
-  }>;
+  /** First 10 matched tasks with the fields that would change (dry_run only) */
+  preview_tasks?: TaskChangePreview[];
+  /** Every matched task's changes rendered in preview_format (dry_run only) */
+  preview?: string;
+  /** Per-field counts, e.g. "42 tasks: status changes 40, 2 already Done" */
+  change_summary: string;
   successful_updates: number;
   failed_updates: number;
+  /** Tasks the update would not change; never sent to the API */
+  skipped_updates: number;
+  skipped_dart_ids: string[];
   successful_dart_ids: string[];
   failed_items: Array<{ dart_id: string; error: string; reason: string }>;
   execution_time_ms: number;
@@ -454,6 +628,7 @@ export interface BatchUpdateTasksOutput {
 
 export interface BatchDeleteTasksInput {
   selector: string;
+  params?: Record<string, DartQLParamValue>;
   dry_run?: boolean;
   confirm?: boolean;
   concurrency?: number;
@@ -461,6 +636,8 @@ export interface BatchDeleteTasksInput {
 
 export interface BatchDeleteTasksOutput {
   batch_operation_id: string;
+  /** Selector as understood: canonical DartQL, relative dates and workspace names resolved */
+  resolved_selector: string;
   selector_matched: number;
   dry_run: boolean;
   preview_tasks?: Array<{ dart_id: string; title: string }>;
@@ -575,23 +752,189 @@ export interface DeleteDocOutput {
 // DartQL Types
 // ============================================================================
 
-export type DartQLOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'IN' | 'NOT IN' | 'LIKE' | 'CONTAINS' | 'IS NULL' | 'IS NOT NULL' | 'BETWEEN';
+export type DartQLOperator =
+  | '=' | '!=' | '>' | '>=' | '<' | '<=' | 'IN' | 'NOT IN' | 'LIKE' | 'CONTAINS' | 'IS NULL' | 'IS NOT NULL' | 'BETWEEN'
+  | 'ILIKE' | 'NOT LIKE' | 'NOT ILIKE' | 'STARTS WITH' | 'ENDS WITH' | 'CONTAINS WORD' | 'MATCHES';
 export type DartQLLogicalOperator = 'AND' | 'OR' | 'NOT';
 
+/** Related tasks a quantified predicate ranges over (ANY blockers (...)) */
+export type DartQLRelationship = 'subtasks' | 'blockers' | 'blocking' | 'duplicates' | 'related' | 'parent';
+export type DartQLQuantifier = 'ANY' | 'ALL';
+
+/** Position in the subtask tree relative to a task: DESCENDANT OF 'duid_x' */
+export type DartQLHierarchyOperator = 'DESCENDANT OF' | 'ANCESTOR OF' | 'CHILD OF';
+
+/** Combines the tasks of two top-level selectors by dart_id */
+export type DartQLSetOperator = 'UNION' | 'INTERSECT' | 'EXCEPT';
+
 export interface DartQLExpression {
-  type: 'comparison' | 'logical' | 'group';
+  type: 'comparison' | 'logical' | 'group' | 'relationship' | 'hierarchy' | 'set';
   field?: string;
-  operator?: DartQLOperator | DartQLLogicalOperator;
+  operator?: DartQLOperator | DartQLLogicalOperator | DartQLHierarchyOperator | DartQLSetOperator;
   value?: unknown;
   left?: DartQLExpression;
   right?: DartQLExpression;
+  /** Group members; for relationships, the predicate on each related task */
   expressions?: DartQLExpression[];
+  relationship?: DartQLRelationship;
+  /** Omitted for parent (...), which has at most one related task */
+  quantifier?: DartQLQuantifier;
+}
+
+export type DartQLDurationUnit = 'h' | 'd' | 'w' | 'mo';
+
+/** Regular expression value of MATCHES: /^\[JIRA-\d+\]/i */
+export interface DartQLRegex {
+  kind: 'regex';
+  source: string;
+  flags: string;
+}
+
+/** Date function value: today(), now() - 7d, start_of_week() + 1w */
+export interface DartQLDateFunction {
+  kind: 'date_function';
+  fn: 'today' | 'now' | 'start_of_week' | 'start_of_month';
+  offsets: Array<{ amount: number; unit: DartQLDurationUnit }>;
+}
+
+/** Keyword range value: due_at IN this_week */
+export interface DartQLDateRange {
+  kind: 'date_range';
+  range:
+    | 'today'
+    | 'yesterday'
+    | 'tomorrow'
+    | 'this_week'
+    | 'last_week'
+    | 'next_week'
+    | 'this_month'
+    | 'last_month'
+    | 'next_month';
+}
+
+export interface DartQLOrderBy {
+  field: string;
+  direction: 'ASC' | 'DESC';
+}
+
+/**
+ * Structured DartQL problem locating the offending span of the query
+ */
+export interface DartQLDiagnostic {
+  message: string;
+  /** Offset of the first offending character in the query */
+  start: number;
+  /** Offset just past the offending span */
+  end: number;
+  severity: 'error' | 'warning';
+  /** Closest valid fields or values, best first */
+  suggestions: string[];
+}
+
+/**
+ * Suggestion for the word under the cursor of a partial DartQL query
+ */
+export interface DartQLCompletion {
+  /** Text replacing the completion span (strings come quoted: 'In Progress') */
+  text: string;
+  kind: 'field' | 'operator' | 'keyword' | 'relationship' | 'value' | 'function';
+}
+
+/**
+ * Completions for a partial query: every suggestion replaces query[start, end)
+ */
+export interface DartQLCompletionResult {
+  /** Offset of the partial word or string literal being completed */
+  start: number;
+  /** The cursor offset */
+  end: number;
+  suggestions: DartQLCompletion[];
+}
+
+/**
+ * Value bound to a :name placeholder (arrays expand to a parenthesized list
+ * for IN)
+ */
+export type DartQLParamValue = string | number | boolean | Array<string | number>;
+
+/**
+ * Values the tokenizer substitutes for placeholders. Bound values become
+ * literal tokens and are never parsed as DartQL, so quotes or keywords in
+ * them cannot change the query.
+ */
+export interface DartQLBindings {
+  /** Values for :name placeholders (checked against DartQLParamValue) */
+  params?: Record<string, unknown>;
+  /** The current user that `me` stands for (email or name) */
+  me?: string;
 }
 
 export interface DartQLParseResult {
   ast: DartQLExpression;
   fields: string[];
   errors: string[];
+  /** The errors above with positions and suggestions */
+  diagnostics?: DartQLDiagnostic[];
+  orderBy?: DartQLOrderBy[];
+  limit?: number;
+  offset?: number;
+}
+
+/** Aggregate functions of SELECT, HAVING and ORDER BY in aggregate queries */
+export type DartQLAggregateFunction = 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX';
+
+/** COUNT(*), SUM(field), ... */
+export interface DartQLAggregateCall {
+  function: DartQLAggregateFunction;
+  /** Normalized field name (null for COUNT(*)) */
+  field: string | null;
+}
+
+/** A name in a SELECT, FORMAT or EXPAND clause, with its span in the query */
+export interface DartQLSelectItem {
+  /**
+   * As written, modifiers included: 'title', '#blockers', '+subtasks', '*',
+   * 'prop.Team'; aggregates use their label: 'COUNT(*)', 'AVG(age_days)'
+   */
+  name: string;
+  start: number;
+  end: number;
+  /** Set when the item is an aggregate call */
+  aggregate?: DartQLAggregateCall;
+}
+
+/**
+ * A full query: [SELECT columns] [WHERE] expression [ORDER BY ...] [LIMIT n]
+ * [OFFSET n] [FORMAT name] [EXPAND relationships]
+ */
+export interface DartQLStatement {
+  /** SELECT columns (undefined without SELECT: default columns) */
+  select?: DartQLSelectItem[];
+  /** Filter expression (undefined when the statement has none) */
+  where?: DartQLExpression;
+  /** Source text of the filter expression */
+  whereClause?: string;
+  /** GROUP BY fields, normalized */
+  groupBy?: string[];
+  /** Filter on groups; aggregates appear as comparisons on their label (COUNT(*) > 5) */
+  having?: DartQLExpression;
+  /** Sort keys; aggregate queries may sort by an aggregate label */
+  orderBy?: DartQLOrderBy[];
+  limit?: number;
+  offset?: number;
+  /** Output format name (FORMAT compact, or format=compact) */
+  format?: DartQLSelectItem;
+  /** Relationships whose titles are fetched (EXPAND blockers, subtasks) */
+  expand?: DartQLSelectItem[];
+}
+
+export interface DartQLStatementParseResult {
+  statement: DartQLStatement;
+  /** Fields referenced by WHERE and ORDER BY */
+  fields: string[];
+  errors: string[];
+  /** The errors above with positions and suggestions */
+  diagnostics: DartQLDiagnostic[];
 }
 
 // ============================================================================
@@ -601,6 +944,8 @@ export interface DartQLParseResult {
 export interface BatchOperation {
   batch_operation_id: string;
   operation_type: 'update' | 'delete' | 'import';
+  /** Resolved selector of batch updates and deletes, for the audit trail */
+  selector?: string;
   status: 'running' | 'completed' | 'failed';
   progress: {
     completed: number;
@@ -628,11 +973,13 @@ export interface GetBatchStatusOutput {
 // Search Tasks Types
 // ============================================================================
 
-export interface SearchTasksInput {
+export interface SearchTasksInput extends OutputBudgetInput {
   query: string;
   dartboard?: string;
+  where?: string;
   include_completed?: boolean;
   limit?: number;
+  offset?: number;
 }
 
 export interface SearchTasksOutput {
@@ -644,6 +991,10 @@ export interface SearchTasksOutput {
     exclusions: string[];
   };
   search_method: 'api' | 'client_side';
+  has_more: boolean;
+  next_offset: number | null;
+  /** Detail given up to fit max_tokens/max_chars */
+  trimmed?: string[];
 }
 
 // ============================================================================